@@ -2,6 +2,7 @@
 // @ts-nocheck
 
 import { useEffect, useState } from "react";
+import { useLiveUpdates } from "../../components/useLiveUpdates";
 
 export default function AnalyticsPage() {
   const [logs, setLogs] = useState([]);
@@ -29,6 +30,11 @@ export default function AnalyticsPage() {
     loadLogs();
   }, []);
 
+  // New scans from every scanner, newest first like the initial load
+  const live = useLiveUpdates({
+    scanlog: (log) => setLogs((prev) => [log, ...prev]),
+  });
+
   // ---- CSV DOWNLOAD (client-side) ----
   function handleDownloadCsv() {
     if (!logs || logs.length === 0) {
@@ -42,6 +48,9 @@ export default function AnalyticsPage() {
       "attendeeName",
       "attendeeEmail",
       "timestamp",
+      "method",
+      "station",
+      "operator",
     ];
 
     const lines: string[] = [];
@@ -54,6 +63,9 @@ export default function AnalyticsPage() {
         log.attendeeName ?? "",
         log.attendeeEmail ?? "",
         log.timestamp ?? "",
+        log.method ?? "",
+        log.stationName ?? "",
+        log.operatorName ?? "",
       ].map((value) => {
         const str = String(value ?? "");
         const escaped = str.replace(/"/g, '""'); // escape quotes
@@ -123,6 +135,9 @@ export default function AnalyticsPage() {
             <h1 className="text-2xl font-bold">Hemisphere — Scanner Analytics</h1>
             <p className="text-sm text-slate-400">
               Overview of check-in activity based on QR scans.
+              <span className={`ml-2 text-xs ${live ? "text-emerald-400" : "text-amber-400"}`}>
+                {live ? "● Live" : "Reconnecting…"}
+              </span>
             </p>
           </div>
           <a
@@ -244,6 +259,11 @@ export default function AnalyticsPage() {
                     <div className="text-right text-slate-400">
                       <p>{d.toLocaleTimeString()}</p>
                       <p className="text-[11px]">ID: {log.attendeeId}</p>
+                      {(log.stationName || log.operatorName) && (
+                        <p className="text-[11px]">
+                          {[log.stationName, log.operatorName].filter(Boolean).join(" · ")}
+                        </p>
+                      )}
                     </div>
                   </div>
                 );
@@ -0,0 +1,19 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { SESSION_COOKIE, can, getStaffForToken } from "../lib/auth";
+
+// Every /admin page needs a signed-in staff member. Scanner-only accounts
+// are sent to the scanner instead.
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const cookieStore = await cookies();
+  const staff = await getStaffForToken(cookieStore.get(SESSION_COOKIE)?.value);
+
+  if (!staff) redirect("/login?next=/admin");
+  if (!can(staff.role, "admin:access")) redirect("/scanner");
+
+  return <>{children}</>;
+}
@@ -2,14 +2,31 @@
 // @ts-nocheck
 
 import { useEffect, useState } from "react";
+import { useLiveUpdates } from "../../components/useLiveUpdates";
+
+// Same key the admin event switcher writes
+const SELECTED_EVENT_KEY = "hemisphere-admin-event";
 
 export default function LeadsAdminPage() {
   const [leads, setLeads] = useState([]);
   const [loading, setLoading] = useState(true);
+  const [events, setEvents] = useState([]);
+  const [eventId, setEventId] = useState<string | null>(null);
+
+  async function loadEvents() {
+    try {
+      const res = await fetch("/api/events", { cache: "no-store" });
+      const data = await res.json();
+      setEvents(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Error loading events", err);
+    }
+  }
 
   async function loadLeads() {
     try {
-      const res = await fetch("/api/leads", { cache: "no-store" });
+      const query = eventId && eventId !== "all" ? `?eventId=${encodeURIComponent(eventId)}` : "";
+      const res = await fetch(`/api/leads${query}`, { cache: "no-store" });
       const data = await res.json();
     
       const sorted = [...data].sort(
@@ -26,9 +43,27 @@ export default function LeadsAdminPage() {
   }
 
   useEffect(() => {
-    loadLeads();
+    loadEvents();
+    setEventId(localStorage.getItem(SELECTED_EVENT_KEY) || "all");
   }, []);
 
+  useEffect(() => {
+    if (eventId === null) return;
+    setLoading(true);
+    loadLeads();
+  }, [eventId]);
+
+  // Leads captured at booths appear without a refresh
+  useLiveUpdates(
+    { lead: (lead) => setLeads((prev) => [lead, ...prev]) },
+    eventId && eventId !== "all" ? eventId : null
+  );
+
+  function selectEvent(value: string) {
+    localStorage.setItem(SELECTED_EVENT_KEY, value);
+    setEventId(value);
+  }
+
   function downloadCsv() {
     if (!leads || leads.length === 0) {
       alert("No leads to export yet.");
@@ -88,7 +123,7 @@ export default function LeadsAdminPage() {
           <div>
             <h1 className="text-2xl font-bold">Hemisphere — Exhibitor Leads</h1>
             <p className="text-sm text-slate-400">
-              All leads captured by exhibitors across the event.
+              Leads captured by exhibitors, for one event or all of them.
             </p>
           </div>
           <a
@@ -100,6 +135,18 @@ export default function LeadsAdminPage() {
         </header>
 
         <section className="flex justify-end gap-2">
+          <select
+            value={eventId || "all"}
+            onChange={(e) => selectEvent(e.target.value)}
+            className="mr-auto rounded bg-slate-800 border border-slate-700 px-3 py-1 text-xs text-slate-50"
+          >
+            <option value="all">All events</option>
+            {events.map((evt: any) => (
+              <option key={evt.id} value={evt.id}>
+                {evt.name}
+              </option>
+            ))}
+          </select>
           <button
             onClick={loadLeads}
             className="px-3 py-1 rounded-full bg-slate-100 text-slate-900 text-xs font-semibold"
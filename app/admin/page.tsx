@@ -1,13 +1,29 @@
 "use client";
 
 import {
+  Fragment,
   useEffect,
   useRef,
   useState,
   type ChangeEvent,
+  type CSSProperties,
   type PointerEvent as ReactPointerEvent,
+  type ReactNode,
+  type Ref,
 } from "react";
 import { QRCodeCanvas } from "qrcode.react";
+import { useLiveUpdates } from "../components/useLiveUpdates";
+import { attendeeTypeInfo, eventAttendeeTypes } from "../lib/attendeeTypes";
+import {
+  BADGE_FIELDS,
+  BADGE_FONT_FAMILY,
+  badgeSides,
+  classicElements,
+  layoutBadge,
+  type BadgeContext,
+  type BadgeSide,
+} from "../lib/badgeLayout";
+import type { AccessRule, AttendeeTypeConfig, BadgeElement, TicketCategory } from "../lib/types";
 
 type Attendee = {
   id: string;
@@ -19,18 +35,387 @@ type Attendee = {
   createdAt?: string;
   checkedIn?: boolean;
   checkedInAt?: string;
+  qrValue?: string; // signed badge payload from the API
+  customFields?: Record<string, CustomFieldValue>;
+  attendeeType?: AttendeeType;
+  ticketCategoryId?: string;
+  printedAt?: string; // last time their badge was printed
+  printCount?: number;
+  printedBy?: string; // staff id
+};
+
+type AttendeeType = string; // id of one of the event's attendee types
+
+type CustomFieldValue = string | string[] | boolean;
+
+type CustomFieldItem = {
+  id: string;
+  label: string;
+  type: "text" | "select" | "multiselect" | "checkbox" | "date";
+  required: boolean;
+  options?: string[];
+  maxLength?: number;
+  pattern?: string;
+  minDate?: string;
+  maxDate?: string;
+};
+
+const CUSTOM_FIELD_TYPES: { id: CustomFieldItem["type"]; label: string }[] = [
+  { id: "text", label: "Text" },
+  { id: "select", label: "Pick one" },
+  { id: "multiselect", label: "Pick several" },
+  { id: "checkbox", label: "Checkbox" },
+  { id: "date", label: "Date" },
+];
+
+// The event form edits fields as text; options are comma separated
+type CustomFieldDraft = {
+  id: string;
+  label: string;
+  type: CustomFieldItem["type"];
+  required: boolean;
+  options: string;
+  maxLength: string;
+  pattern: string;
+  minDate: string;
+  maxDate: string;
 };
 
+const EMPTY_CUSTOM_FIELD: CustomFieldDraft = {
+  id: "",
+  label: "",
+  type: "text",
+  required: false,
+  options: "",
+  maxLength: "",
+  pattern: "",
+  minDate: "",
+  maxDate: "",
+};
+
+function toFieldDraft(field: CustomFieldItem): CustomFieldDraft {
+  return {
+    ...EMPTY_CUSTOM_FIELD,
+    id: field.id,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    options: (field.options || []).join(", "),
+    maxLength: field.maxLength ? String(field.maxLength) : "",
+    pattern: field.pattern || "",
+    minDate: field.minDate || "",
+    maxDate: field.maxDate || "",
+  };
+}
+
+function fromFieldDraft(draft: CustomFieldDraft) {
+  return {
+    ...(draft.id ? { id: draft.id } : {}),
+    label: draft.label,
+    type: draft.type,
+    required: draft.required,
+    options: draft.options.split(",").map((o) => o.trim()).filter(Boolean),
+    maxLength: draft.maxLength ? Number(draft.maxLength) : null,
+    pattern: draft.pattern,
+    minDate: draft.minDate,
+    maxDate: draft.maxDate,
+  };
+}
+
+// How an answer reads in tables and CSV exports
+function formatCustomValue(value: CustomFieldValue | undefined) {
+  if (value === undefined) return "";
+  if (Array.isArray(value)) return value.join("; ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return value;
+}
+
 type EventItem = {
   id: string;
   name: string;
+  venue?: string;
+  timeZone?: string;
+  startDate?: string;
+  endDate?: string;
+  activationCode?: string;
+  capacity?: number | null;
+  occupancyLimit?: number | null;
+  occupancyAlertPercent?: number;
+  branding?: { logoUrl: string; primaryColor: string; accentColor: string };
+  customFields?: CustomFieldItem[];
+  attendeeTypes?: AttendeeTypeConfig[];
+  ticketCategories?: TicketCategory[];
+  archivedAt?: string;
+};
+
+// The event form edits limits as text; ids are empty until first saved
+type AttendeeTypeDraft = Omit<AttendeeTypeConfig, "limit"> & { limit: string };
+type TicketCategoryDraft = Omit<TicketCategory, "limit"> & { limit: string };
+
+const EMPTY_ATTENDEE_TYPE: AttendeeTypeDraft = { id: "", label: "", color: "#64748b", limit: "", access: {} };
+
+const EMPTY_TICKET_CATEGORY: TicketCategoryDraft = {
+  id: "",
+  label: "",
+  attendeeType: "attendee",
+  public: true,
+  limit: "",
+  access: {},
+};
+
+function toLimitDraft<T extends { limit: number | null }>({ limit, ...rest }: T) {
+  return { ...rest, limit: limit ? String(limit) : "" };
+}
+
+function fromLimitDraft<T extends { id: string; limit: string }>({ id, limit, ...rest }: T) {
+  return { ...(id ? { id } : {}), ...rest, limit: limit ? Number(limit) : null };
+}
+
+const EMPTY_EVENT_FORM = {
+  name: "",
+  venue: "",
+  timeZone: "UTC",
+  startDate: "",
+  endDate: "",
+  activationCode: "",
+  capacity: "",
+  occupancyLimit: "",
+  occupancyAlertPercent: "90",
+  logoUrl: "",
+  primaryColor: "#0f172a",
+  accentColor: "#0ea5e9",
 };
 
+// Shared with /admin/leads so both pages open on the same event
+const SELECTED_EVENT_KEY = "hemisphere-admin-event";
+
 type Exhibitor = {
+  id: string;
+  name: string;
+  boothNumber: string;
+  eventId: string;
+  contactEmails: string[];
+  logoUrl: string;
+  staff: { name: string; email: string }[];
+};
+
+type ActivationCodeItem = {
+  code: string;
+  exhibitorId: string;
+  eventId: string;
+  createdAt: string;
+  expiresAt: string;
+  usageCount: number;
+  maxDevices: number;
+  revokedAt?: string;
+  status: "active" | "expired" | "full" | "revoked";
+};
+
+const EMPTY_EXHIBITOR_FORM = {
+  name: "",
+  boothNumber: "",
+  eventId: "",
+  contactEmails: "",
+  logoUrl: "",
+  staff: "", // one "Name, email" per line
+};
+
+type StationItem = {
+  id: string;
+  eventId: string;
   name: string;
+  location: string;
+  createdAt: string;
+  archivedAt?: string;
+};
+
+const EMPTY_STATION_FORM = { name: "", location: "", eventId: "" };
+
+type SessionItem = {
+  id: string;
+  eventId: string;
+  title: string;
+  track: string;
+  room: string;
+  startsAt: string; // YYYY-MM-DDTHH:mm, event-local
+  endsAt: string;
+  capacity: number | null;
+  attendanceCount: number; // ever admitted
+  occupancy: number; // inside now
+  archivedAt?: string;
+};
+
+type SessionAttendanceItem = {
+  id: string;
+  sessionId: string;
+  attendeeId: string;
+  attendeeName: string;
+  attendeeEmail: string;
+  timestamp: string;
+  stationName?: string;
+  operatorName?: string;
+};
+
+type EntryItem = {
+  id: string;
+  direction: "in" | "out";
+  timestamp: string;
+  sessionId?: string;
+  sessionTitle?: string;
+  stationName?: string;
+  operatorName?: string;
+};
+
+type CheckinChangeItem = {
+  id: string;
+  source: "scanner" | "admin" | "undo";
+  previous: { checkedIn: boolean; checkedInAt?: string };
+  next: { checkedIn: boolean; checkedInAt?: string };
+  actorName: string;
+  stationName?: string;
+  undoesId?: string;
+  timestamp: string;
+};
+
+type AlertLevel = "ok" | "warning" | "full";
+
+type OccupancyReport = {
+  eventId: string;
+  occupancy: number;
+  limit: number | null;
+  alertPercent: number;
+  level: AlertLevel;
+  sessions: {
+    id: string;
+    title: string;
+    room: string;
+    startsAt: string;
+    endsAt: string;
+    capacity: number | null;
+    occupancy: number;
+    level: AlertLevel;
+  }[];
+};
+
+const ALERT_COLORS: Record<AlertLevel, string> = {
+  ok: "#22c55e",
+  warning: "#f59e0b",
+  full: "#f87171",
+};
+
+const EMPTY_SESSION_FORM = {
+  title: "",
+  track: "",
+  room: "",
+  startsAt: "",
+  endsAt: "",
+  capacity: "",
+  eventId: "",
+};
+
+type BoothDevice = {
+  id: string;
+  exhibitorId: string;
+  eventId: string;
   activationCode: string;
+  label: string;
+  createdAt: string;
+  lastSeenAt: string;
+};
+
+type StaffMember = {
+  id: string;
+  email: string;
+  name: string;
+  role: "owner" | "registration" | "scanner" | "analyst";
+  createdAt?: string;
+};
+
+const STAFF_ROLE_LABELS: Record<StaffMember["role"], string> = {
+  owner: "Owner",
+  registration: "Registration staff",
+  scanner: "Scanner only",
+  analyst: "Read-only analyst",
+};
+
+type AuditItem = {
+  id: string;
+  timestamp: string;
+  actorId: string | null;
+  actorName: string;
+  actorRole?: StaffMember["role"];
+  action: string;
+  targetType: string;
+  targetId: string;
+  eventId?: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  ip: string;
+  userAgent: string;
+};
+
+// Action prefixes the audit view filters by; the API matches "x." as a prefix
+const AUDIT_ACTION_GROUPS = [
+  { id: "attendee.", label: "Attendees" },
+  { id: "checkin.", label: "Check-ins" },
+  { id: "event.", label: "Events" },
+  { id: "session.", label: "Sessions" },
+  { id: "station.", label: "Stations" },
+  { id: "exhibitor.", label: "Exhibitors" },
+  { id: "activation-code.", label: "Activation codes" },
+  { id: "device.", label: "Devices" },
+  { id: "staff.", label: "Staff accounts" },
+  { id: "auth.", label: "Sign-ins" },
+];
+
+const EMPTY_AUDIT_FILTERS = { q: "", action: "", actorId: "", eventId: "", from: "", to: "" };
+
+function formatAuditValue(value: unknown) {
+  if (value === undefined || value === null || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+type ImportField = "firstName" | "lastName" | "email" | "company" | "eventId" | "ticketCategory" | "attendeeType";
+
+const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  firstName: "First name",
+  lastName: "Last name",
+  email: "Email",
+  company: "Company",
+  eventId: "Event",
+  ticketCategory: "Ticket category",
+  attendeeType: "Attendee type",
+};
+
+// Field, or registration field id, -> column index
+type ImportMapping = Record<string, number>;
+
+type ImportRowItem = {
+  row: number;
+  status: "ready" | "created" | "duplicate" | "error";
+  data: Record<ImportField, string> & { customFields?: Record<string, string> };
+  error?: string;
+  attendeeId?: string;
+};
+
+type ImportReport = {
+  dryRun: boolean;
+  headers: string[];
+  mapping: ImportMapping;
+  customFields?: CustomFieldItem[]; // the default event's, mappable to columns
+  summary: { total: number; ready: number; created: number; duplicates: number; errors: number };
+  rows: ImportRowItem[];
+};
+
+const IMPORT_STATUS_COLORS: Record<ImportRowItem["status"], string> = {
+  ready: "#38bdf8",
+  created: "#22c55e",
+  duplicate: "#f59e0b",
+  error: "#f87171",
 };
 
+// The preview table stops here; the downloadable report has every row
+const IMPORT_PREVIEW_ROWS = 500;
+
 type ScanLog = {
   attendeeId: string | number;
   attendeeName?: string;
@@ -55,6 +440,7 @@ type BadgeDesign = {
   frontLogoUrl: string;
   backLogoUrl: string;
   layoutMode: "single" | "double";
+  elements?: BadgeElement[]; // free-form layout; the classic one without
 };
 
 const DEFAULT_BADGE_WIDTH_MM = 86;
@@ -79,6 +465,106 @@ const DEFAULT_BADGE_DESIGN: BadgeDesign = {
   layoutMode: "single",
 };
 
+type BadgeTemplateItem = {
+  id: string;
+  eventId: string;
+  name: string;
+  version: number;
+  isDefault: boolean;
+  attendeeTypes: AttendeeType[];
+  design: BadgeDesign;
+  updatedAt: string;
+};
+
+type TemplateForm = { name: string; isDefault: boolean; attendeeTypes: AttendeeType[] };
+
+const EMPTY_TEMPLATE_FORM: TemplateForm = { name: "", isDefault: false, attendeeTypes: [] };
+
+// Designs were kept per browser before templates moved to the server
+const LEGACY_BADGE_DESIGN_KEY = "hemisphere-badge-design";
+
+// Sheet layouts /api/badges/pdf can print on
+const BADGE_SHEET_LAYOUTS = [
+  { id: "avery-5392", label: "Avery 5392 (6 per sheet)" },
+  { id: "avery-74541", label: "Avery 74541 (6 per sheet)" },
+  { id: "card-4x3", label: "4 x 3 in card" },
+];
+
+const EMPTY_BADGE_PDF_FORM = {
+  company: "",
+  unprinted: false,
+  layout: "avery-5392",
+  cropMarks: true,
+  markPrinted: true,
+  reissue: false,
+};
+
+// Same choice as the server: the template listing the attendee's type, else
+// the event's default
+function templateForAttendee(attendee: Attendee, templates: BadgeTemplateItem[], type: AttendeeType) {
+  const own = templates.filter((t) => t.eventId === (attendee.eventId || ""));
+  return own.find((t) => t.attendeeTypes.includes(type)) || own.find((t) => t.isDefault) || null;
+}
+
+type BadgeElementPreset = "text" | "field" | "image" | "shape" | "qr" | "ribbon";
+
+const BADGE_ELEMENT_PRESETS: { id: BadgeElementPreset; label: string }[] = [
+  { id: "field", label: "Field" },
+  { id: "text", label: "Text" },
+  { id: "image", label: "Image" },
+  { id: "shape", label: "Shape" },
+  { id: "qr", label: "QR code" },
+  { id: "ribbon", label: "Ribbon" },
+];
+
+// Starting point for an element added in the designer, near the top left
+function newBadgeElement(preset: BadgeElementPreset, design: BadgeDesign, side: BadgeSide): BadgeElement {
+  const base = { id: `el-${Math.random().toString(36).slice(2, 10)}`, side, xMm: 6, yMm: 6 };
+  switch (preset) {
+    case "field":
+      return {
+        ...base,
+        kind: "text",
+        widthMm: Math.min(60, design.badgeWidthMm - 12),
+        heightMm: 14,
+        text: "{fullName}",
+        fontSizeMm: 6,
+        minFontSizeMm: 3,
+        bold: true,
+        maxLines: 2,
+        color: design.textColor,
+      };
+    case "text":
+      return { ...base, kind: "text", widthMm: 40, heightMm: 6, text: "Text", fontSizeMm: 4, color: design.textColor };
+    case "image":
+      return { ...base, kind: "image", widthMm: 20, heightMm: 20, imageUrl: "" };
+    case "shape":
+      return { ...base, kind: "shape", widthMm: 20, heightMm: 10, fill: design.accentColor, radiusMm: 2 };
+    case "qr":
+      return { ...base, kind: "qr", widthMm: 30, heightMm: 30, fill: "#ffffff", stroke: design.borderColor, radiusMm: 2 };
+    case "ribbon":
+      return {
+        ...base,
+        kind: "ribbon",
+        xMm: 0,
+        yMm: design.badgeHeightMm - 10,
+        widthMm: design.badgeWidthMm,
+        heightMm: 10,
+        fontSizeMm: 4.5,
+        bold: true,
+        color: "#ffffff",
+      };
+  }
+}
+
+function elementLabel(element: BadgeElement) {
+  if (element.kind === "text") return element.text?.trim() || "Text";
+  if (element.kind === "image") return "Image";
+  if (element.kind === "shape") return "Shape";
+  if (element.kind === "qr") return "QR code";
+  return "Ribbon";
+}
+
 export default function CheckInPage() {
   const [attendees, setAttendees] = useState<Attendee[]>([]);
   const [loading, setLoading] = useState(false);
@@ -91,29 +577,123 @@ export default function CheckInPage() {
   const [statusFilter, setStatusFilter] = useState("all"); // all | checkedIn | notCheckedIn
   const [eventFilter, setEventFilter] = useState("all");
   const [companyFilter, setCompanyFilter] = useState("all");
+  const [typeFilter, setTypeFilter] = useState("all"); // all | attendee type id
   const [events, setEvents] = useState<EventItem[]>([]);
   const [exhibitors, setExhibitors] = useState<Exhibitor[]>([]);
   const [exhibitorSearch, setExhibitorSearch] = useState("");
   const [activeSection, setActiveSection] = useState<
-    "badgeDesigner" | "checkin" | "exhibitors" | "leadRetrieval"
+    | "events"
+    | "badgeDesigner"
+    | "checkin"
+    | "stations"
+    | "sessions"
+    | "exhibitors"
+    | "leadRetrieval"
+    | "import"
+    | "staff"
+    | "audit"
   >("checkin");
   const [printAttendee, setPrintAttendee] = useState<Attendee | null>(null);
   const [badgeDesign, setBadgeDesign] = useState<BadgeDesign>(DEFAULT_BADGE_DESIGN);
+  const [badgeTemplates, setBadgeTemplates] = useState<BadgeTemplateItem[]>([]);
+  const [badgeTemplatesLoaded, setBadgeTemplatesLoaded] = useState(false);
+  const [templateEventId, setTemplateEventId] = useState("");
+  const [selectedTemplateId, setSelectedTemplateId] = useState(""); // "" while designing a new one
+  const [templateForm, setTemplateForm] = useState<TemplateForm>(EMPTY_TEMPLATE_FORM);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [templateError, setTemplateError] = useState("");
+  const [templateMessage, setTemplateMessage] = useState("");
+  const [legacyBadgeDesign, setLegacyBadgeDesign] = useState<BadgeDesign | null>(null);
+  const [badgePdfForm, setBadgePdfForm] = useState(EMPTY_BADGE_PDF_FORM);
+  const [printingPdf, setPrintingPdf] = useState(false);
+  const [badgePdfError, setBadgePdfError] = useState("");
   const [draggingQr, setDraggingQr] = useState(false);
   const frontPreviewRef = useRef<HTMLDivElement | null>(null);
+  const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
+  const elementDragRef = useRef<{
+    id: string;
+    startX: number;
+    startY: number;
+    originXMm: number;
+    originYMm: number;
+    mmPerPx: number;
+  } | null>(null);
   const [editingAttendee, setEditingAttendee] = useState<Attendee | null>(null);
   const [editForm, setEditForm] = useState<Partial<Attendee>>({});
   const [savingEdit, setSavingEdit] = useState(false);
   const [editError, setEditError] = useState("");
+  const [currentStaff, setCurrentStaff] = useState<StaffMember | null>(null);
+  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+  const [staffForm, setStaffForm] = useState({
+    name: "",
+    email: "",
+    password: "",
+    role: "registration" as StaffMember["role"],
+  });
+  const [savingStaff, setSavingStaff] = useState(false);
+  const [staffError, setStaffError] = useState("");
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importEventId, setImportEventId] = useState("");
+  const [importMapping, setImportMapping] = useState<ImportMapping | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState("");
+  const [importStatusFilter, setImportStatusFilter] = useState("all");
+  const [auditEntries, setAuditEntries] = useState<AuditItem[]>([]);
+  const [auditTotal, setAuditTotal] = useState(0);
+  const [auditFilters, setAuditFilters] = useState(EMPTY_AUDIT_FILTERS);
+  const [auditLoading, setAuditLoading] = useState(false);
+  const [auditError, setAuditError] = useState("");
+  const [expandedAuditId, setExpandedAuditId] = useState<string | null>(null);
+  const [eventForm, setEventForm] = useState(EMPTY_EVENT_FORM);
+  const [eventFieldDrafts, setEventFieldDrafts] = useState<CustomFieldDraft[]>([]);
+  const [eventTypeDrafts, setEventTypeDrafts] = useState<AttendeeTypeDraft[]>(() =>
+    eventAttendeeTypes(null).map(toLimitDraft)
+  );
+  const [eventCategoryDrafts, setEventCategoryDrafts] = useState<TicketCategoryDraft[]>([]);
+  const [editingEventId, setEditingEventId] = useState<string | null>(null);
+  const [savingEvent, setSavingEvent] = useState(false);
+  const [eventError, setEventError] = useState("");
+  const [exhibitorForm, setExhibitorForm] = useState(EMPTY_EXHIBITOR_FORM);
+  const [editingExhibitorId, setEditingExhibitorId] = useState<string | null>(null);
+  const [savingExhibitor, setSavingExhibitor] = useState(false);
+  const [exhibitorError, setExhibitorError] = useState("");
+  const [activationCodeList, setActivationCodeList] = useState<ActivationCodeItem[]>([]);
+  const [codeSettings, setCodeSettings] = useState({ expiresInDays: "30", maxDevices: "5" });
+  const [busyCodeExhibitorId, setBusyCodeExhibitorId] = useState<string | null>(null);
+  const [codeError, setCodeError] = useState("");
+  const [boothDevices, setBoothDevices] = useState<BoothDevice[]>([]);
+  const [stationList, setStationList] = useState<StationItem[]>([]);
+  const [stationForm, setStationForm] = useState(EMPTY_STATION_FORM);
+  const [editingStationId, setEditingStationId] = useState<string | null>(null);
+  const [savingStation, setSavingStation] = useState(false);
+  const [stationError, setStationError] = useState("");
+  const [sessionList, setSessionList] = useState<SessionItem[]>([]);
+  const [sessionForm, setSessionForm] = useState(EMPTY_SESSION_FORM);
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [savingSession, setSavingSession] = useState(false);
+  const [sessionError, setSessionError] = useState("");
+  const [rosterSession, setRosterSession] = useState<SessionItem | null>(null);
+  const [rosterRecords, setRosterRecords] = useState<SessionAttendanceItem[]>([]);
+  const [occupancy, setOccupancy] = useState<OccupancyReport | null>(null);
+  const [attendeeEntries, setAttendeeEntries] = useState<EntryItem[]>([]);
+  const [checkinChanges, setCheckinChanges] = useState<CheckinChangeItem[]>([]);
+  const [undoingCheckin, setUndoingCheckin] = useState(false);
+  const [linkForm, setLinkForm] = useState({ exhibitorId: "", email: "" });
+  const [issuingLink, setIssuingLink] = useState(false);
+  const [linkMessage, setLinkMessage] = useState("");
+  const [linkError, setLinkError] = useState("");
 
   function exportCheckinCsv() {
-    if (!attendees.length) return;
+    if (!baseFiltered.length) return;
 
     const headers = [
       "Name",
       "Email",
       "Company",
       "EventId",
+      "AttendeeType",
+      "TicketCategory",
       "CheckedIn",
       "CheckedInAt",
       "ScannedViaQr",
@@ -121,6 +701,24 @@ export default function CheckInPage() {
       "Id",
     ];
 
+    // One column per registration field label across the exported events,
+    // so the same question asked at several events shares a column
+    const customColumns: string[] = [];
+    const fieldIdsByLabel = new Map<string, Set<string>>();
+    const exportedEventIds = new Set(baseFiltered.map((a) => a.eventId));
+    events
+      .filter((evt) => exportedEventIds.has(evt.id))
+      .forEach((evt) =>
+        (evt.customFields || []).forEach((field) => {
+          if (!fieldIdsByLabel.has(field.label)) {
+            fieldIdsByLabel.set(field.label, new Set());
+            customColumns.push(field.label);
+          }
+          fieldIdsByLabel.get(field.label)!.add(field.id);
+        })
+      );
+    headers.push(...customColumns);
+
     const escape = (value: string) => {
       const safe = (value || "").replace(/"/g, '""');
       return `"${safe}"`;
@@ -137,19 +735,27 @@ export default function CheckInPage() {
       }
     });
 
-    const rows = attendees.map((a) => {
+    const rows = baseFiltered.map((a) => {
       const fullName = `${a.firstName || ""} ${a.lastName || ""}`.trim();
       const lastScan = latestScanById.get(String(a.id)) || "";
+      const type = typeInfoFor(a);
       return [
         escape(fullName || ""),
         escape(a.email || ""),
         escape(a.company || ""),
         escape(a.eventId ? String(a.eventId) : ""),
+        escape(type.label),
+        escape(type.ticket),
         escape(a.checkedIn ? "Yes" : "No"),
         escape(a.checkedInAt || ""),
         escape(lastScan ? "Yes" : "No"),
         escape(lastScan),
         escape(String(a.id)),
+        ...customColumns.map((label) => {
+          const ids = fieldIdsByLabel.get(label)!;
+          const fieldId = Object.keys(a.customFields || {}).find((id) => ids.has(id));
+          return escape(fieldId ? formatCustomValue(a.customFields![fieldId]) : "");
+        }),
       ].join(",");
     });
 
@@ -189,7 +795,7 @@ export default function CheckInPage() {
 
   async function loadEvents() {
     try {
-      const res = await fetch("/api/events", { cache: "no-store" });
+      const res = await fetch("/api/events?includeArchived=1", { cache: "no-store" });
       if (!res.ok) return;
       const data = await res.json();
       setEvents(Array.isArray(data) ? data : []);
@@ -211,7 +817,7 @@ export default function CheckInPage() {
 
   async function loadExhibitors() {
     try {
-      const res = await fetch("/api/exhibitors/list", { cache: "no-store" });
+      const res = await fetch("/api/exhibitors", { cache: "no-store" });
       if (!res.ok) return;
       const data = await res.json();
       setExhibitors(Array.isArray(data) ? data : []);
@@ -220,2038 +826,6074 @@ export default function CheckInPage() {
     }
   }
 
-  useEffect(() => {
-    loadEvents();
-    loadAttendees();
-    loadScanLogs();
-    loadExhibitors();
-  }, []);
+  async function loadStations() {
+    try {
+      const res = await fetch("/api/stations?includeArchived=1", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      setStationList(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Load stations error:", err);
+    }
+  }
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    const stored = window.localStorage.getItem("hemisphere-badge-design");
-    if (!stored) return;
+  async function loadSessions() {
     try {
-      const parsed = JSON.parse(stored);
-      setBadgeDesign((prev) => ({ ...prev, ...parsed }));
+      const res = await fetch("/api/sessions?includeArchived=1", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      setSessionList(Array.isArray(data) ? data : []);
     } catch (err) {
-      console.error("Badge design parse error:", err);
+      console.error("Load sessions error:", err);
     }
-  }, []);
+  }
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    window.localStorage.setItem("hemisphere-badge-design", JSON.stringify(badgeDesign));
-  }, [badgeDesign]);
+  async function loadOccupancy(eventId: string) {
+    if (!eventId || eventId === "all") {
+      setOccupancy(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/occupancy?eventId=${encodeURIComponent(eventId)}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) return;
+      setOccupancy(await res.json());
+    } catch (err) {
+      console.error("Load occupancy error:", err);
+    }
+  }
 
-  const updateBadgeDesign = (partial: Partial<BadgeDesign>) => {
-    setBadgeDesign((prev) => {
-      const next = { ...prev, ...partial };
-      const widthMm = Math.min(
-        Math.max(50, next.badgeWidthMm || DEFAULT_BADGE_WIDTH_MM),
-        120
-      );
-      const heightMm = Math.min(
-        Math.max(40, next.badgeHeightMm || DEFAULT_BADGE_HEIGHT_MM),
-        100
-      );
-      const maxQrSize = Math.max(
-        12,
-        Math.min(
-          90,
-          Math.min(widthMm, heightMm) - 8
-        )
-      );
-      const qrSizeMm = Math.min(Math.max(12, next.qrSizeMm), maxQrSize);
-      const maxOffsetX = Math.max(0, widthMm - qrSizeMm);
-      const maxOffsetY = Math.max(0, heightMm - qrSizeMm);
-      return {
-        ...next,
-        badgeWidthMm: widthMm,
-        badgeHeightMm: heightMm,
-        qrOffsetXMm: Math.min(Math.max(0, next.qrOffsetXMm), maxOffsetX),
-        qrOffsetYMm: Math.min(Math.max(0, next.qrOffsetYMm), maxOffsetY),
-        qrSizeMm,
-        borderRadiusMm: Math.min(Math.max(0, next.borderRadiusMm), 10),
-        nameFontMm: Math.min(Math.max(3, next.nameFontMm), 8),
-        companyFontMm: Math.min(Math.max(2, next.companyFontMm), 6),
-        metaFontMm: Math.min(Math.max(2, next.metaFontMm), 5),
-      };
-    });
-  };
+  async function loadAttendeeEntries(attendeeId: string) {
+    setAttendeeEntries([]);
+    try {
+      const res = await fetch(`/api/entries?attendeeId=${encodeURIComponent(attendeeId)}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setAttendeeEntries(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Load entries error:", err);
+    }
+  }
 
-  const resetBadgeDesign = () => setBadgeDesign(DEFAULT_BADGE_DESIGN);
+  async function loadCheckinHistory(attendeeId: string) {
+    setCheckinChanges([]);
+    try {
+      const res = await fetch(`/api/checkin/history?attendeeId=${encodeURIComponent(attendeeId)}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setCheckinChanges(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Load check-in history error:", err);
+    }
+  }
 
-  const handleLogoUpload = (side: "front" | "back") => (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => {
-      const url = typeof reader.result === "string" ? reader.result : "";
-      updateBadgeDesign(side === "front" ? { frontLogoUrl: url } : { backLogoUrl: url });
-    };
-    reader.readAsDataURL(file);
-  };
+  // Writes a compensating change; the history itself is never edited
+  async function undoLastCheckin(attendeeId: string) {
+    setUndoingCheckin(true);
+    setEditError("");
+    try {
+      const res = await fetch("/api/checkin/undo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: attendeeId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error undoing check-in");
+      }
+      upsertAttendee(data.attendee);
+      await Promise.all([loadCheckinHistory(attendeeId), loadAttendeeEntries(attendeeId)]);
+    } catch (err) {
+      console.error("Undo check-in error:", err);
+      setEditError(err instanceof Error ? err.message : "Error undoing check-in");
+    } finally {
+      setUndoingCheckin(false);
+    }
+  }
 
-  const clearLogo = (side: "front" | "back") => {
-    updateBadgeDesign(side === "front" ? { frontLogoUrl: "" } : { backLogoUrl: "" });
-  };
+  async function loadActivationCodes() {
+    try {
+      const res = await fetch("/api/activation-codes", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      setActivationCodeList(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Load activation codes error:", err);
+    }
+  }
 
-  useEffect(() => {
-    if (!printAttendee) return;
-    const timer = setTimeout(() => {
-      window.print();
-    }, 150);
+  async function loadBoothDevices() {
+    try {
+      const res = await fetch("/api/devices", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      setBoothDevices(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Load devices error:", err);
+    }
+  }
 
-    return () => clearTimeout(timer);
-  }, [printAttendee]);
+  async function loadCurrentStaff() {
+    try {
+      const res = await fetch("/api/auth/me", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      setCurrentStaff(data.staff || null);
+      loadSessions();
+      if (data.staff?.role === "owner") {
+        loadStaffMembers();
+      }
+      if (data.staff?.role === "owner" || data.staff?.role === "registration") {
+        loadActivationCodes();
+        loadBoothDevices();
+        loadStations();
+      }
+    } catch (err) {
+      console.error("Load session error:", err);
+    }
+  }
 
-  useEffect(() => {
-    const handleAfterPrint = () => setPrintAttendee(null);
-    window.addEventListener("afterprint", handleAfterPrint);
-    return () => window.removeEventListener("afterprint", handleAfterPrint);
-  }, []);
-
-  // Persisted check-in/uncheck via API with an optimistic state update
-  async function handleCheckStatus(id: string, checkedIn: boolean) {
-    setCheckingInId(id);
-    setError("");
-
-    // Optimistic UI update while request is in-flight
-    setAttendees((prev) =>
-      prev.map((a) =>
-        a.id === id
-          ? {
-              ...a,
-              checkedIn,
-              checkedInAt: checkedIn ? new Date().toISOString() : undefined,
-            }
-          : a
-      )
-    );
+  async function loadStaffMembers() {
+    try {
+      const res = await fetch("/api/staff", { cache: "no-store" });
+      if (!res.ok) return;
+      const data = await res.json();
+      setStaffMembers(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Load staff error:", err);
+    }
+  }
 
+  async function createStaffMember() {
+    setSavingStaff(true);
+    setStaffError("");
     try {
-      const res = await fetch("/api/checkin", {
+      const res = await fetch("/api/staff", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ id, checkedIn }),
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(staffForm),
       });
-
+      const data = await res.json().catch(() => ({}));
       if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.error || "Error saving check-in status.");
+        throw new Error(data.error || "Error creating staff account");
       }
+      setStaffForm({ name: "", email: "", password: "", role: "registration" });
+      await loadStaffMembers();
+    } catch (err) {
+      console.error("Create staff error:", err);
+      setStaffError(err instanceof Error ? err.message : "Error creating staff account");
+    } finally {
+      setSavingStaff(false);
+    }
+  }
 
-      const data = await res.json();
+  async function updateStaffRole(id: string, role: StaffMember["role"]) {
+    setStaffError("");
+    try {
+      const res = await fetch(`/api/staff/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error updating staff account");
+      }
+      await loadStaffMembers();
+    } catch (err) {
+      console.error("Update staff error:", err);
+      setStaffError(err instanceof Error ? err.message : "Error updating staff account");
+    }
+  }
 
-      // Reconcile with server response to ensure timestamps match what was written to disk
-      if (data?.attendee) {
-        setAttendees((prev) =>
-          prev.map((a) => (a.id === id ? { ...a, ...data.attendee } : a))
-        );
-      } else {
-        // If the shape isn't as expected, reload from disk
-        await loadAttendees();
+  async function removeStaffMember(member: StaffMember) {
+    if (!window.confirm(`Remove ${member.name} (${member.email})?`)) return;
+    setStaffError("");
+    try {
+      const res = await fetch(`/api/staff/${member.id}`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error removing staff account");
       }
-    } catch (err: unknown) {
-      console.error("Check-in error:", err);
-      setError(
-        err instanceof Error ? err.message : "Network error saving check-in status."
-      );
-      // Undo the optimistic update by reloading the latest state without clearing the error
-      try {
-        const res = await fetch("/api/attendees", { cache: "no-store" });
-        if (res.ok) {
-          const latest = await res.json();
-          setAttendees(Array.isArray(latest) ? latest : []);
-        }
-      } catch (reloadErr) {
-        console.error("Reload after failed check-in error:", reloadErr);
+      await loadStaffMembers();
+    } catch (err) {
+      console.error("Remove staff error:", err);
+      setStaffError(err instanceof Error ? err.message : "Error removing staff account");
+    }
+  }
+
+  // Every change to the file, mapping or default event re-runs the dry run,
+  // so the preview always matches what the import would do
+  async function sendImport(
+    dryRun: boolean,
+    options: { file?: File | null; mapping?: ImportMapping | null; eventId?: string } = {}
+  ) {
+    const file = options.file !== undefined ? options.file : importFile;
+    const mapping = options.mapping !== undefined ? options.mapping : importMapping;
+    const eventId = options.eventId !== undefined ? options.eventId : importEventId;
+    if (!file) return;
+
+    setImporting(true);
+    setImportError("");
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      if (mapping) form.append("mapping", JSON.stringify(mapping));
+      if (eventId) form.append("eventId", eventId);
+      form.append("dryRun", dryRun ? "1" : "0");
+
+      const res = await fetch("/api/attendees/import", { method: "POST", body: form });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error importing attendees");
       }
+      setImportReport(data);
+      setImportMapping(data.mapping);
+      if (!dryRun) loadAttendees();
+    } catch (err) {
+      console.error("Import error:", err);
+      setImportError(err instanceof Error ? err.message : "Error importing attendees");
     } finally {
-      setCheckingInId(null);
+      setImporting(false);
     }
   }
 
-  // Find the attendee we’re showing the QR for
-  const qrAttendee = attendees.find((a) => a.id === qrAttendeeId) || null;
-  // Include the hemisphere scheme so the mobile app scanner recognizes the payload
-  const qrValue = qrAttendee ? `hemisphere:${qrAttendee.id}` : "";
-  const printQrValue = printAttendee ? `hemisphere:${printAttendee.id}` : "";
+  function chooseImportFile(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0] || null;
+    setImportFile(file);
+    setImportReport(null);
+    setImportMapping(null);
+    setImportStatusFilter("all");
+    if (file) sendImport(true, { file, mapping: null });
+  }
 
-  // Apply event + company filters first
-  const baseFiltered = attendees.filter((a) => {
-    const matchesEvent =
-      eventFilter === "all" ||
-      (a.eventId ? String(a.eventId) === eventFilter : true);
-    const matchesCompany =
-      companyFilter === "all" ||
-      (a.company || "").toLowerCase() === companyFilter.toLowerCase();
-    return matchesEvent && matchesCompany;
-  });
+  function mapImportColumn(field: string, value: string) {
+    const next = { ...(importMapping || {}) };
+    if (value === "") delete next[field];
+    else next[field] = Number(value);
+    setImportMapping(next);
+    sendImport(true, { mapping: next });
+  }
 
-  // Then apply search + status filter
-  const filteredAttendees = baseFiltered.filter((a) => {
-    const fullName = `${a.firstName || ""} ${a.lastName || ""}`.trim();
-    const checked = !!a.checkedIn;
+  function commitImport() {
+    if (!importReport) return;
+    const count = importReport.summary.ready;
+    if (!window.confirm(`Register ${count} attendee${count === 1 ? "" : "s"}? Rows with errors or duplicates are skipped.`)) {
+      return;
+    }
+    sendImport(false);
+  }
 
-    const searchText = search.trim().toLowerCase();
-    const matchesSearch =
-      !searchText ||
-      fullName.toLowerCase().includes(searchText) ||
-      (a.email || "").toLowerCase().includes(searchText) ||
-      (a.company || "").toLowerCase().includes(searchText);
+  function resetImport() {
+    setImportFile(null);
+    setImportReport(null);
+    setImportMapping(null);
+    setImportError("");
+    setImportStatusFilter("all");
+  }
 
-    const matchesStatus =
-      statusFilter === "all" ||
-      (statusFilter === "checkedIn" && checked) ||
-      (statusFilter === "notCheckedIn" && !checked);
+  function exportImportReportCsv() {
+    if (!importReport) return;
 
-    return matchesSearch && matchesStatus;
-  });
+    const escape = (value: string) => `"${(value || "").replace(/"/g, '""')}"`;
+    const customFields = importReport.customFields || [];
+    const headers = [
+      "Row",
+      "Status",
+      "FirstName",
+      "LastName",
+      "Email",
+      "Company",
+      "EventId",
+      ...customFields.map((f) => f.label),
+      "Message",
+      "AttendeeId",
+    ];
+    const rows = importReport.rows.map((r) =>
+      [
+        escape(String(r.row)),
+        escape(r.status),
+        escape(r.data.firstName),
+        escape(r.data.lastName),
+        escape(r.data.email),
+        escape(r.data.company),
+        escape(r.data.eventId),
+        ...customFields.map((f) => escape(String(r.data.customFields?.[f.id] ?? ""))),
+        escape(r.error || ""),
+        escape(r.attendeeId || ""),
+      ].join(",")
+    );
 
-  // Analytics derived from event/company filters (not search/status)
-  const totalRegistrants = baseFiltered.length;
-  const totalCheckedIn = baseFiltered.filter((a) => a.checkedIn).length;
-  const totalNotCheckedIn = Math.max(totalRegistrants - totalCheckedIn, 0);
-  const scannedIdSet = new Set(scanLogs.map((l) => String(l.attendeeId)));
-  const totalScannedViaQr = baseFiltered.filter((a) =>
-    scannedIdSet.has(String(a.id))
-  ).length;
-  const checkInRate =
-    totalRegistrants === 0
-      ? 0
-      : Math.round((totalCheckedIn / totalRegistrants) * 100);
+    const csv = [headers.join(","), ...rows].join("\n");
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `hemisphere-import-${importReport.dryRun ? "preview" : "report"}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
 
-  const uniqueCompanies = Array.from(
-    new Set(attendees.map((a) => (a.company || "").trim()).filter(Boolean))
-  );
+  function auditQuery(filters = auditFilters) {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return params.toString();
+  }
 
-  const filteredExhibitors = exhibitors.filter((ex) => {
-    const term = exhibitorSearch.trim().toLowerCase();
-    if (!term) return true;
-    return ex.name.toLowerCase().includes(term);
-  });
+  async function loadAudit(filters = auditFilters) {
+    setAuditLoading(true);
+    setAuditError("");
+    try {
+      const res = await fetch(`/api/audit?${auditQuery(filters)}`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error reading audit log");
+      }
+      setAuditEntries(Array.isArray(data.entries) ? data.entries : []);
+      setAuditTotal(data.total || 0);
+    } catch (err) {
+      console.error("Load audit log error:", err);
+      setAuditError(err instanceof Error ? err.message : "Error reading audit log");
+    } finally {
+      setAuditLoading(false);
+    }
+  }
 
-  function copyToClipboard(value: string) {
-    if (typeof navigator === "undefined" || !navigator.clipboard) return;
-    navigator.clipboard.writeText(value).catch((err) => {
-      console.error("Copy failed:", err);
+  function selectEvent(eventId: string) {
+    setEventFilter(eventId);
+    window.localStorage.setItem(SELECTED_EVENT_KEY, eventId);
+  }
+
+  function editEvent(evt: EventItem) {
+    setEditingEventId(evt.id);
+    setEventError("");
+    setEventForm({
+      name: evt.name,
+      venue: evt.venue || "",
+      timeZone: evt.timeZone || "UTC",
+      startDate: evt.startDate || "",
+      endDate: evt.endDate || "",
+      activationCode: evt.activationCode || "",
+      capacity: evt.capacity ? String(evt.capacity) : "",
+      occupancyLimit: evt.occupancyLimit ? String(evt.occupancyLimit) : "",
+      occupancyAlertPercent: String(evt.occupancyAlertPercent ?? 90),
+      logoUrl: evt.branding?.logoUrl || "",
+      primaryColor: evt.branding?.primaryColor || EMPTY_EVENT_FORM.primaryColor,
+      accentColor: evt.branding?.accentColor || EMPTY_EVENT_FORM.accentColor,
     });
+    setEventFieldDrafts((evt.customFields || []).map(toFieldDraft));
+    setEventTypeDrafts(eventAttendeeTypes(evt).map(toLimitDraft));
+    setEventCategoryDrafts((evt.ticketCategories || []).map(toLimitDraft));
   }
 
-  const startEdit = (attendee: Attendee) => {
-    setEditingAttendee(attendee);
-    setEditForm({
-      firstName: attendee.firstName || "",
-      lastName: attendee.lastName || "",
-      email: attendee.email || "",
-      company: attendee.company || "",
-      eventId: attendee.eventId || "",
+  function resetEventForm() {
+    setEditingEventId(null);
+    setEventError("");
+    setEventForm(EMPTY_EVENT_FORM);
+    setEventFieldDrafts([]);
+    setEventTypeDrafts(eventAttendeeTypes(null).map(toLimitDraft));
+    setEventCategoryDrafts([]);
+  }
+
+  function updateTypeDraft(index: number, partial: Partial<AttendeeTypeDraft>) {
+    setEventTypeDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...partial } : d)));
+  }
+
+  function updateCategoryDraft(index: number, partial: Partial<TicketCategoryDraft>) {
+    setEventCategoryDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...partial } : d)));
+  }
+
+  function updateFieldDraft(index: number, partial: Partial<CustomFieldDraft>) {
+    setEventFieldDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...partial } : d)));
+  }
+
+  function moveFieldDraft(index: number, delta: number) {
+    setEventFieldDrafts((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
     });
-    setEditError("");
-  };
+  }
 
-  const handleEditChange = (field: keyof Attendee, value: string) => {
-    setEditForm((prev) => ({ ...prev, [field]: value }));
-  };
+  async function saveEvent() {
+    setSavingEvent(true);
+    setEventError("");
+    try {
+      const { logoUrl, primaryColor, accentColor, capacity, occupancyLimit, ...details } = eventForm;
+      const res = await fetch(editingEventId ? `/api/events/${editingEventId}` : "/api/events", {
+        method: editingEventId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...details,
+          capacity: capacity ? Number(capacity) : null,
+          occupancyLimit: occupancyLimit ? Number(occupancyLimit) : null,
+          branding: { logoUrl, primaryColor, accentColor },
+          customFields: eventFieldDrafts.map(fromFieldDraft),
+          attendeeTypes: eventTypeDrafts.map(fromLimitDraft),
+          ticketCategories: eventCategoryDrafts.map(fromLimitDraft),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error saving event");
+      }
+      resetEventForm();
+      await loadEvents();
+    } catch (err) {
+      console.error("Save event error:", err);
+      setEventError(err instanceof Error ? err.message : "Error saving event");
+    } finally {
+      setSavingEvent(false);
+    }
+  }
 
-  const saveEdit = async () => {
-    if (!editingAttendee) return;
-    setSavingEdit(true);
-    setEditError("");
+  async function setEventArchived(evt: EventItem, archived: boolean) {
+    const prompt = `Archive ${evt.name}? It disappears from registration and the event switcher.`;
+    if (archived && !window.confirm(prompt)) return;
+    setEventError("");
     try {
-      const res = await fetch(`/api/attendees/${editingAttendee.id}`, {
+      const res = await fetch(`/api/events/${evt.id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(editForm),
+        body: JSON.stringify({ archived }),
       });
-
+      const data = await res.json().catch(() => ({}));
       if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.error || "Error updating attendee");
+        throw new Error(data.error || "Error updating event");
       }
+      if (archived && eventFilter === evt.id) selectEvent("all");
+      await loadEvents();
+    } catch (err) {
+      console.error("Archive event error:", err);
+      setEventError(err instanceof Error ? err.message : "Error updating event");
+    }
+  }
 
-      const data = await res.json();
-      if (data?.attendee) {
-        setAttendees((prev) =>
-          prev.map((a) => (a.id === editingAttendee.id ? { ...a, ...data.attendee } : a))
+  function editExhibitor(exh: Exhibitor) {
+    setEditingExhibitorId(exh.id);
+    setExhibitorError("");
+    setExhibitorForm({
+      name: exh.name,
+      boothNumber: exh.boothNumber,
+      eventId: exh.eventId,
+      contactEmails: exh.contactEmails.join(", "),
+      logoUrl: exh.logoUrl,
+      staff: exh.staff.map((m) => [m.name, m.email].filter(Boolean).join(", ")).join("\n"),
+    });
+  }
+
+  function resetExhibitorForm() {
+    setEditingExhibitorId(null);
+    setExhibitorError("");
+    setExhibitorForm(EMPTY_EXHIBITOR_FORM);
+  }
+
+  async function saveExhibitor() {
+    setSavingExhibitor(true);
+    setExhibitorError("");
+    try {
+      // "Name, email" per line; a bare email is fine too
+      const staff = exhibitorForm.staff
+        .split("\n")
+        .map((line) => line.split(",").map((part) => part.trim()))
+        .filter(([first]) => first)
+        .map(([first, second = ""]) =>
+          first.includes("@") && !second ? { name: "", email: first } : { name: first, email: second }
         );
+
+      const res = await fetch(
+        editingExhibitorId ? `/api/exhibitors/${editingExhibitorId}` : "/api/exhibitors",
+        {
+          method: editingExhibitorId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...exhibitorForm,
+            eventId: exhibitorForm.eventId || scopedEventId,
+            staff,
+          }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error saving exhibitor");
       }
-      setEditingAttendee(null);
+      resetExhibitorForm();
+      await loadExhibitors();
+      await loadActivationCodes();
     } catch (err) {
-      console.error("Save edit error:", err);
-      setEditError(err instanceof Error ? err.message : "Error updating attendee");
+      console.error("Save exhibitor error:", err);
+      setExhibitorError(err instanceof Error ? err.message : "Error saving exhibitor");
     } finally {
-      setSavingEdit(false);
+      setSavingExhibitor(false);
     }
-  };
+  }
 
-  const previewAttendee =
-    qrAttendee ||
-    attendees[0] || {
-      id: "sample",
-      firstName: "Sample",
-      lastName: "Attendee",
-      company: "Hemisphere Media Group",
-      eventId: "EVT-001",
-    };
+  async function removeExhibitor(exh: Exhibitor) {
+    if (!window.confirm(`Remove ${exh.name}? Its leads are kept but its login links stop working.`)) {
+      return;
+    }
+    setExhibitorError("");
+    try {
+      const res = await fetch(`/api/exhibitors/${exh.id}`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error removing exhibitor");
+      }
+      if (editingExhibitorId === exh.id) resetExhibitorForm();
+      await loadExhibitors();
+      await loadActivationCodes();
+      await loadBoothDevices();
+    } catch (err) {
+      console.error("Remove exhibitor error:", err);
+      setExhibitorError(err instanceof Error ? err.message : "Error removing exhibitor");
+    }
+  }
 
-  const designerQrValue = `hemisphere:${previewAttendee.id || "sample"}`;
-  const maxQrOffsetX = Math.max(0, badgeDesign.badgeWidthMm - badgeDesign.qrSizeMm);
-  const maxQrOffsetY = Math.max(0, badgeDesign.badgeHeightMm - badgeDesign.qrSizeMm);
-  const mmToIn = (mm: number) => (mm / 25.4).toFixed(2);
-  const badgeWidthInches = `${mmToIn(badgeDesign.badgeWidthMm)}in`;
-  const badgeHeightInches = `${mmToIn(badgeDesign.badgeHeightMm)}in`;
-  const badgeAspectRatio = `${badgeDesign.badgeWidthMm} / ${badgeDesign.badgeHeightMm}`;
+  function editStation(station: StationItem) {
+    setEditingStationId(station.id);
+    setStationError("");
+    setStationForm({ name: station.name, location: station.location, eventId: station.eventId });
+  }
 
-  const updateQrFromPoint = (clientX: number, clientY: number) => {
-    const el = frontPreviewRef.current;
-    if (!el) return;
-    const rect = el.getBoundingClientRect();
-    if (!rect.width || !rect.height) return;
-    const mmPerPxX = badgeDesign.badgeWidthMm / rect.width;
-    const mmPerPxY = badgeDesign.badgeHeightMm / rect.height;
-    const newX = (clientX - rect.left) * mmPerPxX - badgeDesign.qrSizeMm / 2;
-    const newY = (clientY - rect.top) * mmPerPxY - badgeDesign.qrSizeMm / 2;
-    updateBadgeDesign({ qrOffsetXMm: newX, qrOffsetYMm: newY });
-  };
+  function resetStationForm() {
+    setEditingStationId(null);
+    setStationError("");
+    setStationForm(EMPTY_STATION_FORM);
+  }
 
-  const handlePreviewPointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
-    if (e.button !== 0) return;
-    setDraggingQr(true);
-    updateQrFromPoint(e.clientX, e.clientY);
-    e.currentTarget.setPointerCapture(e.pointerId);
-  };
+  async function saveStation() {
+    setSavingStation(true);
+    setStationError("");
+    try {
+      const res = await fetch(
+        editingStationId ? `/api/stations/${editingStationId}` : "/api/stations",
+        {
+          method: editingStationId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...stationForm,
+            eventId: stationForm.eventId || scopedEventId,
+          }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error saving station");
+      }
+      resetStationForm();
+      await loadStations();
+    } catch (err) {
+      console.error("Save station error:", err);
+      setStationError(err instanceof Error ? err.message : "Error saving station");
+    } finally {
+      setSavingStation(false);
+    }
+  }
 
-  const handlePreviewPointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
-    if (!draggingQr) return;
-    updateQrFromPoint(e.clientX, e.clientY);
-  };
+  async function setStationArchived(station: StationItem, archived: boolean) {
+    setStationError("");
+    try {
+      const res = await fetch(`/api/stations/${station.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error updating station");
+      }
+      if (editingStationId === station.id) resetStationForm();
+      await loadStations();
+    } catch (err) {
+      console.error("Archive station error:", err);
+      setStationError(err instanceof Error ? err.message : "Error updating station");
+    }
+  }
 
-  const handlePreviewPointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
-    if (!draggingQr) return;
-    setDraggingQr(false);
-    e.currentTarget.releasePointerCapture(e.pointerId);
-  };
+  function editSession(session: SessionItem) {
+    setEditingSessionId(session.id);
+    setSessionError("");
+    setSessionForm({
+      title: session.title,
+      track: session.track,
+      room: session.room,
+      startsAt: session.startsAt,
+      endsAt: session.endsAt,
+      capacity: session.capacity === null ? "" : String(session.capacity),
+      eventId: session.eventId,
+    });
+  }
 
-  return (
-    <>
-      <style
-        dangerouslySetInnerHTML={{
-          __html: `
-          @media print {
-            body * {
-              visibility: hidden !important;
-            }
-            #badge-print-root, #badge-print-root * {
-              visibility: visible !important;
-            }
-            #badge-print-root {
-              display: flex !important;
-              position: static !important;
-              inset: auto !important;
-              opacity: 1 !important;
-              pointer-events: auto !important;
-              width: 100% !important;
-              padding: 24px !important;
-              background: #f8fafc !important;
-            }
-          }
-        `,
-        }}
-      />
+  function resetSessionForm() {
+    setEditingSessionId(null);
+    setSessionError("");
+    setSessionForm(EMPTY_SESSION_FORM);
+  }
 
-      {printAttendee && (
-        <div
-          id="badge-print-root"
-          style={{
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "center",
-            padding: 24,
-            position: "fixed",
-            inset: 0,
-            zIndex: -1,
-            opacity: 0,
-            pointerEvents: "none",
-            backgroundColor: "#f8fafc",
-          }}
-        >
-          <div style={{ display: "flex", flexDirection: "column", gap: "10mm", alignItems: "center" }}>
-            {/* Front */}
-            <div
-              style={{
-                width: badgeWidthInches,
-                height: badgeHeightInches,
-                maxWidth: "100%",
-                position: "relative",
-                borderRadius: `${badgeDesign.borderRadiusMm}mm`,
-                backgroundColor: badgeDesign.backgroundColor,
-                border: `1px solid ${badgeDesign.borderColor}`,
-                boxSizing: "border-box",
-                padding: "6mm",
-                overflow: "hidden",
-                color: badgeDesign.textColor,
-                boxShadow: "0 18px 40px rgba(15, 23, 42, 0.16)",
-              }}
-            >
-              <div
-                style={{
-                  position: "absolute",
-                  left: `${badgeDesign.qrOffsetXMm}mm`,
-                  top: `${badgeDesign.qrOffsetYMm}mm`,
-                  width: `${badgeDesign.qrSizeMm}mm`,
-                  height: `${badgeDesign.qrSizeMm}mm`,
-                  display: "grid",
-                  placeItems: "center",
-                  backgroundColor: "#ffffff",
-                  border: `1px solid ${badgeDesign.borderColor}`,
-                  borderRadius: 8,
-                  boxShadow: "0 8px 16px rgba(15, 23, 42, 0.16)",
-                }}
-              >
-                <QRCodeCanvas
-                  value={printQrValue}
-                  size={256}
-                  includeMargin
-                  bgColor="#ffffff"
-                  style={{ width: "100%", height: "100%" }}
-                />
-              </div>
+  async function saveSession() {
+    setSavingSession(true);
+    setSessionError("");
+    try {
+      const res = await fetch(
+        editingSessionId ? `/api/sessions/${editingSessionId}` : "/api/sessions",
+        {
+          method: editingSessionId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...sessionForm,
+            capacity: sessionForm.capacity.trim() || null,
+            eventId: sessionForm.eventId || scopedEventId,
+          }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error saving session");
+      }
+      resetSessionForm();
+      await loadSessions();
+    } catch (err) {
+      console.error("Save session error:", err);
+      setSessionError(err instanceof Error ? err.message : "Error saving session");
+    } finally {
+      setSavingSession(false);
+    }
+  }
 
-              <div
-                style={{
-                  display: "flex",
-                  flexDirection: "column",
-                  gap: "4mm",
-                  height: "100%",
-                }}
-              >
-                <div
-                  style={{
-                    display: "flex",
-                    alignItems: "center",
-                    justifyContent: "space-between",
-                    gap: "4mm",
-                  }}
-                >
-                  <div>
-                    <p
-                      style={{
-                        margin: 0,
-                        fontSize: `${badgeDesign.metaFontMm}mm`,
-                        letterSpacing: 1,
-                        color: badgeDesign.accentColor,
-                      }}
-                    >
-                      HEMISPHERE
-                    </p>
-                    <p style={{ margin: 0, fontSize: `${badgeDesign.metaFontMm}mm`, opacity: 0.7 }}>
-                      Event badge
-                    </p>
-                  </div>
-                  {badgeDesign.frontLogoUrl ? (
-                    <img
-                      src={badgeDesign.frontLogoUrl}
-                      alt="Front logo"
-                      style={{
-                        width: "12mm",
-                        height: "12mm",
-                        borderRadius: "2mm",
-                        objectFit: "contain",
-                        backgroundColor: "#ffffff",
-                        border: `1px solid ${badgeDesign.borderColor}`,
-                      }}
-                    />
-                  ) : (
-                    <div
-                      style={{
-                        width: "12mm",
-                        height: "12mm",
-                        borderRadius: "3mm",
-                        background: `linear-gradient(135deg, ${badgeDesign.accentColor}, ${badgeDesign.textColor})`,
-                      }}
-                    />
-                  )}
-                </div>
+  async function setSessionArchived(session: SessionItem, archived: boolean) {
+    setSessionError("");
+    try {
+      const res = await fetch(`/api/sessions/${session.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error updating session");
+      }
+      if (editingSessionId === session.id) resetSessionForm();
+      await loadSessions();
+    } catch (err) {
+      console.error("Archive session error:", err);
+      setSessionError(err instanceof Error ? err.message : "Error updating session");
+    }
+  }
 
-                <div style={{ marginTop: "2mm", maxWidth: "70%" }}>
-                  <p
-                    style={{
-                      margin: 0,
-                      fontSize: `${badgeDesign.nameFontMm}mm`,
-                      fontWeight: 700,
-                      lineHeight: 1.05,
-                    }}
-                  >
-                    {`${printAttendee.firstName || ""} ${printAttendee.lastName || ""}`.trim() ||
-                      "Unknown attendee"}
-                  </p>
-                  <p style={{ margin: "1mm 0 0", fontSize: `${badgeDesign.companyFontMm}mm`, opacity: 0.8 }}>
-                    {printAttendee.company || "Company TBC"}
-                  </p>
-                  {printAttendee.eventId && (
-                    <p style={{ margin: "1mm 0 0", fontSize: `${badgeDesign.metaFontMm}mm`, opacity: 0.6 }}>
-                      Event ID: {printAttendee.eventId}
-                    </p>
-                  )}
-                </div>
+  async function openSessionRoster(session: SessionItem) {
+    if (rosterSession?.id === session.id) {
+      setRosterSession(null);
+      return;
+    }
+    setSessionError("");
+    try {
+      const res = await fetch(`/api/sessions/${session.id}/attendance`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error loading session roster");
+      }
+      setRosterSession(data.session);
+      setRosterRecords(Array.isArray(data.attendance) ? data.attendance : []);
+    } catch (err) {
+      console.error("Load session roster error:", err);
+      setSessionError(err instanceof Error ? err.message : "Error loading session roster");
+    }
+  }
 
-                <div
-                  style={{
-                    marginTop: "auto",
-                    display: "flex",
-                    alignItems: "center",
-                    justifyContent: "space-between",
-                    fontSize: `${badgeDesign.metaFontMm}mm`,
-                    color: "#475569",
-                  }}
-                >
-                  <span>Badge ID: {printAttendee.id}</span>
-                  <span style={{ color: badgeDesign.accentColor, fontWeight: 600 }}>
-                    hemisphere:{printAttendee.id}
-                  </span>
-                </div>
-              </div>
-            </div>
+  function exportSessionRosterCsv() {
+    if (!rosterSession) return;
 
-            {/* Back (only when 2-sided) */}
-            {badgeDesign.layoutMode === "double" && (
-              <div
-                style={{
-                  width: badgeWidthInches,
-                  height: badgeHeightInches,
-                  maxWidth: "100%",
-                  borderRadius: `${badgeDesign.borderRadiusMm}mm`,
-                  backgroundColor: badgeDesign.backgroundColor,
-                  border: `1px solid ${badgeDesign.borderColor}`,
-                  boxSizing: "border-box",
-                  padding: "6mm",
-                  overflow: "hidden",
-                  color: badgeDesign.textColor,
-                  boxShadow: "0 18px 40px rgba(15, 23, 42, 0.16)",
-                  display: "flex",
-                  flexDirection: "column",
-                  gap: "6mm",
-                  alignItems: "center",
-                  justifyContent: "space-between",
-                }}
-              >
-                <div
-                  style={{
-                    width: "100%",
-                    display: "flex",
-                    alignItems: "center",
-                    justifyContent: "space-between",
-                  }}
-                >
-                  <span style={{ fontSize: `${badgeDesign.metaFontMm}mm`, opacity: 0.7 }}>
-                    Back of badge
-                  </span>
-                  {badgeDesign.backLogoUrl ? (
-                    <img
-                      src={badgeDesign.backLogoUrl}
-                      alt="Back logo"
-                      style={{
-                        width: "14mm",
-                        height: "14mm",
-                        borderRadius: "2mm",
-                        objectFit: "contain",
-                        backgroundColor: "#ffffff",
-                        border: `1px solid ${badgeDesign.borderColor}`,
-                      }}
-                    />
-                  ) : (
-                    <div
-                      style={{
-                        width: "14mm",
-                        height: "14mm",
-                        borderRadius: "3mm",
-                        background: `linear-gradient(135deg, ${badgeDesign.accentColor}, ${badgeDesign.textColor})`,
-                      }}
-                    />
-                  )}
-                </div>
+    const escape = (value: string) => `"${(value || "").replace(/"/g, '""')}"`;
+    const headers = ["Name", "Email", "AdmittedAt", "Station", "Operator", "AttendeeId"];
+    const rows = rosterRecords.map((r) =>
+      [
+        escape(r.attendeeName),
+        escape(r.attendeeEmail),
+        escape(r.timestamp),
+        escape(r.stationName || ""),
+        escape(r.operatorName || ""),
+        escape(String(r.attendeeId)),
+      ].join(",")
+    );
 
-                <div
-                  style={{
-                    width: "100%",
-                    display: "flex",
-                    justifyContent: "center",
-                  }}
-                >
-                  <div
-                    style={{
-                      width: `${Math.min(70, badgeDesign.qrSizeMm + 12)}mm`,
-                      height: `${Math.min(70, badgeDesign.qrSizeMm + 12)}mm`,
-                      display: "grid",
-                      placeItems: "center",
-                      backgroundColor: "#ffffff",
-                      border: `1px solid ${badgeDesign.borderColor}`,
-                      borderRadius: 10,
-                      boxShadow: "0 8px 20px rgba(0,0,0,0.22)",
-                    }}
-                  >
-                    <QRCodeCanvas
-                      value={printQrValue}
-                      size={320}
-                      includeMargin
-                      bgColor="#ffffff"
-                      style={{ width: "100%", height: "100%" }}
-                    />
-                  </div>
-                </div>
+    const csv = [headers.join(","), ...rows].join("\n");
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    const slug = rosterSession.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    link.download = `hemisphere-session-${slug || rosterSession.id}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
 
-                <div
-                  style={{
-                    width: "100%",
-                    display: "flex",
-                    justifyContent: "space-between",
-                    alignItems: "center",
-                    fontSize: `${badgeDesign.metaFontMm}mm`,
-                  }}
-                >
-                  <span style={{ opacity: 0.7 }}>Scan with Hemisphere Leads</span>
-                  <span style={{ color: badgeDesign.accentColor, fontWeight: 700 }}>
-                    hemisphere:{printAttendee.id}
-                  </span>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
-      )}
+  // Seat counts (and the open roster) follow admissions at every session door
+  function applyLiveAttendance(record: SessionAttendanceItem & { attendanceCount: number }) {
+    setSessionList((prev) =>
+      prev.map((s) =>
+        s.id === record.sessionId ? { ...s, attendanceCount: record.attendanceCount } : s
+      )
+    );
+    if (rosterSession?.id === record.sessionId) {
+      setRosterSession((prev) => (prev ? { ...prev, attendanceCount: record.attendanceCount } : prev));
+      setRosterRecords((prev) =>
+        prev.some((r) => r.id === record.id) ? prev : [...prev, record]
+      );
+    }
+  }
 
-      <main
-        style={{
-          minHeight: "100vh",
-          backgroundColor: "#020617",
-          display: "flex",
-          alignItems: "center",
-        justifyContent: "center",
-        padding: "1.5rem",
-      }}
-    >
-      <div
-        style={{
-          width: "100%",
-          maxWidth: 1220,
-          backgroundColor: "#020617",
-          borderRadius: 16,
-          border: "1px solid #1f2937",
-          display: "grid",
-          gridTemplateColumns: "240px 1fr",
-          minHeight: 720,
-          overflow: "hidden",
-        }}
-      >
-        <aside
-          style={{
-            borderRight: "1px solid #1f2937",
-            padding: "18px 14px",
-            backgroundColor: "#0b1224",
-          }}
-        >
-          <div style={{ marginBottom: 12 }}>
-            <img
-              src="/hemisphere-logo.svg"
-              alt="Hemisphere Media Group"
-              style={{ width: "100%", maxWidth: 260, height: "auto", display: "block" }}
-            />
-          </div>
-          <nav style={{ display: "grid", gap: 8 }}>
-            {[
-              { id: "badgeDesigner", label: "Badge Designer" },
-              { id: "checkin", label: "Check-In" },
-              { id: "exhibitors", label: "Exhibitors" },
-              { id: "leadRetrieval", label: "Lead Retrieval" },
-            ].map((item) => {
-              const active = activeSection === item.id;
-              return (
-                <button
-                  key={item.id}
-                  onClick={() => setActiveSection(item.id as any)}
-                  style={{
-                    textAlign: "left",
-                    borderRadius: 10,
-                    padding: "10px 12px",
-                    border: "1px solid #1f2937",
-                    backgroundColor: active ? "#111827" : "transparent",
-                    color: "#e5e7eb",
-                    fontSize: 14,
-                    cursor: "pointer",
-                  }}
-                >
-                  {item.label}
-                </button>
-              );
-            })}
-          </nav>
-        </aside>
+  async function regenerateActivationCode(exh: Exhibitor) {
+    setBusyCodeExhibitorId(exh.id);
+    setCodeError("");
+    try {
+      const res = await fetch("/api/activation-codes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          exhibitorId: exh.id,
+          expiresInDays: Number(codeSettings.expiresInDays),
+          maxDevices: Number(codeSettings.maxDevices),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error generating activation code");
+      }
+      await loadActivationCodes();
+    } catch (err) {
+      console.error("Regenerate activation code error:", err);
+      setCodeError(err instanceof Error ? err.message : "Error generating activation code");
+    } finally {
+      setBusyCodeExhibitorId(null);
+    }
+  }
 
-        <section style={{ padding: 18 }}>
-          <header style={{ marginBottom: 14 }}>
-            <h2 style={{ fontSize: 22, fontWeight: 700, color: "#e5e7eb" }}>
-              {activeSection === "badgeDesigner"
-                ? "Badge Designer"
-                : activeSection === "checkin"
-                ? "Hemisphere Check-In"
-                : activeSection === "exhibitors"
-                ? "Exhibitors"
-                : "Lead Retrieval"}
-            </h2>
-            <p style={{ color: "#9ca3af", fontSize: 13, marginTop: 4 }}>
-              {activeSection === "badgeDesigner" &&
-                `Design and position badges for ${mmToIn(badgeDesign.badgeWidthMm)}\" x ${mmToIn(
-                  badgeDesign.badgeHeightMm
-                )}\" cards, including QR placement, colors, and fonts.`}
-              {activeSection === "checkin" &&
-                "Filter attendees, check them in, and generate QR codes."}
-              {activeSection === "exhibitors" &&
-                "Browse exhibitors captured from lead scans with their activation codes."}
-              {activeSection === "leadRetrieval" &&
-                "Share activation codes with exhibitors so they can capture leads."}
-            </p>
-          </header>
+  async function revokeActivationCode(exh: Exhibitor, code: string) {
+    if (!window.confirm(`Revoke ${code}? Devices can no longer activate with it.`)) return;
+    setBusyCodeExhibitorId(exh.id);
+    setCodeError("");
+    try {
+      const res = await fetch(`/api/activation-codes/${encodeURIComponent(code)}`, {
+        method: "DELETE",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error revoking activation code");
+      }
+      await loadActivationCodes();
+    } catch (err) {
+      console.error("Revoke activation code error:", err);
+      setCodeError(err instanceof Error ? err.message : "Error revoking activation code");
+    } finally {
+      setBusyCodeExhibitorId(null);
+    }
+  }
 
-          {activeSection === "checkin" && (
-            <>
-              {/* Analytics */}
-              <div
-                style={{
-                  display: "grid",
-                  gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))",
-                  gap: 12,
-                  marginBottom: 12,
-                }}
-              >
-                <AnalyticsCard
-                  label="Total registrants"
-                  value={totalRegistrants}
-                  accent="#38bdf8"
-                />
-                <AnalyticsCard
-                  label="Checked in"
-                  value={totalCheckedIn}
-                  accent="#22c55e"
-                />
-                <AnalyticsCard
-                  label="Not checked in"
-                  value={totalNotCheckedIn}
-                  accent="#f97316"
-                />
-                <AnalyticsCard
-                  label="Scanned via QR"
-                  value={totalScannedViaQr}
-                  accent="#0ea5e9"
-                />
-                <AnalyticsCard
-                  label="Check-in rate"
-                  value={`${checkInRate}%`}
-                  accent="#a855f7"
-                />
-              </div>
+  async function revokeBoothDevice(device: BoothDevice) {
+    if (!window.confirm(`Sign out ${device.label}? It will need a new activation to capture leads.`)) {
+      return;
+    }
+    setCodeError("");
+    try {
+      const res = await fetch(`/api/devices/${device.id}`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error signing out device");
+      }
+      await loadBoothDevices();
+    } catch (err) {
+      console.error("Revoke device error:", err);
+      setCodeError(err instanceof Error ? err.message : "Error signing out device");
+    }
+  }
 
-              {/* Top controls row */}
-              <div
-                style={{
-                  display: "flex",
-                  flexWrap: "wrap",
-                  gap: 12,
-                  justifyContent: "space-between",
-                  alignItems: "center",
-                  marginBottom: 12,
-                }}
-              >
-                <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-                    <select
-                      value={eventFilter}
-                      onChange={(e) => setEventFilter(e.target.value)}
-                      style={{
-                        borderRadius: 10,
-                        padding: "6px 12px",
-                        border: "1px solid #374151",
-                        backgroundColor: "#020617",
-                        color: "#e5e7eb",
-                        fontSize: 13,
-                        outline: "none",
-                      }}
-                    >
-                      <option value="all">All events</option>
-                      {events.map((evt) => (
-                        <option key={evt.id} value={evt.id}>
-                          {evt.name}
-                        </option>
-                      ))}
-                    </select>
+  async function issueExhibitorLink() {
+    setIssuingLink(true);
+    setLinkError("");
+    setLinkMessage("");
+    try {
+      const res = await fetch("/api/exhibitors/request-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(linkForm),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Could not issue login link.");
+      }
+      const url = `${window.location.origin}${data.loginUrl}`;
+      copyToClipboard(url);
+      setLinkMessage(`${data.note} Copied: ${url}`);
+    } catch (err) {
+      console.error("Issue exhibitor link error:", err);
+      setLinkError(err instanceof Error ? err.message : "Could not issue login link.");
+    } finally {
+      setIssuingLink(false);
+    }
+  }
 
-                    <select
-                      value={companyFilter}
-                      onChange={(e) => setCompanyFilter(e.target.value)}
-                      style={{
-                        borderRadius: 10,
-                        padding: "6px 12px",
-                        border: "1px solid #374151",
-                        backgroundColor: "#020617",
-                        color: "#e5e7eb",
-                        fontSize: 13,
-                        outline: "none",
-                      }}
-                    >
-                      <option value="all">All companies</option>
-                      {uniqueCompanies.map((c) => (
-                        <option key={c} value={c}>
-                          {c}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+  async function signOut() {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } finally {
+      window.location.href = "/login";
+    }
+  }
 
-                  <button
-                    type="button"
-                    onClick={loadAttendees}
-                    disabled={loading}
-                    style={{
-                      borderRadius: 999,
-                      padding: "6px 12px",
-                      border: "1px solid #22c55e",
-                      backgroundColor: "transparent",
-                      color: "#22c55e",
-                      fontSize: 13,
-                      fontWeight: 600,
-                      cursor: "pointer",
-                    }}
-                  >
-                    {loading ? "Refreshing..." : "Refresh Attendees"}
-                  </button>
+  useEffect(() => {
+    loadCurrentStaff();
+    loadEvents();
+    loadAttendees();
+    loadScanLogs();
+    loadExhibitors();
+  }, []);
 
-                  {/* Status filter */}
-                  <select
-                    value={statusFilter}
-                    onChange={(e) => setStatusFilter(e.target.value)}
-                    style={{
-                      borderRadius: 999,
-                      padding: "6px 12px",
-                      border: "1px solid #374151",
-                      backgroundColor: "#020617",
-                      color: "#e5e7eb",
-                      fontSize: 13,
-                      outline: "none",
-                    }}
-                  >
-                    <option value="all">All</option>
-                    <option value="checkedIn">Checked in</option>
-                    <option value="notCheckedIn">Not checked in</option>
-                  </select>
-                </div>
+  useEffect(() => {
+    if (activeSection === "audit" && currentStaff?.role === "owner") loadAudit();
+  }, [activeSection, currentStaff]);
 
-                {/* Search input */}
-                <div style={{ minWidth: 220, flex: 1, maxWidth: 320 }}>
-                  <input
-                    value={search}
-                    onChange={(e) => setSearch(e.target.value)}
-                    placeholder="Search name, email, or company..."
-                    style={{
-                      width: "100%",
-                      borderRadius: 999,
-                      padding: "6px 12px",
-                      border: "1px solid #374151",
-                      backgroundColor: "#020617",
-                      color: "#e5e7eb",
-                      fontSize: 13,
-                      outline: "none",
-                    }}
+  useEffect(() => {
+    const storedEvent = window.localStorage.getItem(SELECTED_EVENT_KEY);
+    if (storedEvent) setEventFilter(storedEvent);
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const stored = window.localStorage.getItem(LEGACY_BADGE_DESIGN_KEY);
+    if (!stored) return;
+    try {
+      setLegacyBadgeDesign({ ...DEFAULT_BADGE_DESIGN, ...JSON.parse(stored) });
+    } catch (err) {
+      console.error("Badge design parse error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBadgeTemplates();
+  }, [events]);
+
+  // Design for the event picked in the header, once events have loaded
+  useEffect(() => {
+    if (templateEventId || !events.length || !badgeTemplatesLoaded) return;
+    const preferred = events.find((evt) => evt.id === eventFilter) || events.find((evt) => !evt.archivedAt);
+    if (preferred) chooseTemplateEvent(preferred.id);
+  }, [events, eventFilter, badgeTemplatesLoaded]);
+
+  const updateBadgeDesign = (partial: Partial<BadgeDesign>) => {
+    setBadgeDesign((prev) => {
+      const next = { ...prev, ...partial };
+      const widthMm = Math.min(
+        Math.max(50, next.badgeWidthMm || DEFAULT_BADGE_WIDTH_MM),
+        120
+      );
+      const heightMm = Math.min(
+        Math.max(40, next.badgeHeightMm || DEFAULT_BADGE_HEIGHT_MM),
+        100
+      );
+      const maxQrSize = Math.max(
+        12,
+        Math.min(
+          90,
+          Math.min(widthMm, heightMm) - 8
+        )
+      );
+      const qrSizeMm = Math.min(Math.max(12, next.qrSizeMm), maxQrSize);
+      const maxOffsetX = Math.max(0, widthMm - qrSizeMm);
+      const maxOffsetY = Math.max(0, heightMm - qrSizeMm);
+      return {
+        ...next,
+        badgeWidthMm: widthMm,
+        badgeHeightMm: heightMm,
+        qrOffsetXMm: Math.min(Math.max(0, next.qrOffsetXMm), maxOffsetX),
+        qrOffsetYMm: Math.min(Math.max(0, next.qrOffsetYMm), maxOffsetY),
+        qrSizeMm,
+        borderRadiusMm: Math.min(Math.max(0, next.borderRadiusMm), 10),
+        nameFontMm: Math.min(Math.max(3, next.nameFontMm), 8),
+        companyFontMm: Math.min(Math.max(2, next.companyFontMm), 6),
+        metaFontMm: Math.min(Math.max(2, next.metaFontMm), 5),
+      };
+    });
+  };
+
+  const resetBadgeDesign = () => setBadgeDesign(DEFAULT_BADGE_DESIGN);
+
+  const updateBadgeElement = (id: string, partial: Partial<BadgeElement>) => {
+    setBadgeDesign((prev) => ({
+      ...prev,
+      elements: (prev.elements || []).map((el) => (el.id === id ? { ...el, ...partial } : el)),
+    }));
+  };
+
+  // New elements go on top, on the side of the element being edited
+  const addBadgeElement = (preset: BadgeElementPreset) => {
+    const element = newBadgeElement(preset, badgeDesign, selectedElement?.side || "front");
+    setBadgeDesign((prev) => ({ ...prev, elements: [...(prev.elements || []), element] }));
+    setSelectedElementId(element.id);
+  };
+
+  const removeBadgeElement = (id: string) => {
+    setBadgeDesign((prev) => ({ ...prev, elements: (prev.elements || []).filter((el) => el.id !== id) }));
+    if (selectedElementId === id) setSelectedElementId(null);
+  };
+
+  // Later elements are drawn over earlier ones
+  const moveBadgeElement = (id: string, delta: number) => {
+    setBadgeDesign((prev) => {
+      const elements = [...(prev.elements || [])];
+      const from = elements.findIndex((el) => el.id === id);
+      const to = from + delta;
+      if (from < 0 || to < 0 || to >= elements.length) return prev;
+      [elements[from], elements[to]] = [elements[to], elements[from]];
+      return { ...prev, elements };
+    });
+  };
+
+  // Free-form layouts start from the classic one, so nothing moves on switching
+  const switchToFreeForm = () => {
+    setBadgeDesign((prev) => ({ ...prev, elements: classicElements(prev) }));
+    setSelectedElementId(null);
+  };
+
+  const switchToClassic = () => {
+    if (!window.confirm("Go back to the classic layout? The free-form elements will be removed.")) return;
+    setBadgeDesign((prev) => ({ ...prev, elements: [] }));
+    setSelectedElementId(null);
+  };
+
+  const handleElementImageUpload = (id: string) => (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      updateBadgeElement(id, { imageUrl: typeof reader.result === "string" ? reader.result : "" });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // Templates of every event in the list, so badges preview for any attendee
+  async function loadBadgeTemplates() {
+    if (!events.length) return [];
+    try {
+      const query = new URLSearchParams(events.map((evt) => ["eventId", evt.id]));
+      const res = await fetch(`/api/badge-templates?${query}`, { cache: "no-store" });
+      if (!res.ok) return [];
+      const data = await res.json();
+      const list: BadgeTemplateItem[] = Array.isArray(data) ? data : [];
+      setBadgeTemplates(list);
+      setBadgeTemplatesLoaded(true);
+      return list;
+    } catch (err) {
+      console.error("Load badge templates error:", err);
+      return [];
+    }
+  }
+
+  function openTemplate(template: BadgeTemplateItem | null) {
+    setSelectedTemplateId(template ? template.id : "");
+    setTemplateForm(
+      template
+        ? { name: template.name, isDefault: template.isDefault, attendeeTypes: template.attendeeTypes }
+        : EMPTY_TEMPLATE_FORM
+    );
+    setBadgeDesign(template ? { ...DEFAULT_BADGE_DESIGN, ...template.design } : DEFAULT_BADGE_DESIGN);
+    setSelectedElementId(null);
+    setTemplateError("");
+    setTemplateMessage("");
+  }
+
+  // Opens the event's default template, or a blank design if it has none
+  function chooseTemplateEvent(eventId: string, templates = badgeTemplates) {
+    setTemplateEventId(eventId);
+    const own = templates.filter((t) => t.eventId === eventId);
+    openTemplate(own.find((t) => t.isDefault) || own[0] || null);
+  }
+
+  // Saves the open template, or creates one when none is open or asNew is set
+  async function saveBadgeTemplate(asNew = false) {
+    const current = badgeTemplates.find((t) => t.id === selectedTemplateId);
+    const creating = asNew || !current;
+    const name = creating && current ? `${templateForm.name} (copy)` : templateForm.name;
+    if (!templateEventId) {
+      setTemplateError("Pick the event this template is for");
+      return;
+    }
+
+    setSavingTemplate(true);
+    setTemplateError("");
+    setTemplateMessage("");
+    try {
+      const body = {
+        ...templateForm,
+        name,
+        // A copy doesn't take over the default or types from its original
+        ...(creating && current ? { isDefault: false, attendeeTypes: [] } : {}),
+        design: badgeDesign,
+        ...(creating ? { eventId: templateEventId } : { version: current!.version }),
+      };
+      const res = await fetch(creating ? "/api/badge-templates" : `/api/badge-templates/${current!.id}`, {
+        method: creating ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error saving badge template");
+      }
+
+      await loadBadgeTemplates();
+      openTemplate(data.template);
+      setTemplateMessage(`Saved "${data.template.name}" (version ${data.template.version})`);
+      if (legacyBadgeDesign) {
+        window.localStorage.removeItem(LEGACY_BADGE_DESIGN_KEY);
+        setLegacyBadgeDesign(null);
+      }
+    } catch (err) {
+      console.error("Save badge template error:", err);
+      setTemplateError(err instanceof Error ? err.message : "Error saving badge template");
+    } finally {
+      setSavingTemplate(false);
+    }
+  }
+
+  async function deleteBadgeTemplate() {
+    const current = badgeTemplates.find((t) => t.id === selectedTemplateId);
+    if (!current) return;
+    if (!window.confirm(`Delete the "${current.name}" badge template?`)) return;
+
+    setTemplateError("");
+    try {
+      const res = await fetch(`/api/badge-templates/${current.id}`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error deleting badge template");
+      }
+      chooseTemplateEvent(templateEventId, await loadBadgeTemplates());
+    } catch (err) {
+      console.error("Delete badge template error:", err);
+      setTemplateError(err instanceof Error ? err.message : "Error deleting badge template");
+    }
+  }
+
+  // Starts a new template from the design this browser saved before
+  // templates were stored on the server
+  function restoreLegacyBadgeDesign() {
+    if (!legacyBadgeDesign) return;
+    openTemplate(null);
+    setTemplateForm({ ...EMPTY_TEMPLATE_FORM, name: "Saved in this browser" });
+    setBadgeDesign(legacyBadgeDesign);
+  }
+
+  // Batch of badges for the designer's event as a PDF sheet file, rendered
+  // on the server with the saved templates
+  async function downloadBadgesPdf() {
+    if (!templateEventId) {
+      setBadgePdfError("Pick the event to print badges for");
+      return;
+    }
+
+    setPrintingPdf(true);
+    setBadgePdfError("");
+    try {
+      const res = await fetch("/api/badges/pdf", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...badgePdfForm, eventId: templateEventId }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error generating badges");
+      }
+
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `hemisphere-badges-${templateEventId}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      if (badgePdfForm.markPrinted) loadAttendees();
+    } catch (err) {
+      console.error("Badge PDF error:", err);
+      setBadgePdfError(err instanceof Error ? err.message : "Error generating badges");
+    } finally {
+      setPrintingPdf(false);
+    }
+  }
+
+  const handleLogoUpload = (side: "front" | "back") => (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const url = typeof reader.result === "string" ? reader.result : "";
+      updateBadgeDesign(side === "front" ? { frontLogoUrl: url } : { backLogoUrl: url });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const clearLogo = (side: "front" | "back") => {
+    updateBadgeDesign(side === "front" ? { frontLogoUrl: "" } : { backLogoUrl: "" });
+  };
+
+  useEffect(() => {
+    if (!printAttendee) return;
+    const timer = setTimeout(() => {
+      window.print();
+    }, 150);
+
+    return () => clearTimeout(timer);
+  }, [printAttendee]);
+
+  useEffect(() => {
+    const handleAfterPrint = () => setPrintAttendee(null);
+    window.addEventListener("afterprint", handleAfterPrint);
+    return () => window.removeEventListener("afterprint", handleAfterPrint);
+  }, []);
+
+  // Registrations, edits and check-ins from other desks and scanners
+  function upsertAttendee(attendee: Attendee) {
+    setAttendees((prev) =>
+      prev.some((a) => a.id === attendee.id)
+        ? prev.map((a) => (a.id === attendee.id ? { ...a, ...attendee } : a))
+        : [attendee, ...prev]
+    );
+  }
+
+  // Entries and exits move the occupancy figures; refetch them at most once
+  // a second rather than per scan
+  const occupancyReload = useRef<ReturnType<typeof setTimeout> | null>(null);
+  function handleLiveCheckin(attendee: Attendee) {
+    upsertAttendee(attendee);
+    if (editingAttendee?.id === attendee.id) loadCheckinHistory(attendee.id);
+  }
+
+  function handleLiveEntry(entry: EntryItem & { attendeeId: string }) {
+    if (editingAttendee?.id === entry.attendeeId) {
+      setAttendeeEntries((prev) => (prev.some((e) => e.id === entry.id) ? prev : [...prev, entry]));
+    }
+    if (occupancyReload.current) return;
+    occupancyReload.current = setTimeout(() => {
+      occupancyReload.current = null;
+      loadOccupancy(eventFilter);
+      if (entry.sessionId) loadSessions();
+    }, 1000);
+  }
+
+  const liveConnected = useLiveUpdates({
+    registration: upsertAttendee,
+    attendee: upsertAttendee,
+    checkin: handleLiveCheckin,
+    attendance: applyLiveAttendance,
+    entry: handleLiveEntry,
+    scanlog: (log: ScanLog) => setScanLogs((prev) => [...prev, log]),
+  });
+
+  useEffect(() => {
+    loadOccupancy(eventFilter);
+    const timer = setInterval(() => loadOccupancy(eventFilter), 30 * 1000);
+    return () => clearInterval(timer);
+  }, [eventFilter]);
+
+  // Persisted check-in/uncheck via API with an optimistic state update
+  async function handleCheckStatus(id: string, checkedIn: boolean) {
+    setCheckingInId(id);
+    setError("");
+
+    // Optimistic UI update while request is in-flight
+    setAttendees((prev) =>
+      prev.map((a) =>
+        a.id === id
+          ? {
+              ...a,
+              checkedIn,
+              checkedInAt: checkedIn ? new Date().toISOString() : undefined,
+            }
+          : a
+      )
+    );
+
+    try {
+      const res = await fetch("/api/checkin", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id, checkedIn, source: "admin" }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error saving check-in status.");
+      }
+
+      const data = await res.json();
+
+      // Reconcile with server response to ensure timestamps match what was written to disk
+      if (data?.attendee) {
+        setAttendees((prev) =>
+          prev.map((a) => (a.id === id ? { ...a, ...data.attendee } : a))
+        );
+      } else {
+        // If the shape isn't as expected, reload from disk
+        await loadAttendees();
+      }
+    } catch (err: unknown) {
+      console.error("Check-in error:", err);
+      setError(
+        err instanceof Error ? err.message : "Network error saving check-in status."
+      );
+      // Undo the optimistic update by reloading the latest state without clearing the error
+      try {
+        const res = await fetch("/api/attendees", { cache: "no-store" });
+        if (res.ok) {
+          const latest = await res.json();
+          setAttendees(Array.isArray(latest) ? latest : []);
+        }
+      } catch (reloadErr) {
+        console.error("Reload after failed check-in error:", reloadErr);
+      }
+    } finally {
+      setCheckingInId(null);
+    }
+  }
+
+  // Find the attendee we’re showing the QR for
+  const qrAttendee = attendees.find((a) => a.id === qrAttendeeId) || null;
+  // Signed by the server; scanners reject badges whose payload was altered
+  const qrValue = qrAttendee?.qrValue || "";
+  const printQrValue = printAttendee?.qrValue || "";
+
+  // Apply event + company filters first
+  const baseFiltered = attendees.filter((a) => {
+    const matchesEvent =
+      eventFilter === "all" ||
+      (a.eventId ? String(a.eventId) === eventFilter : true);
+    const matchesCompany =
+      companyFilter === "all" ||
+      (a.company || "").toLowerCase() === companyFilter.toLowerCase();
+    return matchesEvent && matchesCompany;
+  });
+
+  // Then apply search + type + status filter
+  const filteredAttendees = baseFiltered.filter((a) => {
+    const fullName = `${a.firstName || ""} ${a.lastName || ""}`.trim();
+    const checked = !!a.checkedIn;
+
+    const searchText = search.trim().toLowerCase();
+    const matchesSearch =
+      !searchText ||
+      fullName.toLowerCase().includes(searchText) ||
+      (a.email || "").toLowerCase().includes(searchText) ||
+      (a.company || "").toLowerCase().includes(searchText);
+
+    const matchesStatus =
+      statusFilter === "all" ||
+      (statusFilter === "checkedIn" && checked) ||
+      (statusFilter === "notCheckedIn" && !checked);
+
+    const matchesType = typeFilter === "all" || typeInfoFor(a).id === typeFilter;
+
+    return matchesSearch && matchesType && matchesStatus;
+  });
+
+  // Analytics derived from event/company filters (not search/status)
+  const totalRegistrants = baseFiltered.length;
+  const totalCheckedIn = baseFiltered.filter((a) => a.checkedIn).length;
+  const totalNotCheckedIn = Math.max(totalRegistrants - totalCheckedIn, 0);
+  const scannedIdSet = new Set(scanLogs.map((l) => String(l.attendeeId)));
+  const totalScannedViaQr = baseFiltered.filter((a) =>
+    scannedIdSet.has(String(a.id))
+  ).length;
+  const checkInRate =
+    totalRegistrants === 0
+      ? 0
+      : Math.round((totalCheckedIn / totalRegistrants) * 100);
+
+  // Registered and checked in per attendee type; events naming a type the
+  // same way share a row
+  const typeCounts = new Map<string, { label: string; color: string; registered: number; checkedIn: number }>();
+  baseFiltered.forEach((a) => {
+    const type = typeInfoFor(a);
+    const row = typeCounts.get(type.id) || { label: type.label, color: type.color, registered: 0, checkedIn: 0 };
+    row.registered += 1;
+    if (a.checkedIn) row.checkedIn += 1;
+    typeCounts.set(type.id, row);
+  });
+
+  const uniqueCompanies = Array.from(
+    new Set(attendees.map((a) => (a.company || "").trim()).filter(Boolean))
+  );
+
+  const activeEvents = events.filter((evt) => !evt.archivedAt);
+  const scopedEventId = eventFilter === "all" ? "" : eventFilter;
+
+  const filteredExhibitors = exhibitors.filter((ex) => {
+    if (scopedEventId && ex.eventId !== scopedEventId) return false;
+    const term = exhibitorSearch.trim().toLowerCase();
+    if (!term) return true;
+    return (
+      ex.name.toLowerCase().includes(term) ||
+      ex.boothNumber.toLowerCase().includes(term) ||
+      ex.contactEmails.some((email) => email.includes(term))
+    );
+  });
+
+  const scopedDevices = boothDevices.filter(
+    (device) => !scopedEventId || device.eventId === scopedEventId
+  );
+
+  const canEditExhibitors =
+    currentStaff?.role === "owner" || currentStaff?.role === "registration";
+
+  const templateEventAttendees = attendees.filter((a) => templateEventId && a.eventId === templateEventId);
+  const templateEventTypes = eventAttendeeTypes(events.find((evt) => evt.id === templateEventId));
+  const templateEventCompanies = Array.from(
+    new Set(templateEventAttendees.map((a) => (a.company || "").trim()).filter(Boolean))
+  ).sort((a, b) => a.localeCompare(b));
+  const unprintedBadgeCount = templateEventAttendees.filter((a) => !a.printedAt).length;
+
+  const visibleImportRows = (importReport?.rows || []).filter(
+    (r) => importStatusFilter === "all" || r.status === importStatusFilter
+  );
+
+  const scopedStations = stationList.filter(
+    (station) => !scopedEventId || station.eventId === scopedEventId
+  );
+
+  // Same rule as the server: the latest change that isn't an undo and hasn't
+  // been undone
+  const undoneChangeIds = new Set(checkinChanges.map((c) => c.undoesId).filter(Boolean));
+  const canUndoCheckin = checkinChanges.some(
+    (c) => c.source !== "undo" && !undoneChangeIds.has(c.id)
+  );
+
+  // The open attendee as the list has it, so prints made while the drawer
+  // is open show up
+  const drawerAttendee = editingAttendee
+    ? attendees.find((a) => a.id === editingAttendee.id) || editingAttendee
+    : null;
+  const editFormEvent = events.find((evt) => evt.id === editForm.eventId) || null;
+
+  const scopedSessions = sessionList.filter(
+    (session) => !scopedEventId || session.eventId === scopedEventId
+  );
+
+  // Newest code per exhibitor; the list comes back newest first
+  function latestCodeFor(exhibitorId: string) {
+    return activationCodeList.find((c) => c.exhibitorId === exhibitorId) || null;
+  }
+
+  function exhibitorName(exhibitorId: string) {
+    return exhibitors.find((exh) => exh.id === exhibitorId)?.name || "Removed exhibitor";
+  }
+
+  function eventName(eventId: string) {
+    return events.find((evt) => evt.id === eventId)?.name || eventId;
+  }
+
+  // The attendee's type and ticket as their event defines them
+  function typeInfoFor(attendee: Pick<Attendee, "eventId" | "attendeeType" | "ticketCategoryId">) {
+    return attendeeTypeInfo(
+      events.find((evt) => evt.id === attendee.eventId),
+      attendee
+    );
+  }
+
+  function copyToClipboard(value: string) {
+    if (typeof navigator === "undefined" || !navigator.clipboard) return;
+    navigator.clipboard.writeText(value).catch((err) => {
+      console.error("Copy failed:", err);
+    });
+  }
+
+  // Records the print first, so the badge carries the QR the server now
+  // expects, and reloads templates so a design another desk just saved is
+  // used. A reissue replaces the attendee's earlier badges.
+  const printBadge = async (attendee: Attendee, reissue = false) => {
+    const copies = attendee.printCount || 1;
+    if (reissue) {
+      if (!window.confirm("Print a replacement badge? The QR on every earlier copy will stop working.")) return;
+    } else if (
+      attendee.printedAt &&
+      !window.confirm(`This badge has been printed ${copies === 1 ? "once" : `${copies} times`}. Print another copy?`)
+    ) {
+      return;
+    }
+
+    const reportError = reissue ? setEditError : setError;
+    reportError("");
+    try {
+      const res = await fetch(`/api/attendees/${encodeURIComponent(attendee.id)}/print`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reissue }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Error printing badge");
+      }
+
+      upsertAttendee(data.attendee);
+      await loadBadgeTemplates();
+      setPrintAttendee({ ...data.attendee });
+    } catch (err) {
+      console.error("Print badge error:", err);
+      reportError(err instanceof Error ? err.message : "Error printing badge");
+    }
+  };
+
+  function staffName(staffId?: string) {
+    if (!staffId) return "";
+    if (currentStaff?.id === staffId) return currentStaff.name;
+    return staffMembers.find((member) => member.id === staffId)?.name || "another staff member";
+  }
+
+  const startEdit = (attendee: Attendee) => {
+    setEditingAttendee(attendee);
+    loadAttendeeEntries(attendee.id);
+    loadCheckinHistory(attendee.id);
+    setEditForm({
+      firstName: attendee.firstName || "",
+      lastName: attendee.lastName || "",
+      email: attendee.email || "",
+      company: attendee.company || "",
+      eventId: attendee.eventId || "",
+      customFields: attendee.customFields || {},
+      attendeeType: typeInfoFor(attendee).id,
+      ticketCategoryId: attendee.ticketCategoryId || "",
+    });
+    setEditError("");
+  };
+
+  const handleEditChange = (field: keyof Attendee, value: string) => {
+    setEditForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleCustomFieldChange = (fieldId: string, value: CustomFieldValue) => {
+    setEditForm((prev) => ({ ...prev, customFields: { ...(prev.customFields || {}), [fieldId]: value } }));
+  };
+
+  const saveEdit = async () => {
+    if (!editingAttendee) return;
+    setSavingEdit(true);
+    setEditError("");
+    try {
+      const res = await fetch(`/api/attendees/${editingAttendee.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(editForm),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Error updating attendee");
+      }
+
+      const data = await res.json();
+      if (data?.attendee) {
+        setAttendees((prev) =>
+          prev.map((a) => (a.id === editingAttendee.id ? { ...a, ...data.attendee } : a))
+        );
+      }
+      setEditingAttendee(null);
+    } catch (err) {
+      console.error("Save edit error:", err);
+      setEditError(err instanceof Error ? err.message : "Error updating attendee");
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const previewAttendee =
+    qrAttendee ||
+    baseFiltered[0] || {
+      id: "sample",
+      firstName: "Sample",
+      lastName: "Attendee",
+      company: "Hemisphere Media Group",
+      eventId: "EVT-001",
+    };
+
+  const designerQrValue =
+    ("qrValue" in previewAttendee && previewAttendee.qrValue) || "hemisphere:sample";
+  const designerContext: BadgeContext = {
+    attendee: previewAttendee,
+    attendeeType: typeInfoFor({ ...previewAttendee, eventId: previewAttendee.eventId || templateEventId }),
+    eventName: events.find((e) => e.id === (previewAttendee.eventId || templateEventId))?.name || "Sample event",
+    qrValue: designerQrValue,
+  };
+  const freeFormLayout = !!badgeDesign.elements?.length;
+  const selectedElement = badgeDesign.elements?.find((el) => el.id === selectedElementId) || null;
+  const maxQrOffsetX = Math.max(0, badgeDesign.badgeWidthMm - badgeDesign.qrSizeMm);
+  const maxQrOffsetY = Math.max(0, badgeDesign.badgeHeightMm - badgeDesign.qrSizeMm);
+  const mmToIn = (mm: number) => (mm / 25.4).toFixed(2);
+
+  // Badges print with the attendee's template, not whatever the designer has open
+  const printDesign = printAttendee
+    ? {
+        ...DEFAULT_BADGE_DESIGN,
+        ...templateForAttendee(printAttendee, badgeTemplates, typeInfoFor(printAttendee).id)?.design,
+      }
+    : badgeDesign;
+  const printWidthInches = `${mmToIn(printDesign.badgeWidthMm)}in`;
+
+  const updateQrFromPoint = (clientX: number, clientY: number) => {
+    const el = frontPreviewRef.current;
+    if (!el) return;
+    const rect = el.getBoundingClientRect();
+    if (!rect.width || !rect.height) return;
+    const mmPerPxX = badgeDesign.badgeWidthMm / rect.width;
+    const mmPerPxY = badgeDesign.badgeHeightMm / rect.height;
+    const newX = (clientX - rect.left) * mmPerPxX - badgeDesign.qrSizeMm / 2;
+    const newY = (clientY - rect.top) * mmPerPxY - badgeDesign.qrSizeMm / 2;
+    updateBadgeDesign({ qrOffsetXMm: newX, qrOffsetYMm: newY });
+  };
+
+  // Classic layouts move the QR to the pointer; free-form layouts select and
+  // drag the element under it
+  const handlePreviewPointerDown = (side: BadgeSide) => (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    if (!freeFormLayout) {
+      if (side !== "front") return;
+      setDraggingQr(true);
+      updateQrFromPoint(e.clientX, e.clientY);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      return;
+    }
+    const id = (e.target as HTMLElement).dataset.elementId || "";
+    const element = badgeDesign.elements?.find((el) => el.id === id);
+    setSelectedElementId(element ? id : null);
+    if (!element) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (!rect.width) return;
+    elementDragRef.current = {
+      id,
+      startX: e.clientX,
+      startY: e.clientY,
+      originXMm: element.xMm,
+      originYMm: element.yMm,
+      mmPerPx: badgeDesign.badgeWidthMm / rect.width,
+    };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePreviewPointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = elementDragRef.current;
+    if (drag) {
+      const element = badgeDesign.elements?.find((el) => el.id === drag.id);
+      if (!element) return;
+      const snap = (mm: number, max: number) => Math.round(Math.min(Math.max(0, mm), max) * 2) / 2;
+      updateBadgeElement(drag.id, {
+        xMm: snap(drag.originXMm + (e.clientX - drag.startX) * drag.mmPerPx, badgeDesign.badgeWidthMm - element.widthMm),
+        yMm: snap(drag.originYMm + (e.clientY - drag.startY) * drag.mmPerPx, badgeDesign.badgeHeightMm - element.heightMm),
+      });
+      return;
+    }
+    if (!draggingQr) return;
+    updateQrFromPoint(e.clientX, e.clientY);
+  };
+
+  const handlePreviewPointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (!draggingQr && !elementDragRef.current) return;
+    setDraggingQr(false);
+    elementDragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  return (
+    <>
+      <style
+        dangerouslySetInnerHTML={{
+          __html: `
+          @media print {
+            body * {
+              visibility: hidden !important;
+            }
+            #badge-print-root, #badge-print-root * {
+              visibility: visible !important;
+            }
+            #badge-print-root {
+              display: flex !important;
+              position: static !important;
+              inset: auto !important;
+              opacity: 1 !important;
+              pointer-events: auto !important;
+              width: 100% !important;
+              padding: 24px !important;
+              background: #f8fafc !important;
+            }
+          }
+        `,
+        }}
+      />
+
+      {printAttendee && (
+        <div
+          id="badge-print-root"
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: 24,
+            position: "fixed",
+            inset: 0,
+            zIndex: -1,
+            opacity: 0,
+            pointerEvents: "none",
+            backgroundColor: "#f8fafc",
+          }}
+        >
+          <div style={{ display: "flex", flexDirection: "column", gap: "10mm", alignItems: "center" }}>
+            {badgeSides(printDesign).map((side) => (
+              <BadgeFace
+                key={side}
+                design={printDesign}
+                side={side}
+                context={{
+                  attendee: printAttendee,
+                  attendeeType: typeInfoFor(printAttendee),
+                  eventName: events.find((e) => e.id === printAttendee.eventId)?.name || "",
+                  qrValue: printQrValue,
+                }}
+                width={printWidthInches}
+                style={{ maxWidth: "100%", boxShadow: "0 18px 40px rgba(15, 23, 42, 0.16)" }}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <main
+        style={{
+          minHeight: "100vh",
+          backgroundColor: "#020617",
+          display: "flex",
+          alignItems: "center",
+        justifyContent: "center",
+        padding: "1.5rem",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: 1220,
+          backgroundColor: "#020617",
+          borderRadius: 16,
+          border: "1px solid #1f2937",
+          display: "grid",
+          gridTemplateColumns: "240px 1fr",
+          minHeight: 720,
+          overflow: "hidden",
+        }}
+      >
+        <aside
+          style={{
+            borderRight: "1px solid #1f2937",
+            padding: "18px 14px",
+            backgroundColor: "#0b1224",
+          }}
+        >
+          <div style={{ marginBottom: 12 }}>
+            <img
+              src="/hemisphere-logo.svg"
+              alt="Hemisphere Media Group"
+              style={{ width: "100%", maxWidth: 260, height: "auto", display: "block" }}
+            />
+          </div>
+          <label style={{ display: "block", color: "#9ca3af", fontSize: 12, marginBottom: 12 }}>
+            Event
+            <select
+              value={eventFilter}
+              onChange={(e) => selectEvent(e.target.value)}
+              style={{
+                width: "100%",
+                marginTop: 4,
+                borderRadius: 10,
+                padding: "8px 10px",
+                border: "1px solid #374151",
+                backgroundColor: "#020617",
+                color: "#e5e7eb",
+                fontSize: 13,
+                outline: "none",
+              }}
+            >
+              <option value="all">All events</option>
+              {events
+                .filter((evt) => !evt.archivedAt || evt.id === eventFilter)
+                .map((evt) => (
+                  <option key={evt.id} value={evt.id}>
+                    {evt.name}
+                    {evt.archivedAt ? " (archived)" : ""}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <nav style={{ display: "grid", gap: 8 }}>
+            {[
+              { id: "events", label: "Events" },
+              { id: "badgeDesigner", label: "Badge Designer" },
+              { id: "checkin", label: "Check-In" },
+              ...(canEditExhibitors ? [{ id: "import", label: "Import Attendees" }] : []),
+              { id: "stations", label: "Stations" },
+              { id: "sessions", label: "Sessions" },
+              { id: "exhibitors", label: "Exhibitors" },
+              { id: "leadRetrieval", label: "Lead Retrieval" },
+              ...(currentStaff?.role === "owner"
+                ? [
+                    { id: "staff", label: "Staff" },
+                    { id: "audit", label: "Audit Log" },
+                  ]
+                : []),
+            ].map((item) => {
+              const active = activeSection === item.id;
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => setActiveSection(item.id as any)}
+                  style={{
+                    textAlign: "left",
+                    borderRadius: 10,
+                    padding: "10px 12px",
+                    border: "1px solid #1f2937",
+                    backgroundColor: active ? "#111827" : "transparent",
+                    color: "#e5e7eb",
+                    fontSize: 14,
+                    cursor: "pointer",
+                  }}
+                >
+                  {item.label}
+                </button>
+              );
+            })}
+          </nav>
+
+          {currentStaff && (
+            <div style={{ marginTop: 16 }}>
+              <p style={{ color: "#e5e7eb", fontSize: 13, margin: 0 }}>{currentStaff.name}</p>
+              <p style={{ color: "#9ca3af", fontSize: 12, margin: "2px 0 8px" }}>
+                {STAFF_ROLE_LABELS[currentStaff.role]}
+              </p>
+              <button
+                onClick={signOut}
+                style={{
+                  borderRadius: 10,
+                  padding: "8px 12px",
+                  border: "1px solid #374151",
+                  backgroundColor: "transparent",
+                  color: "#e5e7eb",
+                  fontSize: 13,
+                  cursor: "pointer",
+                  width: "100%",
+                }}
+              >
+                Sign out
+              </button>
+            </div>
+          )}
+        </aside>
+
+        <section style={{ padding: 18 }}>
+          <header style={{ marginBottom: 14 }}>
+            <h2 style={{ fontSize: 22, fontWeight: 700, color: "#e5e7eb" }}>
+              {activeSection === "events"
+                ? "Events"
+                : activeSection === "badgeDesigner"
+                ? "Badge Designer"
+                : activeSection === "checkin"
+                ? "Hemisphere Check-In"
+                : activeSection === "import"
+                ? "Import Attendees"
+                : activeSection === "stations"
+                ? "Check-In Stations"
+                : activeSection === "sessions"
+                ? "Sessions"
+                : activeSection === "exhibitors"
+                ? "Exhibitors"
+                : activeSection === "staff"
+                ? "Staff"
+                : activeSection === "audit"
+                ? "Audit Log"
+                : "Lead Retrieval"}
+              {activeSection === "checkin" && (
+                <span
+                  title={
+                    liveConnected
+                      ? "Check-ins from other desks and scanners appear as they happen"
+                      : "Reconnecting to live updates"
+                  }
+                  style={{
+                    marginLeft: 10,
+                    verticalAlign: "middle",
+                    borderRadius: 999,
+                    padding: "2px 8px",
+                    fontSize: 11,
+                    fontWeight: 600,
+                    border: `1px solid ${liveConnected ? "#22c55e" : "#f59e0b"}`,
+                    color: liveConnected ? "#22c55e" : "#f59e0b",
+                  }}
+                >
+                  {liveConnected ? "● Live" : "Reconnecting…"}
+                </span>
+              )}
+            </h2>
+            <p style={{ color: "#9ca3af", fontSize: 13, marginTop: 4 }}>
+              {activeSection === "events" &&
+                "Create events, set their dates, venue and branding, and archive them when they are over."}
+              {activeSection === "badgeDesigner" &&
+                `Design and position badges for ${mmToIn(badgeDesign.badgeWidthMm)}\" x ${mmToIn(
+                  badgeDesign.badgeHeightMm
+                )}\" cards, including QR placement, colors, and fonts.`}
+              {activeSection === "checkin" &&
+                "Filter attendees, check them in, and generate QR codes."}
+              {activeSection === "import" &&
+                "Upload a CSV or XLSX registrant list, match its columns, and preview errors and duplicates before anything is saved."}
+              {activeSection === "stations" &&
+                "Name each door or desk that scans badges. Scanners pick their station so the dashboard can compare them."}
+              {activeSection === "sessions" &&
+                "Plan talks and workshops by room and time slot. Scanners in session mode admit people up to each session's capacity."}
+              {activeSection === "exhibitors" &&
+                "Register exhibitors, their booths and booth staff, and issue portal login links."}
+              {activeSection === "leadRetrieval" &&
+                "Manage the codes exhibitors use to activate lead capture devices, and sign devices out."}
+              {activeSection === "staff" &&
+                "Create staff accounts and choose what each person can do."}
+              {activeSection === "audit" &&
+                "Every change made by staff: who, what, before and after, and from where. Export it for compliance reviews."}
+            </p>
+            {occupancy && (
+              <div style={{ display: "grid", gap: 6, marginTop: 10 }}>
+                <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+                  <span
+                    style={{
+                      borderRadius: 999,
+                      padding: "3px 10px",
+                      fontSize: 12,
+                      fontWeight: 700,
+                      border: `1px solid ${ALERT_COLORS[occupancy.level]}`,
+                      color: ALERT_COLORS[occupancy.level],
+                    }}
+                  >
+                    Inside now: {occupancy.occupancy}
+                    {occupancy.limit ? ` / ${occupancy.limit}` : ""}
+                  </span>
+                  {occupancy.sessions
+                    .filter((s) => s.occupancy > 0)
+                    .map((s) => (
+                      <span
+                        key={s.id}
+                        title={s.room || undefined}
+                        style={{
+                          borderRadius: 999,
+                          padding: "3px 10px",
+                          fontSize: 11,
+                          border: "1px solid #1f2937",
+                          color: s.level === "ok" ? "#9ca3af" : ALERT_COLORS[s.level],
+                        }}
+                      >
+                        {s.title}: {s.occupancy}
+                        {s.capacity !== null ? ` / ${s.capacity}` : ""}
+                      </span>
+                    ))}
+                </div>
+                {[
+                  ...(occupancy.level !== "ok"
+                    ? [{ id: "venue", name: "The venue", level: occupancy.level }]
+                    : []),
+                  ...occupancy.sessions
+                    .filter((s) => s.level !== "ok")
+                    .map((s) => ({ id: s.id, name: s.title, level: s.level })),
+                ].map((alert) => (
+                  <p
+                    key={alert.id}
+                    style={{ margin: 0, fontSize: 12, fontWeight: 600, color: ALERT_COLORS[alert.level] }}
+                  >
+                    {alert.level === "full"
+                      ? `${alert.name} is at capacity. Hold entry until people leave.`
+                      : `${alert.name} is over ${occupancy.alertPercent}% of capacity.`}
+                  </p>
+                ))}
+              </div>
+            )}
+          </header>
+
+          {activeSection === "events" && (
+            <section
+              style={{
+                border: "1px solid #1f2937",
+                borderRadius: 12,
+                padding: 16,
+                backgroundColor: "#0f172a",
+                display: "grid",
+                gap: 12,
+              }}
+            >
+              {currentStaff?.role === "owner" && (
+                <div
+                  style={{
+                    border: "1px solid #1f2937",
+                    borderRadius: 10,
+                    padding: 12,
+                    backgroundColor: "#0b1120",
+                    display: "grid",
+                    gap: 8,
+                  }}
+                >
+                  <p style={{ margin: 0, color: "#e5e7eb", fontSize: 13, fontWeight: 600 }}>
+                    {editingEventId ? "Edit event" : "Create event"}
+                  </p>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    {(
+                      [
+                        ["name", "Event name", "text"],
+                        ["venue", "Venue", "text"],
+                        ["timeZone", "Time zone (e.g. America/New_York)", "text"],
+                        ["startDate", "Start date", "date"],
+                        ["endDate", "End date", "date"],
+                        ["capacity", "Capacity", "number"],
+                        ["occupancyLimit", "Occupancy limit (people inside)", "number"],
+                        ["occupancyAlertPercent", "Occupancy alert at (%)", "number"],
+                        ["activationCode", "Activation code", "text"],
+                        ["logoUrl", "Logo URL", "text"],
+                        ["primaryColor", "Primary color", "color"],
+                        ["accentColor", "Accent color", "color"],
+                      ] as const
+                    ).map(([field, label, type]) => (
+                      <label
+                        key={field}
+                        style={{
+                          color: "#9ca3af",
+                          fontSize: 11,
+                          flex: type === "color" ? "0 0 90px" : 1,
+                          minWidth: type === "color" ? 90 : 160,
+                        }}
+                      >
+                        {label}
+                        <input
+                          type={type}
+                          value={eventForm[field]}
+                          onChange={(e) => setEventForm((prev) => ({ ...prev, [field]: e.target.value }))}
+                          style={{
+                            display: "block",
+                            width: "100%",
+                            marginTop: 4,
+                            borderRadius: 10,
+                            padding: type === "color" ? 2 : "8px 10px",
+                            height: type === "color" ? 34 : undefined,
+                            border: "1px solid #374151",
+                            backgroundColor: "#020617",
+                            color: "#e5e7eb",
+                            fontSize: 13,
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div style={{ display: "grid", gap: 6 }}>
+                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                      <p style={{ margin: 0, color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        Registration fields
+                      </p>
+                      <span style={{ color: "#9ca3af", fontSize: 11 }}>
+                        Asked after name, email and company on the registration page
+                      </span>
+                      <div style={{ flex: 1 }} />
+                      <button
+                        onClick={() => setEventFieldDrafts((prev) => [...prev, EMPTY_CUSTOM_FIELD])}
+                        style={{
+                          borderRadius: 8,
+                          padding: "4px 10px",
+                          border: "1px solid #38bdf8",
+                          backgroundColor: "transparent",
+                          color: "#38bdf8",
+                          fontSize: 12,
+                          cursor: "pointer",
+                        }}
+                      >
+                        Add field
+                      </button>
+                    </div>
+                    {eventFieldDrafts.map((draft, index) => {
+                      const fieldInputStyle = {
+                        display: "block",
+                        width: "100%",
+                        marginTop: 4,
+                        borderRadius: 8,
+                        padding: "6px 8px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 12,
+                      };
+                      return (
+                        <div
+                          key={index}
+                          style={{
+                            display: "flex",
+                            gap: 8,
+                            flexWrap: "wrap",
+                            alignItems: "flex-end",
+                            border: "1px solid #1f2937",
+                            borderRadius: 8,
+                            padding: 8,
+                          }}
+                        >
+                          <label style={{ color: "#9ca3af", fontSize: 11, flex: 2, minWidth: 160 }}>
+                            Label
+                            <input
+                              value={draft.label}
+                              onChange={(e) => updateFieldDraft(index, { label: e.target.value })}
+                              style={fieldInputStyle}
+                            />
+                          </label>
+                          <label style={{ color: "#9ca3af", fontSize: 11 }}>
+                            Type
+                            <select
+                              value={draft.type}
+                              onChange={(e) =>
+                                updateFieldDraft(index, { type: e.target.value as CustomFieldItem["type"] })
+                              }
+                              style={fieldInputStyle}
+                            >
+                              {CUSTOM_FIELD_TYPES.map((t) => (
+                                <option key={t.id} value={t.id}>
+                                  {t.label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          {(draft.type === "select" || draft.type === "multiselect") && (
+                            <label style={{ color: "#9ca3af", fontSize: 11, flex: 3, minWidth: 200 }}>
+                              Options (comma separated)
+                              <input
+                                value={draft.options}
+                                onChange={(e) => updateFieldDraft(index, { options: e.target.value })}
+                                style={fieldInputStyle}
+                              />
+                            </label>
+                          )}
+                          {draft.type === "text" && (
+                            <>
+                              <label style={{ color: "#9ca3af", fontSize: 11, width: 90 }}>
+                                Max length
+                                <input
+                                  type="number"
+                                  value={draft.maxLength}
+                                  onChange={(e) => updateFieldDraft(index, { maxLength: e.target.value })}
+                                  style={fieldInputStyle}
+                                />
+                              </label>
+                              <label style={{ color: "#9ca3af", fontSize: 11, flex: 1, minWidth: 140 }}>
+                                Pattern (regular expression)
+                                <input
+                                  value={draft.pattern}
+                                  onChange={(e) => updateFieldDraft(index, { pattern: e.target.value })}
+                                  style={fieldInputStyle}
+                                />
+                              </label>
+                            </>
+                          )}
+                          {draft.type === "date" &&
+                            (["minDate", "maxDate"] as const).map((bound) => (
+                              <label key={bound} style={{ color: "#9ca3af", fontSize: 11 }}>
+                                {bound === "minDate" ? "Earliest" : "Latest"}
+                                <input
+                                  type="date"
+                                  value={draft[bound]}
+                                  onChange={(e) => updateFieldDraft(index, { [bound]: e.target.value })}
+                                  style={fieldInputStyle}
+                                />
+                              </label>
+                            ))}
+                          <label
+                            style={{ color: "#e5e7eb", fontSize: 12, display: "flex", alignItems: "center", gap: 6 }}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={draft.required}
+                              onChange={(e) => updateFieldDraft(index, { required: e.target.checked })}
+                            />
+                            Required
+                          </label>
+                          <div style={{ display: "flex", gap: 4 }}>
+                            {[
+                              { label: "↑", title: "Move up", onClick: () => moveFieldDraft(index, -1) },
+                              { label: "↓", title: "Move down", onClick: () => moveFieldDraft(index, 1) },
+                              {
+                                label: "✕",
+                                title: "Remove field",
+                                onClick: () => setEventFieldDrafts((prev) => prev.filter((_, i) => i !== index)),
+                              },
+                            ].map((action) => (
+                              <button
+                                key={action.title}
+                                onClick={action.onClick}
+                                title={action.title}
+                                style={{
+                                  borderRadius: 8,
+                                  padding: "4px 8px",
+                                  border: "1px solid #374151",
+                                  backgroundColor: "transparent",
+                                  color: "#9ca3af",
+                                  fontSize: 12,
+                                  cursor: "pointer",
+                                }}
+                              >
+                                {action.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div style={{ display: "grid", gap: 6 }}>
+                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                      <p style={{ margin: 0, color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>Attendee types</p>
+                      <span style={{ color: "#9ca3af", fontSize: 11 }}>
+                        Shown on badges and to door staff; access is checked at scanners
+                      </span>
+                      <div style={{ flex: 1 }} />
+                      <button
+                        onClick={() => setEventTypeDrafts((prev) => [...prev, EMPTY_ATTENDEE_TYPE])}
+                        style={{
+                          borderRadius: 8,
+                          padding: "4px 10px",
+                          border: "1px solid #38bdf8",
+                          backgroundColor: "transparent",
+                          color: "#38bdf8",
+                          fontSize: 12,
+                          cursor: "pointer",
+                        }}
+                      >
+                        Add type
+                      </button>
+                    </div>
+                    {eventTypeDrafts.map((draft, index) => (
+                      <div
+                        key={draft.id || `new-${index}`}
+                        style={{
+                          display: "flex",
+                          gap: 8,
+                          flexWrap: "wrap",
+                          alignItems: "flex-end",
+                          border: "1px solid #1f2937",
+                          borderLeft: `4px solid ${draft.color}`,
+                          borderRadius: 8,
+                          padding: 8,
+                        }}
+                      >
+                        <label style={{ color: "#9ca3af", fontSize: 11, flex: 2, minWidth: 160 }}>
+                          Name
+                          <input
+                            value={draft.label}
+                            onChange={(e) => updateTypeDraft(index, { label: e.target.value })}
+                            placeholder="e.g. VIP"
+                            style={{ ...templateInputStyle, width: "100%" }}
+                          />
+                        </label>
+                        <label style={{ color: "#9ca3af", fontSize: 11 }}>
+                          Badge color
+                          <input
+                            type="color"
+                            value={draft.color}
+                            onChange={(e) => updateTypeDraft(index, { color: e.target.value })}
+                            style={{ display: "block", width: 48, height: 30, marginTop: 4, border: "1px solid #374151", borderRadius: 6 }}
+                          />
+                        </label>
+                        <label style={{ color: "#9ca3af", fontSize: 11, width: 120 }}>
+                          Registration limit
+                          <input
+                            type="number"
+                            min={1}
+                            value={draft.limit}
+                            onChange={(e) => updateTypeDraft(index, { limit: e.target.value })}
+                            placeholder="No limit"
+                            style={{ ...templateInputStyle, width: "100%" }}
+                          />
+                        </label>
+                        <button
+                          onClick={() => setEventTypeDrafts((prev) => prev.filter((_, i) => i !== index))}
+                          title="Remove type"
+                          disabled={eventTypeDrafts.length === 1}
+                          style={{
+                            borderRadius: 8,
+                            padding: "4px 8px",
+                            border: "1px solid #374151",
+                            backgroundColor: "transparent",
+                            color: "#9ca3af",
+                            fontSize: 12,
+                            cursor: "pointer",
+                          }}
+                        >
+                          ✕
+                        </button>
+                        <AccessRuleEditor
+                          access={draft.access}
+                          sessions={sessionList.filter((s) => s.eventId === editingEventId && !s.archivedAt)}
+                          stations={stationList.filter((s) => s.eventId === editingEventId && !s.archivedAt)}
+                          onChange={(access) => updateTypeDraft(index, { access })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div style={{ display: "grid", gap: 6 }}>
+                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                      <p style={{ margin: 0, color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>Ticket categories</p>
+                      <span style={{ color: "#9ca3af", fontSize: 11 }}>
+                        Public categories are offered on the registration page; holders need both their
+                        type&apos;s and their ticket&apos;s access
+                      </span>
+                      <div style={{ flex: 1 }} />
+                      <button
+                        onClick={() => setEventCategoryDrafts((prev) => [...prev, EMPTY_TICKET_CATEGORY])}
+                        style={{
+                          borderRadius: 8,
+                          padding: "4px 10px",
+                          border: "1px solid #38bdf8",
+                          backgroundColor: "transparent",
+                          color: "#38bdf8",
+                          fontSize: 12,
+                          cursor: "pointer",
+                        }}
+                      >
+                        Add category
+                      </button>
+                    </div>
+                    {eventCategoryDrafts.map((draft, index) => (
+                      <div
+                        key={draft.id || `new-${index}`}
+                        style={{
+                          display: "flex",
+                          gap: 8,
+                          flexWrap: "wrap",
+                          alignItems: "flex-end",
+                          border: "1px solid #1f2937",
+                          borderRadius: 8,
+                          padding: 8,
+                        }}
+                      >
+                        <label style={{ color: "#9ca3af", fontSize: 11, flex: 2, minWidth: 160 }}>
+                          Name
+                          <input
+                            value={draft.label}
+                            onChange={(e) => updateCategoryDraft(index, { label: e.target.value })}
+                            placeholder="e.g. Full conference pass"
+                            style={{ ...templateInputStyle, width: "100%" }}
+                          />
+                        </label>
+                        <label style={{ color: "#9ca3af", fontSize: 11 }}>
+                          Attendee type
+                          <select
+                            value={draft.attendeeType}
+                            onChange={(e) => updateCategoryDraft(index, { attendeeType: e.target.value })}
+                            style={{ ...templateInputStyle, width: "100%" }}
+                          >
+                            {eventTypeDrafts
+                              .filter((t) => t.id)
+                              .map((t) => (
+                                <option key={t.id} value={t.id}>
+                                  {t.label}
+                                </option>
+                              ))}
+                          </select>
+                        </label>
+                        <label style={{ color: "#9ca3af", fontSize: 11, width: 120 }}>
+                          Registration limit
+                          <input
+                            type="number"
+                            min={1}
+                            value={draft.limit}
+                            onChange={(e) => updateCategoryDraft(index, { limit: e.target.value })}
+                            placeholder="No limit"
+                            style={{ ...templateInputStyle, width: "100%" }}
+                          />
+                        </label>
+                        <label
+                          style={{ color: "#e5e7eb", fontSize: 12, display: "flex", alignItems: "center", gap: 6 }}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={draft.public}
+                            onChange={(e) => updateCategoryDraft(index, { public: e.target.checked })}
+                          />
+                          Public
+                        </label>
+                        <button
+                          onClick={() => setEventCategoryDrafts((prev) => prev.filter((_, i) => i !== index))}
+                          title="Remove category"
+                          style={{
+                            borderRadius: 8,
+                            padding: "4px 8px",
+                            border: "1px solid #374151",
+                            backgroundColor: "transparent",
+                            color: "#9ca3af",
+                            fontSize: 12,
+                            cursor: "pointer",
+                          }}
+                        >
+                          ✕
+                        </button>
+                        <AccessRuleEditor
+                          access={draft.access}
+                          sessions={sessionList.filter((s) => s.eventId === editingEventId && !s.archivedAt)}
+                          stations={stationList.filter((s) => s.eventId === editingEventId && !s.archivedAt)}
+                          onChange={(access) => updateCategoryDraft(index, { access })}
+                        />
+                      </div>
+                    ))}
+                    {eventTypeDrafts.some((t) => !t.id) && !!eventCategoryDrafts.length && (
+                      <span style={{ color: "#9ca3af", fontSize: 11 }}>
+                        Save the event before giving new attendee types ticket categories.
+                      </span>
+                    )}
+                  </div>
+                  <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                    <button
+                      onClick={saveEvent}
+                      disabled={savingEvent || !eventForm.name}
+                      style={{
+                        borderRadius: 10,
+                        padding: "8px 12px",
+                        border: "1px solid #22c55e",
+                        backgroundColor: "transparent",
+                        color: "#22c55e",
+                        fontSize: 13,
+                        fontWeight: 600,
+                        cursor: "pointer",
+                      }}
+                    >
+                      {savingEvent ? "Saving..." : editingEventId ? "Save changes" : "Create event"}
+                    </button>
+                    {editingEventId && (
+                      <button
+                        onClick={resetEventForm}
+                        style={{
+                          borderRadius: 10,
+                          padding: "8px 12px",
+                          border: "1px solid #374151",
+                          backgroundColor: "transparent",
+                          color: "#9ca3af",
+                          fontSize: 13,
+                          cursor: "pointer",
+                        }}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {eventError && <span style={{ color: "#f87171", fontSize: 12 }}>{eventError}</span>}
+                  </div>
+                </div>
+              )}
+
+              <div
+                style={{
+                  borderRadius: 10,
+                  border: "1px solid #1f2937",
+                  overflow: "hidden",
+                }}
+              >
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
+                      <th style={thStyle}>Event</th>
+                      <th style={thStyle}>Dates</th>
+                      <th style={thStyle}>Venue</th>
+                      <th style={thStyle}>Registered</th>
+                      <th style={thStyle}>Status</th>
+                      <th style={thStyle}>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {events.length === 0 && (
+                      <tr>
+                        <td colSpan={6} style={tdStyle}>
+                          No events yet.
+                        </td>
+                      </tr>
+                    )}
+                    {events.map((evt) => {
+                      const registered = attendees.filter((a) => a.eventId === evt.id).length;
+                      return (
+                        <tr
+                          key={evt.id}
+                          style={{
+                            borderBottom: "1px solid #111827",
+                            backgroundColor: eventFilter === evt.id ? "#111c33" : "#0b1224",
+                            opacity: evt.archivedAt ? 0.6 : 1,
+                          }}
+                        >
+                          <td style={tdStyle}>
+                            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                              <span
+                                style={{
+                                  width: 10,
+                                  height: 10,
+                                  borderRadius: 999,
+                                  backgroundColor: evt.branding?.accentColor || "#374151",
+                                }}
+                              />
+                              {evt.name}
+                            </div>
+                          </td>
+                          <td style={tdStyle}>
+                            {evt.startDate || "—"}
+                            {evt.endDate && evt.endDate !== evt.startDate ? ` – ${evt.endDate}` : ""}
+                          </td>
+                          <td style={tdStyle}>
+                            {evt.venue || "—"}
+                            {evt.timeZone && (
+                              <div style={{ color: "#9ca3af", fontSize: 11 }}>{evt.timeZone}</div>
+                            )}
+                          </td>
+                          <td style={tdStyle}>
+                            {registered}
+                            {evt.capacity ? ` / ${evt.capacity}` : ""}
+                          </td>
+                          <td style={tdStyle}>{evt.archivedAt ? "Archived" : "Active"}</td>
+                          <td style={tdStyle}>
+                            <div style={{ display: "flex", gap: 6 }}>
+                              {!evt.archivedAt && (
+                                <button
+                                  onClick={() => selectEvent(evt.id)}
+                                  style={{
+                                    borderRadius: 8,
+                                    padding: "6px 10px",
+                                    border: "1px solid #22c55e",
+                                    backgroundColor: "transparent",
+                                    color: "#22c55e",
+                                    fontSize: 12,
+                                    cursor: "pointer",
+                                  }}
+                                >
+                                  {eventFilter === evt.id ? "Selected" : "Select"}
+                                </button>
+                              )}
+                              {!evt.archivedAt && (
+                                <button
+                                  onClick={() =>
+                                    copyToClipboard(`${window.location.origin}/register/${evt.id}`)
+                                  }
+                                  title="Copy this event's registration URL"
+                                  style={{
+                                    borderRadius: 8,
+                                    padding: "6px 10px",
+                                    border: "1px solid #374151",
+                                    backgroundColor: "transparent",
+                                    color: "#9ca3af",
+                                    fontSize: 12,
+                                    cursor: "pointer",
+                                  }}
+                                >
+                                  Registration link
+                                </button>
+                              )}
+                              {currentStaff?.role === "owner" && (
+                                <>
+                                  <button
+                                    onClick={() => editEvent(evt)}
+                                    style={{
+                                      borderRadius: 8,
+                                      padding: "6px 10px",
+                                      border: "1px solid #38bdf8",
+                                      backgroundColor: "transparent",
+                                      color: "#38bdf8",
+                                      fontSize: 12,
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    Edit
+                                  </button>
+                                  <button
+                                    onClick={() => setEventArchived(evt, !evt.archivedAt)}
+                                    style={{
+                                      borderRadius: 8,
+                                      padding: "6px 10px",
+                                      border: "1px solid #f59e0b",
+                                      backgroundColor: "transparent",
+                                      color: "#f59e0b",
+                                      fontSize: 12,
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    {evt.archivedAt ? "Restore" : "Archive"}
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          {activeSection === "checkin" && (
+            <>
+              {/* Analytics */}
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))",
+                  gap: 12,
+                  marginBottom: 12,
+                }}
+              >
+                <AnalyticsCard
+                  label="Total registrants"
+                  value={totalRegistrants}
+                  accent="#38bdf8"
+                />
+                <AnalyticsCard
+                  label="Checked in"
+                  value={totalCheckedIn}
+                  accent="#22c55e"
+                />
+                <AnalyticsCard
+                  label="Not checked in"
+                  value={totalNotCheckedIn}
+                  accent="#f97316"
+                />
+                <AnalyticsCard
+                  label="Scanned via QR"
+                  value={totalScannedViaQr}
+                  accent="#0ea5e9"
+                />
+                <AnalyticsCard
+                  label="Check-in rate"
+                  value={`${checkInRate}%`}
+                  accent="#a855f7"
+                />
+              </div>
+
+              {typeCounts.size > 0 && (
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 12 }}>
+                  {[...typeCounts.entries()].map(([id, row]) => (
+                    <button
+                      key={id}
+                      type="button"
+                      onClick={() => setTypeFilter(typeFilter === id ? "all" : id)}
+                      title={typeFilter === id ? "Show all types" : `Show only ${row.label}`}
+                      style={{
+                        borderRadius: 999,
+                        padding: "4px 12px",
+                        border: `1px solid ${row.color}`,
+                        backgroundColor: typeFilter === id ? "#0b1120" : "transparent",
+                        color: "#e5e7eb",
+                        fontSize: 12,
+                        cursor: "pointer",
+                      }}
+                    >
+                      <span style={{ color: row.color, fontWeight: 600 }}>{row.label}</span>{" "}
+                      {row.checkedIn} / {row.registered} checked in
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Top controls row */}
+              <div
+                style={{
+                  display: "flex",
+                  flexWrap: "wrap",
+                  gap: 12,
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginBottom: 12,
+                }}
+              >
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    <select
+                      value={companyFilter}
+                      onChange={(e) => setCompanyFilter(e.target.value)}
+                      style={{
+                        borderRadius: 10,
+                        padding: "6px 12px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                        outline: "none",
+                      }}
+                    >
+                      <option value="all">All companies</option>
+                      {uniqueCompanies.map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={typeFilter}
+                      onChange={(e) => setTypeFilter(e.target.value)}
+                      style={{
+                        borderRadius: 10,
+                        padding: "6px 12px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                        outline: "none",
+                      }}
+                    >
+                      <option value="all">All types</option>
+                      {[...typeCounts.entries()].map(([id, row]) => (
+                        <option key={id} value={id}>
+                          {row.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={loadAttendees}
+                    disabled={loading}
+                    style={{
+                      borderRadius: 999,
+                      padding: "6px 12px",
+                      border: "1px solid #22c55e",
+                      backgroundColor: "transparent",
+                      color: "#22c55e",
+                      fontSize: 13,
+                      fontWeight: 600,
+                      cursor: "pointer",
+                    }}
+                  >
+                    {loading ? "Refreshing..." : "Refresh Attendees"}
+                  </button>
+
+                  {/* Status filter */}
+                  <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value)}
+                    style={{
+                      borderRadius: 999,
+                      padding: "6px 12px",
+                      border: "1px solid #374151",
+                      backgroundColor: "#020617",
+                      color: "#e5e7eb",
+                      fontSize: 13,
+                      outline: "none",
+                    }}
+                  >
+                    <option value="all">All</option>
+                    <option value="checkedIn">Checked in</option>
+                    <option value="notCheckedIn">Not checked in</option>
+                  </select>
+                </div>
+
+                {/* Search input */}
+                <div style={{ minWidth: 220, flex: 1, maxWidth: 320 }}>
+                  <input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search name, email, or company..."
+                    style={{
+                      width: "100%",
+                      borderRadius: 999,
+                      padding: "6px 12px",
+                      border: "1px solid #374151",
+                      backgroundColor: "#020617",
+                      color: "#e5e7eb",
+                      fontSize: 13,
+                      outline: "none",
+                    }}
                   />
                 </div>
 
-                <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                  <button
+                    onClick={exportCheckinCsv}
+                    style={{
+                      borderRadius: 10,
+                      padding: "8px 12px",
+                      border: "1px solid #22c55e",
+                      backgroundColor: "#0b1120",
+                      color: "#22c55e",
+                      fontSize: 13,
+                      fontWeight: 600,
+                      cursor: "pointer",
+                    }}
+                  >
+                    Download Check-In CSV
+                  </button>
+                  <span
+                    style={{
+                      fontSize: 12,
+                      color: "#6b7280",
+                    }}
+                  >
+                    Showing{" "}
+                    <span style={{ color: "#e5e7eb" }}>{filteredAttendees.length}</span>{" "}
+                    of{" "}
+                    <span style={{ color: "#e5e7eb" }}>{attendees.length}</span>
+                  </span>
+                </div>
+              </div>
+
+              {error && (
+                <p
+                  style={{
+                    color: "#f87171",
+                    fontSize: 12,
+                    marginBottom: 8,
+                  }}
+                >
+                  {error}
+                </p>
+              )}
+
+              {/* Main layout: left = table, right = QR for selected attendee */}
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "minmax(0, 2fr) minmax(0, 1.1fr)",
+                  gap: 16,
+                }}
+              >
+                {/* LEFT: Attendee table */}
+                <div
+                  style={{
+                    borderRadius: 12,
+                    border: "1px solid #1f2937",
+                    overflow: "hidden",
+                  }}
+                >
+                  <table
+                    style={{
+                      width: "100%",
+                      borderCollapse: "collapse",
+                    }}
+                  >
+                    <thead>
+                      <tr
+                        style={{
+                          backgroundColor: "#0f172a",
+                          borderBottom: "1px solid #1f2937",
+                        }}
+                      >
+                        <th style={thStyle}>Name</th>
+                        <th style={thStyle}>Email</th>
+                        <th style={thStyle}>Status</th>
+                        <th style={thStyle}>Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredAttendees.length === 0 && !loading && !error && (
+                        <tr>
+                          <td
+                            colSpan={4}
+                            style={{
+                              padding: "10px 12px",
+                              color: "#9ca3af",
+                              fontSize: 13,
+                              textAlign: "center",
+                            }}
+                          >
+                            No attendees match your filters. Try clearing the search
+                            or status filter.
+                          </td>
+                        </tr>
+                      )}
+
+                      {filteredAttendees.map((a, index) => {
+                        const fullName = `${a.firstName || ""} ${
+                          a.lastName || ""
+                        }`.trim();
+                        const checked = !!a.checkedIn;
+                        const type = typeInfoFor(a);
+
+                        return (
+                          <tr
+                            key={a.id || index}
+                            style={{
+                              borderBottom: "1px solid #111827",
+                              backgroundColor:
+                                index % 2 === 0 ? "#020617" : "#030712",
+                            }}
+                          >
+                            <td style={tdStyle}>
+                              <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                                <span>{fullName || "Unknown"}</span>
+                                <span
+                                  style={{
+                                    alignSelf: "flex-start",
+                                    borderRadius: 999,
+                                    padding: "1px 8px",
+                                    backgroundColor: type.color,
+                                    color: "#ffffff",
+                                    fontSize: 11,
+                                    fontWeight: 600,
+                                  }}
+                                >
+                                  {type.label}
+                                  {type.ticket ? ` · ${type.ticket}` : ""}
+                                </span>
+                              </div>
+                            </td>
+                            <td style={tdStyle}>{a.email || "—"}</td>
+                            <td style={tdStyle}>
+                              {checked ? (
+                                <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                                  <span style={{ color: "#22c55e", fontSize: 12 }}>
+                                    Checked in
+                                  </span>
+                                  {a.checkedInAt && (
+                                    <span style={{ color: "#9ca3af", fontSize: 11 }}>
+                                      {new Date(a.checkedInAt).toLocaleString()}
+                                    </span>
+                                  )}
+                                </div>
+                              ) : (
+                                <span style={{ color: "#f97316", fontSize: 12 }}>
+                                  Not checked in
+                                </span>
+                              )}
+                            </td>
+                            <td style={tdStyle}>
+                              <div
+                                style={{
+                                  display: "flex",
+                                  gap: 6,
+                                  flexWrap: "wrap",
+                                }}
+                              >
+                                {!checked ? (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleCheckStatus(a.id, true)}
+                                    disabled={checkingInId === a.id}
+                                    style={{
+                                      borderRadius: 999,
+                                      padding: "4px 10px",
+                                      border: "none",
+                                      backgroundColor: "#22c55e",
+                                      color: "#020617",
+                                      fontSize: 12,
+                                      fontWeight: 600,
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    {checkingInId === a.id ? "Checking..." : "Check In"}
+                                  </button>
+                                ) : (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleCheckStatus(a.id, false)}
+                                    disabled={checkingInId === a.id}
+                                    style={{
+                                      borderRadius: 999,
+                                      padding: "4px 10px",
+                                      border: "1px solid #fca5a5",
+                                      backgroundColor: "#0b1120",
+                                      color: "#fca5a5",
+                                      fontSize: 12,
+                                      fontWeight: 600,
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    {checkingInId === a.id ? "Updating..." : "Undo Check-In"}
+                                  </button>
+                                )}
+
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    setQrAttendeeId(
+                                      qrAttendeeId === a.id ? null : a.id
+                                    )
+                                  }
+                                  style={{
+                                    borderRadius: 999,
+                                    padding: "4px 10px",
+                                    border: "1px solid #38bdf8",
+                                    backgroundColor:
+                                      qrAttendeeId === a.id
+                                        ? "#0b1120"
+                                        : "transparent",
+                                    color: "#38bdf8",
+                                    fontSize: 12,
+                                    fontWeight: 600,
+                                    cursor: "pointer",
+                                  }}
+                                >
+                                  {qrAttendeeId === a.id ? "Hide QR" : "Show QR"}
+                                </button>
+
+                                {canEditExhibitors && (
+                                  <button
+                                    type="button"
+                                    onClick={() => printBadge(a)}
+                                    style={{
+                                      borderRadius: 999,
+                                      padding: "4px 10px",
+                                      border: "1px solid #eab308",
+                                      backgroundColor: "#0b1120",
+                                      color: "#eab308",
+                                      fontSize: 12,
+                                      fontWeight: 600,
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    {a.printedAt ? "Reprint Badge" : "Print Badge"}
+                                  </button>
+                                )}
+
+                                <button
+                                  type="button"
+                                  onClick={() => startEdit(a)}
+                                  style={{
+                                    borderRadius: 999,
+                                    padding: "4px 10px",
+                                    border: "1px solid #a855f7",
+                                    backgroundColor: "#0b1120",
+                                    color: "#c084fc",
+                                    fontSize: 12,
+                                    fontWeight: 600,
+                                    cursor: "pointer",
+                                  }}
+                                >
+                                  Edit
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* RIGHT: QR code for selected attendee */}
+                <div
+                  style={{
+                    borderRadius: 12,
+                    border: "1px solid #1f2937",
+                    padding: 12,
+                    backgroundColor: "#020617",
+                    minHeight: 260,
+                    display: "flex",
+                    flexDirection: "column",
+                    alignItems: "center",
+                    justifyContent: "center",
+                  }}
+                >
+                  {!qrAttendee && (
+                    <p
+                      style={{
+                        color: "#9ca3af",
+                        fontSize: 13,
+                        textAlign: "center",
+                        padding: "0 8px",
+                      }}
+                    >
+                      Select an attendee in the table and click{" "}
+                      <span style={{ color: "#38bdf8" }}>&quot;Show QR&quot;</span>{" "}
+                      to generate a badge QR you can scan with the mobile app.
+                    </p>
+                  )}
+
+                  {qrAttendee && (
+                    <>
+                      <h2
+                        style={{
+                          color: "#e5e7eb",
+                          fontSize: 16,
+                          fontWeight: 600,
+                          marginBottom: 8,
+                          textAlign: "center",
+                        }}
+                      >
+                        Badge QR
+                      </h2>
+                      <p
+                        style={{
+                          color: "#9ca3af",
+                          fontSize: 13,
+                          marginBottom: 8,
+                          textAlign: "center",
+                        }}
+                      >
+                        {qrAttendee.firstName} {qrAttendee.lastName}
+                        <br />
+                        <span style={{ fontSize: 11, color: "#6b7280" }}>
+                          ID: {qrAttendee.id}
+                        </span>
+                      </p>
+
+                      <QRCodeCanvas
+                        value={qrValue}
+                        size={200}
+                        includeMargin={true}
+                        bgColor="#020617"
+                        fgColor="#22c55e"
+                      />
+
+                      <p
+                        style={{
+                          marginTop: 10,
+                          fontSize: 11,
+                          color: "#6b7280",
+                          textAlign: "center",
+                          maxWidth: 260,
+                        }}
+                      >
+                        Open your Hemisphere Leads app on your phone, choose the
+                        scanner, and point it at this QR. The attendee&apos;s name
+                        should pop up automatically.
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <p
+                style={{
+                  marginTop: 10,
+                  fontSize: 11,
+                  color: "#6b7280",
+                }}
+              >
+                Check-ins now persist to{" "}
+                <code style={{ color: "#bbf7d0" }}>data/attendees.json</code> via the{" "}
+                <code style={{ color: "#bbf7d0" }}>/api/checkin</code> route.
+              </p>
+            </>
+          )}
+
+          {activeSection === "badgeDesigner" && (
+            <section
+              style={{
+                border: "1px solid #1f2937",
+                borderRadius: 12,
+                padding: 16,
+                backgroundColor: "#0b1120",
+                display: "grid",
+                gap: 12,
+              }}
+            >
+              <div
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  flexWrap: "wrap",
+                  gap: 8,
+                }}
+              >
+                <div>
+                  <p style={{ margin: 0, color: "#e5e7eb", fontWeight: 700, fontSize: 15 }}>
+                    Badge Designer ({mmToIn(badgeDesign.badgeWidthMm)}&quot; x {mmToIn(badgeDesign.badgeHeightMm)}&quot;)
+                  </p>
+                  <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                    Adjust QR placement/size, fonts, logos, and pick 1- or 2-sided layouts, or switch to a
+                    free-form layout to place your own text, fields, images and ribbons. Templates are shared by
+                    every desk printing for the event.
+                  </p>
+                </div>
+                <div style={{ display: "flex", gap: 8 }}>
                   <button
-                    onClick={exportCheckinCsv}
+                    onClick={resetBadgeDesign}
                     style={{
                       borderRadius: 10,
-                      padding: "8px 12px",
-                      border: "1px solid #22c55e",
-                      backgroundColor: "#0b1120",
-                      color: "#22c55e",
-                      fontSize: 13,
-                      fontWeight: 600,
+                      padding: "6px 10px",
+                      border: "1px solid #374151",
+                      backgroundColor: "transparent",
+                      color: "#e5e7eb",
+                      fontSize: 12,
                       cursor: "pointer",
                     }}
                   >
-                    Download Check-In CSV
+                    Reset layout
                   </button>
-                  <span
+                </div>
+              </div>
+
+              {legacyBadgeDesign && (
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 8,
+                    flexWrap: "wrap",
+                    padding: "8px 10px",
+                    borderRadius: 10,
+                    border: "1px solid #f59e0b",
+                    color: "#fcd34d",
+                    fontSize: 12,
+                  }}
+                >
+                  This browser still has a badge design from before templates were saved on the server.
+                  <button
+                    onClick={restoreLegacyBadgeDesign}
                     style={{
+                      borderRadius: 8,
+                      padding: "4px 10px",
+                      border: "1px solid #f59e0b",
+                      backgroundColor: "transparent",
+                      color: "#fcd34d",
                       fontSize: 12,
-                      color: "#6b7280",
+                      cursor: "pointer",
                     }}
                   >
-                    Showing{" "}
-                    <span style={{ color: "#e5e7eb" }}>{filteredAttendees.length}</span>{" "}
-                    of{" "}
-                    <span style={{ color: "#e5e7eb" }}>{attendees.length}</span>
-                  </span>
+                    Open it as a new template
+                  </button>
+                </div>
+              )}
+
+              <div
+                style={{
+                  display: "flex",
+                  gap: 10,
+                  flexWrap: "wrap",
+                  alignItems: "flex-end",
+                  padding: 12,
+                  border: "1px solid #1f2937",
+                  borderRadius: 12,
+                  backgroundColor: "#020617",
+                }}
+              >
+                <label style={{ color: "#9ca3af", fontSize: 12, fontWeight: 600 }}>
+                  Event
+                  <select
+                    value={templateEventId}
+                    onChange={(e) => chooseTemplateEvent(e.target.value)}
+                    style={{ ...templateInputStyle, minWidth: 160 }}
+                  >
+                    <option value="">Select event</option>
+                    {events.map((evt) => (
+                      <option key={evt.id} value={evt.id}>
+                        {evt.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label style={{ color: "#9ca3af", fontSize: 12, fontWeight: 600 }}>
+                  Template
+                  <select
+                    value={selectedTemplateId}
+                    onChange={(e) =>
+                      openTemplate(badgeTemplates.find((t) => t.id === e.target.value) || null)
+                    }
+                    style={{ ...templateInputStyle, minWidth: 180 }}
+                  >
+                    <option value="">New template</option>
+                    {badgeTemplates
+                      .filter((t) => t.eventId === templateEventId)
+                      .map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}
+                          {t.isDefault ? " (default)" : ""} · v{t.version}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <label style={{ color: "#9ca3af", fontSize: 12, fontWeight: 600, flex: 1, minWidth: 160 }}>
+                  Name
+                  <input
+                    value={templateForm.name}
+                    onChange={(e) => setTemplateForm((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g. Speaker badge"
+                    style={{ ...templateInputStyle, width: "100%" }}
+                  />
+                </label>
+                <label
+                  style={{ color: "#e5e7eb", fontSize: 12, display: "flex", alignItems: "center", gap: 6, paddingBottom: 8 }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={templateForm.isDefault}
+                    onChange={(e) => setTemplateForm((prev) => ({ ...prev, isDefault: e.target.checked }))}
+                  />
+                  Event default
+                </label>
+                <div style={{ width: "100%", display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                  <span style={{ color: "#9ca3af", fontSize: 12 }}>Used for:</span>
+                  {templateEventTypes.map((type) => {
+                    const owner = badgeTemplates.find(
+                      (t) =>
+                        t.eventId === templateEventId && t.id !== selectedTemplateId && t.attendeeTypes.includes(type.id)
+                    );
+                    return (
+                      <label
+                        key={type.id}
+                        title={owner ? `Currently uses "${owner.name}"; saving moves it here` : undefined}
+                        style={{ color: "#e5e7eb", fontSize: 12, display: "flex", alignItems: "center", gap: 6 }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={templateForm.attendeeTypes.includes(type.id)}
+                          onChange={(e) =>
+                            setTemplateForm((prev) => ({
+                              ...prev,
+                              attendeeTypes: e.target.checked
+                                ? templateEventTypes.map((t) => t.id).filter(
+                                    (id) => id === type.id || prev.attendeeTypes.includes(id)
+                                  )
+                                : prev.attendeeTypes.filter((id) => id !== type.id),
+                            }))
+                          }
+                        />
+                        {type.label}
+                        {owner && <span style={{ color: "#6b7280" }}>({owner.name})</span>}
+                      </label>
+                    );
+                  })}
+                  <div style={{ flex: 1 }} />
+                  {canEditExhibitors && (
+                    <>
+                      <button
+                        onClick={() => saveBadgeTemplate()}
+                        disabled={savingTemplate}
+                        style={{
+                          borderRadius: 10,
+                          padding: "6px 12px",
+                          border: "none",
+                          backgroundColor: savingTemplate ? "#4b5563" : "#22c55e",
+                          color: "#020617",
+                          fontSize: 12,
+                          fontWeight: 600,
+                          cursor: savingTemplate ? "default" : "pointer",
+                        }}
+                      >
+                        {savingTemplate ? "Saving…" : selectedTemplateId ? "Save template" : "Create template"}
+                      </button>
+                      {selectedTemplateId && (
+                        <>
+                          <button
+                            onClick={() => saveBadgeTemplate(true)}
+                            disabled={savingTemplate}
+                            style={{
+                              borderRadius: 10,
+                              padding: "6px 12px",
+                              border: "1px solid #38bdf8",
+                              backgroundColor: "transparent",
+                              color: "#38bdf8",
+                              fontSize: 12,
+                              cursor: "pointer",
+                            }}
+                          >
+                            Save as copy
+                          </button>
+                          <button
+                            onClick={deleteBadgeTemplate}
+                            style={{
+                              borderRadius: 10,
+                              padding: "6px 12px",
+                              border: "1px solid #f87171",
+                              backgroundColor: "transparent",
+                              color: "#fca5a5",
+                              fontSize: 12,
+                              cursor: "pointer",
+                            }}
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </>
+                  )}
+                </div>
+                {templateError && <p style={{ margin: 0, color: "#f87171", fontSize: 12 }}>{templateError}</p>}
+                {templateMessage && <p style={{ margin: 0, color: "#22c55e", fontSize: 12 }}>{templateMessage}</p>}
+              </div>
+
+              {canEditExhibitors && (
+                <div
+                  style={{
+                    display: "flex",
+                    gap: 10,
+                    flexWrap: "wrap",
+                    alignItems: "flex-end",
+                    padding: 12,
+                    border: "1px solid #1f2937",
+                    borderRadius: 12,
+                    backgroundColor: "#020617",
+                  }}
+                >
+                  <div style={{ width: "100%" }}>
+                    <p style={{ margin: 0, color: "#e5e7eb", fontWeight: 600, fontSize: 13 }}>Print badges (PDF)</p>
+                    <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                      {templateEventId
+                        ? `${templateEventAttendees.length} registered, ${unprintedBadgeCount} not printed yet. ` +
+                          "Uses the event's saved templates; save changes above before printing."
+                        : "Pick an event above to print its badges."}
+                    </p>
+                  </div>
+                  <label style={{ color: "#9ca3af", fontSize: 12, fontWeight: 600 }}>
+                    Company
+                    <select
+                      value={badgePdfForm.company}
+                      onChange={(e) => setBadgePdfForm((prev) => ({ ...prev, company: e.target.value }))}
+                      style={{ ...templateInputStyle, minWidth: 160 }}
+                    >
+                      <option value="">All companies</option>
+                      {templateEventCompanies.map((company) => (
+                        <option key={company} value={company}>
+                          {company}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label style={{ color: "#9ca3af", fontSize: 12, fontWeight: 600 }}>
+                    Sheet
+                    <select
+                      value={badgePdfForm.layout}
+                      onChange={(e) => setBadgePdfForm((prev) => ({ ...prev, layout: e.target.value }))}
+                      style={{ ...templateInputStyle, minWidth: 180 }}
+                    >
+                      {BADGE_SHEET_LAYOUTS.map((layout) => (
+                        <option key={layout.id} value={layout.id}>
+                          {layout.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {(
+                    [
+                      ["unprinted", "Only badges not printed yet"],
+                      ["cropMarks", "Crop marks"],
+                      ["markPrinted", "Mark as printed"],
+                      ["reissue", "Replace badges printed before (their old QR stops working)"],
+                    ] as const
+                  ).map(([key, label]) => (
+                    <label
+                      key={key}
+                      style={{ color: "#e5e7eb", fontSize: 12, display: "flex", alignItems: "center", gap: 6, paddingBottom: 8 }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={badgePdfForm[key]}
+                        onChange={(e) => setBadgePdfForm((prev) => ({ ...prev, [key]: e.target.checked }))}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                  <div style={{ flex: 1 }} />
+                  <button
+                    onClick={downloadBadgesPdf}
+                    disabled={printingPdf || !templateEventId}
+                    style={{
+                      borderRadius: 10,
+                      padding: "6px 12px",
+                      border: "none",
+                      backgroundColor: printingPdf || !templateEventId ? "#4b5563" : "#38bdf8",
+                      color: "#020617",
+                      fontSize: 12,
+                      fontWeight: 600,
+                      cursor: printingPdf || !templateEventId ? "default" : "pointer",
+                    }}
+                  >
+                    {printingPdf ? "Generating…" : "Download PDF"}
+                  </button>
+                  {badgePdfError && (
+                    <p style={{ width: "100%", margin: 0, color: "#f87171", fontSize: 12 }}>{badgePdfError}</p>
+                  )}
+                </div>
+              )}
+
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "minmax(320px, 1.1fr) minmax(280px, 0.9fr)",
+                  gap: 12,
+                  alignItems: "stretch",
+                }}
+              >
+                {/* Preview */}
+                <div
+                  style={{
+                    padding: 12,
+                    border: "1px solid #1f2937",
+                    borderRadius: 12,
+                    backgroundColor: "#020617",
+                  }}
+                >
+                  <div style={{ color: "#9ca3af", fontSize: 12, marginBottom: 6 }}>
+                    Live preview (badge scale) —{" "}
+                    {freeFormLayout ? "click an element to select it, drag to move it" : "click/drag QR to move it"}
+                  </div>
+                  <div style={{ display: "grid", gap: 10 }}>
+                    {badgeSides(badgeDesign).map((side) => (
+                      <BadgeFace
+                        key={side}
+                        design={badgeDesign}
+                        side={side}
+                        context={designerContext}
+                        width="100%"
+                        faceRef={side === "front" ? frontPreviewRef : undefined}
+                        onPointerDown={handlePreviewPointerDown(side)}
+                        onPointerMove={handlePreviewPointerMove}
+                        onPointerUp={handlePreviewPointerUp}
+                        style={{ boxShadow: "0 12px 24px rgba(0,0,0,0.25)", touchAction: "none" }}
+                      >
+                        {freeFormLayout &&
+                          badgeDesign.elements!
+                            .filter((el) => el.side === side)
+                            .map((el) => (
+                              <div
+                                key={el.id}
+                                data-element-id={el.id}
+                                title={elementLabel(el)}
+                                style={{
+                                  position: "absolute",
+                                  left: `${(el.xMm / badgeDesign.badgeWidthMm) * 100}%`,
+                                  top: `${(el.yMm / badgeDesign.badgeHeightMm) * 100}%`,
+                                  width: `${(el.widthMm / badgeDesign.badgeWidthMm) * 100}%`,
+                                  height: `${(el.heightMm / badgeDesign.badgeHeightMm) * 100}%`,
+                                  boxSizing: "border-box",
+                                  cursor: "move",
+                                  outline:
+                                    el.id === selectedElementId
+                                      ? "2px solid #38bdf8"
+                                      : "1px dashed rgba(56, 189, 248, 0.35)",
+                                  outlineOffset: -1,
+                                }}
+                              />
+                            ))}
+                        <div
+                          style={{
+                            position: "absolute",
+                            bottom: 6,
+                            right: 8,
+                            padding: "2px 8px",
+                            backgroundColor: "rgba(15,23,42,0.6)",
+                            color: "#e5e7eb",
+                            fontSize: 11,
+                            borderRadius: 999,
+                            border: "1px solid #1f2937",
+                            pointerEvents: "none",
+                          }}
+                        >
+                          {side === "front" ? "Front" : "Back"} • {mmToIn(badgeDesign.badgeWidthMm)}&quot; x{" "}
+                          {mmToIn(badgeDesign.badgeHeightMm)}&quot; ({badgeDesign.badgeWidthMm} mm x{" "}
+                          {badgeDesign.badgeHeightMm} mm)
+                        </div>
+                      </BadgeFace>
+                    ))}
+                  </div>
                 </div>
-              </div>
 
-              {error && (
-                <p
-                  style={{
-                    color: "#f87171",
-                    fontSize: 12,
-                    marginBottom: 8,
-                  }}
-                >
-                  {error}
-                </p>
-              )}
+                {/* Controls */}
+                <div
+                  style={{
+                    padding: 12,
+                    border: "1px solid #1f2937",
+                    borderRadius: 12,
+                    backgroundColor: "#0f172a",
+                    display: "grid",
+                    gap: 10,
+                  }}
+                >
+                  <div>
+                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                      Layout
+                    </label>
+                    <div style={{ display: "flex", gap: 8, marginTop: 6, flexWrap: "wrap" }}>
+                      {[
+                        { id: "single", label: "1-sided" },
+                        { id: "double", label: "2-sided" },
+                      ].map((option) => (
+                        <button
+                          key={option.id}
+                          onClick={() =>
+                            updateBadgeDesign({ layoutMode: option.id as "single" | "double" })
+                          }
+                          style={{
+                            borderRadius: 10,
+                            padding: "6px 10px",
+                            border: "1px solid #374151",
+                            backgroundColor:
+                              badgeDesign.layoutMode === option.id ? "#111827" : "transparent",
+                            color: "#e5e7eb",
+                            fontSize: 12,
+                            cursor: "pointer",
+                            minWidth: 90,
+                          }}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                    <div>
+                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        Badge width (mm)
+                      </label>
+                      <input
+                        type="number"
+                        min={50}
+                        max={120}
+                        step={1}
+                        value={badgeDesign.badgeWidthMm}
+                        onChange={(e) =>
+                          updateBadgeDesign({ badgeWidthMm: Number(e.target.value) || 0 })
+                        }
+                        style={{
+                          width: "100%",
+                          marginTop: 6,
+                          border: "1px solid #374151",
+                          borderRadius: 8,
+                          padding: "6px 8px",
+                          backgroundColor: "#020617",
+                          color: "#e5e7eb",
+                          fontSize: 12,
+                        }}
+                      />
+                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                        {mmToIn(badgeDesign.badgeWidthMm)} in
+                      </p>
+                    </div>
+                    <div>
+                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        Badge height (mm)
+                      </label>
+                      <input
+                        type="number"
+                        min={40}
+                        max={100}
+                        step={1}
+                        value={badgeDesign.badgeHeightMm}
+                        onChange={(e) =>
+                          updateBadgeDesign({ badgeHeightMm: Number(e.target.value) || 0 })
+                        }
+                        style={{
+                          width: "100%",
+                          marginTop: 6,
+                          border: "1px solid #374151",
+                          borderRadius: 8,
+                          padding: "6px 8px",
+                          backgroundColor: "#020617",
+                          color: "#e5e7eb",
+                          fontSize: 12,
+                        }}
+                      />
+                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                        {mmToIn(badgeDesign.badgeHeightMm)} in
+                      </p>
+                    </div>
+                  </div>
+
+                  {!freeFormLayout && (
+                    <>
+                    <div>
+                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        QR size
+                      </label>
+                      <input
+                        type="range"
+                        min={12}
+                        max={70}
+                        value={badgeDesign.qrSizeMm}
+                        onChange={(e) =>
+                          updateBadgeDesign({ qrSizeMm: Number(e.target.value) || 0 })
+                        }
+                        style={{ width: "100%" }}
+                      />
+                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                        {badgeDesign.qrSizeMm} mm ({mmToIn(badgeDesign.qrSizeMm)} in)
+                      </p>
+                    </div>
+
+                    <div>
+                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        QR horizontal offset
+                      </label>
+                      <input
+                        type="range"
+                        min={0}
+                        max={maxQrOffsetX}
+                        value={badgeDesign.qrOffsetXMm}
+                        onChange={(e) =>
+                          updateBadgeDesign({ qrOffsetXMm: Number(e.target.value) || 0 })
+                        }
+                        style={{ width: "100%" }}
+                      />
+                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                        {badgeDesign.qrOffsetXMm} mm from left ({mmToIn(badgeDesign.qrOffsetXMm)} in)
+                      </p>
+                    </div>
+
+                    <div>
+                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        QR vertical offset
+                      </label>
+                      <input
+                        type="range"
+                        min={0}
+                        max={maxQrOffsetY}
+                        value={badgeDesign.qrOffsetYMm}
+                        onChange={(e) =>
+                          updateBadgeDesign({ qrOffsetYMm: Number(e.target.value) || 0 })
+                        }
+                        style={{ width: "100%" }}
+                      />
+                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                        {badgeDesign.qrOffsetYMm} mm from top ({mmToIn(badgeDesign.qrOffsetYMm)} in)
+                      </p>
+                    </div>
+
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                      <div>
+                        <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                          Name font size
+                        </label>
+                        <input
+                          type="range"
+                          min={3}
+                          max={8}
+                          value={badgeDesign.nameFontMm}
+                          onChange={(e) =>
+                            updateBadgeDesign({ nameFontMm: Number(e.target.value) || 0 })
+                          }
+                          style={{ width: "100%" }}
+                        />
+                        <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                          {badgeDesign.nameFontMm} mm ({mmToIn(badgeDesign.nameFontMm)} in)
+                        </p>
+                      </div>
+                      <div>
+                        <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                          Company font size
+                        </label>
+                        <input
+                          type="range"
+                          min={2}
+                          max={6}
+                          value={badgeDesign.companyFontMm}
+                          onChange={(e) =>
+                            updateBadgeDesign({ companyFontMm: Number(e.target.value) || 0 })
+                          }
+                          style={{ width: "100%" }}
+                        />
+                        <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                          {badgeDesign.companyFontMm} mm ({mmToIn(badgeDesign.companyFontMm)} in)
+                        </p>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        Meta font size (labels, IDs)
+                      </label>
+                      <input
+                        type="range"
+                        min={2}
+                        max={5}
+                        value={badgeDesign.metaFontMm}
+                        onChange={(e) =>
+                          updateBadgeDesign({ metaFontMm: Number(e.target.value) || 0 })
+                        }
+                        style={{ width: "100%" }}
+                      />
+                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                        {badgeDesign.metaFontMm} mm ({mmToIn(badgeDesign.metaFontMm)} in)
+                      </p>
+                    </div>
+
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                      <div>
+                        <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                          Front logo
+                        </label>
+                        <input
+                          type="text"
+                          placeholder="Paste logo URL"
+                          value={badgeDesign.frontLogoUrl}
+                          onChange={(e) => updateBadgeDesign({ frontLogoUrl: e.target.value })}
+                          style={{
+                            width: "100%",
+                            marginTop: 6,
+                            border: "1px solid #374151",
+                            borderRadius: 8,
+                            padding: "6px 8px",
+                            backgroundColor: "#020617",
+                            color: "#e5e7eb",
+                            fontSize: 12,
+                          }}
+                        />
+                        <div style={{ display: "flex", gap: 6, marginTop: 6, alignItems: "center" }}>
+                          <input
+                            type="file"
+                            accept="image/*"
+                            onChange={handleLogoUpload("front")}
+                            style={{ color: "#9ca3af", fontSize: 12, flex: 1 }}
+                          />
+                          {badgeDesign.frontLogoUrl && (
+                            <button
+                              onClick={() => clearLogo("front")}
+                              style={{
+                                borderRadius: 8,
+                                padding: "6px 8px",
+                                border: "1px solid #374151",
+                                backgroundColor: "transparent",
+                                color: "#e5e7eb",
+                                fontSize: 12,
+                                cursor: "pointer",
+                              }}
+                            >
+                              Clear
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <div>
+                        <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                          Back logo
+                        </label>
+                        <input
+                          type="text"
+                          placeholder="Paste logo URL"
+                          value={badgeDesign.backLogoUrl}
+                          onChange={(e) => updateBadgeDesign({ backLogoUrl: e.target.value })}
+                          style={{
+                            width: "100%",
+                            marginTop: 6,
+                            border: "1px solid #374151",
+                            borderRadius: 8,
+                            padding: "6px 8px",
+                            backgroundColor: "#020617",
+                            color: "#e5e7eb",
+                            fontSize: 12,
+                          }}
+                        />
+                        <div style={{ display: "flex", gap: 6, marginTop: 6, alignItems: "center" }}>
+                          <input
+                            type="file"
+                            accept="image/*"
+                            onChange={handleLogoUpload("back")}
+                            style={{ color: "#9ca3af", fontSize: 12, flex: 1 }}
+                          />
+                          {badgeDesign.backLogoUrl && (
+                            <button
+                              onClick={() => clearLogo("back")}
+                              style={{
+                                borderRadius: 8,
+                                padding: "6px 8px",
+                                border: "1px solid #374151",
+                                backgroundColor: "transparent",
+                                color: "#e5e7eb",
+                                fontSize: 12,
+                                cursor: "pointer",
+                              }}
+                            >
+                              Clear
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    </>
+                  )}
+
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                      Background
+                      <input
+                        type="color"
+                        value={badgeDesign.backgroundColor}
+                        onChange={(e) =>
+                          updateBadgeDesign({ backgroundColor: e.target.value || "#ffffff" })
+                        }
+                        style={{
+                          width: "100%",
+                          marginTop: 6,
+                          border: "1px solid #374151",
+                          borderRadius: 8,
+                          height: 36,
+                          backgroundColor: "#020617",
+                        }}
+                      />
+                    </label>
+
+                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                      Accent
+                      <input
+                        type="color"
+                        value={badgeDesign.accentColor}
+                        onChange={(e) =>
+                          updateBadgeDesign({ accentColor: e.target.value || "#0ea5e9" })
+                        }
+                        style={{
+                          width: "100%",
+                          marginTop: 6,
+                          border: "1px solid #374151",
+                          borderRadius: 8,
+                          height: 36,
+                          backgroundColor: "#020617",
+                        }}
+                      />
+                    </label>
+                  </div>
+
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                      Text color
+                      <input
+                        type="color"
+                        value={badgeDesign.textColor}
+                        onChange={(e) =>
+                          updateBadgeDesign({ textColor: e.target.value || "#0f172a" })
+                        }
+                        style={{
+                          width: "100%",
+                          marginTop: 6,
+                          border: "1px solid #374151",
+                          borderRadius: 8,
+                          height: 36,
+                          backgroundColor: "#020617",
+                        }}
+                      />
+                    </label>
+
+                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                      Border color
+                      <input
+                        type="color"
+                        value={badgeDesign.borderColor}
+                        onChange={(e) =>
+                          updateBadgeDesign({ borderColor: e.target.value || "#e5e7eb" })
+                        }
+                        style={{
+                          width: "100%",
+                          marginTop: 6,
+                          border: "1px solid #374151",
+                          borderRadius: 8,
+                          height: 36,
+                          backgroundColor: "#020617",
+                        }}
+                      />
+                    </label>
+                  </div>
 
-              {/* Main layout: left = table, right = QR for selected attendee */}
-              <div
-                style={{
-                  display: "grid",
-                  gridTemplateColumns: "minmax(0, 2fr) minmax(0, 1.1fr)",
-                  gap: 16,
-                }}
-              >
-                {/* LEFT: Attendee table */}
-                <div
-                  style={{
-                    borderRadius: 12,
-                    border: "1px solid #1f2937",
-                    overflow: "hidden",
-                  }}
-                >
-                  <table
-                    style={{
-                      width: "100%",
-                      borderCollapse: "collapse",
-                    }}
-                  >
-                    <thead>
-                      <tr
+                  <div>
+                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                      Corner radius
+                    </label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={10}
+                      value={badgeDesign.borderRadiusMm}
+                      onChange={(e) =>
+                        updateBadgeDesign({ borderRadiusMm: Number(e.target.value) || 0 })
+                      }
+                      style={{ width: "100%" }}
+                    />
+                    <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
+                      {badgeDesign.borderRadiusMm} mm ({mmToIn(badgeDesign.borderRadiusMm)} in)
+                    </p>
+                  </div>
+
+                  <div style={{ borderTop: "1px solid #1f2937", paddingTop: 10, display: "grid", gap: 8 }}>
+                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        Free-form layout
+                      </label>
+                      <button
+                        onClick={freeFormLayout ? switchToClassic : switchToFreeForm}
                         style={{
-                          backgroundColor: "#0f172a",
-                          borderBottom: "1px solid #1f2937",
+                          borderRadius: 8,
+                          padding: "6px 8px",
+                          border: "1px solid #374151",
+                          backgroundColor: "transparent",
+                          color: "#e5e7eb",
+                          fontSize: 12,
+                          cursor: "pointer",
                         }}
                       >
-                        <th style={thStyle}>Name</th>
-                        <th style={thStyle}>Email</th>
-                        <th style={thStyle}>Status</th>
-                        <th style={thStyle}>Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {filteredAttendees.length === 0 && !loading && !error && (
-                        <tr>
-                          <td
-                            colSpan={4}
-                            style={{
-                              padding: "10px 12px",
-                              color: "#9ca3af",
-                              fontSize: 13,
-                              textAlign: "center",
-                            }}
-                          >
-                            No attendees match your filters. Try clearing the search
-                            or status filter.
-                          </td>
-                        </tr>
-                      )}
-
-                      {filteredAttendees.map((a, index) => {
-                        const fullName = `${a.firstName || ""} ${
-                          a.lastName || ""
-                        }`.trim();
-                        const checked = !!a.checkedIn;
+                        {freeFormLayout ? "Back to classic layout" : "Switch to free-form layout"}
+                      </button>
+                    </div>
+                    {!freeFormLayout && (
+                      <p style={{ margin: 0, color: "#9ca3af", fontSize: 12 }}>
+                        Place text, attendee fields, images, shapes, QR codes and attendee-type ribbons anywhere on
+                        either side. Long names shrink to fit their box.
+                      </p>
+                    )}
 
-                        return (
-                          <tr
-                            key={a.id || index}
-                            style={{
-                              borderBottom: "1px solid #111827",
-                              backgroundColor:
-                                index % 2 === 0 ? "#020617" : "#030712",
-                            }}
-                          >
-                            <td style={tdStyle}>{fullName || "Unknown"}</td>
-                            <td style={tdStyle}>{a.email || "—"}</td>
-                            <td style={tdStyle}>
-                              {checked ? (
-                                <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
-                                  <span style={{ color: "#22c55e", fontSize: 12 }}>
-                                    Checked in
-                                  </span>
-                                  {a.checkedInAt && (
-                                    <span style={{ color: "#9ca3af", fontSize: 11 }}>
-                                      {new Date(a.checkedInAt).toLocaleString()}
-                                    </span>
-                                  )}
-                                </div>
-                              ) : (
-                                <span style={{ color: "#f97316", fontSize: 12 }}>
-                                  Not checked in
-                                </span>
-                              )}
-                            </td>
-                            <td style={tdStyle}>
-                              <div
-                                style={{
-                                  display: "flex",
-                                  gap: 6,
-                                  flexWrap: "wrap",
-                                }}
-                              >
-                                {!checked ? (
-                                  <button
-                                    type="button"
-                                    onClick={() => handleCheckStatus(a.id, true)}
-                                    disabled={checkingInId === a.id}
-                                    style={{
-                                      borderRadius: 999,
-                                      padding: "4px 10px",
-                                      border: "none",
-                                      backgroundColor: "#22c55e",
-                                      color: "#020617",
-                                      fontSize: 12,
-                                      fontWeight: 600,
-                                      cursor: "pointer",
-                                    }}
-                                  >
-                                    {checkingInId === a.id ? "Checking..." : "Check In"}
-                                  </button>
-                                ) : (
-                                  <button
-                                    type="button"
-                                    onClick={() => handleCheckStatus(a.id, false)}
-                                    disabled={checkingInId === a.id}
-                                    style={{
-                                      borderRadius: 999,
-                                      padding: "4px 10px",
-                                      border: "1px solid #fca5a5",
-                                      backgroundColor: "#0b1120",
-                                      color: "#fca5a5",
-                                      fontSize: 12,
-                                      fontWeight: 600,
-                                      cursor: "pointer",
-                                    }}
-                                  >
-                                    {checkingInId === a.id ? "Updating..." : "Undo Check-In"}
-                                  </button>
-                                )}
+                    {freeFormLayout && (
+                      <>
+                        <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                          {BADGE_ELEMENT_PRESETS.map((preset) => (
+                            <button
+                              key={preset.id}
+                              onClick={() => addBadgeElement(preset.id)}
+                              style={{
+                                borderRadius: 8,
+                                padding: "4px 8px",
+                                border: "1px solid #374151",
+                                backgroundColor: "#111827",
+                                color: "#e5e7eb",
+                                fontSize: 12,
+                                cursor: "pointer",
+                              }}
+                            >
+                              + {preset.label}
+                            </button>
+                          ))}
+                        </div>
 
+                        <div style={{ display: "grid", gap: 4, maxHeight: 180, overflowY: "auto" }}>
+                          {badgeDesign.elements!.map((el, index) => (
+                            <div
+                              key={el.id}
+                              onClick={() => setSelectedElementId(el.id)}
+                              style={{
+                                display: "flex",
+                                alignItems: "center",
+                                gap: 6,
+                                padding: "4px 8px",
+                                borderRadius: 8,
+                                border: `1px solid ${el.id === selectedElementId ? "#38bdf8" : "#1f2937"}`,
+                                backgroundColor: "#020617",
+                                color: "#e5e7eb",
+                                fontSize: 12,
+                                cursor: "pointer",
+                              }}
+                            >
+                              <span style={{ color: "#9ca3af", minWidth: 36 }}>{el.side === "front" ? "Front" : "Back"}</span>
+                              <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                {elementLabel(el)}
+                              </span>
+                              {[
+                                { label: "↑", delta: -1, disabled: index === 0 },
+                                { label: "↓", delta: 1, disabled: index === badgeDesign.elements!.length - 1 },
+                              ].map((move) => (
                                 <button
-                                  type="button"
-                                  onClick={() =>
-                                    setQrAttendeeId(
-                                      qrAttendeeId === a.id ? null : a.id
-                                    )
-                                  }
-                                  style={{
-                                    borderRadius: 999,
-                                    padding: "4px 10px",
-                                    border: "1px solid #38bdf8",
-                                    backgroundColor:
-                                      qrAttendeeId === a.id
-                                        ? "#0b1120"
-                                        : "transparent",
-                                    color: "#38bdf8",
-                                    fontSize: 12,
-                                    fontWeight: 600,
-                                    cursor: "pointer",
+                                  key={move.label}
+                                  disabled={move.disabled}
+                                  title={move.delta < 0 ? "Draw further back" : "Draw further forward"}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    moveBadgeElement(el.id, move.delta);
                                   }}
-                                >
-                                  {qrAttendeeId === a.id ? "Hide QR" : "Show QR"}
-                                </button>
-
-                                <button
-                                  type="button"
-                                  onClick={() => setPrintAttendee({ ...a })}
                                   style={{
-                                    borderRadius: 999,
-                                    padding: "4px 10px",
-                                    border: "1px solid #eab308",
-                                    backgroundColor: "#0b1120",
-                                    color: "#eab308",
-                                    fontSize: 12,
-                                    fontWeight: 600,
-                                    cursor: "pointer",
+                                    border: "none",
+                                    background: "transparent",
+                                    color: move.disabled ? "#4b5563" : "#9ca3af",
+                                    cursor: move.disabled ? "default" : "pointer",
                                   }}
                                 >
-                                  Print Badge
+                                  {move.label}
                                 </button>
+                              ))}
+                              <button
+                                title="Remove"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  removeBadgeElement(el.id);
+                                }}
+                                style={{ border: "none", background: "transparent", color: "#f87171", cursor: "pointer" }}
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          ))}
+                        </div>
 
-                                <button
-                                  type="button"
-                                  onClick={() => startEdit(a)}
-                                  style={{
-                                    borderRadius: 999,
-                                    padding: "4px 10px",
-                                    border: "1px solid #a855f7",
-                                    backgroundColor: "#0b1120",
-                                    color: "#c084fc",
-                                    fontSize: 12,
-                                    fontWeight: 600,
-                                    cursor: "pointer",
-                                  }}
+                        {selectedElement && (
+                          <div
+                            style={{
+                              display: "grid",
+                              gap: 8,
+                              padding: 10,
+                              borderRadius: 10,
+                              border: "1px solid #1f2937",
+                              backgroundColor: "#020617",
+                            }}
+                          >
+                            <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 6 }}>
+                              <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                Side
+                                <select
+                                  value={selectedElement.side}
+                                  onChange={(e) =>
+                                    updateBadgeElement(selectedElement.id, { side: e.target.value as BadgeSide })
+                                  }
+                                  style={{ ...templateInputStyle, width: "100%" }}
                                 >
-                                  Edit
-                                </button>
+                                  <option value="front">Front</option>
+                                  <option value="back">Back</option>
+                                </select>
+                              </label>
+                              {(
+                                [
+                                  { key: "xMm", label: "X (mm)" },
+                                  { key: "yMm", label: "Y (mm)" },
+                                  { key: "widthMm", label: "W (mm)" },
+                                  { key: "heightMm", label: "H (mm)" },
+                                ] as const
+                              ).map((box) => (
+                                <label key={box.key} style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                  {box.label}
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={selectedElement[box.key]}
+                                    onChange={(e) =>
+                                      updateBadgeElement(selectedElement.id, {
+                                        [box.key]: Math.max(0, Number(e.target.value) || 0),
+                                      })
+                                    }
+                                    style={{ ...templateInputStyle, width: "100%" }}
+                                  />
+                                </label>
+                              ))}
+                            </div>
+
+                            {selectedElement.kind === "text" && (
+                              <>
+                                <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                  Text
+                                  <input
+                                    value={selectedElement.text || ""}
+                                    onChange={(e) => updateBadgeElement(selectedElement.id, { text: e.target.value })}
+                                    style={{ ...templateInputStyle, width: "100%" }}
+                                  />
+                                </label>
+                                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6 }}>
+                                  <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                    Insert field
+                                    <select
+                                      value=""
+                                      onChange={(e) => {
+                                        if (!e.target.value) return;
+                                        updateBadgeElement(selectedElement.id, {
+                                          text: `${selectedElement.text || ""}{${e.target.value}}`,
+                                        });
+                                      }}
+                                      style={{ ...templateInputStyle, width: "100%" }}
+                                    >
+                                      <option value="">Choose a field</option>
+                                      {BADGE_FIELDS.map((field) => (
+                                        <option key={field.key} value={field.key}>
+                                          {field.label}
+                                        </option>
+                                      ))}
+                                      {(events.find((e) => e.id === templateEventId)?.customFields || []).map((field) => (
+                                        <option key={field.id} value={`custom:${field.id}`}>
+                                          {field.label}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </label>
+                                  <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                    When empty, show
+                                    <input
+                                      value={selectedElement.fallback || ""}
+                                      placeholder="Nothing"
+                                      onChange={(e) =>
+                                        updateBadgeElement(selectedElement.id, { fallback: e.target.value })
+                                      }
+                                      style={{ ...templateInputStyle, width: "100%" }}
+                                    />
+                                  </label>
+                                </div>
+                              </>
+                            )}
+
+                            {(selectedElement.kind === "text" || selectedElement.kind === "ribbon") && (
+                              <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 6 }}>
+                                <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                  Size (mm)
+                                  <input
+                                    type="number"
+                                    min={1.5}
+                                    max={30}
+                                    step={0.5}
+                                    value={selectedElement.fontSizeMm || 4}
+                                    onChange={(e) =>
+                                      updateBadgeElement(selectedElement.id, {
+                                        fontSizeMm: Number(e.target.value) || 4,
+                                      })
+                                    }
+                                    style={{ ...templateInputStyle, width: "100%" }}
+                                  />
+                                </label>
+                                <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                  Shrink to (mm)
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    max={30}
+                                    step={0.5}
+                                    value={selectedElement.minFontSizeMm || selectedElement.fontSizeMm || 4}
+                                    onChange={(e) =>
+                                      updateBadgeElement(selectedElement.id, {
+                                        minFontSizeMm: Number(e.target.value) || undefined,
+                                      })
+                                    }
+                                    style={{ ...templateInputStyle, width: "100%" }}
+                                  />
+                                </label>
+                                {selectedElement.kind === "text" ? (
+                                  <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                    Max lines
+                                    <input
+                                      type="number"
+                                      min={1}
+                                      max={10}
+                                      value={selectedElement.maxLines || 1}
+                                      onChange={(e) =>
+                                        updateBadgeElement(selectedElement.id, {
+                                          maxLines: Number(e.target.value) || 1,
+                                        })
+                                      }
+                                      style={{ ...templateInputStyle, width: "100%" }}
+                                    />
+                                  </label>
+                                ) : (
+                                  <span />
+                                )}
+                                <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                  Color
+                                  <input
+                                    type="color"
+                                    value={selectedElement.color || badgeDesign.textColor}
+                                    onChange={(e) => updateBadgeElement(selectedElement.id, { color: e.target.value })}
+                                    style={{ ...templateInputStyle, width: "100%", height: 30, padding: 2 }}
+                                  />
+                                </label>
+                                <label style={{ color: "#e5e7eb", fontSize: 12, display: "flex", gap: 6, alignItems: "center" }}>
+                                  <input
+                                    type="checkbox"
+                                    checked={!!selectedElement.bold}
+                                    onChange={(e) => updateBadgeElement(selectedElement.id, { bold: e.target.checked })}
+                                  />
+                                  Bold
+                                </label>
+                                {selectedElement.kind === "text" && (
+                                  <label style={{ color: "#e5e7eb", fontSize: 12, gridColumn: "span 3" }}>
+                                    <select
+                                      value={selectedElement.align || "left"}
+                                      onChange={(e) =>
+                                        updateBadgeElement(selectedElement.id, {
+                                          align: e.target.value as BadgeElement["align"],
+                                        })
+                                      }
+                                      style={{ ...templateInputStyle, marginTop: 0 }}
+                                    >
+                                      <option value="left">Align left</option>
+                                      <option value="center">Align center</option>
+                                      <option value="right">Align right</option>
+                                    </select>
+                                  </label>
+                                )}
                               </div>
-                            </td>
-                          </tr>
-                        );
-                      })}
-                    </tbody>
-                  </table>
+                            )}
+
+                            {selectedElement.kind === "image" && (
+                              <div style={{ display: "grid", gap: 6 }}>
+                                <input
+                                  type="text"
+                                  placeholder="Paste image URL"
+                                  value={selectedElement.imageUrl || ""}
+                                  onChange={(e) =>
+                                    updateBadgeElement(selectedElement.id, { imageUrl: e.target.value })
+                                  }
+                                  style={{ ...templateInputStyle, width: "100%", marginTop: 0 }}
+                                />
+                                <input
+                                  type="file"
+                                  accept="image/*"
+                                  onChange={handleElementImageUpload(selectedElement.id)}
+                                  style={{ color: "#9ca3af", fontSize: 12 }}
+                                />
+                                <p style={{ margin: 0, color: "#9ca3af", fontSize: 12 }}>
+                                  Uploaded PNG and JPEG images print in PDFs; other images only show when printing
+                                  from the browser.
+                                </p>
+                              </div>
+                            )}
+
+                            {(selectedElement.kind === "shape" || selectedElement.kind === "qr") && (
+                              <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 6 }}>
+                                {(
+                                  [
+                                    { key: "fill", label: "Fill" },
+                                    { key: "stroke", label: "Outline" },
+                                  ] as const
+                                ).map((paint) => (
+                                  <label key={paint.key} style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                    {paint.label}
+                                    <div style={{ display: "flex", gap: 4, alignItems: "center", marginTop: 6 }}>
+                                      <input
+                                        type="checkbox"
+                                        checked={!!selectedElement[paint.key]}
+                                        onChange={(e) =>
+                                          updateBadgeElement(selectedElement.id, {
+                                            [paint.key]: e.target.checked ? badgeDesign.accentColor : undefined,
+                                          })
+                                        }
+                                      />
+                                      <input
+                                        type="color"
+                                        disabled={!selectedElement[paint.key]}
+                                        value={selectedElement[paint.key] || "#ffffff"}
+                                        onChange={(e) =>
+                                          updateBadgeElement(selectedElement.id, { [paint.key]: e.target.value })
+                                        }
+                                        style={{ flex: 1, height: 26, border: "1px solid #374151", borderRadius: 6 }}
+                                      />
+                                    </div>
+                                  </label>
+                                ))}
+                                <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                  Radius (mm)
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    max={50}
+                                    step={0.5}
+                                    value={selectedElement.radiusMm || 0}
+                                    onChange={(e) =>
+                                      updateBadgeElement(selectedElement.id, {
+                                        radiusMm: Math.max(0, Number(e.target.value) || 0),
+                                      })
+                                    }
+                                    style={{ ...templateInputStyle, width: "100%" }}
+                                  />
+                                </label>
+                              </div>
+                            )}
+
+                            {selectedElement.kind === "ribbon" && (
+                              <div style={{ display: "grid", gap: 4 }}>
+                                <label style={{ color: "#e5e7eb", fontSize: 12 }}>
+                                  <input
+                                    type="checkbox"
+                                    checked={!selectedElement.ribbons}
+                                    onChange={(e) =>
+                                      updateBadgeElement(selectedElement.id, {
+                                        ribbons: e.target.checked
+                                          ? undefined
+                                          : templateEventTypes.map((t) => ({
+                                              type: t.id,
+                                              label: t.label.toUpperCase(),
+                                              color: t.color,
+                                            })),
+                                      })
+                                    }
+                                  />{" "}
+                                  Use each attendee type&apos;s name and badge color
+                                </label>
+                                {selectedElement.ribbons && (
+                                  <p style={{ margin: 0, color: "#9ca3af", fontSize: 12 }}>
+                                    Types left unticked get no ribbon.
+                                  </p>
+                                )}
+                                {(selectedElement.ribbons ? templateEventTypes : []).map((type) => {
+                                  const ribbons = selectedElement.ribbons || [];
+                                  const ribbon = ribbons.find((r) => r.type === type.id);
+                                  const setRibbon = (next: { label: string; color: string } | null) =>
+                                    updateBadgeElement(selectedElement.id, {
+                                      ribbons: templateEventTypes.flatMap((t) => {
+                                        if (t.id !== type.id) return ribbons.filter((r) => r.type === t.id);
+                                        return next ? [{ type: t.id, ...next }] : [];
+                                      }),
+                                    });
+                                  return (
+                                    <div key={type.id} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                                      <label style={{ color: "#e5e7eb", fontSize: 12, minWidth: 90 }}>
+                                        <input
+                                          type="checkbox"
+                                          checked={!!ribbon}
+                                          onChange={(e) =>
+                                            setRibbon(
+                                              e.target.checked
+                                                ? { label: type.label.toUpperCase(), color: type.color }
+                                                : null
+                                            )
+                                          }
+                                        />{" "}
+                                        {type.label}
+                                      </label>
+                                      <input
+                                        disabled={!ribbon}
+                                        value={ribbon?.label || ""}
+                                        onChange={(e) => setRibbon({ label: e.target.value, color: ribbon!.color })}
+                                        style={{ ...templateInputStyle, flex: 1, marginTop: 0 }}
+                                      />
+                                      <input
+                                        type="color"
+                                        disabled={!ribbon}
+                                        value={ribbon?.color || type.color}
+                                        onChange={(e) => setRibbon({ label: ribbon!.label, color: e.target.value })}
+                                        style={{ width: 36, height: 26, border: "1px solid #374151", borderRadius: 6 }}
+                                      />
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
                 </div>
+              </div>
+            </section>
+          )}
 
-                {/* RIGHT: QR code for selected attendee */}
+          {activeSection === "exhibitors" && (
+            <section
+              style={{
+                border: "1px solid #1f2937",
+                borderRadius: 12,
+                padding: 16,
+                backgroundColor: "#0f172a",
+              }}
+            >
+              <div
+                style={{
+                  display: "flex",
+                  gap: 8,
+                  flexWrap: "wrap",
+                  marginBottom: 12,
+                  alignItems: "center",
+                }}
+              >
+                <input
+                  placeholder="Search exhibitors"
+                  value={exhibitorSearch}
+                  onChange={(e) => setExhibitorSearch(e.target.value)}
+                  style={{
+                    flex: 1,
+                    minWidth: 240,
+                    borderRadius: 10,
+                    border: "1px solid #374151",
+                    padding: "10px 12px",
+                    backgroundColor: "#0b1120",
+                    color: "#e5e7eb",
+                    fontSize: 13,
+                  }}
+                />
+              </div>
+
+              {canEditExhibitors && (
                 <div
                   style={{
-                    borderRadius: 12,
                     border: "1px solid #1f2937",
+                    borderRadius: 10,
                     padding: 12,
-                    backgroundColor: "#020617",
-                    minHeight: 260,
-                    display: "flex",
-                    flexDirection: "column",
-                    alignItems: "center",
-                    justifyContent: "center",
+                    marginBottom: 12,
+                    backgroundColor: "#0b1120",
+                    display: "grid",
+                    gap: 8,
                   }}
                 >
-                  {!qrAttendee && (
-                    <p
+                  <p style={{ margin: 0, color: "#e5e7eb", fontSize: 13, fontWeight: 600 }}>
+                    {editingExhibitorId ? "Edit exhibitor" : "Add exhibitor"}
+                  </p>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    {(
+                      [
+                        ["name", "Company name"],
+                        ["boothNumber", "Booth"],
+                        ["contactEmails", "Contact emails (comma separated)"],
+                        ["logoUrl", "Logo URL"],
+                      ] as const
+                    ).map(([field, label]) => (
+                      <input
+                        key={field}
+                        placeholder={label}
+                        value={exhibitorForm[field]}
+                        onChange={(e) =>
+                          setExhibitorForm((prev) => ({ ...prev, [field]: e.target.value }))
+                        }
+                        style={{
+                          flex: field === "boothNumber" ? "0 0 100px" : 1,
+                          minWidth: field === "boothNumber" ? 100 : 180,
+                          borderRadius: 10,
+                          padding: "8px 10px",
+                          border: "1px solid #374151",
+                          backgroundColor: "#020617",
+                          color: "#e5e7eb",
+                          fontSize: 13,
+                        }}
+                      />
+                    ))}
+                    <select
+                      value={exhibitorForm.eventId || scopedEventId}
+                      onChange={(e) => setExhibitorForm((prev) => ({ ...prev, eventId: e.target.value }))}
                       style={{
-                        color: "#9ca3af",
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
                         fontSize: 13,
-                        textAlign: "center",
-                        padding: "0 8px",
                       }}
                     >
-                      Select an attendee in the table and click{" "}
-                      <span style={{ color: "#38bdf8" }}>&quot;Show QR&quot;</span>{" "}
-                      to generate a badge QR you can scan with the mobile app.
-                    </p>
-                  )}
-
-                  {qrAttendee && (
-                    <>
-                      <h2
-                        style={{
-                          color: "#e5e7eb",
-                          fontSize: 16,
-                          fontWeight: 600,
-                          marginBottom: 8,
-                          textAlign: "center",
-                        }}
-                      >
-                        Badge QR
-                      </h2>
-                      <p
+                      <option value="">Select event</option>
+                      {activeEvents.map((evt) => (
+                        <option key={evt.id} value={evt.id}>
+                          {evt.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <textarea
+                    placeholder={"Booth staff, one per line: Name, email"}
+                    value={exhibitorForm.staff}
+                    onChange={(e) => setExhibitorForm((prev) => ({ ...prev, staff: e.target.value }))}
+                    rows={3}
+                    style={{
+                      borderRadius: 10,
+                      padding: "8px 10px",
+                      border: "1px solid #374151",
+                      backgroundColor: "#020617",
+                      color: "#e5e7eb",
+                      fontSize: 13,
+                      resize: "vertical",
+                    }}
+                  />
+                  <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                    <button
+                      onClick={saveExhibitor}
+                      disabled={
+                        savingExhibitor || !exhibitorForm.name || !(exhibitorForm.eventId || scopedEventId)
+                      }
+                      style={{
+                        borderRadius: 10,
+                        padding: "8px 12px",
+                        border: "1px solid #22c55e",
+                        backgroundColor: "transparent",
+                        color: "#22c55e",
+                        fontSize: 13,
+                        fontWeight: 600,
+                        cursor: "pointer",
+                      }}
+                    >
+                      {savingExhibitor ? "Saving..." : editingExhibitorId ? "Save changes" : "Add exhibitor"}
+                    </button>
+                    {editingExhibitorId && (
+                      <button
+                        onClick={resetExhibitorForm}
                         style={{
+                          borderRadius: 10,
+                          padding: "8px 12px",
+                          border: "1px solid #374151",
+                          backgroundColor: "transparent",
                           color: "#9ca3af",
                           fontSize: 13,
-                          marginBottom: 8,
-                          textAlign: "center",
+                          cursor: "pointer",
                         }}
                       >
-                        {qrAttendee.firstName} {qrAttendee.lastName}
-                        <br />
-                        <span style={{ fontSize: 11, color: "#6b7280" }}>
-                          ID: {qrAttendee.id}
-                        </span>
-                      </p>
-
-                      <QRCodeCanvas
-                        value={qrValue}
-                        size={200}
-                        includeMargin={true}
-                        bgColor="#020617"
-                        fgColor="#22c55e"
-                      />
+                        Cancel
+                      </button>
+                    )}
+                    {exhibitorError && (
+                      <span style={{ color: "#f87171", fontSize: 12 }}>{exhibitorError}</span>
+                    )}
+                  </div>
+                </div>
+              )}
 
-                      <p
-                        style={{
-                          marginTop: 10,
-                          fontSize: 11,
-                          color: "#6b7280",
-                          textAlign: "center",
-                          maxWidth: 260,
-                        }}
-                      >
-                        Open your Hemisphere Leads app on your phone, choose the
-                        scanner, and point it at this QR. The attendee&apos;s name
-                        should pop up automatically.
-                      </p>
-                    </>
+              {currentStaff?.role === "owner" && (
+                <div
+                  style={{
+                    border: "1px solid #1f2937",
+                    borderRadius: 10,
+                    padding: 12,
+                    marginBottom: 12,
+                    backgroundColor: "#0b1120",
+                  }}
+                >
+                  <p style={{ margin: "0 0 8px", color: "#e5e7eb", fontSize: 13, fontWeight: 600 }}>
+                    Issue exhibitor login link
+                  </p>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    <select
+                      value={linkForm.exhibitorId}
+                      onChange={(e) => {
+                        const exh = exhibitors.find((x) => x.id === e.target.value);
+                        setLinkForm({ exhibitorId: e.target.value, email: exh?.contactEmails[0] || "" });
+                      }}
+                      style={{
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                      }}
+                    >
+                      <option value="">Select exhibitor</option>
+                      {filteredExhibitors.map((exh) => (
+                        <option key={exh.id} value={exh.id}>
+                          {exh.name} · {eventName(exh.eventId)}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="email"
+                      placeholder="exhibitor@example.com"
+                      value={linkForm.email}
+                      onChange={(e) => setLinkForm((prev) => ({ ...prev, email: e.target.value }))}
+                      style={{
+                        flex: 1,
+                        minWidth: 200,
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                      }}
+                    />
+                    <button
+                      onClick={issueExhibitorLink}
+                      disabled={
+                        issuingLink || !linkForm.exhibitorId || !linkForm.email
+                      }
+                      style={{
+                        borderRadius: 10,
+                        padding: "8px 12px",
+                        border: "1px solid #22c55e",
+                        backgroundColor: "transparent",
+                        color: "#22c55e",
+                        fontSize: 13,
+                        fontWeight: 600,
+                        cursor: "pointer",
+                      }}
+                    >
+                      {issuingLink ? "Issuing..." : "Generate link"}
+                    </button>
+                  </div>
+                  {linkError && (
+                    <p style={{ color: "#f87171", fontSize: 12, margin: "8px 0 0" }}>{linkError}</p>
+                  )}
+                  {linkMessage && (
+                    <p style={{ color: "#bbf7d0", fontSize: 12, margin: "8px 0 0", wordBreak: "break-all" }}>
+                      {linkMessage}
+                    </p>
                   )}
                 </div>
-              </div>
+              )}
 
-              <p
+              <div
                 style={{
-                  marginTop: 10,
-                  fontSize: 11,
-                  color: "#6b7280",
+                  borderRadius: 10,
+                  border: "1px solid #1f2937",
+                  overflow: "hidden",
                 }}
               >
-                Check-ins now persist to{" "}
-                <code style={{ color: "#bbf7d0" }}>data/attendees.json</code> via the{" "}
-                <code style={{ color: "#bbf7d0" }}>/api/checkin</code> route.
-              </p>
-            </>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
+                      <th style={thStyle}>Exhibitor</th>
+                      <th style={thStyle}>Booth</th>
+                      <th style={thStyle}>Event</th>
+                      <th style={thStyle}>Contacts</th>
+                      <th style={thStyle}>Staff</th>
+                      {canEditExhibitors && <th style={thStyle}>Actions</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredExhibitors.length === 0 && (
+                      <tr>
+                        <td colSpan={canEditExhibitors ? 6 : 5} style={tdStyle}>
+                          No exhibitors registered yet.
+                        </td>
+                      </tr>
+                    )}
+                    {filteredExhibitors.map((exh) => (
+                      <tr
+                        key={exh.id}
+                        style={{
+                          borderBottom: "1px solid #111827",
+                          backgroundColor: editingExhibitorId === exh.id ? "#111c33" : "#0b1224",
+                        }}
+                      >
+                        <td style={tdStyle}>
+                          <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                            {exh.logoUrl && (
+                              <img
+                                src={exh.logoUrl}
+                                alt=""
+                                style={{ width: 28, height: 28, objectFit: "contain", borderRadius: 4 }}
+                              />
+                            )}
+                            {exh.name}
+                          </div>
+                        </td>
+                        <td style={tdStyle}>{exh.boothNumber || "—"}</td>
+                        <td style={tdStyle}>{eventName(exh.eventId)}</td>
+                        <td style={tdStyle}>{exh.contactEmails.join(", ") || "—"}</td>
+                        <td style={tdStyle} title={exh.staff.map((m) => m.name || m.email).join(", ")}>
+                          {exh.staff.length}
+                        </td>
+                        {canEditExhibitors && (
+                          <td style={tdStyle}>
+                            <div style={{ display: "flex", gap: 6 }}>
+                              <button
+                                onClick={() => editExhibitor(exh)}
+                                style={{
+                                  borderRadius: 8,
+                                  padding: "6px 10px",
+                                  border: "1px solid #38bdf8",
+                                  backgroundColor: "transparent",
+                                  color: "#38bdf8",
+                                  fontSize: 12,
+                                  cursor: "pointer",
+                                }}
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => removeExhibitor(exh)}
+                                style={{
+                                  borderRadius: 8,
+                                  padding: "6px 10px",
+                                  border: "1px solid #f87171",
+                                  backgroundColor: "transparent",
+                                  color: "#f87171",
+                                  fontSize: 12,
+                                  cursor: "pointer",
+                                }}
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
           )}
 
-          {activeSection === "badgeDesigner" && (
+          {activeSection === "leadRetrieval" && (
             <section
               style={{
                 border: "1px solid #1f2937",
                 borderRadius: 12,
                 padding: 16,
-                backgroundColor: "#0b1120",
-                display: "grid",
-                gap: 12,
+                backgroundColor: "#0f172a",
               }}
             >
-              <div
-                style={{
-                  display: "flex",
-                  justifyContent: "space-between",
-                  alignItems: "center",
-                  flexWrap: "wrap",
-                  gap: 8,
-                }}
-              >
-                <div>
-                  <p style={{ margin: 0, color: "#e5e7eb", fontWeight: 700, fontSize: 15 }}>
-                    Badge Designer ({mmToIn(badgeDesign.badgeWidthMm)}&quot; x {mmToIn(badgeDesign.badgeHeightMm)}&quot;)
-                  </p>
-                  <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                    Adjust QR placement/size, fonts, logos, and pick 1- or 2-sided layouts. Settings save automatically.
-                  </p>
-                </div>
-                <div style={{ display: "flex", gap: 8 }}>
-                  <button
-                    onClick={resetBadgeDesign}
+              {!canEditExhibitors ? (
+                <p style={{ color: "#9ca3af", fontSize: 13, margin: 0 }}>
+                  Activation codes are only visible to owners and registration staff.
+                </p>
+              ) : (
+                <>
+                  <div
                     style={{
-                      borderRadius: 10,
-                      padding: "6px 10px",
-                      border: "1px solid #374151",
-                      backgroundColor: "transparent",
-                      color: "#e5e7eb",
-                      fontSize: 12,
-                      cursor: "pointer",
+                      display: "flex",
+                      gap: 12,
+                      flexWrap: "wrap",
+                      alignItems: "flex-end",
+                      marginBottom: 12,
                     }}
                   >
-                    Reset layout
-                  </button>
-                </div>
-              </div>
-
-              <div
-                style={{
-                  display: "grid",
-                  gridTemplateColumns: "minmax(320px, 1.1fr) minmax(280px, 0.9fr)",
-                  gap: 12,
-                  alignItems: "stretch",
-                }}
-              >
-                {/* Preview */}
-                <div
-                  style={{
-                    padding: 12,
-                    border: "1px solid #1f2937",
-                    borderRadius: 12,
-                    backgroundColor: "#020617",
-                  }}
-                >
-                  <div style={{ color: "#9ca3af", fontSize: 12, marginBottom: 6 }}>
-                    Live preview (badge scale) — click/drag QR to move it
-                  </div>
-                  <div style={{ display: "grid", gap: 10 }}>
-                    {/* Front preview */}
-                    <div
-                      style={{
-                        position: "relative",
-                        width: "100%",
-                        aspectRatio: badgeAspectRatio,
-                        borderRadius: 12,
-                        overflow: "hidden",
-                        border: "1px solid #1f2937",
-                        backgroundColor: badgeDesign.backgroundColor,
-                        boxShadow: "0 12px 24px rgba(0,0,0,0.25)",
-                        color: badgeDesign.textColor,
-                      }}
-                      ref={frontPreviewRef}
-                      onPointerDown={handlePreviewPointerDown}
-                      onPointerMove={handlePreviewPointerMove}
-                      onPointerUp={handlePreviewPointerUp}
-                    >
-                      <div
-                        style={{
-                          position: "absolute",
-                          left: `${badgeDesign.qrOffsetXMm}mm`,
-                          top: `${badgeDesign.qrOffsetYMm}mm`,
-                          width: `${badgeDesign.qrSizeMm}mm`,
-                          height: `${badgeDesign.qrSizeMm}mm`,
-                          display: "grid",
-                          placeItems: "center",
-                          backgroundColor: "#ffffff",
-                          border: `1px solid ${badgeDesign.borderColor}`,
-                          borderRadius: 8,
-                          boxShadow: "0 6px 16px rgba(0,0,0,0.28)",
-                        }}
-                      >
-                        <QRCodeCanvas
-                          value={designerQrValue}
-                          size={240}
-                          includeMargin
-                          bgColor="#ffffff"
-                          style={{ width: "100%", height: "100%" }}
-                        />
-                      </div>
-
-                      <div
-                        style={{
-                          position: "absolute",
-                          inset: 0,
-                          padding: "8mm",
-                          boxSizing: "border-box",
-                          display: "flex",
-                          flexDirection: "column",
-                          gap: 12,
-                        }}
-                      >
-                        <div
+                    <p style={{ color: "#9ca3af", fontSize: 13, margin: 0, flex: 1, minWidth: 240 }}>
+                      Each exhibitor has one active code. Regenerating replaces it immediately; devices
+                      already activated keep working.
+                    </p>
+                    {(
+                      [
+                        ["expiresInDays", "Valid for (days)"],
+                        ["maxDevices", "Device limit"],
+                      ] as const
+                    ).map(([field, label]) => (
+                      <label key={field} style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                        {label}
+                        <input
+                          type="number"
+                          min={1}
+                          value={codeSettings[field]}
+                          onChange={(e) =>
+                            setCodeSettings((prev) => ({ ...prev, [field]: e.target.value }))
+                          }
                           style={{
-                            display: "flex",
-                            alignItems: "center",
-                            justifyContent: "space-between",
-                            gap: 10,
+                            display: "block",
+                            width: 110,
+                            marginTop: 6,
+                            borderRadius: 10,
+                            padding: "8px 10px",
+                            border: "1px solid #374151",
+                            backgroundColor: "#020617",
+                            color: "#e5e7eb",
+                            fontSize: 13,
                           }}
-                        >
-                          <div>
-                            <p
-                              style={{
-                                margin: 0,
-                                fontSize: `${badgeDesign.metaFontMm}mm`,
-                                letterSpacing: 1,
-                                color: badgeDesign.accentColor,
-                              }}
-                            >
-                              HEMISPHERE
-                            </p>
-                            <p
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  {codeError && (
+                    <p style={{ color: "#f87171", fontSize: 12, margin: "0 0 12px" }}>{codeError}</p>
+                  )}
+                  <div
+                    style={{
+                      borderRadius: 10,
+                      border: "1px solid #1f2937",
+                      overflow: "hidden",
+                    }}
+                  >
+                    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                      <thead>
+                        <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
+                          <th style={thStyle}>Exhibitor</th>
+                          <th style={thStyle}>Activation code</th>
+                          <th style={thStyle}>Devices</th>
+                          <th style={thStyle}>Expires</th>
+                          <th style={thStyle}>Status</th>
+                          <th style={thStyle}>Action</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {filteredExhibitors.length === 0 && (
+                          <tr>
+                            <td colSpan={6} style={tdStyle}>
+                              No exhibitors registered yet.
+                            </td>
+                          </tr>
+                        )}
+                        {filteredExhibitors.map((exh) => {
+                          const code = latestCodeFor(exh.id);
+                          const busy = busyCodeExhibitorId === exh.id;
+                          return (
+                            <tr
+                              key={exh.id}
                               style={{
-                                margin: 0,
-                                fontSize: `${badgeDesign.metaFontMm}mm`,
-                                opacity: 0.7,
+                                borderBottom: "1px solid #111827",
+                                backgroundColor: "#0b1224",
                               }}
                             >
-                              Event badge
-                            </p>
-                          </div>
-                          {badgeDesign.frontLogoUrl ? (
-                            <img
-                              src={badgeDesign.frontLogoUrl}
-                              alt="Front logo"
-                              style={{
-                                width: 48,
-                                height: 48,
-                                borderRadius: 12,
-                                objectFit: "contain",
-                                backgroundColor: "#ffffff",
-                                border: `1px solid ${badgeDesign.borderColor}`,
-                              }}
-                            />
-                          ) : (
-                            <div
-                              style={{
-                                width: 48,
-                                height: 48,
-                                borderRadius: 12,
-                                background: `linear-gradient(135deg, ${badgeDesign.accentColor}, ${badgeDesign.textColor})`,
-                              }}
-                            />
-                          )}
-                        </div>
+                              <td style={tdStyle}>
+                                {exh.name}
+                                <div style={{ color: "#9ca3af", fontSize: 11 }}>
+                                  {eventName(exh.eventId)}
+                                </div>
+                              </td>
+                              <td style={{ ...tdStyle, fontFamily: "monospace" }}>
+                                {code ? code.code : "—"}
+                              </td>
+                              <td style={tdStyle}>
+                                {code ? `${code.usageCount} / ${code.maxDevices}` : "—"}
+                              </td>
+                              <td style={tdStyle}>
+                                {code ? new Date(code.expiresAt).toLocaleDateString() : "—"}
+                              </td>
+                              <td
+                                style={{
+                                  ...tdStyle,
+                                  color: code?.status === "active" ? "#22c55e" : "#f87171",
+                                }}
+                              >
+                                {code ? code.status : "none"}
+                              </td>
+                              <td style={tdStyle}>
+                                <div style={{ display: "flex", gap: 6 }}>
+                                  {code?.status === "active" && (
+                                    <button
+                                      onClick={() => copyToClipboard(code.code)}
+                                      style={{
+                                        borderRadius: 8,
+                                        padding: "6px 10px",
+                                        border: "1px solid #38bdf8",
+                                        backgroundColor: "transparent",
+                                        color: "#38bdf8",
+                                        fontSize: 12,
+                                        cursor: "pointer",
+                                      }}
+                                    >
+                                      Copy
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => regenerateActivationCode(exh)}
+                                    disabled={busy}
+                                    style={{
+                                      borderRadius: 8,
+                                      padding: "6px 10px",
+                                      border: "1px solid #22c55e",
+                                      backgroundColor: "transparent",
+                                      color: "#22c55e",
+                                      fontSize: 12,
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    {code ? "Regenerate" : "Generate"}
+                                  </button>
+                                  {code && !code.revokedAt && (
+                                    <button
+                                      onClick={() => revokeActivationCode(exh, code.code)}
+                                      disabled={busy}
+                                      style={{
+                                        borderRadius: 8,
+                                        padding: "6px 10px",
+                                        border: "1px solid #f87171",
+                                        backgroundColor: "transparent",
+                                        color: "#f87171",
+                                        fontSize: 12,
+                                        cursor: "pointer",
+                                      }}
+                                    >
+                                      Revoke
+                                    </button>
+                                  )}
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
 
-                        <div style={{ maxWidth: "70%" }}>
-                          <p
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      alignItems: "center",
+                      margin: "20px 0 8px",
+                    }}
+                  >
+                    <p style={{ margin: 0, color: "#e5e7eb", fontSize: 13, fontWeight: 600 }}>
+                      Active devices ({scopedDevices.length})
+                    </p>
+                    <button
+                      onClick={loadBoothDevices}
+                      style={{
+                        borderRadius: 8,
+                        padding: "6px 10px",
+                        border: "1px solid #374151",
+                        backgroundColor: "transparent",
+                        color: "#9ca3af",
+                        fontSize: 12,
+                        cursor: "pointer",
+                      }}
+                    >
+                      Refresh
+                    </button>
+                  </div>
+                  <div
+                    style={{
+                      borderRadius: 10,
+                      border: "1px solid #1f2937",
+                      overflow: "hidden",
+                    }}
+                  >
+                    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                      <thead>
+                        <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
+                          <th style={thStyle}>Device</th>
+                          <th style={thStyle}>Exhibitor</th>
+                          <th style={thStyle}>Activated</th>
+                          <th style={thStyle}>Last seen</th>
+                          <th style={thStyle}>Action</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {scopedDevices.length === 0 && (
+                          <tr>
+                            <td colSpan={5} style={tdStyle}>
+                              No devices are activated.
+                            </td>
+                          </tr>
+                        )}
+                        {scopedDevices.map((device) => (
+                          <tr
+                            key={device.id}
                             style={{
-                              margin: 0,
-                              fontSize: `${badgeDesign.nameFontMm}mm`,
-                              fontWeight: 700,
-                              lineHeight: 1.1,
+                              borderBottom: "1px solid #111827",
+                              backgroundColor: "#0b1224",
                             }}
                           >
-                            {`${previewAttendee.firstName || ""} ${
-                              previewAttendee.lastName || ""
-                            }`.trim() || "Sample Attendee"}
-                          </p>
-                          <p style={{ margin: "4px 0 0", fontSize: `${badgeDesign.companyFontMm}mm`, opacity: 0.8 }}>
-                            {previewAttendee.company || "Your company"}
-                          </p>
-                          {previewAttendee.eventId && (
-                            <p style={{ margin: "2px 0 0", fontSize: `${badgeDesign.metaFontMm}mm`, opacity: 0.6 }}>
-                              Event ID: {previewAttendee.eventId}
-                            </p>
-                          )}
-                        </div>
-
-                        <div
-                          style={{
-                            marginTop: "auto",
-                            display: "flex",
-                            justifyContent: "space-between",
-                            fontSize: `${badgeDesign.metaFontMm}mm`,
-                            color: "#475569",
-                          }}
-                        >
-                          <span>Badge ID: {previewAttendee.id}</span>
-                          <span style={{ color: badgeDesign.accentColor, fontWeight: 600 }}>
-                            hemisphere:{previewAttendee.id}
-                          </span>
-                        </div>
-                      </div>
-
-                      <div
-                        style={{
-                          position: "absolute",
-                          bottom: 6,
-                          right: 8,
-                          padding: "2px 8px",
-                          backgroundColor: "rgba(15,23,42,0.6)",
-                          color: "#e5e7eb",
-                          fontSize: 11,
-                          borderRadius: 999,
-                          border: "1px solid #1f2937",
-                        }}
-                      >
-                        Front • {mmToIn(badgeDesign.badgeWidthMm)}&quot; x{" "}
-                        {mmToIn(badgeDesign.badgeHeightMm)}&quot; ({badgeDesign.badgeWidthMm} mm x{" "}
-                        {badgeDesign.badgeHeightMm} mm)
-                      </div>
-                    </div>
-
-                    {badgeDesign.layoutMode === "double" && (
-                      <div
-                        style={{
-                          position: "relative",
-                          width: "100%",
-                          aspectRatio: badgeAspectRatio,
-                          borderRadius: 12,
-                          overflow: "hidden",
-                          border: "1px solid #1f2937",
-                          backgroundColor: badgeDesign.backgroundColor,
-                          boxShadow: "0 12px 24px rgba(0,0,0,0.25)",
-                          color: badgeDesign.textColor,
-                          display: "flex",
-                          flexDirection: "column",
-                          padding: "8mm",
-                          boxSizing: "border-box",
-                          gap: 12,
-                        }}
-                      >
-                        <div
-                          style={{
-                            display: "flex",
-                            alignItems: "center",
-                            justifyContent: "space-between",
-                          }}
-                        >
-                          <span style={{ fontSize: `${badgeDesign.metaFontMm}mm`, opacity: 0.7 }}>
-                            Back of badge
-                          </span>
-                          {badgeDesign.backLogoUrl ? (
-                            <img
-                              src={badgeDesign.backLogoUrl}
-                              alt="Back logo"
-                              style={{
-                                width: 48,
-                                height: 48,
-                                borderRadius: 10,
-                                objectFit: "contain",
-                                backgroundColor: "#ffffff",
-                                border: `1px solid ${badgeDesign.borderColor}`,
-                              }}
-                            />
-                          ) : (
-                            <div
-                              style={{
-                                width: 48,
-                                height: 48,
-                                borderRadius: 12,
-                                background: `linear-gradient(135deg, ${badgeDesign.accentColor}, ${badgeDesign.textColor})`,
-                              }}
-                            />
-                          )}
-                        </div>
+                            <td style={tdStyle}>
+                              {device.label}
+                              <div style={{ color: "#9ca3af", fontSize: 11, fontFamily: "monospace" }}>
+                                {device.activationCode}
+                              </div>
+                            </td>
+                            <td style={tdStyle}>
+                              {exhibitorName(device.exhibitorId)}
+                              <div style={{ color: "#9ca3af", fontSize: 11 }}>
+                                {eventName(device.eventId)}
+                              </div>
+                            </td>
+                            <td style={tdStyle}>{new Date(device.createdAt).toLocaleString()}</td>
+                            <td style={tdStyle}>{new Date(device.lastSeenAt).toLocaleString()}</td>
+                            <td style={tdStyle}>
+                              <button
+                                onClick={() => revokeBoothDevice(device)}
+                                style={{
+                                  borderRadius: 8,
+                                  padding: "6px 10px",
+                                  border: "1px solid #f87171",
+                                  backgroundColor: "transparent",
+                                  color: "#f87171",
+                                  fontSize: 12,
+                                  cursor: "pointer",
+                                }}
+                              >
+                                Sign out
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </section>
+          )}
+          {activeSection === "import" && canEditExhibitors && (
+            <section
+              style={{
+                border: "1px solid #1f2937",
+                borderRadius: 12,
+                padding: 16,
+                backgroundColor: "#0f172a",
+                display: "grid",
+                gap: 12,
+              }}
+            >
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "flex-end" }}>
+                <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600, flex: 1, minWidth: 220 }}>
+                  Registrant list (CSV or XLSX)
+                  <input
+                    key={importFile ? "chosen" : "empty"}
+                    type="file"
+                    accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    onChange={chooseImportFile}
+                    style={{ display: "block", marginTop: 6, color: "#e5e7eb", fontSize: 13 }}
+                  />
+                </label>
+                <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                  Rows without an event go to
+                  <select
+                    value={importEventId}
+                    onChange={(e) => {
+                      setImportEventId(e.target.value);
+                      sendImport(true, { eventId: e.target.value });
+                    }}
+                    style={{
+                      display: "block",
+                      marginTop: 6,
+                      border: "1px solid #374151",
+                      borderRadius: 10,
+                      padding: "8px 10px",
+                      backgroundColor: "#020617",
+                      color: "#e5e7eb",
+                      fontSize: 13,
+                    }}
+                  >
+                    <option value="">No default (rows must name one)</option>
+                    {events
+                      .filter((evt) => !evt.archivedAt)
+                      .map((evt) => (
+                        <option key={evt.id} value={evt.id}>
+                          {evt.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                {importFile && (
+                  <button
+                    onClick={resetImport}
+                    disabled={importing}
+                    style={{
+                      borderRadius: 10,
+                      padding: "8px 12px",
+                      border: "1px solid #374151",
+                      backgroundColor: "transparent",
+                      color: "#e5e7eb",
+                      fontSize: 13,
+                      cursor: "pointer",
+                    }}
+                  >
+                    Start over
+                  </button>
+                )}
+              </div>
 
-                        <div style={{ display: "grid", placeItems: "center", flex: 1 }}>
-                          <div
+              {importError && <p style={{ color: "#f87171", fontSize: 12, margin: 0 }}>{importError}</p>}
+              {importing && <p style={{ color: "#9ca3af", fontSize: 12, margin: 0 }}>Reading the file…</p>}
+
+              {importReport && (
+                <>
+                  <div style={{ display: "grid", gap: 8 }}>
+                    <p style={{ color: "#e5e7eb", fontSize: 13, fontWeight: 600, margin: 0 }}>Columns</p>
+                    <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                      {[
+                        ...(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => ({
+                          key: field as string,
+                          label: IMPORT_FIELD_LABELS[field],
+                        })),
+                        ...(importReport.customFields || []).map((field) => ({ key: field.id, label: field.label })),
+                      ].map(({ key, label }) => (
+                        <label key={key} style={{ color: "#9ca3af", fontSize: 12, fontWeight: 600 }}>
+                          {label}
+                          <select
+                            value={importReport.mapping[key] ?? ""}
+                            disabled={!importReport.dryRun || importing}
+                            onChange={(e) => mapImportColumn(key, e.target.value)}
                             style={{
-                              width: `${Math.min(70, badgeDesign.qrSizeMm + 12)}mm`,
-                              height: `${Math.min(70, badgeDesign.qrSizeMm + 12)}mm`,
-                              display: "grid",
-                              placeItems: "center",
-                              backgroundColor: "#ffffff",
-                              border: `1px solid ${badgeDesign.borderColor}`,
-                              borderRadius: 12,
-                              boxShadow: "0 8px 20px rgba(0,0,0,0.22)",
+                              display: "block",
+                              marginTop: 6,
+                              border: "1px solid #374151",
+                              borderRadius: 10,
+                              padding: "6px 8px",
+                              backgroundColor: "#020617",
+                              color: "#e5e7eb",
+                              fontSize: 12,
+                              minWidth: 140,
                             }}
                           >
-                            <QRCodeCanvas
-                              value={designerQrValue}
-                              size={280}
-                              includeMargin
-                              bgColor="#ffffff"
-                              style={{ width: "100%", height: "100%" }}
-                            />
-                          </div>
-                        </div>
+                            <option value="">— not in file —</option>
+                            {importReport.headers.map((header, index) => (
+                              <option key={index} value={index}>
+                                {header || `Column ${index + 1}`}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
 
-                        <div
-                          style={{
-                            display: "flex",
-                            justifyContent: "space-between",
-                            fontSize: `${badgeDesign.metaFontMm}mm`,
-                            color: "#475569",
-                          }}
-                        >
-                          <span>Scan with Hemisphere Leads</span>
-                          <span style={{ color: badgeDesign.accentColor, fontWeight: 600 }}>
-                            hemisphere:{previewAttendee.id}
-                          </span>
-                        </div>
+                  <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+                    {(importReport.dryRun
+                      ? [
+                          { status: "ready", label: `${importReport.summary.ready} ready` },
+                          { status: "duplicate", label: `${importReport.summary.duplicates} duplicates` },
+                          { status: "error", label: `${importReport.summary.errors} errors` },
+                        ]
+                      : [
+                          { status: "created", label: `${importReport.summary.created} registered` },
+                          { status: "duplicate", label: `${importReport.summary.duplicates} duplicates skipped` },
+                          { status: "error", label: `${importReport.summary.errors} errors skipped` },
+                        ]
+                    ).map(({ status, label }) => (
+                      <span
+                        key={status}
+                        style={{
+                          borderRadius: 999,
+                          padding: "3px 10px",
+                          fontSize: 12,
+                          fontWeight: 700,
+                          border: `1px solid ${IMPORT_STATUS_COLORS[status as ImportRowItem["status"]]}`,
+                          color: IMPORT_STATUS_COLORS[status as ImportRowItem["status"]],
+                        }}
+                      >
+                        {label}
+                      </span>
+                    ))}
+                    <span style={{ color: "#9ca3af", fontSize: 12 }}>
+                      {importReport.dryRun ? "Preview only; nothing has been saved yet." : "Import finished."}
+                    </span>
+                    <div style={{ flex: 1 }} />
+                    <select
+                      value={importStatusFilter}
+                      onChange={(e) => setImportStatusFilter(e.target.value)}
+                      style={{
+                        border: "1px solid #374151",
+                        borderRadius: 10,
+                        padding: "6px 8px",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 12,
+                      }}
+                    >
+                      <option value="all">All rows</option>
+                      <option value={importReport.dryRun ? "ready" : "created"}>
+                        {importReport.dryRun ? "Ready" : "Registered"}
+                      </option>
+                      <option value="duplicate">Duplicates</option>
+                      <option value="error">Errors</option>
+                    </select>
+                    <button
+                      onClick={exportImportReportCsv}
+                      style={{
+                        borderRadius: 10,
+                        padding: "6px 10px",
+                        border: "1px solid #374151",
+                        backgroundColor: "transparent",
+                        color: "#e5e7eb",
+                        fontSize: 12,
+                        cursor: "pointer",
+                      }}
+                    >
+                      Download report
+                    </button>
+                    {importReport.dryRun && (
+                      <button
+                        onClick={commitImport}
+                        disabled={importing || importReport.summary.ready === 0}
+                        style={{
+                          borderRadius: 10,
+                          padding: "6px 12px",
+                          border: "1px solid #22c55e",
+                          backgroundColor: "#0b1120",
+                          color: "#22c55e",
+                          fontSize: 12,
+                          fontWeight: 700,
+                          cursor: importReport.summary.ready === 0 ? "default" : "pointer",
+                          opacity: importReport.summary.ready === 0 ? 0.5 : 1,
+                        }}
+                      >
+                        Import {importReport.summary.ready} attendee{importReport.summary.ready === 1 ? "" : "s"}
+                      </button>
+                    )}
+                  </div>
 
-                        <div
-                          style={{
-                            position: "absolute",
-                            bottom: 6,
-                            right: 8,
-                            padding: "2px 8px",
-                            backgroundColor: "rgba(15,23,42,0.6)",
-                            color: "#e5e7eb",
-                            fontSize: 11,
-                            borderRadius: 999,
-                            border: "1px solid #1f2937",
-                          }}
-                        >
-                          Back • {mmToIn(badgeDesign.badgeWidthMm)}&quot; x{" "}
-                          {mmToIn(badgeDesign.badgeHeightMm)}&quot; ({badgeDesign.badgeWidthMm} mm x{" "}
-                          {badgeDesign.badgeHeightMm} mm)
-                        </div>
-                      </div>
+                  <div style={{ borderRadius: 10, border: "1px solid #1f2937", overflow: "hidden" }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                      <thead>
+                        <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
+                          <th style={thStyle}>Row</th>
+                          <th style={thStyle}>Status</th>
+                          <th style={thStyle}>Name</th>
+                          <th style={thStyle}>Email</th>
+                          <th style={thStyle}>Company</th>
+                          <th style={thStyle}>Event</th>
+                          <th style={thStyle}>Message</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visibleImportRows.slice(0, IMPORT_PREVIEW_ROWS).map((r) => (
+                          <tr key={r.row} style={{ borderBottom: "1px solid #111827", backgroundColor: "#0b1224" }}>
+                            <td style={{ ...tdStyle, color: "#9ca3af" }}>{r.row}</td>
+                            <td style={{ ...tdStyle, color: IMPORT_STATUS_COLORS[r.status], fontWeight: 600 }}>
+                              {r.status}
+                            </td>
+                            <td style={tdStyle}>{`${r.data.firstName} ${r.data.lastName}`.trim() || "—"}</td>
+                            <td style={tdStyle}>{r.data.email || "—"}</td>
+                            <td style={tdStyle}>{r.data.company || "—"}</td>
+                            <td style={tdStyle}>
+                              {events.find((evt) => evt.id === r.data.eventId)?.name || r.data.eventId || "—"}
+                            </td>
+                            <td style={{ ...tdStyle, color: "#9ca3af" }}>{r.error || ""}</td>
+                          </tr>
+                        ))}
+                        {visibleImportRows.length === 0 && (
+                          <tr>
+                            <td colSpan={7} style={{ ...tdStyle, color: "#9ca3af", textAlign: "center" }}>
+                              No rows to show.
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                    {visibleImportRows.length > IMPORT_PREVIEW_ROWS && (
+                      <p style={{ color: "#9ca3af", fontSize: 12, margin: 0, padding: "8px 10px" }}>
+                        Showing the first {IMPORT_PREVIEW_ROWS} of {visibleImportRows.length} rows. Download the report to
+                        see them all.
+                      </p>
                     )}
                   </div>
-                </div>
+                </>
+              )}
+            </section>
+          )}
 
-                {/* Controls */}
+          {activeSection === "stations" && (
+            <section
+              style={{
+                border: "1px solid #1f2937",
+                borderRadius: 12,
+                padding: 16,
+                backgroundColor: "#0f172a",
+                display: "grid",
+                gap: 12,
+              }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                <p style={{ margin: 0, color: "#9ca3af", fontSize: 13 }}>
+                  Throughput, wait estimates and last activity for each station update live on the
+                  dashboard.
+                </p>
+                <a
+                  href="/admin/stations"
+                  style={{
+                    borderRadius: 10,
+                    padding: "8px 12px",
+                    border: "1px solid #38bdf8",
+                    color: "#38bdf8",
+                    fontSize: 13,
+                    fontWeight: 600,
+                    textDecoration: "none",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  Open live dashboard →
+                </a>
+              </div>
+
+              {canEditExhibitors && (
                 <div
                   style={{
-                    padding: 12,
                     border: "1px solid #1f2937",
-                    borderRadius: 12,
-                    backgroundColor: "#0f172a",
+                    borderRadius: 10,
+                    padding: 12,
+                    backgroundColor: "#0b1120",
                     display: "grid",
-                    gap: 10,
+                    gap: 8,
                   }}
                 >
-                  <div>
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      Layout
-                    </label>
-                    <div style={{ display: "flex", gap: 8, marginTop: 6, flexWrap: "wrap" }}>
-                      {[
-                        { id: "single", label: "1-sided" },
-                        { id: "double", label: "2-sided" },
-                      ].map((option) => (
-                        <button
-                          key={option.id}
-                          onClick={() =>
-                            updateBadgeDesign({ layoutMode: option.id as "single" | "double" })
-                          }
-                          style={{
-                            borderRadius: 10,
-                            padding: "6px 10px",
-                            border: "1px solid #374151",
-                            backgroundColor:
-                              badgeDesign.layoutMode === option.id ? "#111827" : "transparent",
-                            color: "#e5e7eb",
-                            fontSize: 12,
-                            cursor: "pointer",
-                            minWidth: 90,
-                          }}
-                        >
-                          {option.label}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-
-                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
-                    <div>
-                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                        Badge width (mm)
-                      </label>
+                  <p style={{ margin: 0, color: "#e5e7eb", fontSize: 13, fontWeight: 600 }}>
+                    {editingStationId ? "Edit station" : "Add station"}
+                  </p>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    {(
+                      [
+                        ["name", "Station name, e.g. North Door"],
+                        ["location", "Location (optional)"],
+                      ] as const
+                    ).map(([field, label]) => (
                       <input
-                        type="number"
-                        min={50}
-                        max={120}
-                        step={1}
-                        value={badgeDesign.badgeWidthMm}
+                        key={field}
+                        placeholder={label}
+                        value={stationForm[field]}
                         onChange={(e) =>
-                          updateBadgeDesign({ badgeWidthMm: Number(e.target.value) || 0 })
+                          setStationForm((prev) => ({ ...prev, [field]: e.target.value }))
                         }
                         style={{
-                          width: "100%",
-                          marginTop: 6,
+                          flex: 1,
+                          minWidth: 180,
+                          borderRadius: 10,
+                          padding: "8px 10px",
                           border: "1px solid #374151",
-                          borderRadius: 8,
-                          padding: "6px 8px",
                           backgroundColor: "#020617",
                           color: "#e5e7eb",
-                          fontSize: 12,
+                          fontSize: 13,
                         }}
                       />
-                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                        {mmToIn(badgeDesign.badgeWidthMm)} in
-                      </p>
-                    </div>
-                    <div>
-                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                        Badge height (mm)
-                      </label>
+                    ))}
+                    <select
+                      value={stationForm.eventId || scopedEventId}
+                      onChange={(e) => setStationForm((prev) => ({ ...prev, eventId: e.target.value }))}
+                      disabled={!!editingStationId}
+                      style={{
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                      }}
+                    >
+                      <option value="">Select event</option>
+                      {activeEvents.map((evt) => (
+                        <option key={evt.id} value={evt.id}>
+                          {evt.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                    <button
+                      onClick={saveStation}
+                      disabled={
+                        savingStation || !stationForm.name || !(stationForm.eventId || scopedEventId)
+                      }
+                      style={{
+                        borderRadius: 10,
+                        padding: "8px 12px",
+                        border: "1px solid #22c55e",
+                        backgroundColor: "transparent",
+                        color: "#22c55e",
+                        fontSize: 13,
+                        fontWeight: 600,
+                        cursor: "pointer",
+                      }}
+                    >
+                      {savingStation ? "Saving..." : editingStationId ? "Save changes" : "Add station"}
+                    </button>
+                    {editingStationId && (
+                      <button
+                        onClick={resetStationForm}
+                        style={{
+                          borderRadius: 10,
+                          padding: "8px 12px",
+                          border: "1px solid #374151",
+                          backgroundColor: "transparent",
+                          color: "#9ca3af",
+                          fontSize: 13,
+                          cursor: "pointer",
+                        }}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {stationError && (
+                      <span style={{ color: "#f87171", fontSize: 12 }}>{stationError}</span>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {canEditExhibitors && (
+                <div
+                  style={{
+                    borderRadius: 10,
+                    border: "1px solid #1f2937",
+                    overflow: "hidden",
+                  }}
+                >
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
+                        <th style={thStyle}>Station</th>
+                        <th style={thStyle}>Location</th>
+                        <th style={thStyle}>Event</th>
+                        <th style={thStyle}>Status</th>
+                        <th style={thStyle}>Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scopedStations.length === 0 && (
+                        <tr>
+                          <td colSpan={5} style={tdStyle}>
+                            No stations yet. Scans without a station still count, but the
+                            dashboard can't tell doors apart.
+                          </td>
+                        </tr>
+                      )}
+                      {scopedStations.map((station) => (
+                        <tr
+                          key={station.id}
+                          style={{
+                            borderBottom: "1px solid #111827",
+                            backgroundColor: "#0b1224",
+                            opacity: station.archivedAt ? 0.6 : 1,
+                          }}
+                        >
+                          <td style={tdStyle}>{station.name}</td>
+                          <td style={tdStyle}>{station.location || "—"}</td>
+                          <td style={tdStyle}>{eventName(station.eventId)}</td>
+                          <td style={tdStyle}>{station.archivedAt ? "Archived" : "Active"}</td>
+                          <td style={tdStyle}>
+                            <div style={{ display: "flex", gap: 6 }}>
+                              <button
+                                onClick={() => editStation(station)}
+                                style={{
+                                  borderRadius: 8,
+                                  padding: "6px 10px",
+                                  border: "1px solid #38bdf8",
+                                  backgroundColor: "transparent",
+                                  color: "#38bdf8",
+                                  fontSize: 12,
+                                  cursor: "pointer",
+                                }}
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => setStationArchived(station, !station.archivedAt)}
+                                style={{
+                                  borderRadius: 8,
+                                  padding: "6px 10px",
+                                  border: "1px solid #f59e0b",
+                                  backgroundColor: "transparent",
+                                  color: "#f59e0b",
+                                  fontSize: 12,
+                                  cursor: "pointer",
+                                }}
+                              >
+                                {station.archivedAt ? "Restore" : "Archive"}
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          )}
+
+          {activeSection === "sessions" && (
+            <section
+              style={{
+                border: "1px solid #1f2937",
+                borderRadius: 12,
+                padding: 16,
+                backgroundColor: "#0f172a",
+                display: "grid",
+                gap: 12,
+              }}
+            >
+              {canEditExhibitors && (
+                <div
+                  style={{
+                    border: "1px solid #1f2937",
+                    borderRadius: 10,
+                    padding: 12,
+                    backgroundColor: "#0b1120",
+                    display: "grid",
+                    gap: 8,
+                  }}
+                >
+                  <p style={{ margin: 0, color: "#e5e7eb", fontSize: 13, fontWeight: 600 }}>
+                    {editingSessionId ? "Edit session" : "Add session"}
+                  </p>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    {(
+                      [
+                        ["title", "Title, e.g. Opening Keynote"],
+                        ["track", "Track (optional)"],
+                        ["room", "Room"],
+                      ] as const
+                    ).map(([field, label]) => (
                       <input
-                        type="number"
-                        min={40}
-                        max={100}
-                        step={1}
-                        value={badgeDesign.badgeHeightMm}
+                        key={field}
+                        placeholder={label}
+                        value={sessionForm[field]}
                         onChange={(e) =>
-                          updateBadgeDesign({ badgeHeightMm: Number(e.target.value) || 0 })
+                          setSessionForm((prev) => ({ ...prev, [field]: e.target.value }))
                         }
                         style={{
-                          width: "100%",
-                          marginTop: 6,
+                          flex: 1,
+                          minWidth: 160,
+                          borderRadius: 10,
+                          padding: "8px 10px",
                           border: "1px solid #374151",
-                          borderRadius: 8,
-                          padding: "6px 8px",
                           backgroundColor: "#020617",
                           color: "#e5e7eb",
-                          fontSize: 12,
+                          fontSize: 13,
                         }}
                       />
-                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                        {mmToIn(badgeDesign.badgeHeightMm)} in
-                      </p>
-                    </div>
+                    ))}
                   </div>
-
-                  <div>
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      QR size
-                    </label>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                    {(
+                      [
+                        ["startsAt", "Starts"],
+                        ["endsAt", "Ends"],
+                      ] as const
+                    ).map(([field, label]) => (
+                      <label
+                        key={field}
+                        style={{ display: "flex", gap: 6, alignItems: "center", color: "#9ca3af", fontSize: 12 }}
+                      >
+                        {label}
+                        <input
+                          type="datetime-local"
+                          value={sessionForm[field]}
+                          onChange={(e) =>
+                            setSessionForm((prev) => ({ ...prev, [field]: e.target.value }))
+                          }
+                          style={{
+                            borderRadius: 10,
+                            padding: "8px 10px",
+                            border: "1px solid #374151",
+                            backgroundColor: "#020617",
+                            color: "#e5e7eb",
+                            fontSize: 13,
+                          }}
+                        />
+                      </label>
+                    ))}
                     <input
-                      type="range"
-                      min={12}
-                      max={70}
-                      value={badgeDesign.qrSizeMm}
-                      onChange={(e) =>
-                        updateBadgeDesign({ qrSizeMm: Number(e.target.value) || 0 })
-                      }
-                      style={{ width: "100%" }}
+                      placeholder="Capacity (blank = unlimited)"
+                      inputMode="numeric"
+                      value={sessionForm.capacity}
+                      onChange={(e) => setSessionForm((prev) => ({ ...prev, capacity: e.target.value }))}
+                      style={{
+                        width: 200,
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                      }}
                     />
-                    <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                      {badgeDesign.qrSizeMm} mm ({mmToIn(badgeDesign.qrSizeMm)} in)
-                    </p>
+                    <select
+                      value={sessionForm.eventId || scopedEventId}
+                      onChange={(e) => setSessionForm((prev) => ({ ...prev, eventId: e.target.value }))}
+                      disabled={!!editingSessionId}
+                      style={{
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        border: "1px solid #374151",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                      }}
+                    >
+                      <option value="">Select event</option>
+                      {activeEvents.map((evt) => (
+                        <option key={evt.id} value={evt.id}>
+                          {evt.name}
+                        </option>
+                      ))}
+                    </select>
                   </div>
-
-                  <div>
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      QR horizontal offset
-                    </label>
-                    <input
-                      type="range"
-                      min={0}
-                      max={maxQrOffsetX}
-                      value={badgeDesign.qrOffsetXMm}
-                      onChange={(e) =>
-                        updateBadgeDesign({ qrOffsetXMm: Number(e.target.value) || 0 })
+                  <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                    <button
+                      onClick={saveSession}
+                      disabled={
+                        savingSession ||
+                        !sessionForm.title ||
+                        !sessionForm.startsAt ||
+                        !sessionForm.endsAt ||
+                        !(sessionForm.eventId || scopedEventId)
                       }
-                      style={{ width: "100%" }}
-                    />
-                    <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                      {badgeDesign.qrOffsetXMm} mm from left ({mmToIn(badgeDesign.qrOffsetXMm)} in)
-                    </p>
+                      style={{
+                        borderRadius: 10,
+                        padding: "8px 12px",
+                        border: "1px solid #22c55e",
+                        backgroundColor: "transparent",
+                        color: "#22c55e",
+                        fontSize: 13,
+                        fontWeight: 600,
+                        cursor: "pointer",
+                      }}
+                    >
+                      {savingSession ? "Saving..." : editingSessionId ? "Save changes" : "Add session"}
+                    </button>
+                    {editingSessionId && (
+                      <button
+                        onClick={resetSessionForm}
+                        style={{
+                          borderRadius: 10,
+                          padding: "8px 12px",
+                          border: "1px solid #374151",
+                          backgroundColor: "transparent",
+                          color: "#9ca3af",
+                          fontSize: 13,
+                          cursor: "pointer",
+                        }}
+                      >
+                        Cancel
+                      </button>
+                    )}
                   </div>
+                </div>
+              )}
 
-                  <div>
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      QR vertical offset
-                    </label>
-                    <input
-                      type="range"
-                      min={0}
-                      max={maxQrOffsetY}
-                      value={badgeDesign.qrOffsetYMm}
-                      onChange={(e) =>
-                        updateBadgeDesign({ qrOffsetYMm: Number(e.target.value) || 0 })
-                      }
-                      style={{ width: "100%" }}
-                    />
-                    <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                      {badgeDesign.qrOffsetYMm} mm from top ({mmToIn(badgeDesign.qrOffsetYMm)} in)
+              {sessionError && <span style={{ color: "#f87171", fontSize: 12 }}>{sessionError}</span>}
+
+              <div
+                style={{
+                  borderRadius: 10,
+                  border: "1px solid #1f2937",
+                  overflow: "hidden",
+                }}
+              >
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
+                      <th style={thStyle}>Session</th>
+                      <th style={thStyle}>Time</th>
+                      <th style={thStyle}>Room</th>
+                      <th style={thStyle}>Event</th>
+                      <th style={thStyle}>Attendance</th>
+                      <th style={thStyle}>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {scopedSessions.length === 0 && (
+                      <tr>
+                        <td colSpan={6} style={tdStyle}>
+                          No sessions yet. Add the program here so scanners can admit people to
+                          each talk.
+                        </td>
+                      </tr>
+                    )}
+                    {scopedSessions.map((session) => {
+                      const full = session.capacity !== null && session.occupancy >= session.capacity;
+                      return (
+                        <tr
+                          key={session.id}
+                          style={{
+                            borderBottom: "1px solid #111827",
+                            backgroundColor: rosterSession?.id === session.id ? "#111c33" : "#0b1224",
+                            opacity: session.archivedAt ? 0.6 : 1,
+                          }}
+                        >
+                          <td style={tdStyle}>
+                            {session.title}
+                            {session.track && (
+                              <span style={{ display: "block", color: "#9ca3af", fontSize: 11 }}>
+                                {session.track}
+                              </span>
+                            )}
+                          </td>
+                          <td style={tdStyle}>
+                            {session.startsAt.replace("T", " ")}–{session.endsAt.slice(11)}
+                          </td>
+                          <td style={tdStyle}>{session.room || "—"}</td>
+                          <td style={tdStyle}>{eventName(session.eventId)}</td>
+                          <td style={{ ...tdStyle, color: full ? "#f87171" : tdStyle.color }}>
+                            {session.capacity !== null
+                              ? `${session.occupancy} / ${session.capacity} inside${full ? " (full)" : ""}`
+                              : `${session.occupancy} inside`}
+                            <span style={{ display: "block", color: "#9ca3af", fontSize: 11 }}>
+                              {session.attendanceCount} admitted in total
+                              {session.archivedAt ? " · archived" : ""}
+                            </span>
+                          </td>
+                          <td style={tdStyle}>
+                            <div style={{ display: "flex", gap: 6 }}>
+                              <button
+                                onClick={() => openSessionRoster(session)}
+                                style={{
+                                  borderRadius: 8,
+                                  padding: "6px 10px",
+                                  border: "1px solid #22c55e",
+                                  backgroundColor: "transparent",
+                                  color: "#22c55e",
+                                  fontSize: 12,
+                                  cursor: "pointer",
+                                }}
+                              >
+                                {rosterSession?.id === session.id ? "Hide roster" : "Roster"}
+                              </button>
+                              {canEditExhibitors && (
+                                <>
+                                  <button
+                                    onClick={() => editSession(session)}
+                                    style={{
+                                      borderRadius: 8,
+                                      padding: "6px 10px",
+                                      border: "1px solid #38bdf8",
+                                      backgroundColor: "transparent",
+                                      color: "#38bdf8",
+                                      fontSize: 12,
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    Edit
+                                  </button>
+                                  <button
+                                    onClick={() => setSessionArchived(session, !session.archivedAt)}
+                                    style={{
+                                      borderRadius: 8,
+                                      padding: "6px 10px",
+                                      border: "1px solid #f59e0b",
+                                      backgroundColor: "transparent",
+                                      color: "#f59e0b",
+                                      fontSize: 12,
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    {session.archivedAt ? "Restore" : "Archive"}
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {rosterSession && (
+                <div
+                  style={{
+                    border: "1px solid #1f2937",
+                    borderRadius: 10,
+                    padding: 12,
+                    backgroundColor: "#0b1120",
+                    display: "grid",
+                    gap: 8,
+                  }}
+                >
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                    <p style={{ margin: 0, color: "#e5e7eb", fontSize: 13, fontWeight: 600 }}>
+                      {rosterSession.title} — {rosterRecords.length} admitted
+                      {rosterSession.capacity !== null ? ` of ${rosterSession.capacity} seats` : ""}
                     </p>
+                    <button
+                      onClick={exportSessionRosterCsv}
+                      disabled={!rosterRecords.length}
+                      style={{
+                        borderRadius: 10,
+                        padding: "6px 12px",
+                        border: "1px solid #38bdf8",
+                        backgroundColor: "transparent",
+                        color: "#38bdf8",
+                        fontSize: 12,
+                        fontWeight: 600,
+                        cursor: "pointer",
+                      }}
+                    >
+                      Export CSV
+                    </button>
                   </div>
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr style={{ borderBottom: "1px solid #1f2937" }}>
+                        <th style={thStyle}>Name</th>
+                        <th style={thStyle}>Email</th>
+                        <th style={thStyle}>Admitted</th>
+                        <th style={thStyle}>Station · Operator</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rosterRecords.length === 0 && (
+                        <tr>
+                          <td colSpan={4} style={tdStyle}>
+                            Nobody admitted yet.
+                          </td>
+                        </tr>
+                      )}
+                      {rosterRecords.map((record) => (
+                        <tr key={record.id} style={{ borderBottom: "1px solid #111827" }}>
+                          <td style={tdStyle}>{record.attendeeName || "—"}</td>
+                          <td style={tdStyle}>{record.attendeeEmail || "—"}</td>
+                          <td style={tdStyle}>{new Date(record.timestamp).toLocaleTimeString()}</td>
+                          <td style={tdStyle}>
+                            {[record.stationName, record.operatorName].filter(Boolean).join(" · ") || "—"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          )}
 
-                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
-                    <div>
-                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                        Name font size
-                      </label>
-                      <input
-                        type="range"
-                        min={3}
-                        max={8}
-                        value={badgeDesign.nameFontMm}
-                        onChange={(e) =>
-                          updateBadgeDesign({ nameFontMm: Number(e.target.value) || 0 })
-                        }
-                        style={{ width: "100%" }}
-                      />
-                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                        {badgeDesign.nameFontMm} mm ({mmToIn(badgeDesign.nameFontMm)} in)
-                      </p>
-                    </div>
-                    <div>
-                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                        Company font size
-                      </label>
-                      <input
-                        type="range"
-                        min={2}
-                        max={6}
-                        value={badgeDesign.companyFontMm}
-                        onChange={(e) =>
-                          updateBadgeDesign({ companyFontMm: Number(e.target.value) || 0 })
-                        }
-                        style={{ width: "100%" }}
-                      />
-                      <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                        {badgeDesign.companyFontMm} mm ({mmToIn(badgeDesign.companyFontMm)} in)
-                      </p>
-                    </div>
-                  </div>
+          {activeSection === "staff" && currentStaff?.role === "owner" && (
+            <section
+              style={{
+                border: "1px solid #1f2937",
+                borderRadius: 12,
+                padding: 16,
+                backgroundColor: "#0f172a",
+                display: "grid",
+                gap: 12,
+              }}
+            >
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "flex-end" }}>
+                {(["name", "email", "password"] as const).map((field) => (
+                  <label
+                    key={field}
+                    style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600, flex: 1, minWidth: 150 }}
+                  >
+                    {field === "name" ? "Name" : field === "email" ? "Email" : "Password"}
+                    <input
+                      type={field === "password" ? "password" : field === "email" ? "email" : "text"}
+                      value={staffForm[field]}
+                      onChange={(e) => setStaffForm((prev) => ({ ...prev, [field]: e.target.value }))}
+                      style={{
+                        width: "100%",
+                        marginTop: 6,
+                        border: "1px solid #374151",
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                      }}
+                    />
+                  </label>
+                ))}
+                <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                  Role
+                  <select
+                    value={staffForm.role}
+                    onChange={(e) =>
+                      setStaffForm((prev) => ({ ...prev, role: e.target.value as StaffMember["role"] }))
+                    }
+                    style={{
+                      display: "block",
+                      marginTop: 6,
+                      border: "1px solid #374151",
+                      borderRadius: 10,
+                      padding: "8px 10px",
+                      backgroundColor: "#020617",
+                      color: "#e5e7eb",
+                      fontSize: 13,
+                    }}
+                  >
+                    {Object.entries(STAFF_ROLE_LABELS).map(([id, label]) => (
+                      <option key={id} value={id}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={createStaffMember}
+                  disabled={savingStaff}
+                  style={{
+                    borderRadius: 10,
+                    padding: "8px 12px",
+                    border: "1px solid #22c55e",
+                    backgroundColor: "#0b1120",
+                    color: "#22c55e",
+                    fontSize: 13,
+                    fontWeight: 700,
+                    cursor: "pointer",
+                  }}
+                >
+                  {savingStaff ? "Adding..." : "Add staff"}
+                </button>
+              </div>
 
-                  <div>
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      Meta font size (labels, IDs)
-                    </label>
-                    <input
-                      type="range"
-                      min={2}
-                      max={5}
-                      value={badgeDesign.metaFontMm}
-                      onChange={(e) =>
-                        updateBadgeDesign({ metaFontMm: Number(e.target.value) || 0 })
-                      }
-                      style={{ width: "100%" }}
-                    />
-                    <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                      {badgeDesign.metaFontMm} mm ({mmToIn(badgeDesign.metaFontMm)} in)
-                    </p>
-                  </div>
+              {staffError && <p style={{ color: "#f87171", fontSize: 12, margin: 0 }}>{staffError}</p>}
 
-                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
-                    <div>
-                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                        Front logo
-                      </label>
-                      <input
-                        type="text"
-                        placeholder="Paste logo URL"
-                        value={badgeDesign.frontLogoUrl}
-                        onChange={(e) => updateBadgeDesign({ frontLogoUrl: e.target.value })}
+              <div
+                style={{
+                  borderRadius: 10,
+                  border: "1px solid #1f2937",
+                  overflow: "hidden",
+                }}
+              >
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
+                      <th style={thStyle}>Name</th>
+                      <th style={thStyle}>Email</th>
+                      <th style={thStyle}>Role</th>
+                      <th style={thStyle}>Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {staffMembers.map((member) => (
+                      <tr
+                        key={member.id}
                         style={{
-                          width: "100%",
-                          marginTop: 6,
-                          border: "1px solid #374151",
-                          borderRadius: 8,
-                          padding: "6px 8px",
-                          backgroundColor: "#020617",
-                          color: "#e5e7eb",
-                          fontSize: 12,
+                          borderBottom: "1px solid #111827",
+                          backgroundColor: "#0b1224",
                         }}
-                      />
-                      <div style={{ display: "flex", gap: 6, marginTop: 6, alignItems: "center" }}>
-                        <input
-                          type="file"
-                          accept="image/*"
-                          onChange={handleLogoUpload("front")}
-                          style={{ color: "#9ca3af", fontSize: 12, flex: 1 }}
-                        />
-                        {badgeDesign.frontLogoUrl && (
-                          <button
-                            onClick={() => clearLogo("front")}
+                      >
+                        <td style={tdStyle}>{member.name}</td>
+                        <td style={tdStyle}>{member.email}</td>
+                        <td style={tdStyle}>
+                          <select
+                            value={member.role}
+                            onChange={(e) =>
+                              updateStaffRole(member.id, e.target.value as StaffMember["role"])
+                            }
                             style={{
-                              borderRadius: 8,
-                              padding: "6px 8px",
                               border: "1px solid #374151",
-                              backgroundColor: "transparent",
+                              borderRadius: 8,
+                              padding: "4px 8px",
+                              backgroundColor: "#020617",
                               color: "#e5e7eb",
                               fontSize: 12,
-                              cursor: "pointer",
                             }}
                           >
-                            Clear
-                          </button>
-                        )}
-                      </div>
-                    </div>
-                    <div>
-                      <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                        Back logo
-                      </label>
-                      <input
-                        type="text"
-                        placeholder="Paste logo URL"
-                        value={badgeDesign.backLogoUrl}
-                        onChange={(e) => updateBadgeDesign({ backLogoUrl: e.target.value })}
-                        style={{
-                          width: "100%",
-                          marginTop: 6,
-                          border: "1px solid #374151",
-                          borderRadius: 8,
-                          padding: "6px 8px",
-                          backgroundColor: "#020617",
-                          color: "#e5e7eb",
-                          fontSize: 12,
-                        }}
-                      />
-                      <div style={{ display: "flex", gap: 6, marginTop: 6, alignItems: "center" }}>
-                        <input
-                          type="file"
-                          accept="image/*"
-                          onChange={handleLogoUpload("back")}
-                          style={{ color: "#9ca3af", fontSize: 12, flex: 1 }}
-                        />
-                        {badgeDesign.backLogoUrl && (
+                            {Object.entries(STAFF_ROLE_LABELS).map(([id, label]) => (
+                              <option key={id} value={id}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td style={tdStyle}>
                           <button
-                            onClick={() => clearLogo("back")}
+                            onClick={() => removeStaffMember(member)}
+                            disabled={member.id === currentStaff.id}
                             style={{
                               borderRadius: 8,
-                              padding: "6px 8px",
-                              border: "1px solid #374151",
+                              padding: "6px 10px",
+                              border: "1px solid #fca5a5",
                               backgroundColor: "transparent",
-                              color: "#e5e7eb",
+                              color: "#fca5a5",
                               fontSize: 12,
-                              cursor: "pointer",
+                              cursor: member.id === currentStaff.id ? "default" : "pointer",
+                              opacity: member.id === currentStaff.id ? 0.5 : 1,
                             }}
                           >
-                            Clear
+                            Remove
                           </button>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-
-                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      Background
-                      <input
-                        type="color"
-                        value={badgeDesign.backgroundColor}
-                        onChange={(e) =>
-                          updateBadgeDesign({ backgroundColor: e.target.value || "#ffffff" })
-                        }
-                        style={{
-                          width: "100%",
-                          marginTop: 6,
-                          border: "1px solid #374151",
-                          borderRadius: 8,
-                          height: 36,
-                          backgroundColor: "#020617",
-                        }}
-                      />
-                    </label>
-
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      Accent
-                      <input
-                        type="color"
-                        value={badgeDesign.accentColor}
-                        onChange={(e) =>
-                          updateBadgeDesign({ accentColor: e.target.value || "#0ea5e9" })
-                        }
-                        style={{
-                          width: "100%",
-                          marginTop: 6,
-                          border: "1px solid #374151",
-                          borderRadius: 8,
-                          height: 36,
-                          backgroundColor: "#020617",
-                        }}
-                      />
-                    </label>
-                  </div>
-
-                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      Text color
-                      <input
-                        type="color"
-                        value={badgeDesign.textColor}
-                        onChange={(e) =>
-                          updateBadgeDesign({ textColor: e.target.value || "#0f172a" })
-                        }
-                        style={{
-                          width: "100%",
-                          marginTop: 6,
-                          border: "1px solid #374151",
-                          borderRadius: 8,
-                          height: 36,
-                          backgroundColor: "#020617",
-                        }}
-                      />
-                    </label>
-
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      Border color
-                      <input
-                        type="color"
-                        value={badgeDesign.borderColor}
-                        onChange={(e) =>
-                          updateBadgeDesign({ borderColor: e.target.value || "#e5e7eb" })
-                        }
-                        style={{
-                          width: "100%",
-                          marginTop: 6,
-                          border: "1px solid #374151",
-                          borderRadius: 8,
-                          height: 36,
-                          backgroundColor: "#020617",
-                        }}
-                      />
-                    </label>
-                  </div>
-
-                  <div>
-                    <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
-                      Corner radius
-                    </label>
-                    <input
-                      type="range"
-                      min={0}
-                      max={10}
-                      value={badgeDesign.borderRadiusMm}
-                      onChange={(e) =>
-                        updateBadgeDesign({ borderRadiusMm: Number(e.target.value) || 0 })
-                      }
-                      style={{ width: "100%" }}
-                    />
-                    <p style={{ margin: "2px 0 0", color: "#9ca3af", fontSize: 12 }}>
-                      {badgeDesign.borderRadiusMm} mm ({mmToIn(badgeDesign.borderRadiusMm)} in)
-                    </p>
-                  </div>
-                </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
             </section>
           )}
-
-          {activeSection === "exhibitors" && (
+          {activeSection === "audit" && currentStaff?.role === "owner" && (
             <section
               style={{
                 border: "1px solid #1f2937",
                 borderRadius: 12,
                 padding: 16,
                 backgroundColor: "#0f172a",
+                display: "grid",
+                gap: 12,
               }}
             >
-              <div
-                style={{
-                  display: "flex",
-                  gap: 8,
-                  flexWrap: "wrap",
-                  marginBottom: 12,
-                  alignItems: "center",
-                }}
-              >
-                <input
-                  placeholder="Search exhibitors"
-                  value={exhibitorSearch}
-                  onChange={(e) => setExhibitorSearch(e.target.value)}
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "flex-end" }}>
+                <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600, flex: 1, minWidth: 180 }}>
+                  Search
+                  <input
+                    type="text"
+                    value={auditFilters.q}
+                    placeholder="Name, id, IP or changed value"
+                    onChange={(e) => setAuditFilters((prev) => ({ ...prev, q: e.target.value }))}
+                    onKeyDown={(e) => e.key === "Enter" && loadAudit()}
+                    style={{
+                      width: "100%",
+                      marginTop: 6,
+                      border: "1px solid #374151",
+                      borderRadius: 10,
+                      padding: "8px 10px",
+                      backgroundColor: "#020617",
+                      color: "#e5e7eb",
+                      fontSize: 13,
+                    }}
+                  />
+                </label>
+                {(
+                  [
+                    {
+                      field: "action",
+                      label: "Action",
+                      options: [{ id: "", label: "All actions" }, ...AUDIT_ACTION_GROUPS],
+                    },
+                    {
+                      field: "actorId",
+                      label: "Staff member",
+                      options: [
+                        { id: "", label: "Anyone" },
+                        ...staffMembers.map((member) => ({ id: member.id, label: member.name })),
+                      ],
+                    },
+                    {
+                      field: "eventId",
+                      label: "Event",
+                      options: [
+                        { id: "", label: "All events" },
+                        ...events.map((evt) => ({ id: evt.id, label: evt.name })),
+                      ],
+                    },
+                  ] as const
+                ).map(({ field, label, options }) => (
+                  <label key={field} style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                    {label}
+                    <select
+                      value={auditFilters[field]}
+                      onChange={(e) => setAuditFilters((prev) => ({ ...prev, [field]: e.target.value }))}
+                      style={{
+                        display: "block",
+                        marginTop: 6,
+                        border: "1px solid #374151",
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                      }}
+                    >
+                      {options.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                {(["from", "to"] as const).map((field) => (
+                  <label key={field} style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                    {field === "from" ? "From" : "To"}
+                    <input
+                      type="date"
+                      value={auditFilters[field]}
+                      onChange={(e) => setAuditFilters((prev) => ({ ...prev, [field]: e.target.value }))}
+                      style={{
+                        display: "block",
+                        marginTop: 6,
+                        border: "1px solid #374151",
+                        borderRadius: 10,
+                        padding: "8px 10px",
+                        backgroundColor: "#020617",
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                      }}
+                    />
+                  </label>
+                ))}
+                <button
+                  onClick={() => loadAudit()}
+                  disabled={auditLoading}
+                  style={{
+                    borderRadius: 10,
+                    padding: "8px 12px",
+                    border: "1px solid #38bdf8",
+                    backgroundColor: "#0b1120",
+                    color: "#38bdf8",
+                    fontSize: 13,
+                    fontWeight: 700,
+                    cursor: "pointer",
+                  }}
+                >
+                  {auditLoading ? "Searching..." : "Search"}
+                </button>
+                <button
+                  onClick={() => {
+                    setAuditFilters(EMPTY_AUDIT_FILTERS);
+                    loadAudit(EMPTY_AUDIT_FILTERS);
+                  }}
                   style={{
-                    flex: 1,
-                    minWidth: 240,
                     borderRadius: 10,
+                    padding: "8px 12px",
                     border: "1px solid #374151",
-                    padding: "10px 12px",
-                    backgroundColor: "#0b1120",
+                    backgroundColor: "transparent",
                     color: "#e5e7eb",
                     fontSize: 13,
+                    cursor: "pointer",
                   }}
-                />
-              </div>
-
-              <div
-                style={{
-                  borderRadius: 10,
-                  border: "1px solid #1f2937",
-                  overflow: "hidden",
-                }}
-              >
-                <table style={{ width: "100%", borderCollapse: "collapse" }}>
-                  <thead>
-                    <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
-                      <th style={thStyle}>Exhibitor</th>
-                      <th style={thStyle}>Activation code</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {filteredExhibitors.length === 0 && (
-                      <tr>
-                        <td colSpan={2} style={tdStyle}>
-                          No exhibitors found. Capture some leads to populate this list.
-                        </td>
-                      </tr>
-                    )}
-                    {filteredExhibitors.map((exh) => (
-                      <tr
-                        key={exh.name}
-                        style={{
-                          borderBottom: "1px solid #111827",
-                          backgroundColor: "#0b1224",
-                        }}
-                      >
-                        <td style={tdStyle}>{exh.name}</td>
-                        <td style={tdStyle}>{exh.activationCode}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+                >
+                  Clear
+                </button>
+                <a
+                  href={`/api/audit/export?${auditQuery()}`}
+                  style={{
+                    borderRadius: 10,
+                    padding: "8px 12px",
+                    border: "1px solid #22c55e",
+                    backgroundColor: "#0b1120",
+                    color: "#22c55e",
+                    fontSize: 13,
+                    fontWeight: 700,
+                    textDecoration: "none",
+                  }}
+                >
+                  Export JSONL
+                </a>
               </div>
-            </section>
-          )}
 
-          {activeSection === "leadRetrieval" && (
-            <section
-              style={{
-                border: "1px solid #1f2937",
-                borderRadius: 12,
-                padding: 16,
-                backgroundColor: "#0f172a",
-              }}
-            >
-              <p style={{ color: "#9ca3af", fontSize: 13, marginBottom: 12 }}>
-                Share these activation codes with exhibitors so they can enable lead capture in their apps.
+              {auditError && <p style={{ color: "#f87171", fontSize: 12, margin: 0 }}>{auditError}</p>}
+              <p style={{ color: "#9ca3af", fontSize: 12, margin: 0 }}>
+                {auditTotal > auditEntries.length
+                  ? `Showing the newest ${auditEntries.length} of ${auditTotal} matching changes. The export includes all of them.`
+                  : `${auditTotal} matching change${auditTotal === 1 ? "" : "s"}`}
               </p>
+
               <div
                 style={{
                   borderRadius: 10,
@@ -2262,47 +6904,92 @@ export default function CheckInPage() {
                 <table style={{ width: "100%", borderCollapse: "collapse" }}>
                   <thead>
                     <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
-                      <th style={thStyle}>Exhibitor</th>
-                      <th style={thStyle}>Activation code</th>
+                      <th style={thStyle}>When</th>
+                      <th style={thStyle}>Who</th>
                       <th style={thStyle}>Action</th>
+                      <th style={thStyle}>Target</th>
+                      <th style={thStyle}>Changed</th>
+                      <th style={thStyle}>From</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {filteredExhibitors.length === 0 && (
-                      <tr>
-                        <td colSpan={3} style={tdStyle}>
-                          No activation codes available yet.
-                        </td>
-                      </tr>
-                    )}
-                    {filteredExhibitors.map((exh) => (
-                      <tr
-                        key={exh.name}
-                        style={{
-                          borderBottom: "1px solid #111827",
-                          backgroundColor: "#0b1224",
-                        }}
-                      >
-                        <td style={tdStyle}>{exh.name}</td>
-                        <td style={tdStyle}>{exh.activationCode}</td>
-                        <td style={tdStyle}>
-                          <button
-                            onClick={() => copyToClipboard(exh.activationCode)}
+                    {auditEntries.map((entry) => {
+                      const fields = Object.keys(entry.changes);
+                      const expanded = expandedAuditId === entry.id;
+                      return (
+                        <Fragment key={entry.id}>
+                          <tr
+                            onClick={() => setExpandedAuditId(expanded ? null : entry.id)}
                             style={{
-                              borderRadius: 8,
-                              padding: "6px 10px",
-                              border: "1px solid #38bdf8",
-                              backgroundColor: "transparent",
-                              color: "#38bdf8",
-                              fontSize: 12,
-                              cursor: "pointer",
+                              borderBottom: "1px solid #111827",
+                              backgroundColor: "#0b1224",
+                              cursor: fields.length ? "pointer" : "default",
                             }}
                           >
-                            Copy
-                          </button>
+                            <td style={tdStyle}>{new Date(entry.timestamp).toLocaleString()}</td>
+                            <td style={tdStyle}>
+                              {entry.actorName || "—"}
+                              {entry.actorRole && (
+                                <div style={{ color: "#9ca3af", fontSize: 11 }}>
+                                  {STAFF_ROLE_LABELS[entry.actorRole]}
+                                </div>
+                              )}
+                            </td>
+                            <td style={{ ...tdStyle, fontFamily: "monospace", fontSize: 12 }}>{entry.action}</td>
+                            <td style={tdStyle}>
+                              {entry.targetType}
+                              <div style={{ color: "#9ca3af", fontSize: 11, fontFamily: "monospace" }}>
+                                {entry.targetId || "—"}
+                              </div>
+                            </td>
+                            <td style={tdStyle}>
+                              {fields.length ? fields.join(", ") : <span style={{ color: "#9ca3af" }}>—</span>}
+                            </td>
+                            <td style={tdStyle} title={entry.userAgent}>
+                              {entry.ip || "—"}
+                            </td>
+                          </tr>
+                          {expanded && fields.length > 0 && (
+                            <tr style={{ backgroundColor: "#020617", borderBottom: "1px solid #111827" }}>
+                              <td colSpan={6} style={{ padding: "8px 10px" }}>
+                                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                                  <thead>
+                                    <tr>
+                                      <th style={thStyle}>Field</th>
+                                      <th style={thStyle}>Before</th>
+                                      <th style={thStyle}>After</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {fields.map((field) => (
+                                      <tr key={field}>
+                                        <td style={{ ...tdStyle, color: "#9ca3af" }}>{field}</td>
+                                        <td style={{ ...tdStyle, color: "#fca5a5", wordBreak: "break-all" }}>
+                                          {formatAuditValue(entry.changes[field].before)}
+                                        </td>
+                                        <td style={{ ...tdStyle, color: "#86efac", wordBreak: "break-all" }}>
+                                          {formatAuditValue(entry.changes[field].after)}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                                <p style={{ color: "#9ca3af", fontSize: 11, margin: "6px 0 0" }}>
+                                  {entry.userAgent || "No user agent"}
+                                </p>
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                    {!auditLoading && auditEntries.length === 0 && (
+                      <tr>
+                        <td colSpan={6} style={{ ...tdStyle, color: "#9ca3af", textAlign: "center" }}>
+                          No changes match these filters.
                         </td>
                       </tr>
-                    ))}
+                    )}
                   </tbody>
                 </table>
               </div>
@@ -2462,6 +7149,269 @@ export default function CheckInPage() {
                 </select>
               </label>
 
+              <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                Attendee type
+                <select
+                  value={editForm.attendeeType || "attendee"}
+                  onChange={(e) => handleEditChange("attendeeType", e.target.value)}
+                  style={{
+                    width: "100%",
+                    marginTop: 6,
+                    border: "1px solid #374151",
+                    borderRadius: 10,
+                    padding: "8px 10px",
+                    backgroundColor: "#020617",
+                    color: "#e5e7eb",
+                    fontSize: 13,
+                  }}
+                >
+                  {eventAttendeeTypes(editFormEvent).map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {!!editFormEvent?.ticketCategories?.length && (
+                <label style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                  Ticket category
+                  <select
+                    value={editForm.ticketCategoryId || ""}
+                    onChange={(e) => {
+                      const category = editFormEvent.ticketCategories!.find((c) => c.id === e.target.value);
+                      // A ticket comes with its type; the type can still be changed after
+                      setEditForm((prev) => ({
+                        ...prev,
+                        ticketCategoryId: e.target.value,
+                        ...(category ? { attendeeType: category.attendeeType } : {}),
+                      }));
+                    }}
+                    style={{
+                      width: "100%",
+                      marginTop: 6,
+                      border: "1px solid #374151",
+                      borderRadius: 10,
+                      padding: "8px 10px",
+                      backgroundColor: "#020617",
+                      color: "#e5e7eb",
+                      fontSize: 13,
+                    }}
+                  >
+                    <option value="">No ticket category</option>
+                    {editFormEvent.ticketCategories!.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              {(events.find((evt) => evt.id === editForm.eventId)?.customFields || []).map((field) => {
+                const value = editForm.customFields?.[field.id];
+                const inputStyle = {
+                  width: "100%",
+                  marginTop: 6,
+                  border: "1px solid #374151",
+                  borderRadius: 10,
+                  padding: "8px 10px",
+                  backgroundColor: "#020617",
+                  color: "#e5e7eb",
+                  fontSize: 13,
+                };
+                if (field.type === "checkbox") {
+                  return (
+                    <label
+                      key={field.id}
+                      style={{ color: "#e5e7eb", fontSize: 12, display: "flex", alignItems: "center", gap: 8 }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={value === true}
+                        onChange={(e) => handleCustomFieldChange(field.id, e.target.checked)}
+                      />
+                      {field.label}
+                    </label>
+                  );
+                }
+                if (field.type === "multiselect") {
+                  const selected = Array.isArray(value) ? value : [];
+                  return (
+                    <div key={field.id}>
+                      <p style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600, margin: "0 0 6px" }}>
+                        {field.label}
+                      </p>
+                      <div style={{ display: "flex", flexWrap: "wrap", gap: 10 }}>
+                        {(field.options || []).map((option) => (
+                          <label
+                            key={option}
+                            style={{ color: "#e5e7eb", fontSize: 12, display: "flex", alignItems: "center", gap: 6 }}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selected.includes(option)}
+                              onChange={(e) =>
+                                handleCustomFieldChange(
+                                  field.id,
+                                  e.target.checked
+                                    ? (field.options || []).filter((o) => o === option || selected.includes(o))
+                                    : selected.filter((o) => o !== option)
+                                )
+                              }
+                            />
+                            {option}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                }
+                return (
+                  <label key={field.id} style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600 }}>
+                    {field.label}
+                    {field.type === "select" ? (
+                      <select
+                        value={typeof value === "string" ? value : ""}
+                        onChange={(e) => handleCustomFieldChange(field.id, e.target.value)}
+                        style={inputStyle}
+                      >
+                        <option value="">Not answered</option>
+                        {(field.options || []).map((option) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type={field.type === "date" ? "date" : "text"}
+                        value={typeof value === "string" ? value : ""}
+                        onChange={(e) => handleCustomFieldChange(field.id, e.target.value)}
+                        style={inputStyle}
+                      />
+                    )}
+                  </label>
+                );
+              })}
+
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                <div>
+                  <p style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600, margin: 0 }}>Badge</p>
+                  <p style={{ color: "#9ca3af", fontSize: 12, margin: "2px 0 0" }}>
+                    {drawerAttendee?.printedAt
+                      ? `Printed ${drawerAttendee.printCount === 1 ? "once" : `${drawerAttendee.printCount || 1} times`}` +
+                        ` · last ${new Date(drawerAttendee.printedAt).toLocaleString()}` +
+                        (drawerAttendee.printedBy ? ` by ${staffName(drawerAttendee.printedBy)}` : "")
+                      : "Not printed yet"}
+                  </p>
+                </div>
+                {canEditExhibitors && drawerAttendee?.printedAt && (
+                  <button
+                    onClick={() => printBadge(drawerAttendee, true)}
+                    style={{
+                      borderRadius: 8,
+                      padding: "4px 8px",
+                      border: "1px solid #f87171",
+                      backgroundColor: "transparent",
+                      color: "#fca5a5",
+                      fontSize: 11,
+                      cursor: "pointer",
+                    }}
+                  >
+                    Replace lost badge
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    marginBottom: 6,
+                  }}
+                >
+                  <p style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600, margin: 0 }}>
+                    Check-in history
+                  </p>
+                  {canEditExhibitors && canUndoCheckin && (
+                    <button
+                      onClick={() => undoLastCheckin(editingAttendee.id)}
+                      disabled={undoingCheckin}
+                      style={{
+                        borderRadius: 8,
+                        padding: "4px 8px",
+                        border: "1px solid #f59e0b",
+                        backgroundColor: "transparent",
+                        color: "#f59e0b",
+                        fontSize: 11,
+                        cursor: "pointer",
+                      }}
+                    >
+                      {undoingCheckin ? "Undoing..." : "Undo last check-in"}
+                    </button>
+                  )}
+                </div>
+                {checkinChanges.length === 0 ? (
+                  <p style={{ color: "#9ca3af", fontSize: 12, margin: 0 }}>No check-in changes yet.</p>
+                ) : (
+                  <div
+                    style={{
+                      display: "grid",
+                      gap: 6,
+                      maxHeight: 180,
+                      overflowY: "auto",
+                      borderLeft: "2px solid #1f2937",
+                      paddingLeft: 10,
+                    }}
+                  >
+                    {[...checkinChanges].reverse().map((change) => (
+                      <div key={change.id} style={{ fontSize: 12 }}>
+                        <p style={{ margin: 0, color: change.next.checkedIn ? "#22c55e" : "#f87171" }}>
+                          {change.source === "undo" ? "Undo: " : ""}
+                          {change.previous.checkedIn ? "Checked in" : "Not checked in"} →{" "}
+                          {change.next.checkedIn ? "Checked in" : "Not checked in"}
+                        </p>
+                        <p style={{ margin: 0, color: "#9ca3af" }}>
+                          {new Date(change.timestamp).toLocaleString()} · {change.actorName}
+                          {change.stationName
+                            ? ` at ${change.stationName}`
+                            : change.source === "scanner"
+                            ? " on a scanner"
+                            : " in the admin"}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <p style={{ color: "#e5e7eb", fontSize: 12, fontWeight: 600, margin: "0 0 6px" }}>
+                  Entries and exits
+                </p>
+                {attendeeEntries.length === 0 ? (
+                  <p style={{ color: "#9ca3af", fontSize: 12, margin: 0 }}>No entries recorded yet.</p>
+                ) : (
+                  <div style={{ display: "grid", gap: 4, maxHeight: 160, overflowY: "auto" }}>
+                    {attendeeEntries.map((entry) => (
+                      <p key={entry.id} style={{ margin: 0, fontSize: 12, color: "#9ca3af" }}>
+                        <span style={{ color: entry.direction === "in" ? "#22c55e" : "#f59e0b" }}>
+                          {entry.direction === "in" ? "In" : "Out"}
+                        </span>{" "}
+                        · {entry.sessionId ? entry.sessionTitle || "Session" : "Venue"} ·{" "}
+                        {new Date(entry.timestamp).toLocaleString()}
+                        {entry.stationName || entry.operatorName
+                          ? ` · ${[entry.stationName, entry.operatorName].filter(Boolean).join(" · ")}`
+                          : ""}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {editError && (
                 <p style={{ color: "#f87171", fontSize: 12, margin: 0 }}>{editError}</p>
               )}
@@ -2531,6 +7481,218 @@ function AnalyticsCard({
   );
 }
 
+// Where holders of an attendee type or ticket may go. A list left on "All"
+// also lets them into sessions and areas added later.
+function AccessRuleEditor({
+  access,
+  sessions,
+  stations,
+  onChange,
+}: {
+  access: AccessRule;
+  sessions: SessionItem[];
+  stations: StationItem[];
+  onChange: (access: AccessRule) => void;
+}) {
+  const groups = [
+    { key: "sessionIds" as const, label: "sessions", items: sessions.map((s) => ({ id: s.id, name: s.title })) },
+    { key: "stationIds" as const, label: "areas", items: stations.map((s) => ({ id: s.id, name: s.name })) },
+  ];
+  return (
+    <div style={{ display: "flex", gap: 16, flexWrap: "wrap", width: "100%" }}>
+      {groups.map((group) => {
+        const list = access[group.key];
+        return (
+          <div key={group.key} style={{ display: "grid", gap: 4, alignContent: "start", minWidth: 160 }}>
+            <label style={{ color: "#e5e7eb", fontSize: 12, display: "flex", alignItems: "center", gap: 6 }}>
+              <input
+                type="checkbox"
+                checked={!list}
+                onChange={(e) =>
+                  onChange({ ...access, [group.key]: e.target.checked ? undefined : group.items.map((i) => i.id) })
+                }
+              />
+              All {group.label}
+            </label>
+            {list &&
+              group.items.map((item) => (
+                <label
+                  key={item.id}
+                  style={{ color: "#9ca3af", fontSize: 12, display: "flex", alignItems: "center", gap: 6, paddingLeft: 16 }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={list.includes(item.id)}
+                    onChange={(e) =>
+                      onChange({
+                        ...access,
+                        [group.key]: e.target.checked ? [...list, item.id] : list.filter((id) => id !== item.id),
+                      })
+                    }
+                  />
+                  {item.name}
+                </label>
+              ))}
+            {list && !group.items.length && (
+              <span style={{ color: "#6b7280", fontSize: 11, paddingLeft: 16 }}>No {group.label} at this event yet</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+let measureCanvas: HTMLCanvasElement | null = null;
+
+// Text widths for the badge layout from the browser's own font metrics
+function measureBadgeText(text: string, sizeMm: number, bold: boolean) {
+  measureCanvas = measureCanvas || (typeof document === "undefined" ? null : document.createElement("canvas"));
+  const context = measureCanvas?.getContext("2d");
+  if (!context) return text.length * sizeMm * 0.55;
+  context.font = `${bold ? "bold " : ""}100px ${BADGE_FONT_FAMILY}`;
+  return (context.measureText(text).width / 100) * sizeMm;
+}
+
+// One side of a badge drawn from the shared layout at any width. Sizes are
+// in container units, so the preview is the printed badge scaled down.
+function BadgeFace({
+  design,
+  side,
+  context,
+  width,
+  faceRef,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  style,
+  children,
+}: {
+  design: BadgeDesign;
+  side: BadgeSide;
+  context: BadgeContext;
+  width: string;
+  faceRef?: Ref<HTMLDivElement>;
+  onPointerDown?: (e: ReactPointerEvent<HTMLDivElement>) => void;
+  onPointerMove?: (e: ReactPointerEvent<HTMLDivElement>) => void;
+  onPointerUp?: (e: ReactPointerEvent<HTMLDivElement>) => void;
+  style?: CSSProperties;
+  children?: ReactNode;
+}) {
+  const x = (mm: number) => `${(mm / design.badgeWidthMm) * 100}%`;
+  const y = (mm: number) => `${(mm / design.badgeHeightMm) * 100}%`;
+  const cqw = (mm: number) => `${(mm / design.badgeWidthMm) * 100}cqw`;
+  const ops = layoutBadge(design, side, context, measureBadgeText);
+
+  return (
+    <div
+      ref={faceRef}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      style={{
+        position: "relative",
+        width,
+        aspectRatio: `${design.badgeWidthMm} / ${design.badgeHeightMm}`,
+        containerType: "inline-size",
+        overflow: "hidden",
+        borderRadius: cqw(design.borderRadiusMm),
+        backgroundColor: design.backgroundColor,
+        outline: `1px solid ${design.borderColor}`,
+        outlineOffset: -1,
+        fontFamily: BADGE_FONT_FAMILY,
+        ...style,
+      }}
+    >
+      {ops.map((op, index) => {
+        if (op.kind === "rect") {
+          return (
+            <div
+              key={index}
+              style={{
+                position: "absolute",
+                left: x(op.xMm),
+                top: y(op.yMm),
+                width: x(op.widthMm),
+                height: y(op.heightMm),
+                boxSizing: "border-box",
+                borderRadius: cqw(op.radiusMm),
+                backgroundColor: op.fill || "transparent",
+                border: op.stroke ? `1px solid ${op.stroke}` : undefined,
+              }}
+            />
+          );
+        }
+        if (op.kind === "text") {
+          return (
+            <div
+              key={index}
+              style={{
+                position: "absolute",
+                left: x(op.xMm),
+                top: y(op.yMm),
+                width: x(op.widthMm),
+                fontSize: cqw(op.sizeMm),
+                lineHeight: cqw(op.lineHeightMm),
+                fontWeight: op.bold ? 700 : 400,
+                textAlign: op.align,
+                color: op.color,
+                whiteSpace: "pre",
+              }}
+            >
+              {op.text}
+            </div>
+          );
+        }
+        if (op.kind === "image") {
+          return (
+            <img
+              key={index}
+              src={op.url}
+              alt=""
+              draggable={false}
+              style={{
+                position: "absolute",
+                left: x(op.xMm),
+                top: y(op.yMm),
+                width: x(op.widthMm),
+                height: y(op.heightMm),
+                objectFit: "contain",
+              }}
+            />
+          );
+        }
+        return (
+          <div
+            key={index}
+            style={{ position: "absolute", left: x(op.xMm), top: y(op.yMm), width: x(op.sizeMm), height: y(op.sizeMm) }}
+          >
+            <QRCodeCanvas
+              value={op.value}
+              size={240}
+              includeMargin
+              bgColor="#ffffff"
+              style={{ width: "100%", height: "100%", display: "block" }}
+            />
+          </div>
+        );
+      })}
+      {children}
+    </div>
+  );
+}
+
+const templateInputStyle = {
+  display: "block",
+  marginTop: 6,
+  border: "1px solid #374151",
+  borderRadius: 10,
+  padding: "6px 8px",
+  backgroundColor: "#0f172a",
+  color: "#e5e7eb",
+  fontSize: 12,
+};
+
 const thStyle = {
   padding: "8px 10px",
   textAlign: "left",
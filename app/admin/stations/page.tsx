@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useLiveUpdates } from "../../components/useLiveUpdates";
+
+// Same key the admin event switcher writes
+const SELECTED_EVENT_KEY = "hemisphere-admin-event";
+const REFRESH_MS = 10 * 1000;
+// A station this quiet is worth a look: closed, or its device is down
+const QUIET_AFTER_MS = 10 * 60 * 1000;
+
+type EventOption = { id: string; name: string };
+
+type StationRow = {
+  id: string;
+  name: string;
+  location: string;
+  archived: boolean;
+  scans: number;
+  checkins: number;
+  scansPerHour: number;
+  totalScans: number;
+  operators: string[];
+  lastActivityAt: string | null;
+  lastOperatorName: string | null;
+  secondsPerScan: number | null;
+  queueLength: number | null;
+  estimatedWaitMinutes: number | null;
+};
+
+type Dashboard = {
+  windowMinutes: number;
+  generatedAt: string;
+  stations: StationRow[];
+};
+
+function timeAgo(iso: string | null, now: number) {
+  if (!iso) return "Never";
+  const minutes = Math.floor((now - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  return new Date(iso).toLocaleTimeString();
+}
+
+export default function StationDashboardPage() {
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [windowMinutes, setWindowMinutes] = useState(15);
+  const [dashboard, setDashboard] = useState<Dashboard | null>(null);
+  const [error, setError] = useState("");
+
+  async function loadEvents() {
+    try {
+      const res = await fetch("/api/events", { cache: "no-store" });
+      const data = await res.json();
+      setEvents(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Error loading events", err);
+    }
+  }
+
+  async function loadDashboard() {
+    if (!eventId || eventId === "all") {
+      setDashboard(null);
+      return;
+    }
+    try {
+      const res = await fetch(
+        `/api/stations/dashboard?eventId=${encodeURIComponent(eventId)}&windowMinutes=${windowMinutes}`,
+        { cache: "no-store" }
+      );
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Could not load the dashboard.");
+        return;
+      }
+      setError("");
+      setDashboard(data);
+    } catch (err) {
+      console.error("Error loading station dashboard", err);
+      setError("Could not reach the server. Retrying…");
+    }
+  }
+
+  useEffect(() => {
+    loadEvents();
+    setEventId(localStorage.getItem(SELECTED_EVENT_KEY) || "all");
+  }, []);
+
+  useEffect(() => {
+    if (eventId === null) return;
+    loadDashboard();
+    const timer = setInterval(loadDashboard, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [eventId, windowMinutes]);
+
+  // A scan anywhere at the event refreshes the numbers, at most once a second
+  const liveReload = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useLiveUpdates(
+    {
+      scanlog: () => {
+        if (liveReload.current) return;
+        liveReload.current = setTimeout(() => {
+          liveReload.current = null;
+          loadDashboard();
+        }, 1000);
+      },
+    },
+    eventId && eventId !== "all" ? eventId : null
+  );
+
+  function selectEvent(value: string) {
+    localStorage.setItem(SELECTED_EVENT_KEY, value);
+    setEventId(value);
+  }
+
+  const now = dashboard ? new Date(dashboard.generatedAt).getTime() : Date.now();
+  const rows = dashboard?.stations || [];
+  const busiest = Math.max(1, ...rows.map((r) => r.scansPerHour));
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50 p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Hemisphere — Station Dashboard</h1>
+            <p className="text-sm text-slate-400">
+              Live throughput and wait estimates per check-in station.
+            </p>
+          </div>
+          <a href="/admin" className="text-sm underline text-slate-300 hover:text-white">
+            ← Back to Admin
+          </a>
+        </header>
+
+        <section className="flex items-center gap-2">
+          <select
+            value={eventId || "all"}
+            onChange={(e) => selectEvent(e.target.value)}
+            className="rounded bg-slate-800 border border-slate-700 px-3 py-1 text-xs text-slate-50"
+          >
+            <option value="all">Select an event</option>
+            {events.map((evt) => (
+              <option key={evt.id} value={evt.id}>
+                {evt.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={windowMinutes}
+            onChange={(e) => setWindowMinutes(Number(e.target.value))}
+            className="rounded bg-slate-800 border border-slate-700 px-3 py-1 text-xs text-slate-50"
+          >
+            {[5, 15, 30, 60].map((m) => (
+              <option key={m} value={m}>
+                Last {m} min
+              </option>
+            ))}
+          </select>
+          <p className="ml-auto text-[11px] text-slate-500">
+            {dashboard
+              ? `Updated ${new Date(dashboard.generatedAt).toLocaleTimeString()} · refreshes every ${
+                  REFRESH_MS / 1000
+                }s`
+              : ""}
+          </p>
+        </section>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {!eventId || eventId === "all" ? (
+          <p className="text-sm text-slate-400">Select an event to see its stations.</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            No stations for this event yet. Add them under Stations in the admin.
+          </p>
+        ) : (
+          <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {rows.map((row) => {
+              const quiet =
+                !row.lastActivityAt || now - new Date(row.lastActivityAt).getTime() > QUIET_AFTER_MS;
+              return (
+                <div
+                  key={row.id}
+                  className={`bg-slate-900 border rounded-xl p-4 space-y-3 ${
+                    row.archived ? "border-slate-800 opacity-60" : "border-slate-700"
+                  }`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-semibold">
+                        {row.name}
+                        {row.archived ? " (archived)" : ""}
+                      </p>
+                      {row.location && <p className="text-xs text-slate-400">{row.location}</p>}
+                    </div>
+                    <p className={`text-xs ${quiet ? "text-amber-300" : "text-slate-400"}`}>
+                      {timeAgo(row.lastActivityAt, now)}
+                      {row.lastOperatorName ? ` · ${row.lastOperatorName}` : ""}
+                    </p>
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between text-xs text-slate-400 mb-1">
+                      <span>{row.scansPerHour} scans/hour</span>
+                      <span>
+                        {row.scans} scans · {row.checkins} check-ins in {dashboard?.windowMinutes} min
+                      </span>
+                    </div>
+                    <div className="bg-slate-800 rounded-full h-3 overflow-hidden">
+                      <div
+                        className="h-3 rounded-full bg-green-500"
+                        style={{ width: `${(row.scansPerHour / busiest) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2 text-xs">
+                    <div>
+                      <p className="text-slate-400">Per scan</p>
+                      <p className="font-semibold">
+                        {row.secondsPerScan !== null ? `${row.secondsPerScan}s` : "—"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-slate-400">In line</p>
+                      <p className="font-semibold">{row.queueLength ?? "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-slate-400">Est. wait</p>
+                      <p
+                        className={`font-semibold ${
+                          (row.estimatedWaitMinutes ?? 0) >= 10 ? "text-red-400" : ""
+                        }`}
+                      >
+                        {row.estimatedWaitMinutes !== null ? `${row.estimatedWaitMinutes} min` : "—"}
+                      </p>
+                    </div>
+                  </div>
+
+                  <p className="text-[11px] text-slate-500">
+                    {row.operators.length
+                      ? `Staffed by ${row.operators.join(", ")}`
+                      : "No one has scanned here in this window."}{" "}
+                    · {row.totalScans} scans all time
+                  </p>
+                </div>
+              );
+            })}
+          </section>
+        )}
+
+        <p className="text-[11px] text-slate-500">
+          Wait estimates need the scanner operator to report people in line on /scanner; they
+          expire after 15 minutes without an update.
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -1,25 +1,22 @@
 // @ts-nocheck
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
+import { redeemActivationCode } from "../../lib/activationCodes";
+import { issueDeviceSession } from "../../lib/devices";
+import { events, exhibitors } from "../../lib/repositories";
 
 export const runtime = "nodejs";
 
-const eventsPath = path.join(process.cwd(), "data", "events.json");
-
-async function readEventsFile() {
-  try {
-    const raw = await fs.readFile(eventsPath, "utf8");
-    return JSON.parse(raw || "[]");
-  } catch (err) {
-    return [];
-  }
-}
+const REJECTIONS = {
+  invalid: { error: "Invalid activation code", status: 401 },
+  revoked: { error: "This activation code has been revoked", status: 401 },
+  expired: { error: "This activation code has expired", status: 401 },
+  full: { error: "This activation code has reached its device limit", status: 403 },
+};
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const code = (body.code || "").trim();
+    const body = await request.json().catch(() => null);
+    const code = typeof body?.code === "string" ? body.code.trim() : "";
 
     if (!code) {
       return NextResponse.json(
@@ -28,25 +25,30 @@ export async function POST(request: Request) {
       );
     }
 
-    const events = await readEventsFile();
+    const { status, record } = await redeemActivationCode(code);
 
-    const event = events.find(
-      (evt: any) =>
-        typeof evt.activationCode === "string" &&
-        evt.activationCode.toLowerCase() === code.toLowerCase()
-    );
-
-    if (!event) {
-      return NextResponse.json(
-        { error: "Invalid activation code" },
-        { status: 401 }
-      );
+    if (status !== "active") {
+      const { error, status: httpStatus } = REJECTIONS[status] || REJECTIONS.invalid;
+      return NextResponse.json({ error }, { status: httpStatus });
     }
 
-    // You could generate a token here later; for now just return event info
+    const exhibitor = await exhibitors.get(record.exhibitorId);
+    const event = await events.get(record.eventId);
+
+    const label = String(body.deviceName || request.headers.get("user-agent") || "").trim();
+    const { device, token } = await issueDeviceSession(record, label);
+
+    // The booth device sends this token on every lead it captures
     return NextResponse.json({
-      eventId: event.id,
-      eventName: event.name,
+      token,
+      deviceId: device.id,
+      expiresAt: device.expiresAt,
+      eventId: record.eventId,
+      eventName: event?.name || record.eventId,
+      exhibitorId: record.exhibitorId,
+      exhibitorName: exhibitor?.name || "",
+      devicesUsed: record.usageCount,
+      maxDevices: record.maxDevices,
     });
   } catch (err) {
     console.error("Error in /api/activate:", err);
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { normalizeActivationCode } from "../../../lib/activationCodes";
+import { revokeCodeDevices } from "../../../lib/devices";
+import { activationCodes } from "../../../lib/repositories";
+import type { ActivationCode } from "../../../lib/types";
+
+// DELETE revokes the code and signs out the devices activated with it. The
+// record is kept so its usage stays visible.
+export async function DELETE(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "activation-codes:manage");
+  if (denied) return denied;
+
+  try {
+    const code = normalizeActivationCode(params.code);
+    let before: ActivationCode | null = null;
+    const revoked = await activationCodes.update(code, (current) => {
+      before = current;
+      return { ...current, revokedAt: current.revokedAt || new Date().toISOString() };
+    });
+
+    if (!revoked) {
+      return NextResponse.json({ error: "Activation code not found" }, { status: 404 });
+    }
+    await revokeCodeDevices(code);
+    await recordAudit(request, staff, {
+      action: "activation-code.revoke",
+      targetType: "exhibitor",
+      targetId: revoked.exhibitorId,
+      eventId: revoked.eventId,
+      before,
+      after: revoked,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Activation code revoke error:", err);
+    return NextResponse.json({ error: "Error revoking activation code" }, { status: 500 });
+  }
+}
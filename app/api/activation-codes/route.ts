@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { codeStatus, issueActivationCode } from "../../lib/activationCodes";
+import { activationCodes, exhibitors } from "../../lib/repositories";
+
+// GET /api/activation-codes?exhibitorId=... - codes with their current status
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "activation-codes:manage");
+  if (denied) return denied;
+
+  try {
+    const exhibitorId = new URL(request.url).searchParams.get("exhibitorId");
+    const codes = exhibitorId
+      ? await activationCodes.find({ exhibitorId })
+      : await activationCodes.list();
+
+    const withStatus = codes
+      .map((c) => ({ ...c, status: codeStatus(c) }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return NextResponse.json(withStatus);
+  } catch (err) {
+    console.error("Error reading activation codes:", err);
+    return NextResponse.json({ error: "Error reading activation codes" }, { status: 500 });
+  }
+}
+
+// POST - generate a new code for an exhibitor, revoking its previous one
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "activation-codes:manage");
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const expiresInDays = body.expiresInDays === undefined ? undefined : Number(body.expiresInDays);
+    const maxDevices = body.maxDevices === undefined ? undefined : Number(body.maxDevices);
+
+    if (expiresInDays !== undefined && !(expiresInDays > 0 && expiresInDays <= 365)) {
+      return NextResponse.json({ error: "Expiry must be between 1 and 365 days" }, { status: 400 });
+    }
+    if (maxDevices !== undefined && !(Number.isInteger(maxDevices) && maxDevices > 0)) {
+      return NextResponse.json({ error: "Device limit must be a positive whole number" }, { status: 400 });
+    }
+
+    const exhibitor = body.exhibitorId ? await exhibitors.get(body.exhibitorId) : null;
+    if (!exhibitor) {
+      return NextResponse.json({ error: "Exhibitor not found" }, { status: 404 });
+    }
+
+    const record = await issueActivationCode(exhibitor, { expiresInDays, maxDevices });
+    await recordAudit(request, staff, {
+      action: "activation-code.issue",
+      targetType: "exhibitor",
+      targetId: exhibitor.id,
+      eventId: exhibitor.eventId,
+      after: record,
+    });
+    return NextResponse.json({ ...record, status: codeStatus(record) }, { status: 201 });
+  } catch (err) {
+    console.error("Activation code create error:", err);
+    return NextResponse.json({ error: "Error generating activation code" }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../../lib/audit";
+import { authorize, can } from "../../../../lib/auth";
+import { SHEET_LAYOUTS, renderBadgesPdf } from "../../../../lib/badgePdf";
+import { recordBadgePrint, reissuedBadge, withQrValue } from "../../../../lib/badges";
+import { publishAttendee } from "../../../../lib/realtime";
+import { attendees, badgeTemplates, events } from "../../../../lib/repositories";
+import type { Attendee } from "../../../../lib/types";
+
+const printFields = (a: Attendee) => ({
+  printedAt: a.printedAt,
+  printCount: a.printCount || 0,
+  badgeVersion: a.badgeVersion || 1,
+});
+
+// POST { reissue?, onlyIfUnprinted?, layout? } – records one print of the
+// attendee's badge. reissue gives the badge a new version, so the QR on
+// every earlier copy is rejected at the door. onlyIfUnprinted answers 409
+// when a badge already exists, for printing on first check-in. With a
+// layout the response is the badge as a PDF; otherwise it is the attendee
+// with the QR to print.
+// Scanner staff may print a first badge; reprints are for the registration
+// desk.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const { staff, denied } = await authorize(request, "badges:print");
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const current = await attendees.get(String(params.id || ""));
+    if (!current) {
+      return NextResponse.json({ error: "Attendee not found" }, { status: 404 });
+    }
+
+    const layoutKey = body?.layout ? String(body.layout) : "";
+    const layout = layoutKey ? SHEET_LAYOUTS[layoutKey] : null;
+    if (layoutKey && !layout) {
+      return NextResponse.json({ error: "Unknown sheet layout" }, { status: 400 });
+    }
+
+    // Checked again as the print is recorded, against the attendee as
+    // stored then, and only a recorded print is rendered
+    const reissue = body?.reissue === true;
+    const change = await recordBadgePrint(
+      reissue ? reissuedBadge(current) : current,
+      staff.id,
+      undefined,
+      (latest) => {
+        if (latest.printedAt) {
+          if (body?.onlyIfUnprinted === true) {
+            return { error: "This badge has already been printed", status: 409 };
+          }
+          if (!can(staff.role, "attendees:write")) {
+            return {
+              error: "This badge has already been printed. Reprints are done at the registration desk.",
+              status: 403,
+            };
+          }
+        } else if (reissue) {
+          return { error: "Only a badge that has been printed can be replaced", status: 400 };
+        }
+        return null;
+      }
+    );
+    if (!change) {
+      return NextResponse.json({ error: "Attendee not found" }, { status: 404 });
+    }
+    if (change.refusal) {
+      return NextResponse.json({ error: change.refusal.error }, { status: change.refusal.status });
+    }
+
+    await publishAttendee("attendee", change.after);
+    await recordAudit(request, staff, {
+      action: reissue ? "badge.reissue" : "badge.print",
+      targetType: "attendee",
+      targetId: current.id,
+      eventId: current.eventId,
+      before: printFields(change.before),
+      after: printFields(change.after),
+    });
+
+    const printed = change.after;
+    const pdf = layout
+      ? await renderBadgesPdf({
+          attendees: [printed],
+          templates: await badgeTemplates.find({ eventId: printed.eventId || "" }),
+          layout,
+          cropMarks: false,
+          event: printed.eventId ? await events.get(printed.eventId) : null,
+        })
+      : null;
+
+    if (pdf) {
+      return new Response(new Uint8Array(pdf), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="badge-${current.id}.pdf"`,
+        },
+      });
+    }
+    return NextResponse.json({ attendee: await withQrValue(change.after) });
+  } catch (err) {
+    console.error("Badge print error:", err);
+    return NextResponse.json({ error: "Error printing badge" }, { status: 500 });
+  }
+}
@@ -1,19 +1,31 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
-
-const dataFile = path.join(process.cwd(), "data", "attendees.json");
+import { attendeeTypeInfo, eventAttendeeTypes } from "../../../lib/attendeeTypes";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { reissuedBadge, resolveBadge, withQrValue } from "../../../lib/badges";
+import { parseCustomValues } from "../../../lib/customFields";
+import { publishAttendee } from "../../../lib/realtime";
+import { findRegistration } from "../../../lib/registration";
+import { attendees, events } from "../../../lib/repositories";
 
 export async function GET(request, { params }) {
-  try {
-    const rawId = params.id;
-    // Support QR values that include a prefix like "hemisphere:<id>"
-    const id = String(rawId || "").split(":").pop();
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
 
-    const file = await fs.promises.readFile(dataFile, "utf8");
-    const attendees = JSON.parse(file);
-
-    const attendee = attendees.find((a) => String(a.id) === String(id));
+  try {
+    const rawId = String(params.id || "");
+
+    // A scanned QR ("hemisphere:...") must verify; a plain id is a staff lookup
+    let attendee;
+    if (rawId.includes(":")) {
+      const badge = await resolveBadge(rawId);
+      if (badge.error) {
+        return NextResponse.json({ error: badge.error }, { status: badge.status });
+      }
+      attendee = badge.attendee;
+    } else {
+      attendee = await attendees.get(rawId);
+    }
 
     if (!attendee) {
       return NextResponse.json(
@@ -23,10 +35,12 @@ export async function GET(request, { params }) {
     }
 
     const fullName = `${attendee.firstName || ""} ${attendee.lastName || ""}`.trim();
+    const event = attendee.eventId ? await events.get(attendee.eventId) : null;
 
     return NextResponse.json({
-      ...attendee,
+      ...(await withQrValue(attendee)),
       name: fullName || attendee.name || "", // Provide a single string name for clients that expect it
+      type: attendeeTypeInfo(event, attendee), // label and color for door staff
     });
   } catch (err) {
     console.error("Error reading attendee by ID:", err);
@@ -38,39 +52,118 @@ export async function GET(request, { params }) {
 }
 
 export async function PATCH(request, { params }) {
+  const { staff, denied } = await authorize(request, "attendees:write");
+  if (denied) return denied;
+
   try {
     const rawId = params.id;
     const id = String(rawId || "").split(":").pop();
     const payload = await request.json();
 
-    const file = await fs.promises.readFile(dataFile, "utf8");
-    const attendees = JSON.parse(file);
+    const fields = [
+      "firstName",
+      "lastName",
+      "email",
+      "company",
+      "eventId",
+      "customFields",
+      "attendeeType",
+      "ticketCategoryId",
+    ];
+    const checked = ["email", "eventId", "customFields", "attendeeType", "ticketCategoryId"];
+
+    // Moving an attendee or changing their email must keep email unique per
+    // event, and custom answers, type and ticket must fit the event's setup.
+    // Staff may go over a type's or ticket's registration limit.
+    if (checked.some((field) => field in payload)) {
+      const current = await attendees.get(id);
+      if (!current) {
+        return NextResponse.json({ error: "Attendee not found" }, { status: 404 });
+      }
 
-    const index = attendees.findIndex((a) => String(a.id) === String(id));
-    if (index === -1) {
-      return NextResponse.json({ error: "Attendee not found" }, { status: 404 });
-    }
+      // What they bring to a new event is checked against it like new values
+      if ("eventId" in payload && (payload.eventId || "") !== (current.eventId || "")) {
+        for (const field of ["customFields", "attendeeType", "ticketCategoryId"]) {
+          if (!(field in payload) && current[field] !== undefined) payload[field] = current[field];
+        }
+      }
 
-    const fields = ["firstName", "lastName", "email", "company", "eventId"];
-    const current = attendees[index];
-    const updated = { ...current };
+      const email = String(payload.email ?? current.email ?? "").trim().toLowerCase();
+      const eventId = payload.eventId ?? current.eventId;
+      if ("email" in payload) payload.email = email;
 
-    fields.forEach((field) => {
-      if (Object.prototype.hasOwnProperty.call(payload, field)) {
-        updated[field] = payload[field];
+      const event = eventId ? await events.get(eventId) : null;
+      if (eventId && !event) {
+        return NextResponse.json({ error: "Event not found" }, { status: 404 });
       }
+      if (eventId && (await findRegistration(email, eventId, id))) {
+        return NextResponse.json(
+          { error: "This email is already registered for that event." },
+          { status: 409 }
+        );
+      }
+
+      if ("customFields" in payload) {
+        const { values, error } = parseCustomValues(event?.customFields, payload.customFields, {
+          enforceRequired: false,
+        });
+        if (error) {
+          return NextResponse.json({ error }, { status: 400 });
+        }
+        payload.customFields = values;
+      }
+
+      if ("attendeeType" in payload && !eventAttendeeTypes(event).some((t) => t.id === payload.attendeeType)) {
+        return NextResponse.json({ error: "Unknown attendee type" }, { status: 400 });
+      }
+      if ("ticketCategoryId" in payload) {
+        payload.ticketCategoryId = String(payload.ticketCategoryId ?? "");
+        const categories = event?.ticketCategories || [];
+        if (payload.ticketCategoryId && !categories.some((c) => c.id === payload.ticketCategoryId)) {
+          return NextResponse.json({ error: "Unknown ticket category" }, { status: 400 });
+        }
+      }
+    }
+
+    let before = null;
+    const updated = await attendees.update(id, (current) => {
+      before = current;
+      let next = { ...current };
+      fields.forEach((field) => {
+        if (Object.prototype.hasOwnProperty.call(payload, field)) {
+          next[field] = payload[field];
+        }
+      });
+      // Their badge's QR is signed for the old event. A new version keeps it
+      // rejected even if they move back, and the new badge still needs printing.
+      if ((next.eventId || "") !== (current.eventId || "")) {
+        next = reissuedBadge(next);
+        delete next.printedAt;
+        delete next.printedBy;
+      }
+      return next;
     });
 
-    attendees[index] = updated;
+    if (!updated) {
+      return NextResponse.json({ error: "Attendee not found" }, { status: 404 });
+    }
 
-    await fs.promises.writeFile(dataFile, JSON.stringify(attendees, null, 2), "utf8");
+    await recordAudit(request, staff, {
+      action: "attendee.update",
+      targetType: "attendee",
+      targetId: id,
+      eventId: updated.eventId,
+      before,
+      after: updated,
+    });
+    await publishAttendee("attendee", updated);
 
     const fullName = `${updated.firstName || ""} ${updated.lastName || ""}`.trim();
 
     return NextResponse.json({
       success: true,
       attendee: {
-        ...updated,
+        ...(await withQrValue(updated)),
         name: fullName || updated.name || "",
       },
     });
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  guessMapping,
+  parseMapping,
+  runImport,
+} from "../../../lib/attendeeImport";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { events } from "../../../lib/repositories";
+import { readSpreadsheet } from "../../../lib/spreadsheet";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// POST multipart form: file (CSV or XLSX), mapping (JSON of field or custom
+// field id -> column index; guessed from the headers when left out), eventId
+// (for rows without an event column) and dryRun ("1" previews without
+// writing).
+// Answers with the headers, the mapping used and a result for every row.
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "attendees:write");
+  if (denied) return denied;
+
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "Choose a CSV or XLSX file to import" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "Files up to 5 MB can be imported" }, { status: 400 });
+    }
+
+    const sheet = readSpreadsheet(file.name, Buffer.from(await file.arrayBuffer()));
+    if (sheet.error) {
+      return NextResponse.json({ error: sheet.error }, { status: 400 });
+    }
+    const [headerRow = []] = sheet.rows;
+    const headers = headerRow.map((h) => String(h ?? "").trim());
+    if (!headers.some(Boolean)) {
+      return NextResponse.json({ error: "The first row must name the columns" }, { status: 400 });
+    }
+    if (sheet.rows.length - 1 > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` },
+        { status: 400 }
+      );
+    }
+
+    // Custom fields can be mapped for the default event; rows naming another
+    // event fill that event's fields from columns with the same label
+    const defaultEventId = String(form.get("eventId") || "").trim();
+    const customFields = (defaultEventId && (await events.get(defaultEventId))?.customFields) || [];
+    const rawMapping = form.get("mapping");
+    const mapping = rawMapping
+      ? parseMapping(JSON.parse(String(rawMapping)), headers.length, customFields)
+      : guessMapping(headers, customFields);
+    const dryRun = form.get("dryRun") === "1";
+
+    const { rows, summary } = await runImport(sheet.rows, { mapping, defaultEventId, dryRun });
+
+    if (!dryRun && summary.created > 0) {
+      await recordAudit(request, staff, {
+        action: "attendee.import",
+        targetType: "import",
+        targetId: file.name,
+        ...(defaultEventId ? { eventId: defaultEventId } : {}),
+        after: { file: file.name, ...summary },
+      });
+    }
+
+    return NextResponse.json({ dryRun, fields: IMPORT_FIELDS, customFields, headers, mapping, summary, rows });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json({ error: "Column mapping is not valid JSON" }, { status: 400 });
+    }
+    console.error("Attendee import error:", err);
+    return NextResponse.json({ error: "Error importing attendees" }, { status: 500 });
+  }
+}
@@ -1,26 +1,26 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
+import { authorize } from "../../lib/auth";
+import { withQrValue } from "../../lib/badges";
+import { attendees } from "../../lib/repositories";
 
-const dataFile = path.join(process.cwd(), "data", "attendees.json");
+export async function GET(request) {
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
 
-export async function GET() {
   try {
-    const file = await fs.promises.readFile(dataFile, "utf8");
-    const attendees = JSON.parse(file);
+    // Optional ?eventId= scopes the list to one event
+    const eventId = new URL(request.url).searchParams.get("eventId");
+    const all = eventId ? await attendees.find({ eventId }) : await attendees.list();
 
     // Sort newest first if createdAt exists
-    const sorted = [...attendees].sort((a, b) => {
+    const sorted = [...all].sort((a, b) => {
       if (!a.createdAt || !b.createdAt) return 0;
       return new Date(b.createdAt) - new Date(a.createdAt);
     });
 
-    return NextResponse.json(sorted);
+    // Each attendee carries the signed QR their badge should print
+    return NextResponse.json(await Promise.all(sorted.map(withQrValue)));
   } catch (err) {
-    if (err.code === "ENOENT") {
-      // No attendees file yet → just return empty array
-      return NextResponse.json([]);
-    }
     console.error("Attendees list API error:", err);
     return NextResponse.json(
       { error: "Error reading attendees" },
@@ -0,0 +1,26 @@
+import { searchAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+
+// GET /api/audit/export?<same filters as /api/audit> – one JSON object per
+// line, oldest first, for compliance reviews
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "audit:read");
+  if (denied) return denied;
+
+  try {
+    const entries = (await searchAudit(new URL(request.url).searchParams)).reverse();
+    const jsonl = entries.map((entry) => JSON.stringify(entry)).join("\n");
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(jsonl ? `${jsonl}\n` : "", {
+      status: 200,
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-log-${date}.jsonl"`,
+      },
+    });
+  } catch (err) {
+    console.error("Audit export error:", err);
+    return new Response("Unable to export audit log", { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { searchAudit } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// GET /api/audit?q=&action=&actorId=&targetType=&targetId=&eventId=&from=&to=&limit=
+// Newest first. "total" is the number of matches before the limit; the
+// export returns all of them.
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "audit:read");
+  if (denied) return denied;
+
+  try {
+    const params = new URL(request.url).searchParams;
+    const requested = Number(params.get("limit") || DEFAULT_LIMIT);
+    const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const matches = await searchAudit(params);
+    return NextResponse.json({ entries: matches.slice(0, limit), total: matches.length });
+  } catch (err) {
+    console.error("Audit log read error:", err);
+    return NextResponse.json({ error: "Error reading audit log" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import {
+  createSession,
+  publicStaff,
+  setSessionCookie,
+  verifyPassword,
+} from "../../../lib/auth";
+import { staff } from "../../../lib/repositories";
+
+export async function POST(request: Request) {
+  try {
+    const { email, password } = await request.json();
+    const normalizedEmail = String(email || "").trim().toLowerCase();
+
+    if (!normalizedEmail || !password) {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const account = await staff.findOne({ email: normalizedEmail });
+    const valid = account ? await verifyPassword(String(password), account.passwordHash) : false;
+
+    if (!account || !valid) {
+      // Kept so repeated guessing against an account shows up in review
+      await recordAudit(request, null, {
+        action: "auth.login-failed",
+        targetType: "staff",
+        targetId: account?.id || "",
+        actorName: normalizedEmail,
+      });
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = await createSession(account.id);
+    await recordAudit(request, account, {
+      action: "auth.login",
+      targetType: "staff",
+      targetId: account.id,
+    });
+    const response = NextResponse.json({ staff: publicStaff(account) });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (err) {
+    console.error("Login error:", err);
+    return NextResponse.json({ error: "Unable to sign in" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import {
+  clearSessionCookie,
+  destroySession,
+  getStaffForToken,
+  readSessionToken,
+} from "../../../lib/auth";
+
+export async function POST(request: Request) {
+  try {
+    const token = readSessionToken(request);
+    const account = await getStaffForToken(token);
+    await destroySession(token);
+    if (account) {
+      await recordAudit(request, account, {
+        action: "auth.logout",
+        targetType: "staff",
+        targetId: account.id,
+      });
+    }
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (err) {
+    console.error("Logout error:", err);
+    return NextResponse.json({ error: "Unable to sign out" }, { status: 500 });
+  }
+}
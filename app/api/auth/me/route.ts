@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getStaffForToken, publicStaff, readSessionToken } from "../../../lib/auth";
+import { staff } from "../../../lib/repositories";
+
+export async function GET(request: Request) {
+  try {
+    const account = await getStaffForToken(readSessionToken(request));
+    if (account) {
+      return NextResponse.json({ staff: publicStaff(account) });
+    }
+
+    // No accounts yet → the login page offers to create the first owner
+    const accounts = await staff.list();
+    return NextResponse.json({ staff: null, setupRequired: accounts.length === 0 });
+  } catch (err) {
+    console.error("Session lookup error:", err);
+    return NextResponse.json({ error: "Unable to read session" }, { status: 500 });
+  }
+}
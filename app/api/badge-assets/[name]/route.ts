@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../lib/auth";
+import { readBadgeAsset } from "../../../lib/badgeAssets";
+
+// GET /api/badge-assets/<name> – a logo or image uploaded in the badge
+// designer, readable by whoever can read the templates using it. Names are
+// content hashes, so a file never changes.
+export async function GET(request: Request, { params }) {
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
+
+  try {
+    const asset = await readBadgeAsset(String(params.name || ""));
+    if (!asset) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+    return new Response(new Uint8Array(asset.bytes), {
+      status: 200,
+      headers: {
+        "Content-Type": asset.contentType,
+        "Cache-Control": "private, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+        // Uploaded SVGs are shown as images, never run as documents
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+      },
+    });
+  } catch (err) {
+    console.error("Badge asset read error:", err);
+    return NextResponse.json({ error: "Error reading image" }, { status: 500 });
+  }
+}
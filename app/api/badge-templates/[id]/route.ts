@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import { eventAttendeeTypes } from "../../../lib/attendeeTypes";
+import { authorize } from "../../../lib/auth";
+import { storeDesignImages } from "../../../lib/badgeAssets";
+import { auditedTemplate, claimDefaultAndTypes, parseTemplateInput } from "../../../lib/badgeTemplates";
+import { badgeTemplates, events } from "../../../lib/repositories";
+
+// PATCH edits a template and bumps its version. Send the version you loaded
+// as { version } and the save is refused if another desk saved in between.
+export async function PATCH(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "badges:manage");
+  if (denied) return denied;
+
+  try {
+    const id = params.id;
+    const current = await badgeTemplates.get(id);
+    if (!current) {
+      return NextResponse.json({ error: "Badge template not found" }, { status: 404 });
+    }
+
+    const payload = await request.json();
+    const event = await events.get(current.eventId);
+    const { data, error } = parseTemplateInput(
+      payload,
+      eventAttendeeTypes(event).map((t) => t.id),
+      current
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    // Also moves images saved inline by earlier versions out to asset files
+    data.design = await storeDesignImages(data.design);
+
+    let before = current;
+    let conflict = false;
+    const updated = await badgeTemplates.update(id, (existing) => {
+      before = existing;
+      if (payload.version !== undefined && Number(payload.version) !== existing.version) {
+        conflict = true;
+        return existing;
+      }
+      return {
+        ...existing,
+        ...data,
+        version: existing.version + 1,
+        updatedAt: new Date().toISOString(),
+        updatedBy: staff.id,
+      };
+    });
+
+    if (!updated) {
+      return NextResponse.json({ error: "Badge template not found" }, { status: 404 });
+    }
+    if (conflict) {
+      return NextResponse.json(
+        { error: "Someone else saved this template since you opened it. Reload it and try again.", template: updated },
+        { status: 409 }
+      );
+    }
+
+    await recordAudit(request, staff, {
+      action: "badge-template.update",
+      targetType: "badge-template",
+      targetId: id,
+      eventId: updated.eventId,
+      before: auditedTemplate(before),
+      after: auditedTemplate(updated),
+    });
+    for (const sibling of await claimDefaultAndTypes(updated)) {
+      await recordAudit(request, staff, {
+        action: "badge-template.update",
+        targetType: "badge-template",
+        targetId: sibling.after.id,
+        eventId: sibling.after.eventId,
+        before: auditedTemplate(sibling.before),
+        after: auditedTemplate(sibling.after),
+      });
+    }
+
+    return NextResponse.json({ success: true, template: updated });
+  } catch (err) {
+    console.error("Badge template update error:", err);
+    return NextResponse.json({ error: "Error updating badge template" }, { status: 500 });
+  }
+}
+
+// Badges already printed keep their look; attendees it was chosen for fall
+// back to the event's default template.
+export async function DELETE(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "badges:manage");
+  if (denied) return denied;
+
+  try {
+    const current = await badgeTemplates.get(params.id);
+    if (!current || !(await badgeTemplates.remove(params.id))) {
+      return NextResponse.json({ error: "Badge template not found" }, { status: 404 });
+    }
+
+    await recordAudit(request, staff, {
+      action: "badge-template.delete",
+      targetType: "badge-template",
+      targetId: current.id,
+      eventId: current.eventId,
+      before: auditedTemplate(current),
+    });
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Badge template delete error:", err);
+    return NextResponse.json({ error: "Error deleting badge template" }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../lib/audit";
+import { eventAttendeeTypes } from "../../lib/attendeeTypes";
+import { authorize } from "../../lib/auth";
+import { storeDesignImages } from "../../lib/badgeAssets";
+import { auditedTemplate, claimDefaultAndTypes, parseTemplateInput } from "../../lib/badgeTemplates";
+import { badgeTemplates, events } from "../../lib/repositories";
+import type { BadgeTemplate } from "../../lib/types";
+
+// GET /api/badge-templates?eventId=&eventId= – the templates of one or more
+// events, by event, then name. Anyone who can see attendees can print their
+// badges, so they can read these.
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
+
+  try {
+    const eventIds = [...new Set(new URL(request.url).searchParams.getAll("eventId").filter(Boolean))];
+    if (!eventIds.length) {
+      return NextResponse.json({ error: "Choose an event" }, { status: 400 });
+    }
+    const list = (await Promise.all(eventIds.map((eventId) => badgeTemplates.find({ eventId })))).flat();
+    const sorted = [...list].sort(
+      (a, b) => a.eventId.localeCompare(b.eventId) || a.name.localeCompare(b.name)
+    );
+    return NextResponse.json(sorted);
+  } catch (err) {
+    console.error("Badge templates list API error:", err);
+    return NextResponse.json({ error: "Error reading badge templates" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "badges:manage");
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const event = await events.get(String(body?.eventId ?? "").trim());
+    const { data, error } = parseTemplateInput(
+      body,
+      eventAttendeeTypes(event).map((t) => t.id)
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+    const template: BadgeTemplate = {
+      id: `tpl_${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`,
+      ...data,
+      design: await storeDesignImages(data.design),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: staff.id,
+    };
+    await badgeTemplates.insert(template);
+    await recordAudit(request, staff, {
+      action: "badge-template.create",
+      targetType: "badge-template",
+      targetId: template.id,
+      eventId: template.eventId,
+      after: auditedTemplate(template),
+    });
+
+    for (const { before, after } of await claimDefaultAndTypes(template)) {
+      await recordAudit(request, staff, {
+        action: "badge-template.update",
+        targetType: "badge-template",
+        targetId: after.id,
+        eventId: after.eventId,
+        before: auditedTemplate(before),
+        after: auditedTemplate(after),
+      });
+    }
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (err) {
+    console.error("Badge template create error:", err);
+    return NextResponse.json({ error: "Error creating badge template" }, { status: 500 });
+  }
+}
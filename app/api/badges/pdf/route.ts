@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import { authorize, can } from "../../../lib/auth";
+import { recordBadgePrint, reissuedBadge } from "../../../lib/badges";
+import { MAX_BADGES_PER_PDF, SHEET_LAYOUTS, renderBadgesPdf } from "../../../lib/badgePdf";
+import { publishAttendee } from "../../../lib/realtime";
+import { attendees, badgeTemplates, events } from "../../../lib/repositories";
+import type { Attendee } from "../../../lib/types";
+
+// POST { eventId, company?, unprinted?, attendeeIds?, layout?, cropMarks?,
+// markPrinted?, reissue? } – badges for the event's attendees as one PDF,
+// sorted by name. company and unprinted narrow the batch; attendeeIds picks
+// badges for a reprint. markPrinted records the print on everyone in the
+// file; reissue also gives badges printed before a new version, so the
+// earlier copies stop scanning. Recorded prints are claimed one by one
+// before anything is drawn, and a badge another desk printed meanwhile is
+// left out. Staff who can't edit attendees may only print first badges,
+// and those prints are always recorded.
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "badges:print");
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const eventId = String(body?.eventId ?? "").trim();
+    if (!eventId) {
+      return NextResponse.json({ error: "Event is required" }, { status: 400 });
+    }
+    const event = await events.get(eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    const layoutKey = String(body?.layout || "avery-5392");
+    const layout = SHEET_LAYOUTS[layoutKey];
+    if (!layout) {
+      return NextResponse.json({ error: "Unknown sheet layout" }, { status: 400 });
+    }
+
+    const canReprint = can(staff.role, "attendees:write");
+    const unprinted = body?.unprinted === true || !canReprint;
+    const company = String(body?.company ?? "").trim().toLowerCase();
+    const ids = Array.isArray(body?.attendeeIds) ? new Set(body.attendeeIds.map(String)) : null;
+    const batch = (await attendees.find({ eventId }))
+      .filter((a) => !company || (a.company || "").trim().toLowerCase() === company)
+      .filter((a) => !unprinted || !a.printedAt)
+      .filter((a) => !ids || ids.has(a.id))
+      .sort(
+        (a, b) =>
+          (a.lastName || "").localeCompare(b.lastName || "") ||
+          (a.firstName || "").localeCompare(b.firstName || "")
+      );
+
+    if (batch.length === 0) {
+      return NextResponse.json({ error: "No badges match this selection" }, { status: 400 });
+    }
+    if (batch.length > MAX_BADGES_PER_PDF) {
+      return NextResponse.json(
+        { error: `Print at most ${MAX_BADGES_PER_PDF} badges at a time` },
+        { status: 400 }
+      );
+    }
+
+    const reissue = canReprint && body?.reissue === true;
+    let printed = batch;
+    if (body?.markPrinted === true || reissue || !canReprint) {
+      const printedAt = new Date().toISOString();
+      const claimed: Attendee[] = [];
+      const reissued: string[] = [];
+      for (const attendee of batch) {
+        const change = await recordBadgePrint(
+          reissue && attendee.printedAt ? reissuedBadge(attendee) : attendee,
+          staff.id,
+          printedAt,
+          (latest) => (unprinted && latest.printedAt ? { error: "Already printed", status: 409 } : null)
+        );
+        if (!change?.after) continue;
+        claimed.push(change.after);
+        if ((change.after.badgeVersion || 1) > (change.before.badgeVersion || 1)) reissued.push(attendee.id);
+        await publishAttendee("attendee", change.after);
+      }
+      if (claimed.length === 0) {
+        return NextResponse.json({ error: "These badges have already been printed" }, { status: 409 });
+      }
+      await recordAudit(request, staff, {
+        action: "badge.print",
+        targetType: "event",
+        targetId: eventId,
+        eventId,
+        after: {
+          layout: layoutKey,
+          count: claimed.length,
+          attendeeIds: claimed.map((a) => a.id),
+          reissued,
+        },
+      });
+      printed = claimed;
+    }
+
+    const pdf = await renderBadgesPdf({
+      attendees: printed,
+      templates: await badgeTemplates.find({ eventId }),
+      layout,
+      cropMarks: body?.cropMarks === true,
+      event,
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="badges-${eventId}-${date}.pdf"`,
+      },
+    });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+    console.error("Badge PDF error:", err);
+    return NextResponse.json({ error: "Error generating badges" }, { status: 500 });
+  }
+}
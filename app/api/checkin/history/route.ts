@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../lib/auth";
+import { historyFor } from "../../../lib/checkinHistory";
+
+// GET /api/checkin/history?attendeeId= – every change to the attendee's
+// check-in state, oldest first
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
+
+  try {
+    const attendeeId = new URL(request.url).searchParams.get("attendeeId");
+    if (!attendeeId) {
+      return NextResponse.json({ error: "attendeeId is required" }, { status: 400 });
+    }
+    return NextResponse.json(await historyFor(attendeeId));
+  } catch (err) {
+    console.error("Check-in history API error:", err);
+    return NextResponse.json({ error: "Error reading check-in history" }, { status: 500 });
+  }
+}
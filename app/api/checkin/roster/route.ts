@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { eventAttendeeTypes } from "../../../lib/attendeeTypes";
+import { authorize } from "../../../lib/auth";
+import { legacyBadgesAccepted, withQrValue } from "../../../lib/badges";
+import { attendees, events } from "../../../lib/repositories";
+
+// GET ?eventId= – everything a scanner needs to keep checking people in when
+// the network drops. The browser can't verify badge signatures, so each
+// attendee carries the exact QR value their current badge holds and offline
+// scans must match it. The event's types and tickets come along so access
+// rules still hold offline.
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "checkin:write");
+  if (denied) return denied;
+
+  try {
+    const eventId = new URL(request.url).searchParams.get("eventId") || "";
+    const event = eventId ? await events.get(eventId) : null;
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const list = await attendees.find({ eventId });
+    const roster = await Promise.all(
+      list.map(async (a) => {
+        const { qrValue } = await withQrValue(a);
+        return {
+          id: a.id,
+          firstName: a.firstName,
+          lastName: a.lastName,
+          email: a.email,
+          company: a.company,
+          checkedIn: !!a.checkedIn,
+          checkedInAt: a.checkedInAt,
+          attendeeType: a.attendeeType,
+          ticketCategoryId: a.ticketCategoryId,
+          qrValue,
+        };
+      })
+    );
+
+    return NextResponse.json({
+      eventId,
+      eventName: event.name,
+      legacyQrAccepted: legacyBadgesAccepted(),
+      generatedAt: new Date().toISOString(),
+      attendeeTypes: eventAttendeeTypes(event),
+      ticketCategories: event.ticketCategories || [],
+      attendees: roster,
+    });
+  } catch (err) {
+    console.error("Roster error:", err);
+    return NextResponse.json({ error: "Unable to load roster" }, { status: 500 });
+  }
+}
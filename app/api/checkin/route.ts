@@ -1,40 +1,180 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
-
-const dataFile = path.join(process.cwd(), "data", "attendees.json");
+import { accessDenial, attendeeTypeInfo } from "../../lib/attendeeTypes";
+import { recordAudit } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { checkinState, recordCheckinChange } from "../../lib/checkinHistory";
+import { clientTimestamp, idempotent, readIdempotencyKey } from "../../lib/idempotency";
+import { enqueueCheckin, enterEvent, leaveEvent } from "../../lib/occupancy";
+import { publish, publishAttendee } from "../../lib/realtime";
+import { attendees, events } from "../../lib/repositories";
+import { admitToSession, leaveSession } from "../../lib/sessions";
+import { checkinStamp } from "../../lib/stations";
+import type { CheckinState } from "../../lib/types";
 
+// POST { id, checkedIn?, direction?, sessionId?, stationId?, checkedInAt?, source? }
+// Scans at the event's doors go in or out ("direction"); with a session id
+// they go in or out of that session instead. Every pass is kept in the entry
+// log, which is what occupancy is counted from, and every change to the
+// check-in state in the check-in history and the audit log.
+// Responses carry the attendee's type for door staff. Entries their type or
+// ticket doesn't allow answer 409 with { denied: true }; exits always pass.
 export async function POST(request) {
+  const { staff, denied } = await authorize(request, "checkin:write");
+  if (denied) return denied;
+
   try {
-    const { id, checkedIn = true } = await request.json();
+    const body = await request.json();
+    const { id, checkedIn = true } = body;
+    const direction = body.direction === "out" ? "out" : "in";
+
+    const { stamp, error } = await checkinStamp(staff, body.stationId);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
 
-    const file = await fs.promises.readFile(dataFile, "utf8");
-    const attendees = JSON.parse(file);
+    // Offline scanners replay queued check-ins with the same key, and with
+    // the time the badge was actually scanned
+    const key = readIdempotencyKey(request, body);
 
-    const index = attendees.findIndex(a => String(a.id) === String(id));
+    // With a session id this is a scan at a session door: admit up to the
+    // session's capacity, or let them out
+    if (body.sessionId) {
+      return await idempotent("checkin", key, async () => {
+        const attendee = await attendees.get(id);
+        if (!attendee) {
+          return { status: 404, body: { error: "Attendee not found" } };
+        }
+        const sessionId = String(body.sessionId);
+        const timestamp = clientTimestamp(body.checkedInAt);
+        const event = attendee.eventId ? await events.get(attendee.eventId) : null;
+        const type = attendeeTypeInfo(event, attendee);
 
-    if (index === -1) {
-      return NextResponse.json(
-        { error: "Attendee not found" },
-        { status: 404 }
-      );
+        if (direction === "out") {
+          const left = await leaveSession(sessionId, attendee, stamp, timestamp);
+          if ("status" in left) {
+            return { status: left.status, body: { error: left.error, type } };
+          }
+          return { status: 200, body: { success: true, entry: left.entry, occupancy: left.occupancy, type } };
+        }
+
+        const result = await admitToSession(sessionId, attendee, stamp, timestamp);
+        if ("status" in result) {
+          return { status: result.status, body: { error: result.error, denied: result.denied, type } };
+        }
+        if (!result.alreadyInside) {
+          publish({
+            type: "attendance",
+            eventId: result.attendance.eventId,
+            data: { ...result.attendance, attendanceCount: result.count, occupancy: result.occupancy },
+          });
+        }
+
+        return {
+          status: 200,
+          body: {
+            success: true,
+            attendance: result.attendance,
+            alreadyAttended: result.alreadyAttended,
+            alreadyInside: result.alreadyInside,
+            attendanceCount: result.count,
+            occupancy: result.occupancy,
+            type,
+          },
+        };
+      });
     }
 
-    if (checkedIn) {
-      attendees[index].checkedIn = true;
-      attendees[index].checkedInAt = new Date().toISOString();
-    } else {
-      attendees[index].checkedIn = false;
-      delete attendees[index].checkedInAt;
+    if (direction === "out") {
+      return await idempotent("checkin", key, async () => {
+        const attendee = await attendees.get(id);
+        if (!attendee) {
+          return { status: 404, body: { error: "Attendee not found" } };
+        }
+        const event = attendee.eventId ? await events.get(attendee.eventId) : null;
+        const type = attendeeTypeInfo(event, attendee);
+        const entry = await enqueueCheckin(attendee.eventId || "", () =>
+          leaveEvent(attendee, stamp, clientTimestamp(body.checkedInAt))
+        );
+        if (!entry) {
+          return { status: 409, body: { error: "Not inside the venue right now", type } };
+        }
+        return { status: 200, body: { success: true, attendee, entry, type } };
+      });
     }
 
-    await fs.promises.writeFile(
-      dataFile,
-      JSON.stringify(attendees, null, 2),
-      "utf8"
-    );
+    return await idempotent("checkin", key, async () => {
+      const timestamp = clientTimestamp(body.checkedInAt);
+      let previous: CheckinState = { checkedIn: false };
+
+      const current = await attendees.get(id);
+      if (!current) {
+        return { status: 404, body: { error: "Attendee not found" } };
+      }
+      const event = current.eventId ? await events.get(current.eventId) : null;
+      const type = attendeeTypeInfo(event, current);
+      // At the event's doors only the station's area rules apply
+      const denial = checkedIn ? accessDenial(event, current, { stationId: stamp.stationId }) : null;
+      if (denial) {
+        return { status: 409, body: { error: denial, denied: true, type } };
+      }
+
+      // The state change, the entry and the history record go in together,
+      // queued with every other scan and undo for the event
+      return enqueueCheckin(current.eventId || "", async () => {
+        const attendee = await attendees.update(id, (current) => {
+          previous = checkinState(current);
+          const next = { ...current };
+          if (checkedIn) {
+            // Keep the first check-in if another station got there first
+            if (!current.checkedIn || !current.checkedInAt) {
+              next.checkedInAt = timestamp;
+              next.checkedInStationId = stamp.stationId;
+              next.checkedInBy = stamp.operatorId;
+            }
+            next.checkedIn = true;
+          } else {
+            next.checkedIn = false;
+            delete next.checkedInAt;
+            delete next.checkedInStationId;
+            delete next.checkedInBy;
+          }
+          return next;
+        });
+
+        if (!attendee) {
+          return { status: 404, body: { error: "Attendee not found" } };
+        }
+
+        // A scan of someone already inside is a repeat, not another entry
+        let reentry = false;
+        let alreadyInside = false;
+        if (checkedIn) {
+          alreadyInside = !(await enterEvent(attendee, stamp, timestamp));
+          reentry = !alreadyInside && previous.checkedIn;
+        } else {
+          await leaveEvent(attendee, stamp, timestamp);
+        }
+
+        // The admin table says so; scanners send a station or nothing
+        const source = body.source === "admin" ? "admin" : "scanner";
+        const change = await recordCheckinChange(attendee, source, previous, checkinState(attendee), stamp);
+        if (change) {
+          await recordAudit(request, staff, {
+            action: attendee.checkedIn ? "checkin.check-in" : "checkin.uncheck",
+            targetType: "attendee",
+            targetId: attendee.id,
+            eventId: attendee.eventId,
+            before: previous,
+            after: change.next,
+          });
+        }
+
+        // Inside the write so replays don't announce the check-in again
+        await publishAttendee("checkin", attendee);
 
-    return NextResponse.json({ success: true, attendee: attendees[index] });
+        return { status: 200, body: { success: true, attendee, reentry, alreadyInside, type } };
+      });
+    });
   } catch (err) {
     console.error("Check-in error:", err);
     return NextResponse.json(
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import {
+  checkinState,
+  findUndoTarget,
+  recordCheckinChange,
+  withCheckinState,
+} from "../../../lib/checkinHistory";
+import { enqueueCheckin, enterEvent, leaveEvent } from "../../../lib/occupancy";
+import { publishAttendee } from "../../../lib/realtime";
+import { attendees } from "../../../lib/repositories";
+import type { CheckinState } from "../../../lib/types";
+
+// POST { id } – reverses the attendee's latest check-in change by writing a
+// compensating change; nothing in the history is edited or removed.
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "attendees:write");
+  if (denied) return denied;
+
+  try {
+    const { id } = await request.json();
+    const current = await attendees.get(String(id ?? ""));
+    if (!current) {
+      return NextResponse.json({ error: "Attendee not found" }, { status: 404 });
+    }
+
+    // Finding the latest change and reversing it happen in the event's
+    // check-in queue, so a scan can't land between the two
+    return await enqueueCheckin(current.eventId || "", async () => {
+      const target = await findUndoTarget(current.id);
+      if (!target) {
+        return NextResponse.json({ error: "Nothing to undo" }, { status: 409 });
+      }
+
+      let previous: CheckinState = { checkedIn: false };
+      const attendee = await attendees.update(target.attendeeId, (current) => {
+        previous = checkinState(current);
+        return withCheckinState(current, target.previous);
+      });
+      if (!attendee) {
+        return NextResponse.json({ error: "Attendee not found" }, { status: 404 });
+      }
+
+      // Undos come from the admin, not from a station
+      const stamp = { operatorId: staff.id, operatorName: staff.name };
+      const change = await recordCheckinChange(
+        attendee,
+        "undo",
+        previous,
+        checkinState(attendee),
+        stamp,
+        target.id
+      );
+
+      await recordAudit(request, staff, {
+        action: "checkin.undo",
+        targetType: "attendee",
+        targetId: attendee.id,
+        eventId: attendee.eventId,
+        before: previous,
+        after: checkinState(attendee),
+      });
+
+      // Keep occupancy in step: an undone check-in means they aren't inside,
+      // an undone un-check means they are
+      const now = new Date().toISOString();
+      if (!attendee.checkedIn) {
+        await leaveEvent(attendee, stamp, now);
+      } else {
+        await enterEvent(attendee, stamp, now);
+      }
+
+      await publishAttendee("checkin", attendee);
+
+      return NextResponse.json({ success: true, attendee, change, undid: target });
+    });
+  } catch (err) {
+    console.error("Check-in undo error:", err);
+    return NextResponse.json({ error: "Error undoing check-in" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { deviceSessions } from "../../../lib/repositories";
+import type { DeviceSession } from "../../../lib/types";
+
+// DELETE signs the device out remotely; its next request is rejected.
+export async function DELETE(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "devices:manage");
+  if (denied) return denied;
+
+  try {
+    let before: DeviceSession | null = null;
+    const revoked = await deviceSessions.update(params.id, (current) => {
+      before = current;
+      return { ...current, revokedAt: current.revokedAt || new Date().toISOString() };
+    });
+
+    if (!revoked) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    await recordAudit(request, staff, {
+      action: "device.revoke",
+      targetType: "device",
+      targetId: revoked.id,
+      eventId: revoked.eventId,
+      before,
+      after: revoked,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Device revoke error:", err);
+    return NextResponse.json({ error: "Error revoking device" }, { status: 500 });
+  }
+}
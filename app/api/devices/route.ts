@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../lib/auth";
+import { isDeviceActive } from "../../lib/devices";
+import { deviceSessions } from "../../lib/repositories";
+
+// GET /api/devices?exhibitorId=... - booth devices that can still capture leads
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "devices:manage");
+  if (denied) return denied;
+
+  try {
+    const exhibitorId = new URL(request.url).searchParams.get("exhibitorId");
+    const all = exhibitorId
+      ? await deviceSessions.find({ exhibitorId })
+      : await deviceSessions.list();
+
+    const active = all
+      .filter((d) => isDeviceActive(d))
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+
+    return NextResponse.json(active);
+  } catch (err) {
+    console.error("Error reading devices:", err);
+    return NextResponse.json({ error: "Error reading devices" }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../lib/auth";
+import { entryLogs, eventSessions } from "../../lib/repositories";
+
+// GET /api/entries?attendeeId=|eventId= – entries and exits, oldest first,
+// with session titles filled in
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
+
+  try {
+    const params = new URL(request.url).searchParams;
+    const attendeeId = params.get("attendeeId");
+    const eventId = params.get("eventId");
+    if (!attendeeId && !eventId) {
+      return NextResponse.json({ error: "attendeeId or eventId is required" }, { status: 400 });
+    }
+
+    const where: Record<string, string> = {};
+    if (attendeeId) where.attendeeId = attendeeId;
+    if (eventId) where.eventId = eventId;
+
+    const log = await entryLogs.find(where);
+    const titles = new Map((await eventSessions.list()).map((s) => [s.id, s.title]));
+
+    return NextResponse.json(
+      [...log]
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .map((e) => ({ ...e, sessionTitle: e.sessionId ? titles.get(e.sessionId) || "" : undefined }))
+    );
+  } catch (err) {
+    console.error("Entries API error:", err);
+    return NextResponse.json({ error: "Error reading entries" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { parseEventInput, publicEvent } from "../../../lib/events";
+import { events } from "../../../lib/repositories";
+
+export async function GET(request: Request, { params }) {
+  try {
+    const event = await events.get(params.id);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const { staff } = await authorize(request, "events:write");
+    return NextResponse.json(staff ? event : publicEvent(event));
+  } catch (err) {
+    console.error("Event read error:", err);
+    return NextResponse.json({ error: "Error reading event" }, { status: 500 });
+  }
+}
+
+// PATCH updates details. Send { archived: true } to archive an event or
+// { archived: false } to restore it; there is no delete.
+export async function PATCH(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "events:write");
+  if (denied) return denied;
+
+  try {
+    const id = params.id;
+    const current = await events.get(id);
+    if (!current) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const payload = await request.json();
+    const { data, error } = parseEventInput(payload, current);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const updated = await events.update(id, (existing) => {
+      const next = { ...existing, ...data };
+      if (payload.archived === true) {
+        next.archivedAt = existing.archivedAt || new Date().toISOString();
+      } else if (payload.archived === false) {
+        delete next.archivedAt;
+      }
+      return next;
+    });
+
+    if (!updated) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const archiving = !current.archivedAt && updated.archivedAt;
+    const restoring = current.archivedAt && !updated.archivedAt;
+    await recordAudit(request, staff, {
+      action: archiving ? "event.archive" : restoring ? "event.restore" : "event.update",
+      targetType: "event",
+      targetId: id,
+      eventId: id,
+      before: current,
+      after: updated,
+    });
+
+    return NextResponse.json({ success: true, event: updated });
+  } catch (err) {
+    console.error("Event update error:", err);
+    return NextResponse.json({ error: "Error updating event" }, { status: 500 });
+  }
+}
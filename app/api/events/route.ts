@@ -1,19 +1,54 @@
+import crypto from "crypto";
 import { NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
+import { recordAudit } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { isArchived, parseEventInput, publicEvent } from "../../lib/events";
+import { events } from "../../lib/repositories";
+import type { EventRecord } from "../../lib/types";
 
-const eventsFile = path.join(process.cwd(), "data", "events.json");
-
-export async function GET() {
+// GET /api/events?includeArchived=1
+export async function GET(request: Request) {
   try {
-    const file = await fs.promises.readFile(eventsFile, "utf8");
-    const events = JSON.parse(file);
-    return NextResponse.json(Array.isArray(events) ? events : []);
+    const includeArchived = new URL(request.url).searchParams.get("includeArchived") === "1";
+    const { staff } = await authorize(request, "events:write");
+
+    const all = await events.list();
+    const visible = includeArchived ? all : all.filter((evt) => !isArchived(evt));
+
+    return NextResponse.json(staff ? visible : visible.map(publicEvent));
   } catch (err: any) {
-    if (err.code === "ENOENT") {
-      return NextResponse.json([]);
-    }
     console.error("Events list API error:", err);
     return NextResponse.json({ error: "Error reading events" }, { status: 500 });
   }
 }
+
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "events:write");
+  if (denied) return denied;
+
+  try {
+    const { data, error } = parseEventInput(await request.json());
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const event: EventRecord = {
+      id: `evt_${crypto.randomUUID().slice(0, 8)}`,
+      ...data,
+      createdAt: new Date().toISOString(),
+    };
+    await events.insert(event);
+    await recordAudit(request, staff, {
+      action: "event.create",
+      targetType: "event",
+      targetId: event.id,
+      eventId: event.id,
+      after: event,
+    });
+
+    return NextResponse.json({ event }, { status: 201 });
+  } catch (err) {
+    console.error("Event create error:", err);
+    return NextResponse.json({ error: "Error creating event" }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { revokeExhibitorCodes } from "../../../lib/activationCodes";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { revokeExhibitorDevices } from "../../../lib/devices";
+import {
+  findDuplicateExhibitor,
+  linkLeadsToExhibitor,
+  parseExhibitorInput,
+} from "../../../lib/exhibitors";
+import { events, exhibitorTokens, exhibitors, leads } from "../../../lib/repositories";
+
+export async function GET(request: Request, { params }) {
+  const { denied } = await authorize(request, "exhibitors:read");
+  if (denied) return denied;
+
+  try {
+    const exhibitor = await exhibitors.get(params.id);
+    if (!exhibitor) {
+      return NextResponse.json({ error: "Exhibitor not found" }, { status: 404 });
+    }
+    return NextResponse.json(exhibitor);
+  } catch (err) {
+    console.error("Exhibitor read error:", err);
+    return NextResponse.json({ error: "Error reading exhibitor" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "exhibitors:write");
+  if (denied) return denied;
+
+  try {
+    const id = params.id;
+    const current = await exhibitors.get(id);
+    if (!current) {
+      return NextResponse.json({ error: "Exhibitor not found" }, { status: 404 });
+    }
+
+    const { data, error } = parseExhibitorInput(await request.json(), current);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (data.eventId !== current.eventId && !(await events.get(data.eventId))) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    if (await findDuplicateExhibitor(data.name, data.eventId, id)) {
+      return NextResponse.json(
+        { error: "An exhibitor with this name is already registered for this event." },
+        { status: 409 }
+      );
+    }
+
+    const updated = await exhibitors.update(id, (existing) => ({ ...existing, ...data }));
+    if (!updated) {
+      return NextResponse.json({ error: "Exhibitor not found" }, { status: 404 });
+    }
+
+    await recordAudit(request, staff, {
+      action: "exhibitor.update",
+      targetType: "exhibitor",
+      targetId: id,
+      eventId: updated.eventId,
+      before: current,
+      after: updated,
+    });
+
+    // A rename may match leads typed under the new name
+    const linkedLeads = await linkLeadsToExhibitor(updated);
+
+    return NextResponse.json({
+      success: true,
+      exhibitor: updated,
+      linkedLeads,
+    });
+  } catch (err) {
+    console.error("Exhibitor update error:", err);
+    return NextResponse.json({ error: "Error updating exhibitor" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "exhibitors:write");
+  if (denied) return denied;
+
+  try {
+    const id = params.id;
+    const current = await exhibitors.get(id);
+    const removed = current ? await exhibitors.remove(id) : false;
+    if (!removed) {
+      return NextResponse.json({ error: "Exhibitor not found" }, { status: 404 });
+    }
+    await recordAudit(request, staff, {
+      action: "exhibitor.delete",
+      targetType: "exhibitor",
+      targetId: id,
+      eventId: current.eventId,
+      before: current,
+    });
+
+    // Leads stay (they keep the company name); portal links, activation
+    // codes and booth devices stop working
+    const owned = await leads.find({ exhibitorId: id });
+    for (const lead of owned) {
+      await leads.update(lead.id, (current) => {
+        const next = { ...current };
+        delete next.exhibitorId;
+        return next;
+      });
+    }
+    await exhibitorTokens.removeWhere((t) => t.exhibitorId === id);
+    await revokeExhibitorCodes(id);
+    await revokeExhibitorDevices(id);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Exhibitor delete error:", err);
+    return NextResponse.json({ error: "Error removing exhibitor" }, { status: 500 });
+  }
+}
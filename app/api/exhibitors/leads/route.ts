@@ -1,37 +1,9 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
+import { activeCodeFor } from "../../../lib/activationCodes";
+import { events, exhibitorTokens, exhibitors, leads } from "../../../lib/repositories";
+import type { ExhibitorToken } from "../../../lib/types";
 
-const tokensFile = path.join(process.cwd(), "data", "exhibitor_tokens.json");
-const leadsFile = path.join(process.cwd(), "data", "leads.json");
-
-type TokenRecord = {
-  email: string;
-  token: string;
-  expiresAt: string;
-};
-
-async function readTokens(): Promise<TokenRecord[]> {
-  try {
-    const file = await fs.promises.readFile(tokensFile, "utf8");
-    return JSON.parse(file);
-  } catch (err: any) {
-    if (err.code === "ENOENT") return [];
-    throw err;
-  }
-}
-
-async function readLeads() {
-  try {
-    const file = await fs.promises.readFile(leadsFile, "utf8");
-    return JSON.parse(file);
-  } catch (err: any) {
-    if (err.code === "ENOENT") return [];
-    throw err;
-  }
-}
-
-function isTokenValid(token: string, records: TokenRecord[]) {
+function isTokenValid(token: string, records: ExhibitorToken[]) {
   const now = Date.now();
   return records.find(
     (t) => t.token === token && new Date(t.expiresAt).getTime() > now
@@ -49,17 +21,29 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "Missing token" }, { status: 401 });
     }
 
-    const tokens = await readTokens();
+    const tokens = await exhibitorTokens.find({ token });
     const valid = isTokenValid(token, tokens);
 
     if (!valid) {
       return NextResponse.json({ error: "Invalid or expired token" }, { status: 401 });
     }
 
-    const leads = await readLeads();
+    // Links issued before the exhibitor registry existed can't be scoped,
+    // and a link stops working once its exhibitor moves to another event
+    const exhibitor = valid.exhibitorId ? await exhibitors.get(valid.exhibitorId) : null;
+    if (!exhibitor || exhibitor.eventId !== valid.eventId) {
+      return NextResponse.json(
+        { error: "This login link is out of date. Ask the organizer for a new one." },
+        { status: 401 }
+      );
+    }
+
+    const ownLeads = await leads.find({ exhibitorId: exhibitor.id, eventId: valid.eventId });
+    const event = await events.get(exhibitor.eventId);
+    const code = await activeCodeFor(exhibitor.id);
 
     // Normalize for the exhibitor portal
-    const normalized = leads.map((l: any) => ({
+    const normalized = ownLeads.map((l: any) => ({
       id: l.id,
       attendeeId: l.attendeeId ?? "",
       attendeeName: l.attendeeName || "",
@@ -70,7 +54,26 @@ export async function GET(request: Request) {
       eventId: l.eventId || "",
     }));
 
-    return NextResponse.json({ leads: normalized, email: valid.email });
+    return NextResponse.json({
+      leads: normalized,
+      email: valid.email,
+      exhibitor: {
+        id: exhibitor.id,
+        name: exhibitor.name,
+        boothNumber: exhibitor.boothNumber,
+        logoUrl: exhibitor.logoUrl,
+        eventId: exhibitor.eventId,
+        eventName: event?.name || exhibitor.eventId,
+        activationCode: code
+          ? {
+              code: code.code,
+              expiresAt: code.expiresAt,
+              usageCount: code.usageCount,
+              maxDevices: code.maxDevices,
+            }
+          : null,
+      },
+    });
   } catch (err) {
     console.error("Error fetching exhibitor leads:", err);
     return NextResponse.json({ error: "Error fetching leads" }, { status: 500 });
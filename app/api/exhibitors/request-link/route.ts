@@ -1,34 +1,27 @@
 import { NextResponse } from "next/server";
 import crypto from "crypto";
-import fs from "fs";
-import path from "path";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { events, exhibitorTokens, exhibitors } from "../../../lib/repositories";
 
-const tokensFile = path.join(process.cwd(), "data", "exhibitor_tokens.json");
-
-type TokenRecord = {
-  email: string;
-  token: string;
-  expiresAt: string; // ISO string
-};
+export async function POST(req: Request) {
+  // Only owners may issue exhibitor login links
+  const { staff, denied } = await authorize(req, "exhibitors:issue-link");
+  if (denied) return denied;
 
-async function readTokens(): Promise<TokenRecord[]> {
   try {
-    const file = await fs.promises.readFile(tokensFile, "utf8");
-    return JSON.parse(file);
-  } catch (err: any) {
-    if (err.code === "ENOENT") return [];
-    throw err;
-  }
-}
+    const { email, exhibitorId } = await req.json();
 
-async function writeTokens(tokens: TokenRecord[]) {
-  await fs.promises.writeFile(tokensFile, JSON.stringify(tokens, null, 2), "utf8");
-}
+    // A link only ever opens one exhibitor's leads for its event
+    const exhibitor = exhibitorId ? await exhibitors.get(exhibitorId) : null;
+    if (!exhibitor) {
+      return NextResponse.json({ error: "Exhibitor not found" }, { status: 404 });
+    }
 
-export async function POST(req: Request) {
-  try {
-    const { email } = await req.json();
-    const normalizedEmail = String(email || "").trim().toLowerCase();
+    // Default to the exhibitor's first contact
+    const normalizedEmail = String(email || exhibitor.contactEmails[0] || "")
+      .trim()
+      .toLowerCase();
 
     if (!normalizedEmail) {
       return NextResponse.json(
@@ -37,22 +30,35 @@ export async function POST(req: Request) {
       );
     }
 
-    const tokens = await readTokens();
+    const event = await events.get(exhibitor.eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
 
     // Remove expired tokens first
     const now = Date.now();
-    const validTokens = tokens.filter((t) => new Date(t.expiresAt).getTime() > now);
+    await exhibitorTokens.removeWhere((t) => new Date(t.expiresAt).getTime() <= now);
 
     const token = crypto.randomUUID();
     const expiresAt = new Date(now + 60 * 60 * 1000).toISOString(); // 1 hour
 
-    validTokens.push({
+    await exhibitorTokens.insert({
       email: normalizedEmail,
       token,
       expiresAt,
+      exhibitorId: exhibitor.id,
+      eventId: event.id,
     });
 
-    await writeTokens(validTokens);
+    // The token itself stays out of the log; who got a link, and when it
+    // expires, is what a review needs
+    await recordAudit(req, staff, {
+      action: "exhibitor.issue-link",
+      targetType: "exhibitor",
+      targetId: exhibitor.id,
+      eventId: event.id,
+      after: { email: normalizedEmail, expiresAt },
+    });
 
     // Relative link so it works locally and in prod
     const loginPath = `/exhibitors?token=${token}`;
@@ -62,8 +68,9 @@ export async function POST(req: Request) {
       loginUrl: loginPath,
       expiresAt,
       email: normalizedEmail,
-      note:
-        "Send this login link to the exhibitor. It is valid for 1 hour and can only be used with this email.",
+      exhibitorId: exhibitor.id,
+      eventId: event.id,
+      note: `Send this login link to ${normalizedEmail}. It is valid for 1 hour and only shows leads for ${exhibitor.name} at ${event.name}.`,
     });
   } catch (err) {
     console.error("Error issuing exhibitor login link:", err);
@@ -0,0 +1,72 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { issueActivationCode } from "../../lib/activationCodes";
+import { recordAudit } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import {
+  findDuplicateExhibitor,
+  linkLeadsToExhibitor,
+  parseExhibitorInput,
+} from "../../lib/exhibitors";
+import { events, exhibitors } from "../../lib/repositories";
+
+// GET /api/exhibitors?eventId=... - registered exhibitors, optionally for one event
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "exhibitors:read");
+  if (denied) return denied;
+
+  try {
+    const eventId = new URL(request.url).searchParams.get("eventId");
+    const all = eventId ? await exhibitors.find({ eventId }) : await exhibitors.list();
+
+    return NextResponse.json(all.sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (err) {
+    console.error("Error reading exhibitors:", err);
+    return NextResponse.json({ error: "Error reading exhibitors" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "exhibitors:write");
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const { data, error } = parseExhibitorInput(body);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!(await events.get(data.eventId))) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    if (await findDuplicateExhibitor(data.name, data.eventId)) {
+      return NextResponse.json(
+        { error: "An exhibitor with this name is already registered for this event." },
+        { status: 409 }
+      );
+    }
+
+    const exhibitor = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date().toISOString(),
+    };
+    await exhibitors.insert(exhibitor);
+    await recordAudit(request, staff, {
+      action: "exhibitor.create",
+      targetType: "exhibitor",
+      targetId: exhibitor.id,
+      eventId: exhibitor.eventId,
+      after: exhibitor,
+    });
+    const linkedLeads = await linkLeadsToExhibitor(exhibitor);
+    // Every exhibitor starts with a lead retrieval code
+    await issueActivationCode(exhibitor);
+
+    return NextResponse.json({ exhibitor, linkedLeads }, { status: 201 });
+  } catch (err) {
+    console.error("Exhibitor create error:", err);
+    return NextResponse.json({ error: "Error creating exhibitor" }, { status: 500 });
+  }
+}
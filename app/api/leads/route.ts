@@ -1,61 +1,74 @@
 // @ts-nocheck
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
+import { timestampId } from "../../lib/ids";
+import { authorize } from "../../lib/auth";
+import { resolveBadge } from "../../lib/badges";
+import { authorizeDevice } from "../../lib/devices";
+import { publish } from "../../lib/realtime";
+import { exhibitors, leads } from "../../lib/repositories";
 
 export const runtime = "nodejs";
 
-const leadsPath = path.join(process.cwd(), "data", "leads.json");
+// GET - return all leads, or one event's with ?eventId=
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "leads:read");
+  if (denied) return denied;
 
-// helper: read leads from file safely
-async function readLeadsFile() {
   try {
-    const raw = await fs.readFile(leadsPath, "utf8");
-    return JSON.parse(raw || "[]");
-  } catch (err) {
-    // file might not exist yet – treat as empty
-    return [];
-  }
-}
-
-// helper: write leads to file
-async function writeLeadsFile(leads: any[]) {
-  await fs.writeFile(leadsPath, JSON.stringify(leads, null, 2));
-}
-
-// GET - return all leads
-export async function GET() {
-  try {
-    const leads = await readLeadsFile();
-    return NextResponse.json(leads);
+    const eventId = new URL(request.url).searchParams.get("eventId");
+    const all = eventId ? await leads.find({ eventId }) : await leads.list();
+    return NextResponse.json(all);
   } catch (err) {
     console.error("Error reading leads:", err);
     return NextResponse.json({ error: "Cannot read leads" }, { status: 500 });
   }
 }
 
-// POST - add a new lead
+// POST - add a new lead from an activated booth device. The event and
+// exhibitor come from the device session, never from the request body.
 export async function POST(request: Request) {
+  const { device, denied } = await authorizeDevice(request);
+  if (denied) return denied;
+
   try {
     const body = await request.json();
+    const exhibitor = await exhibitors.get(device.exhibitorId);
+    if (!exhibitor) {
+      return NextResponse.json({ error: "Exhibitor no longer exists" }, { status: 404 });
+    }
 
-    const leads = await readLeadsFile();
+    // Leads only come from scanning a badge, whose QR must verify
+    if (typeof body.qr !== "string" || !body.qr) {
+      return NextResponse.json({ error: "Scan the attendee's badge" }, { status: 400 });
+    }
+    const badge = await resolveBadge(body.qr);
+    if (badge.error) {
+      return NextResponse.json({ error: badge.error }, { status: badge.status });
+    }
+    const attendee = badge.attendee;
+
+    if (attendee.eventId && attendee.eventId !== device.eventId) {
+      return NextResponse.json(
+        { error: "This attendee is registered for a different event" },
+        { status: 403 }
+      );
+    }
 
   const newLead = {
-  id: Date.now(),
-  eventId: body.eventId || "unknown_event",
-  attendeeId: body.attendeeId,
-  attendeeName: body.attendeeName,
-  attendeeEmail: body.attendeeEmail,
-  exhibitor: body.exhibitor || "Unknown Exhibitor",
+  id: timestampId(),
+  eventId: device.eventId,
+  attendeeId: attendee.id,
+  attendeeName: `${attendee.firstName || ""} ${attendee.lastName || ""}`.trim(),
+  attendeeEmail: attendee.email,
+  exhibitorId: exhibitor.id,
+  exhibitor: exhibitor.name,
   notes: body.notes || "",
   timestamp: new Date().toISOString(),
 };
 
 
-    leads.push(newLead);
-
-    await writeLeadsFile(leads);
+    await leads.insert(newLead);
+    publish({ type: "lead", eventId: newLead.eventId, data: newLead });
 
     return NextResponse.json(newLead, { status: 201 });
   } catch (err) {
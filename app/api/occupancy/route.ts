@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../lib/auth";
+import { occupancyReport } from "../../lib/occupancy";
+import { events } from "../../lib/repositories";
+
+// GET /api/occupancy?eventId= – how many people are inside the venue and
+// each session right now, with alert levels
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
+
+  try {
+    const eventId = new URL(request.url).searchParams.get("eventId");
+    if (!eventId) {
+      return NextResponse.json({ error: "eventId is required" }, { status: 400 });
+    }
+    const event = await events.get(eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await occupancyReport(event));
+  } catch (err) {
+    console.error("Occupancy API error:", err);
+    return NextResponse.json({ error: "Error reading occupancy" }, { status: 500 });
+  }
+}
@@ -0,0 +1,2 @@
+// Event-specific registration URL; same handler, event taken from the path
+export { POST } from "../route";
@@ -1,76 +1,23 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
+import { badgeQrValue } from "../../lib/badges";
+import { normalizeRegistration, registerAttendee } from "../../lib/registration";
 
-const attendeesFile = path.join(process.cwd(), "data", "attendees.json");
-
-async function readAttendees() {
-  try {
-    const file = await fs.promises.readFile(attendeesFile, "utf8");
-    return JSON.parse(file);
-  } catch (err) {
-    // If file doesn't exist yet, start with empty array
-    if (err.code === "ENOENT") {
-      return [];
-    }
-    throw err;
-  }
-}
-
-async function writeAttendees(attendees) {
-  await fs.promises.writeFile(
-    attendeesFile,
-    JSON.stringify(attendees, null, 2),
-    "utf8"
-  );
-}
-
-export async function POST(req) {
+// POST /api/register with eventId in the body, or POST /api/register/[eventId]
+export async function POST(req, { params }: { params?: { eventId?: string } } = {}) {
   try {
     const body = await req.json();
-    const { firstName, lastName, email, company } = body;
-
-    if (!firstName || !lastName || !email) {
-      return NextResponse.json(
-        { error: "firstName, lastName, and email are required" },
-        { status: 400 }
-      );
-    }
-
-    const attendees = await readAttendees();
+    const input = normalizeRegistration({ ...body, eventId: params?.eventId || body.eventId });
 
-    // Enforce one registration per email (case-insensitive, trimmed)
-    const normalizedEmail = String(email).trim().toLowerCase();
-    const duplicate = attendees.find(
-      (a) => String(a.email || "").trim().toLowerCase() === normalizedEmail
-    );
-    if (duplicate) {
-      return NextResponse.json(
-        { error: "An attendee with this email is already registered." },
-        { status: 409 }
-      );
+    const { attendee, error, status } = await registerAttendee(input);
+    if (error) {
+      return NextResponse.json({ error }, { status });
     }
 
-    // Simple unique ID: current timestamp
-    const id = String(Date.now());
-
-    const newAttendee = {
-      id,
-      firstName,
-      lastName,
-      email: normalizedEmail,
-      company: company || "",
-      createdAt: new Date().toISOString(),
-    };
-
-    attendees.push(newAttendee);
-    await writeAttendees(attendees);
-
-    const qrValue = `hemisphere:${id}`;
+    const qrValue = await badgeQrValue(attendee);
 
     return NextResponse.json(
       {
-        attendee: newAttendee,
+        attendee,
         qrValue, // this is what goes on the badge QR
       },
       { status: 201 }
@@ -1,43 +1,57 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
-
-const scanLogPath = path.join(process.cwd(), "data", "scanlogs.json");
+import { timestampId } from "../../lib/ids";
+import { authorize } from "../../lib/auth";
+import { clientTimestamp, idempotent, readIdempotencyKey } from "../../lib/idempotency";
+import { publish } from "../../lib/realtime";
+import { attendees, scanLogs } from "../../lib/repositories";
+import { checkinStamp } from "../../lib/stations";
 
 // GET – get all logs
-export async function GET() {
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "scanlogs:read");
+  if (denied) return denied;
+
   try {
-    const data = await fs.readFile(scanLogPath, "utf8");
-    const logs = JSON.parse(data);
+    const logs = await scanLogs.list();
     return NextResponse.json(logs);
   } catch (err) {
     return NextResponse.json({ error: "Cannot read scan logs" }, { status: 500 });
   }
 }
 
-// POST – add a log entry
+// POST – add a log entry, stamped with the station and signed-in operator
 export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "checkin:write");
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const method = body.method || "scan";
 
-    const current = await fs.readFile(scanLogPath, "utf8");
-    const logs = JSON.parse(current);
-
-    const newLog = {
-      id: Date.now(),
-      attendeeId: body.attendeeId,
-      attendeeName: body.attendeeName,
-      attendeeEmail: body.attendeeEmail,
-      method,
-      timestamp: new Date().toISOString(),
-    };
-
-    logs.push(newLog);
-
-    await fs.writeFile(scanLogPath, JSON.stringify(logs, null, 2));
-
-    return NextResponse.json(newLog);
+    const { stamp, error } = await checkinStamp(staff, body.stationId);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    // A replayed key returns the original entry instead of logging twice
+    return await idempotent("scanlog", readIdempotencyKey(request, body), async () => {
+      const attendee = body.attendeeId ? await attendees.get(body.attendeeId) : null;
+      const newLog = {
+        id: timestampId(),
+        eventId: attendee?.eventId,
+        attendeeId: body.attendeeId,
+        attendeeName: body.attendeeName,
+        attendeeEmail: body.attendeeEmail,
+        method,
+        timestamp: clientTimestamp(body.timestamp),
+        ...stamp,
+      };
+
+      await scanLogs.insert(newLog);
+      publish({ type: "scanlog", eventId: newLog.eventId, data: newLog });
+
+      return { status: 200, body: newLog };
+    });
   } catch (err) {
     return NextResponse.json({ error: "Unable to save scan" }, { status: 500 });
   }
@@ -1,26 +1,13 @@
 // @ts-nocheck
-import fs from "fs/promises";
-import path from "path";
+import { authorize } from "../../../lib/auth";
+import { scanLogs } from "../../../lib/repositories";
 
-export async function GET() {
-  try {
-    const filePath = path.join(process.cwd(), "data", "scanlogs.json");
-
-    // Try to read scanlogs.json
-    let raw;
-    try {
-      raw = await fs.readFile(filePath, "utf8");
-    } catch {
-      // If file doesn't exist yet, pretend it's empty
-      raw = "[]";
-    }
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "scanlogs:read");
+  if (denied) return denied;
 
-    let logs;
-    try {
-      logs = JSON.parse(raw);
-    } catch {
-      logs = [];
-    }
+  try {
+    const logs = await scanLogs.list();
 
     const headers = [
       "id",
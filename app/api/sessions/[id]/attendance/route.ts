@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../lib/auth";
+import { attendance, eventSessions } from "../../../../lib/repositories";
+
+// GET /api/sessions/:id/attendance – who was admitted, in scan order
+export async function GET(request: Request, { params }) {
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
+
+  try {
+    const session = await eventSessions.get(params.id);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const records = await attendance.find({ sessionId: session.id });
+    return NextResponse.json({
+      session: { ...session, attendanceCount: records.length },
+      attendance: [...records].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    });
+  } catch (err) {
+    console.error("Session attendance API error:", err);
+    return NextResponse.json({ error: "Error reading attendance" }, { status: 500 });
+  }
+}
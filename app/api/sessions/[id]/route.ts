@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { eventSessions } from "../../../lib/repositories";
+import { parseSessionInput, withCounts } from "../../../lib/sessions";
+
+// PATCH edits a session. Send { archived: true } to take it off the scanners
+// or { archived: false } to restore it; sessions are never deleted because
+// attendance records point at them.
+export async function PATCH(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "sessions:manage");
+  if (denied) return denied;
+
+  try {
+    const id = params.id;
+    const current = await eventSessions.get(id);
+    if (!current) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const payload = await request.json();
+    const { data, error } = parseSessionInput(payload, current);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const updated = await eventSessions.update(id, (existing) => {
+      const next = { ...existing, ...data };
+      if (payload.archived === true) {
+        next.archivedAt = existing.archivedAt || new Date().toISOString();
+      } else if (payload.archived === false) {
+        delete next.archivedAt;
+      }
+      return next;
+    });
+
+    if (!updated) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const archiving = !current.archivedAt && updated.archivedAt;
+    const restoring = current.archivedAt && !updated.archivedAt;
+    await recordAudit(request, staff, {
+      action: archiving ? "session.archive" : restoring ? "session.restore" : "session.update",
+      targetType: "session",
+      targetId: id,
+      eventId: updated.eventId,
+      before: current,
+      after: updated,
+    });
+
+    const [session] = await withCounts([updated]);
+    return NextResponse.json({ success: true, session });
+  } catch (err) {
+    console.error("Session update error:", err);
+    return NextResponse.json({ error: "Error updating session" }, { status: 500 });
+  }
+}
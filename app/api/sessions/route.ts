@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { eventSessions, events } from "../../lib/repositories";
+import { parseSessionInput, withCounts } from "../../lib/sessions";
+import type { EventSession } from "../../lib/types";
+
+// GET /api/sessions?eventId=&includeArchived=1 – the event's program in time
+// order, each with how many were admitted and how many are inside now
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
+
+  try {
+    const params = new URL(request.url).searchParams;
+    const eventId = params.get("eventId");
+    const includeArchived = params.get("includeArchived") === "1";
+
+    const all = eventId ? await eventSessions.find({ eventId }) : await eventSessions.list();
+    const visible = includeArchived ? all : all.filter((s) => !s.archivedAt);
+    const sorted = [...visible].sort(
+      (a, b) => a.startsAt.localeCompare(b.startsAt) || a.title.localeCompare(b.title)
+    );
+    return NextResponse.json(await withCounts(sorted));
+  } catch (err) {
+    console.error("Sessions list API error:", err);
+    return NextResponse.json({ error: "Error reading sessions" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "sessions:manage");
+  if (denied) return denied;
+
+  try {
+    const { data, error } = parseSessionInput(await request.json());
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!(await events.get(data.eventId))) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const session: EventSession = {
+      id: `ses_${crypto.randomUUID().slice(0, 8)}`,
+      ...data,
+      createdAt: new Date().toISOString(),
+    };
+    await eventSessions.insert(session);
+    await recordAudit(request, staff, {
+      action: "session.create",
+      targetType: "session",
+      targetId: session.id,
+      eventId: session.eventId,
+      after: session,
+    });
+
+    return NextResponse.json({ session: { ...session, attendanceCount: 0, occupancy: 0 } }, { status: 201 });
+  } catch (err) {
+    console.error("Session create error:", err);
+    return NextResponse.json({ error: "Error creating session" }, { status: 500 });
+  }
+}
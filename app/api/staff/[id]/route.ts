@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import {
+  authorize,
+  destroyStaffSessions,
+  hashPassword,
+  isStaffRole,
+  publicStaff,
+  readSessionToken,
+} from "../../../lib/auth";
+import { staff } from "../../../lib/repositories";
+import type { StaffAccount } from "../../../lib/types";
+
+async function isLastOwner(id: string) {
+  const owners = await staff.find({ role: "owner" });
+  return owners.length === 1 && owners[0].id === id;
+}
+
+export async function PATCH(request: Request, { params }) {
+  const { staff: actor, denied } = await authorize(request, "staff:manage");
+  if (denied) return denied;
+
+  try {
+    const id = params.id;
+    const payload = await request.json();
+
+    if (payload.role !== undefined && !isStaffRole(payload.role)) {
+      return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+    }
+    if (payload.role && payload.role !== "owner" && (await isLastOwner(id))) {
+      return NextResponse.json(
+        { error: "At least one owner account is required" },
+        { status: 400 }
+      );
+    }
+    if (payload.password !== undefined && String(payload.password).length < 8) {
+      return NextResponse.json(
+        { error: "Password must be at least 8 characters" },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = payload.password ? await hashPassword(String(payload.password)) : null;
+
+    let before: StaffAccount | null = null;
+    const updated = await staff.update(id, (current) => {
+      before = current;
+      return {
+        ...current,
+        ...(payload.name ? { name: String(payload.name).trim() } : {}),
+        ...(payload.role ? { role: payload.role } : {}),
+        ...(passwordHash ? { passwordHash } : {}),
+      };
+    });
+
+    if (!updated) {
+      return NextResponse.json({ error: "Staff account not found" }, { status: 404 });
+    }
+
+    await recordAudit(request, actor, {
+      action: "staff.update",
+      targetType: "staff",
+      targetId: id,
+      before,
+      after: updated,
+    });
+
+    // A new password signs out whoever knew the old one. Owners changing
+    // their own stay signed in here.
+    if (passwordHash) {
+      await destroyStaffSessions(id, id === actor.id ? readSessionToken(request) : "");
+    }
+
+    return NextResponse.json({ success: true, staff: publicStaff(updated) });
+  } catch (err) {
+    console.error("Staff update error:", err);
+    return NextResponse.json({ error: "Error updating staff account" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }) {
+  const { staff: actor, denied } = await authorize(request, "staff:manage");
+  if (denied) return denied;
+
+  try {
+    const id = params.id;
+
+    if (await isLastOwner(id)) {
+      return NextResponse.json(
+        { error: "At least one owner account is required" },
+        { status: 400 }
+      );
+    }
+
+    const current = await staff.get(id);
+    const removed = current ? await staff.remove(id) : false;
+    if (!removed) {
+      return NextResponse.json({ error: "Staff account not found" }, { status: 404 });
+    }
+    await recordAudit(request, actor, {
+      action: "staff.delete",
+      targetType: "staff",
+      targetId: id,
+      before: current,
+    });
+
+    // Sign the removed account out everywhere
+    await destroyStaffSessions(id);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Staff delete error:", err);
+    return NextResponse.json({ error: "Error removing staff account" }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import {
+  authorize,
+  createSession,
+  hashPassword,
+  isStaffRole,
+  publicStaff,
+  setSessionCookie,
+} from "../../lib/auth";
+import { recordAudit } from "../../lib/audit";
+import { staff } from "../../lib/repositories";
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "staff:manage");
+  if (denied) return denied;
+
+  try {
+    const accounts = await staff.list();
+    return NextResponse.json(accounts.map(publicStaff));
+  } catch (err) {
+    console.error("Staff list error:", err);
+    return NextResponse.json({ error: "Error reading staff accounts" }, { status: 500 });
+  }
+}
+
+// Owners create accounts. When no accounts exist yet, anyone may create the
+// first one; it is always an owner and is signed in straight away.
+export async function POST(request: Request) {
+  try {
+    const existing = await staff.list();
+    const bootstrap = existing.length === 0;
+
+    let actor = null;
+    if (!bootstrap) {
+      const { staff: owner, denied } = await authorize(request, "staff:manage");
+      if (denied) return denied;
+      actor = owner;
+    }
+
+    const body = await request.json();
+    const email = String(body.email || "").trim().toLowerCase();
+    const name = String(body.name || "").trim();
+    const password = String(body.password || "");
+    const role = bootstrap ? "owner" : body.role;
+
+    if (!email || !name) {
+      return NextResponse.json({ error: "Name and email are required" }, { status: 400 });
+    }
+    if (password.length < 8) {
+      return NextResponse.json(
+        { error: "Password must be at least 8 characters" },
+        { status: 400 }
+      );
+    }
+    if (!isStaffRole(role)) {
+      return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+    }
+
+    const account = {
+      id: crypto.randomUUID(),
+      email,
+      name,
+      role,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString(),
+    };
+    // Checked again by the store as it inserts, so two people opening a
+    // fresh install together can't both become its first owner, and two
+    // owners can't add the same email at once, even on separate servers
+    const created = await staff.insertUnless(account, (other) => bootstrap || other.email === email);
+    if (!created) {
+      return NextResponse.json(
+        bootstrap
+          ? { error: "This install already has an owner. Sign in to add accounts." }
+          : { error: "A staff account with this email already exists." },
+        { status: 409 }
+      );
+    }
+
+    // The first account creates itself
+    await recordAudit(request, actor || account, {
+      action: "staff.create",
+      targetType: "staff",
+      targetId: account.id,
+      after: account,
+    });
+
+    const response = NextResponse.json({ staff: publicStaff(account) }, { status: 201 });
+    if (bootstrap) {
+      const { token, expiresAt } = await createSession(account.id);
+      setSessionCookie(response, token, expiresAt);
+    }
+    return response;
+  } catch (err) {
+    console.error("Staff create error:", err);
+    return NextResponse.json({ error: "Error creating staff account" }, { status: 500 });
+  }
+}
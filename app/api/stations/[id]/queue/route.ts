@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../lib/auth";
+import { stations } from "../../../../lib/repositories";
+
+const MAX_QUEUE_LENGTH = 1000;
+
+// POST { queueLength } – the scanner operator's count of people in line,
+// used for the dashboard's wait estimate
+export async function POST(request: Request, { params }) {
+  const { denied } = await authorize(request, "checkin:write");
+  if (denied) return denied;
+
+  try {
+    const { queueLength } = await request.json();
+    const value = Number(queueLength);
+    if (!Number.isInteger(value) || value < 0 || value > MAX_QUEUE_LENGTH) {
+      return NextResponse.json(
+        { error: "Queue length must be a whole number of people" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await stations.update(params.id, {
+      queueLength: value,
+      queueReportedAt: new Date().toISOString(),
+    });
+    if (!updated) {
+      return NextResponse.json({ error: "Station not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, station: updated });
+  } catch (err) {
+    console.error("Station queue error:", err);
+    return NextResponse.json({ error: "Error saving queue length" }, { status: 500 });
+  }
+}
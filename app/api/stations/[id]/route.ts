@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { stations } from "../../../lib/repositories";
+import { findDuplicateStation, parseStationInput } from "../../../lib/stations";
+
+// PATCH renames or moves a station. Send { archived: true } to retire it or
+// { archived: false } to bring it back; stations are never deleted because
+// scan logs point at them.
+export async function PATCH(request: Request, { params }) {
+  const { staff, denied } = await authorize(request, "stations:manage");
+  if (denied) return denied;
+
+  try {
+    const id = params.id;
+    const current = await stations.get(id);
+    if (!current) {
+      return NextResponse.json({ error: "Station not found" }, { status: 404 });
+    }
+
+    const payload = await request.json();
+    const { data, error } = parseStationInput(payload, current);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    if (await findDuplicateStation(data.name, data.eventId, id)) {
+      return NextResponse.json(
+        { error: `A station named "${data.name}" already exists for this event` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await stations.update(id, (existing) => {
+      const next = { ...existing, ...data };
+      if (payload.archived === true) {
+        next.archivedAt = existing.archivedAt || new Date().toISOString();
+      } else if (payload.archived === false) {
+        delete next.archivedAt;
+      }
+      return next;
+    });
+
+    if (!updated) {
+      return NextResponse.json({ error: "Station not found" }, { status: 404 });
+    }
+
+    const archiving = !current.archivedAt && updated.archivedAt;
+    const restoring = current.archivedAt && !updated.archivedAt;
+    await recordAudit(request, staff, {
+      action: archiving ? "station.archive" : restoring ? "station.restore" : "station.update",
+      targetType: "station",
+      targetId: id,
+      eventId: updated.eventId,
+      before: current,
+      after: updated,
+    });
+
+    return NextResponse.json({ success: true, station: updated });
+  } catch (err) {
+    console.error("Station update error:", err);
+    return NextResponse.json({ error: "Error updating station" }, { status: 500 });
+  }
+}
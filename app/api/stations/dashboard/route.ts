@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../lib/auth";
+import { stationDashboard } from "../../../lib/stations";
+
+const DEFAULT_WINDOW_MINUTES = 15;
+const MAX_WINDOW_MINUTES = 24 * 60;
+
+// GET /api/stations/dashboard?eventId=&windowMinutes=15
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "scanlogs:read");
+  if (denied) return denied;
+
+  try {
+    const params = new URL(request.url).searchParams;
+    const eventId = params.get("eventId");
+    if (!eventId) {
+      return NextResponse.json({ error: "eventId is required" }, { status: 400 });
+    }
+
+    const requested = Number(params.get("windowMinutes"));
+    const windowMinutes =
+      Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_WINDOW_MINUTES)
+        : DEFAULT_WINDOW_MINUTES;
+
+    return NextResponse.json(await stationDashboard(eventId, windowMinutes));
+  } catch (err) {
+    console.error("Station dashboard error:", err);
+    return NextResponse.json({ error: "Error loading station dashboard" }, { status: 500 });
+  }
+}
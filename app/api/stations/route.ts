@@ -0,0 +1,68 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { recordAudit } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { events, stations } from "../../lib/repositories";
+import { findDuplicateStation, parseStationInput } from "../../lib/stations";
+import type { Station } from "../../lib/types";
+
+// GET /api/stations?eventId=&includeArchived=1 – scanners pick from this list
+export async function GET(request: Request) {
+  const { denied } = await authorize(request, "checkin:write");
+  if (denied) return denied;
+
+  try {
+    const params = new URL(request.url).searchParams;
+    const eventId = params.get("eventId");
+    const includeArchived = params.get("includeArchived") === "1";
+
+    const all = eventId ? await stations.find({ eventId }) : await stations.list();
+    const visible = includeArchived ? all : all.filter((s) => !s.archivedAt);
+
+    return NextResponse.json([...visible].sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (err) {
+    console.error("Stations list API error:", err);
+    return NextResponse.json({ error: "Error reading stations" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const { staff, denied } = await authorize(request, "stations:manage");
+  if (denied) return denied;
+
+  try {
+    const { data, error } = parseStationInput(await request.json());
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (!(await events.get(data.eventId))) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    if (await findDuplicateStation(data.name, data.eventId)) {
+      return NextResponse.json(
+        { error: `A station named "${data.name}" already exists for this event` },
+        { status: 409 }
+      );
+    }
+
+    const station: Station = {
+      id: `stn_${crypto.randomUUID().slice(0, 8)}`,
+      ...data,
+      createdAt: new Date().toISOString(),
+    };
+    await stations.insert(station);
+    await recordAudit(request, staff, {
+      action: "station.create",
+      targetType: "station",
+      targetId: station.id,
+      eventId: station.eventId,
+      after: station,
+    });
+
+    return NextResponse.json({ station }, { status: 201 });
+  } catch (err) {
+    console.error("Station create error:", err);
+    return NextResponse.json({ error: "Error creating station" }, { status: 500 });
+  }
+}
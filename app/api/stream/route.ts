@@ -0,0 +1,80 @@
+import { authorize, can, getStaffForToken, readSessionToken } from "../../lib/auth";
+import { subscribe, type LiveEvent } from "../../lib/realtime";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle connection, and double as
+// a check that the session is still valid
+const HEARTBEAT_MS = 25 * 1000;
+
+// GET /api/stream?eventId= – server-sent events for attendee registrations,
+// edits and check-ins, entries and exits, session attendance, scan logs and
+// leads. Browsers reconnect on their own.
+export async function GET(request: Request) {
+  const { staff, denied } = await authorize(request, "attendees:read");
+  if (denied) return denied;
+
+  const eventId = new URL(request.url).searchParams.get("eventId");
+  const canSeeLeads = can(staff.role, "leads:read");
+  const canSeeScanLogs = can(staff.role, "scanlogs:read");
+  const token = readSessionToken(request);
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const close = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribe((event: LiveEvent) => {
+        if (eventId && event.eventId && event.eventId !== eventId) return;
+        if (event.type === "lead" && !canSeeLeads) return;
+        if (event.type === "scanlog" && !canSeeScanLogs) return;
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      });
+
+      const heartbeat = setInterval(async () => {
+        if (!(await getStaffForToken(token))) {
+          close();
+          return;
+        }
+        send(": ping\n\n");
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener("abort", close);
+      send("retry: 5000\n: connected\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+type Props = {
+  // Camera runs only while active; pages switch it off after each scan
+  active: boolean;
+  onScan: (raw: string) => void;
+  onError?: (message: string) => void;
+  className?: string;
+  frameClassName?: string;
+};
+
+type Decoder = (canvas: HTMLCanvasElement) => Promise<string | null>;
+
+// The JS decoder works on every frame pixel, so keep frames small and don't
+// run it on every animation frame
+const FALLBACK_MAX_WIDTH = 640;
+const FALLBACK_INTERVAL_MS = 120;
+
+// Native BarcodeDetector where the browser has it (Chrome, Edge, Android),
+// otherwise our own decoder on the video frames (Safari/iPad, Firefox).
+async function createDecoder(): Promise<{ decode: Decoder; native: boolean }> {
+  const AnyWindow = window as any;
+  if ("BarcodeDetector" in window) {
+    const formats: string[] = await AnyWindow.BarcodeDetector.getSupportedFormats?.().catch(() => []);
+    if (!formats || formats.includes("qr_code")) {
+      const detector = new AnyWindow.BarcodeDetector({ formats: ["qr_code"] });
+      return {
+        native: true,
+        decode: async (canvas) => {
+          const barcodes = await detector.detect(canvas);
+          return barcodes.length > 0 ? barcodes[0].rawValue || "" : null;
+        },
+      };
+    }
+  }
+
+  const { decodeQr } = await import("../lib/qrDecode");
+  return {
+    native: false,
+    decode: async (canvas) => {
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) return null;
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      return decodeQr(image.data, image.width, image.height);
+    },
+  };
+}
+
+// Camera preview plus the QR scan loop shared by the check-in scanner and the
+// exhibitor booth. Calls onScan once per detection and then waits for the
+// page to turn it back on.
+export default function QrScanner({
+  active,
+  onScan,
+  onError,
+  className = "relative w-full max-w-md aspect-[3/4] bg-black rounded-xl overflow-hidden",
+  frameClassName = "absolute inset-10 border-2 border-green-400 rounded-xl pointer-events-none",
+}: Props) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Read through refs so the running loop always calls the latest handlers
+  const onScanRef = useRef(onScan);
+  const onErrorRef = useRef(onError);
+  onScanRef.current = onScan;
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let frame: number | undefined;
+
+    async function start() {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        onErrorRef.current?.("This browser can't use the camera. Open the page over HTTPS in a current browser.");
+        return;
+      }
+
+      try {
+        const { decode, native } = await createDecoder();
+
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+        });
+        if (cancelled) {
+          // Switched off while the permission prompt was open
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
+
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = stream;
+          await video.play();
+        }
+
+        const next = () => {
+          if (cancelled) return;
+          if (native) {
+            frame = requestAnimationFrame(scanFrame);
+          } else {
+            timer = setTimeout(scanFrame, FALLBACK_INTERVAL_MS);
+          }
+        };
+
+        async function scanFrame() {
+          const video = videoRef.current;
+          const canvas = canvasRef.current;
+          const ctx = canvas?.getContext("2d", { willReadFrequently: !native });
+          if (!video || !canvas || !ctx || video.readyState !== 4) {
+            next();
+            return;
+          }
+
+          const scale = native ? 1 : Math.min(1, FALLBACK_MAX_WIDTH / video.videoWidth);
+          canvas.width = Math.round(video.videoWidth * scale);
+          canvas.height = Math.round(video.videoHeight * scale);
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+          try {
+            const raw = await decode(canvas);
+            if (raw !== null && !cancelled) {
+              onScanRef.current(raw);
+              return; // stop until the page turns scanning back on
+            }
+          } catch (err) {
+            console.error("Error detecting barcode:", err);
+          }
+
+          next();
+        }
+
+        next();
+      } catch (err) {
+        console.error("Error starting camera:", err);
+        onErrorRef.current?.("Unable to access camera. Check permissions or try a different browser.");
+      }
+    }
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (frame) cancelAnimationFrame(frame);
+      if (timer) clearTimeout(timer);
+      if (stream) {
+        stream.getTracks().forEach((t) => t.stop());
+      }
+    };
+  }, [active]);
+
+  return (
+    <>
+      <div className={className}>
+        <video ref={videoRef} className="w-full h-full object-cover" autoPlay muted playsInline />
+        {/* Scan frame */}
+        <div className={frameClassName} />
+      </div>
+      <canvas ref={canvasRef} className="hidden" />
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+type LiveHandlers = {
+  registration?: (attendee: any) => void;
+  attendee?: (attendee: any) => void;
+  checkin?: (attendee: any) => void;
+  attendance?: (record: any) => void;
+  entry?: (entry: any) => void;
+  scanlog?: (log: any) => void;
+  lead?: (lead: any) => void;
+};
+
+const EVENT_TYPES = [
+  "registration",
+  "attendee",
+  "checkin",
+  "attendance",
+  "entry",
+  "scanlog",
+  "lead",
+] as const;
+
+// Subscribes to /api/stream, optionally for one event, and calls the handler
+// for each change as it happens. Returns whether the stream is connected;
+// EventSource reconnects by itself after a drop.
+export function useLiveUpdates(handlers: LiveHandlers, eventId?: string | null) {
+  const [connected, setConnected] = useState(false);
+
+  // Read through a ref so the connection isn't reopened on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    const query = eventId ? `?eventId=${encodeURIComponent(eventId)}` : "";
+    const source = new EventSource(`/api/stream${query}`);
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    EVENT_TYPES.forEach((type) => {
+      source.addEventListener(type, (event) => {
+        try {
+          handlersRef.current[type]?.(JSON.parse((event as MessageEvent).data));
+        } catch (err) {
+          console.error(`Live ${type} update error:`, err);
+        }
+      });
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [eventId]);
+
+  return connected;
+}
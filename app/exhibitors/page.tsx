@@ -14,9 +14,19 @@ type Lead = {
   eventId?: string;
 };
 
-type Exhibitor = {
+type ExhibitorInfo = {
+  id: string;
   name: string;
-  activationCode: string;
+  boothNumber: string;
+  logoUrl: string;
+  eventId: string;
+  eventName: string;
+  activationCode: {
+    code: string;
+    expiresAt: string;
+    usageCount: number;
+    maxDevices: number;
+  } | null;
 };
 
 function formatDate(value: string) {
@@ -54,15 +64,15 @@ export default function ExhibitorPortal() {
   const searchParams = useSearchParams();
   const router = useRouter();
 
-  const [email, setEmail] = useState("");
   const [token, setToken] = useState<string | null>(null);
+  const [exhibitor, setExhibitor] = useState<ExhibitorInfo | null>(null);
   const [leads, setLeads] = useState<Lead[]>([]);
   const [loading, setLoading] = useState(false);
-  const [requesting, setRequesting] = useState(false);
   const [error, setError] = useState("");
   const [info, setInfo] = useState("");
-  const [sortBy, setSortBy] = useState("newest"); // newest | name | exhibitor
+  const [sortBy, setSortBy] = useState("newest"); // newest | name
   const [search, setSearch] = useState("");
+  const [activePage, setActivePage] = useState<"leads" | "leadRetrieval">("leads");
 
   // Pull token from URL or localStorage on first load
   useEffect(() => {
@@ -78,26 +88,10 @@ export default function ExhibitorPortal() {
     }
   }, [router, searchParams]);
 
-  useEffect(() => {
-    async function loadExhibitors() {
-      setLoadingExhibitors(true);
-      try {
-        const res = await fetch("/api/exhibitors/list", { cache: "no-store" });
-        if (!res.ok) return;
-        const data = await res.json();
-        setExhibitors(Array.isArray(data) ? data : []);
-      } catch (err) {
-        console.error("Load exhibitors error:", err);
-      } finally {
-        setLoadingExhibitors(false);
-      }
-    }
-    loadExhibitors();
-  }, []);
-
   useEffect(() => {
     if (!token) {
       setLeads([]);
+      setExhibitor(null);
       return;
     }
 
@@ -113,6 +107,7 @@ export default function ExhibitorPortal() {
           throw new Error(data.error || "Unable to fetch leads.");
         }
         setLeads(Array.isArray(data.leads) ? data.leads : []);
+        setExhibitor(data.exhibitor || null);
         setInfo(`Signed in as ${data.email}`);
       } catch (err: any) {
         console.error("Load leads error:", err);
@@ -127,30 +122,6 @@ export default function ExhibitorPortal() {
     load();
   }, [token]);
 
-  async function requestLink() {
-    setRequesting(true);
-    setError("");
-    setInfo("");
-    try {
-      const res = await fetch("/api/exhibitors/request-link", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email }),
-      });
-      const data = await res.json();
-      if (!res.ok) {
-        throw new Error(data.error || "Could not send magic link.");
-      }
-      setInfo(
-        `Magic link ready. Share this URL with the exhibitor: ${data.loginUrl}`
-      );
-    } catch (err: any) {
-      setError(err?.message || "Network error requesting link.");
-    } finally {
-      setRequesting(false);
-    }
-  }
-
   const filteredLeads = useMemo(() => {
     const term = search.trim().toLowerCase();
     let rows = leads.filter((l) => {
@@ -158,15 +129,12 @@ export default function ExhibitorPortal() {
       return (
         l.attendeeName.toLowerCase().includes(term) ||
         l.attendeeEmail.toLowerCase().includes(term) ||
-        (l.exhibitor || "").toLowerCase().includes(term) ||
         (l.notes || "").toLowerCase().includes(term)
       );
     });
 
     if (sortBy === "name") {
       rows = [...rows].sort((a, b) => a.attendeeName.localeCompare(b.attendeeName));
-    } else if (sortBy === "exhibitor") {
-      rows = [...rows].sort((a, b) => (a.exhibitor || "").localeCompare(b.exhibitor || ""));
     } else {
       rows = [...rows].sort(
         (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
@@ -175,12 +143,6 @@ export default function ExhibitorPortal() {
     return rows;
   }, [leads, search, sortBy]);
 
-  const filteredExhibitors = useMemo(() => {
-    const term = exhibitorSearch.trim().toLowerCase();
-    if (!term) return exhibitors;
-    return exhibitors.filter((e) => e.name.toLowerCase().includes(term));
-  }, [exhibitors, exhibitorSearch]);
-
   function downloadCsv() {
     const csv = toCsv(filteredLeads);
     const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
@@ -198,6 +160,7 @@ export default function ExhibitorPortal() {
     setToken(null);
     localStorage.removeItem("exhibitorToken");
     setLeads([]);
+    setExhibitor(null);
     setInfo("");
   }
 
@@ -243,13 +206,27 @@ export default function ExhibitorPortal() {
             borderBottomLeftRadius: 16,
           }}
         >
-          <h1 style={{ fontSize: 18, fontWeight: 700, marginBottom: 16 }}>
+          <h1 style={{ fontSize: 18, fontWeight: 700, marginBottom: exhibitor ? 4 : 16 }}>
             Exhibitor Portal
           </h1>
+          {exhibitor && (
+            <div style={{ marginBottom: 16 }}>
+              {exhibitor.logoUrl && (
+                <img
+                  src={exhibitor.logoUrl}
+                  alt={exhibitor.name}
+                  style={{ maxWidth: "100%", maxHeight: 48, objectFit: "contain", marginBottom: 8 }}
+                />
+              )}
+              <p style={{ color: "#9ca3af", fontSize: 12, margin: 0 }}>
+                {exhibitor.name}
+                {exhibitor.boothNumber ? ` · Booth ${exhibitor.boothNumber}` : ""} · {exhibitor.eventName}
+              </p>
+            </div>
+          )}
           <nav style={{ display: "grid", gap: 8 }}>
             {[
               { id: "leads", label: "Leads" },
-              { id: "exhibitors", label: "Exhibitors" },
               { id: "leadRetrieval", label: "Lead Retrieval" },
             ].map((item) => {
               const active = activePage === item.id;
@@ -317,19 +294,13 @@ export default function ExhibitorPortal() {
           >
             <div>
               <h2 style={{ fontSize: 22, fontWeight: 700, marginBottom: 4 }}>
-                {activePage === "leads"
-                  ? "Lead List"
-                  : activePage === "exhibitors"
-                  ? "Exhibitors"
-                  : "Lead Retrieval"}
+                {activePage === "leads" ? "Lead List" : "Lead Retrieval"}
               </h2>
               <p style={{ color: "#9ca3af", fontSize: 13 }}>
                 {activePage === "leads" &&
-                  "Request a magic link, sign in, filter leads, and download CSV."}
-                {activePage === "exhibitors" &&
-                  "Browse exhibitors tied to your event activity."}
+                  "Sign in with your login link, filter your booth's leads, and download CSV."}
                 {activePage === "leadRetrieval" &&
-                  "Share activation codes with exhibitors to enable lead capture."}
+                  "Use your activation code to enable lead capture on your booth devices."}
               </p>
             </div>
           </header>
@@ -370,47 +341,12 @@ export default function ExhibitorPortal() {
                     }}
                   >
                     <h3 style={{ fontSize: 16, fontWeight: 600, marginBottom: 8 }}>
-                      Send a magic link
+                      Need a login link?
                     </h3>
-                    <p style={{ color: "#9ca3af", fontSize: 13, marginBottom: 10 }}>
-                      Enter an exhibitor email. We generate a one-hour login link you can share.
+                    <p style={{ color: "#9ca3af", fontSize: 13 }}>
+                      Your event organizer issues a one-hour login link for your booth. It only
+                      shows the leads your team captured at that event.
                     </p>
-                    <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-                      <input
-                        type="email"
-                        placeholder="exhibitor@example.com"
-                        value={email}
-                        onChange={(e) => setEmail(e.target.value)}
-                        style={{
-                          flex: 1,
-                          minWidth: 220,
-                          borderRadius: 10,
-                          border: "1px solid #374151",
-                          padding: "10px 12px",
-                          backgroundColor: "#0b1120",
-                          color: "#e5e7eb",
-                          fontSize: 14,
-                        }}
-                      />
-                      <button
-                        onClick={requestLink}
-                        disabled={requesting || !email}
-                        style={{
-                          borderRadius: 10,
-                          padding: "10px 16px",
-                          border: "none",
-                          background:
-                            "linear-gradient(135deg, #10b981 0%, #06b6d4 100%)",
-                          color: "#04101f",
-                          fontWeight: 700,
-                          fontSize: 14,
-                          cursor: requesting ? "default" : "pointer",
-                          opacity: requesting || !email ? 0.8 : 1,
-                        }}
-                      >
-                        {requesting ? "Sending..." : "Generate Link"}
-                      </button>
-                    </div>
                   </div>
 
                   <div
@@ -454,7 +390,7 @@ export default function ExhibitorPortal() {
                   >
                     <div style={{ display: "flex", gap: 8, flexWrap: "wrap", flex: 1 }}>
                       <input
-                        placeholder="Search by name, email, or exhibitor"
+                        placeholder="Search by name, email, or notes"
                         value={search}
                         onChange={(e) => setSearch(e.target.value)}
                         style={{
@@ -482,7 +418,6 @@ export default function ExhibitorPortal() {
                       >
                         <option value="newest">Newest first</option>
                         <option value="name">Name A–Z</option>
-                        <option value="exhibitor">Exhibitor A–Z</option>
                       </select>
                     </div>
                     <button
@@ -515,7 +450,6 @@ export default function ExhibitorPortal() {
                         <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
                           <th style={thStyle}>Name</th>
                           <th style={thStyle}>Email</th>
-                          <th style={thStyle}>Exhibitor</th>
                           <th style={thStyle}>Scanned</th>
                           <th style={thStyle}>Notes</th>
                         </tr>
@@ -523,15 +457,15 @@ export default function ExhibitorPortal() {
                       <tbody>
                         {loading && (
                           <tr>
-                            <td colSpan={5} style={tdStyle}>
+                            <td colSpan={4} style={tdStyle}>
                               Loading leads...
                             </td>
                           </tr>
                         )}
                         {!loading && filteredLeads.length === 0 && (
                           <tr>
-                            <td colSpan={5} style={tdStyle}>
-                              No leads found. Adjust your filters or ask attendees to register.
+                            <td colSpan={4} style={tdStyle}>
+                              No leads found. Adjust your filters or scan some badges at your booth.
                             </td>
                           </tr>
                         )}
@@ -546,7 +480,6 @@ export default function ExhibitorPortal() {
                             >
                               <td style={tdStyle}>{lead.attendeeName || "Unknown"}</td>
                               <td style={tdStyle}>{lead.attendeeEmail || "—"}</td>
-                              <td style={tdStyle}>{lead.exhibitor || "—"}</td>
                               <td style={tdStyle}>{formatDate(lead.timestamp)}</td>
                               <td style={tdStyle}>
                                 {lead.notes ? (
@@ -565,89 +498,6 @@ export default function ExhibitorPortal() {
             </>
           )}
 
-          {activePage === "exhibitors" && (
-            <section
-              style={{
-                border: "1px solid #1f2937",
-                borderRadius: 12,
-                padding: 16,
-                backgroundColor: "#0f172a",
-              }}
-            >
-              <div
-                style={{
-                  display: "flex",
-                  gap: 8,
-                  flexWrap: "wrap",
-                  marginBottom: 12,
-                  alignItems: "center",
-                }}
-              >
-                <input
-                  placeholder="Search exhibitors"
-                  value={exhibitorSearch}
-                  onChange={(e) => setExhibitorSearch(e.target.value)}
-                  style={{
-                    flex: 1,
-                    minWidth: 240,
-                    borderRadius: 10,
-                    border: "1px solid #374151",
-                    padding: "10px 12px",
-                    backgroundColor: "#0b1120",
-                    color: "#e5e7eb",
-                    fontSize: 13,
-                  }}
-                />
-              </div>
-
-              <div
-                style={{
-                  borderRadius: 10,
-                  border: "1px solid #1f2937",
-                  overflow: "hidden",
-                }}
-              >
-                <table style={{ width: "100%", borderCollapse: "collapse" }}>
-                  <thead>
-                    <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
-                      <th style={thStyle}>Exhibitor</th>
-                      <th style={thStyle}>Activation code</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {loadingExhibitors && (
-                      <tr>
-                        <td colSpan={2} style={tdStyle}>
-                          Loading exhibitors...
-                        </td>
-                      </tr>
-                    )}
-                    {!loadingExhibitors && filteredExhibitors.length === 0 && (
-                      <tr>
-                        <td colSpan={2} style={tdStyle}>
-                          No exhibitors found. Capture some leads to populate this list.
-                        </td>
-                      </tr>
-                    )}
-                    {!loadingExhibitors &&
-                      filteredExhibitors.map((exh) => (
-                        <tr
-                          key={exh.name}
-                          style={{
-                            borderBottom: "1px solid #111827",
-                            backgroundColor: "#0b1224",
-                          }}
-                        >
-                          <td style={tdStyle}>{exh.name}</td>
-                          <td style={tdStyle}>{exh.activationCode}</td>
-                        </tr>
-                      ))}
-                  </tbody>
-                </table>
-              </div>
-            </section>
-          )}
-
           {activePage === "leadRetrieval" && (
             <section
               style={{
@@ -657,71 +507,54 @@ export default function ExhibitorPortal() {
                 backgroundColor: "#0f172a",
               }}
             >
-              <p style={{ color: "#9ca3af", fontSize: 13, marginBottom: 12 }}>
-                Share these activation codes with exhibitors so they can enable lead capture in their apps.
-              </p>
-              <div
-                style={{
-                  borderRadius: 10,
-                  border: "1px solid #1f2937",
-                  overflow: "hidden",
-                }}
-              >
-                <table style={{ width: "100%", borderCollapse: "collapse" }}>
-                  <thead>
-                    <tr style={{ backgroundColor: "#0b1120", borderBottom: "1px solid #1f2937" }}>
-                      <th style={thStyle}>Exhibitor</th>
-                      <th style={thStyle}>Activation code</th>
-                      <th style={thStyle}>Action</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {loadingExhibitors && (
-                      <tr>
-                        <td colSpan={3} style={tdStyle}>
-                          Loading activation codes...
-                        </td>
-                      </tr>
-                    )}
-                    {!loadingExhibitors && filteredExhibitors.length === 0 && (
-                      <tr>
-                        <td colSpan={3} style={tdStyle}>
-                          No activation codes available yet.
-                        </td>
-                      </tr>
-                    )}
-                    {!loadingExhibitors &&
-                      filteredExhibitors.map((exh) => (
-                        <tr
-                          key={exh.name}
-                          style={{
-                            borderBottom: "1px solid #111827",
-                            backgroundColor: "#0b1224",
-                          }}
-                        >
-                          <td style={tdStyle}>{exh.name}</td>
-                          <td style={tdStyle}>{exh.activationCode}</td>
-                          <td style={tdStyle}>
-                            <button
-                              onClick={() => copyToClipboard(exh.activationCode)}
-                              style={{
-                                borderRadius: 8,
-                                padding: "6px 10px",
-                                border: "1px solid #38bdf8",
-                                backgroundColor: "transparent",
-                                color: "#38bdf8",
-                                fontSize: 12,
-                                cursor: "pointer",
-                              }}
-                            >
-                              Copy
-                            </button>
-                          </td>
-                        </tr>
-                      ))}
-                  </tbody>
-                </table>
-              </div>
+              {!exhibitor ? (
+                <p style={{ color: "#9ca3af", fontSize: 13 }}>
+                  Sign in with your login link to see your activation code.
+                </p>
+              ) : !exhibitor.activationCode ? (
+                <p style={{ color: "#9ca3af", fontSize: 13 }}>
+                  You don&apos;t have an active activation code. Ask the organizer for a new one.
+                </p>
+              ) : (
+                <>
+                  <p style={{ color: "#9ca3af", fontSize: 13, marginBottom: 12 }}>
+                    Enter this code in the lead retrieval app on each booth device for{" "}
+                    {exhibitor.eventName}.
+                  </p>
+                  <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                    <code
+                      style={{
+                        fontSize: 18,
+                        color: "#bbf7d0",
+                        padding: "8px 12px",
+                        borderRadius: 10,
+                        border: "1px dashed #374151",
+                        backgroundColor: "#0b1120",
+                      }}
+                    >
+                      {exhibitor.activationCode.code}
+                    </code>
+                    <button
+                      onClick={() => copyToClipboard(exhibitor.activationCode?.code || "")}
+                      style={{
+                        borderRadius: 8,
+                        padding: "6px 10px",
+                        border: "1px solid #38bdf8",
+                        backgroundColor: "transparent",
+                        color: "#38bdf8",
+                        fontSize: 12,
+                        cursor: "pointer",
+                      }}
+                    >
+                      Copy
+                    </button>
+                  </div>
+                  <p style={{ color: "#9ca3af", fontSize: 12, marginTop: 10 }}>
+                    {exhibitor.activationCode.usageCount} of {exhibitor.activationCode.maxDevices} devices
+                    activated · expires {formatDate(exhibitor.activationCode.expiresAt)}
+                  </p>
+                </>
+              )}
             </section>
           )}
         </section>
@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import { activationCodes } from "./repositories";
+import type { ActivationCode } from "./types";
+
+const DEFAULT_TTL_DAYS = 30;
+const DEFAULT_MAX_DEVICES = 5;
+
+// No 0/O or 1/I so codes survive being read out over the phone
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function randomCode() {
+  let raw = "";
+  for (let i = 0; i < 8; i += 1) {
+    raw += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+}
+
+// Booth staff type codes by hand: ignore case, spaces and the dash
+export function normalizeActivationCode(value: unknown) {
+  const raw = String(value ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return raw.length === 8 ? `${raw.slice(0, 4)}-${raw.slice(4)}` : raw;
+}
+
+export function codeStatus(record: ActivationCode, now = Date.now()) {
+  if (record.revokedAt) return "revoked";
+  if (new Date(record.expiresAt).getTime() <= now) return "expired";
+  if (record.usageCount >= record.maxDevices) return "full";
+  return "active";
+}
+
+export async function activeCodeFor(exhibitorId: string) {
+  const codes = await activationCodes.find({ exhibitorId });
+  return codes.find((c) => !c.revokedAt && codeStatus(c) !== "expired") || null;
+}
+
+// Issues a fresh code for the exhibitor and revokes whatever it had before,
+// so a leaked code can be rotated without touching anything else.
+export async function issueActivationCode(
+  exhibitor: { id: string; eventId: string },
+  options: { expiresInDays?: number; maxDevices?: number } = {}
+) {
+  const now = Date.now();
+  const days = options.expiresInDays || DEFAULT_TTL_DAYS;
+  const maxDevices = options.maxDevices || DEFAULT_MAX_DEVICES;
+
+  await revokeExhibitorCodes(exhibitor.id);
+
+  let code = randomCode();
+  while (await activationCodes.get(code)) {
+    code = randomCode();
+  }
+
+  const record: ActivationCode = {
+    code,
+    exhibitorId: exhibitor.id,
+    eventId: exhibitor.eventId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + days * 24 * 60 * 60 * 1000).toISOString(),
+    usageCount: 0,
+    maxDevices,
+  };
+  await activationCodes.insert(record);
+  return record;
+}
+
+export async function revokeExhibitorCodes(exhibitorId: string) {
+  const revokedAt = new Date().toISOString();
+  const codes = await activationCodes.find({ exhibitorId });
+  for (const c of codes.filter((c) => !c.revokedAt)) {
+    await activationCodes.update(c.code, { revokedAt });
+  }
+}
+
+// Counts one device against the code. The check runs inside the update so two
+// devices activating at once can't both take the last slot.
+export async function redeemActivationCode(value: unknown) {
+  const code = normalizeActivationCode(value);
+  let status = "invalid";
+
+  const updated = await activationCodes.update(code, (current) => {
+    status = codeStatus(current);
+    return status === "active" ? { ...current, usageCount: current.usageCount + 1 } : current;
+  });
+
+  return { status: updated ? status : "invalid", record: updated };
+}
@@ -0,0 +1,213 @@
+import { registrationLimitError } from "./attendeeTypes";
+import {
+  normalizeRegistration,
+  registerAll,
+  validateRegistration,
+  type RegistrationFields,
+  type RegistrationInput,
+} from "./registration";
+import { attendees, events } from "./repositories";
+import type { Attendee, CustomField, EventRecord } from "./types";
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export type ImportField = Exclude<keyof RegistrationInput, "customFields">;
+
+// Header spellings recognised when guessing the column mapping, compared
+// lowercased with spaces and punctuation removed
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  firstName: ["firstname", "first", "givenname", "forename"],
+  lastName: ["lastname", "last", "surname", "familyname"],
+  email: ["email", "emailaddress", "mail"],
+  company: ["company", "organization", "organisation", "employer", "companyname"],
+  eventId: ["eventid", "event", "eventname", "show"],
+  ticketCategory: ["ticketcategory", "ticket", "tickettype", "category", "pass", "passtype"],
+  attendeeType: ["attendeetype", "type", "badgetype", "role"],
+};
+
+export const IMPORT_FIELDS = Object.keys(FIELD_ALIASES) as ImportField[];
+
+// Field, or custom field id, -> zero-based column index; unmapped fields
+// are left out
+export type ColumnMapping = Record<string, number>;
+
+export type ImportRowResult = {
+  row: number; // line in the file, the header being line 1
+  status: "ready" | "created" | "duplicate" | "error";
+  data: RegistrationInput;
+  error?: string;
+  attendeeId?: string;
+};
+
+type ReadyRow = { result: number; fields: RegistrationFields };
+
+function headerKey(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Custom fields are those of the import's default event, matched by label
+export function guessMapping(headers: string[], customFields: CustomField[] = []): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const index = headers.findIndex((h) => FIELD_ALIASES[field].includes(headerKey(h)));
+    if (index >= 0) mapping[field] = index;
+  }
+  for (const field of customFields) {
+    const index = headers.findIndex((h) => headerKey(h) === headerKey(field.label));
+    if (index >= 0) mapping[field.id] = index;
+  }
+  return mapping;
+}
+
+// Keeps only fields we know, pointing at columns that exist
+export function parseMapping(
+  value: unknown,
+  columnCount: number,
+  customFields: CustomField[] = []
+): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of [...IMPORT_FIELDS, ...customFields.map((f) => f.id)]) {
+    const index = Number(value?.[field]);
+    if (Number.isInteger(index) && index >= 0 && index < columnCount) mapping[field] = index;
+  }
+  return mapping;
+}
+
+// Sponsor lists name the event rather than carry our id, so the event column
+// accepts either
+function findEvent(value: string, all: EventRecord[]) {
+  const name = value.toLowerCase();
+  return all.find((e) => e.id === value) || all.find((e) => e.name.trim().toLowerCase() === name) || null;
+}
+
+// Columns holding the event's custom fields. The mapping covers the
+// import's default event; other events' fields use a column mapped to a
+// default event field of the same label, or else a header of that label.
+function customColumns(
+  event: EventRecord,
+  mapping: ColumnMapping,
+  headers: string[],
+  defaultEvent: EventRecord | null
+): ColumnMapping {
+  const columns: ColumnMapping = {};
+  for (const field of event.customFields || []) {
+    if (mapping[field.id] !== undefined) {
+      columns[field.id] = mapping[field.id];
+      continue;
+    }
+    // The default event's unmapped fields were left out on purpose
+    if (event.id === defaultEvent?.id) continue;
+
+    const sameLabel = (defaultEvent?.customFields || []).find(
+      (f) => headerKey(f.label) === headerKey(field.label) && mapping[f.id] !== undefined
+    );
+    const index = sameLabel
+      ? mapping[sameLabel.id]
+      : headers.findIndex((h) => headerKey(h) === headerKey(field.label));
+    if (index >= 0) columns[field.id] = index;
+  }
+  return columns;
+}
+
+// Validates every row with the same rules as a single registration and
+// flags emails already registered for the event or repeated in the file.
+// Capacity and registration limits count earlier rows as well as who has
+// registered, so rows past the event's capacity are turned away.
+// Unless this is a dry run, the valid rows are then saved in one write per
+// event, which re-checks duplicates and limits, so a row that someone
+// registered in the meantime comes back as a duplicate rather than twice.
+export async function runImport(
+  rows: string[][],
+  options: { mapping: ColumnMapping; defaultEventId?: string; dryRun: boolean }
+) {
+  const headers = (rows[0] || []).map((h) => String(h ?? "").trim());
+  const allEvents = await events.list();
+  const defaultEvent = allEvents.find((e) => e.id === options.defaultEventId) || null;
+  const columnsByEvent = new Map<string, ColumnMapping>();
+  const columnsFor = (event: EventRecord) => {
+    if (!columnsByEvent.has(event.id)) {
+      columnsByEvent.set(event.id, customColumns(event, options.mapping, headers, defaultEvent));
+    }
+    return columnsByEvent.get(event.id)!;
+  };
+
+  const existing = await attendees.list();
+  const registered = new Set(existing.map((a) => `${a.eventId}|${a.email}`));
+  // Type and category of everyone registered, or about to be, by event
+  const holders = new Map<string, Pick<Attendee, "attendeeType" | "ticketCategoryId">[]>();
+  const heldAt = (eventId: string) => {
+    if (!holders.has(eventId)) holders.set(eventId, []);
+    return holders.get(eventId)!;
+  };
+  for (const a of existing) heldAt(a.eventId || "").push(a);
+  const firstRowFor = new Map<string, number>();
+  const results: ImportRowResult[] = [];
+  // Rows ready to save by event, as indexes into results
+  const ready = new Map<string, { event: EventRecord; rows: ReadyRow[] }>();
+
+  for (let i = 1; i < rows.length; i++) {
+    const cells = rows[i];
+    if (cells.every((cell) => !String(cell ?? "").trim())) continue;
+
+    const raw: Record<string, string> = {};
+    for (const field of IMPORT_FIELDS) {
+      if (options.mapping[field] !== undefined) raw[field] = String(cells[options.mapping[field]] ?? "");
+    }
+    const eventValue = (raw.eventId || "").trim() || options.defaultEventId || "";
+    const event = eventValue ? findEvent(eventValue, allEvents) : null;
+    const customFields: Record<string, string> = {};
+    for (const [id, index] of Object.entries(event ? columnsFor(event) : {})) {
+      customFields[id] = String(cells[index] ?? "");
+    }
+    const data = normalizeRegistration({ ...raw, customFields, eventId: event ? event.id : eventValue });
+
+    const line = i + 1;
+    const key = `${data.eventId}|${data.email}`;
+    const { fields, error } = validateRegistration(data, event, { byStaff: true });
+    const full = fields ? registrationLimitError(event, heldAt(data.eventId), fields) : null;
+
+    if (error) {
+      results.push({ row: line, status: "error", data, error });
+    } else if (registered.has(key)) {
+      results.push({ row: line, status: "duplicate", data, error: "Already registered for this event" });
+    } else if (firstRowFor.has(key)) {
+      results.push({ row: line, status: "duplicate", data, error: `Same email as row ${firstRowFor.get(key)}` });
+    } else if (full) {
+      results.push({ row: line, status: "error", data, error: full });
+    } else {
+      firstRowFor.set(key, line);
+      heldAt(data.eventId).push(fields);
+      if (!ready.has(event.id)) ready.set(event.id, { event, rows: [] });
+      ready.get(event.id)!.rows.push({ result: results.length, fields });
+      results.push({ row: line, status: "ready", data });
+    }
+  }
+
+  if (!options.dryRun) {
+    for (const { event, rows: saving } of ready.values()) {
+      const saved = await registerAll(
+        event,
+        saving.map(({ result, fields }) => ({ input: results[result].data, fields }))
+      );
+      saving.forEach(({ result }, i) => {
+        const { row, data } = results[result];
+        const { attendee, error, status } = saved[i];
+        results[result] = attendee
+          ? { row, status: "created", data, attendeeId: attendee.id }
+          : { row, status: status === 409 ? "duplicate" : "error", data, error };
+      });
+    }
+  }
+
+  const count = (status: ImportRowResult["status"]) => results.filter((r) => r.status === status).length;
+  return {
+    rows: results,
+    summary: {
+      total: results.length,
+      ready: count("ready"),
+      created: count("created"),
+      duplicates: count("duplicate"),
+      errors: count("error"),
+    },
+  };
+}
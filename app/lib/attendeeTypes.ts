@@ -0,0 +1,237 @@
+import type { AccessRule, Attendee, AttendeeTypeConfig, EventRecord, TicketCategory } from "./types";
+
+// An event's attendee types and ticket categories: who holds which, where
+// they may go and how many may register. Scanners check access against
+// their cached roster while offline, so this module must stay free of
+// server-only imports.
+
+const ID_RE = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+const MAX_TYPES = 20;
+const MAX_CATEGORIES = 30;
+const MAX_LABEL_LENGTH = 60;
+
+// Events that haven't set up their own types use these
+export const DEFAULT_ATTENDEE_TYPES: AttendeeTypeConfig[] = [
+  { id: "attendee", label: "Attendee", color: "#0ea5e9", limit: null, access: {} },
+  { id: "speaker", label: "Speaker", color: "#f97316", limit: null, access: {} },
+  { id: "exhibitor", label: "Exhibitor", color: "#22c55e", limit: null, access: {} },
+  { id: "staff", label: "Staff", color: "#a855f7", limit: null, access: {} },
+  { id: "press", label: "Press", color: "#ef4444", limit: null, access: {} },
+];
+
+type TypeSource = Pick<EventRecord, "attendeeTypes" | "ticketCategories"> | null | undefined;
+type Holder = Pick<Attendee, "attendeeType" | "ticketCategoryId">;
+
+export function eventAttendeeTypes(event: TypeSource) {
+  return event?.attendeeTypes?.length ? event.attendeeTypes : DEFAULT_ATTENDEE_TYPES;
+}
+
+// Attendees without a type, or whose type has been removed, count as the
+// "attendee" type, or the event's first type if it has none by that id
+export function attendeeTypeOf(event: TypeSource, attendee: Holder) {
+  const types = eventAttendeeTypes(event);
+  const id = attendee.attendeeType || "attendee";
+  return types.find((t) => t.id === id) || types.find((t) => t.id === "attendee") || types[0];
+}
+
+export function ticketCategoryOf(event: TypeSource, attendee: Holder): TicketCategory | null {
+  if (!attendee.ticketCategoryId) return null;
+  return event?.ticketCategories?.find((c) => c.id === attendee.ticketCategoryId) || null;
+}
+
+// What badges and door staff show for the attendee
+export function attendeeTypeInfo(event: TypeSource, attendee: Holder) {
+  const type = attendeeTypeOf(event, attendee);
+  const category = ticketCategoryOf(event, attendee);
+  return { id: type.id, label: type.label, color: type.color, ticket: category?.label || "" };
+}
+
+function allows(rule: AccessRule | undefined, key: keyof AccessRule, id: string) {
+  const list = rule?.[key];
+  return !list || list.includes(id);
+}
+
+// Why the attendee may not enter the session, or come in through the
+// station, or null if they may. Their type and their ticket category must
+// both allow it. Check-ins without a station only face the session rules.
+export function accessDenial(
+  event: TypeSource,
+  attendee: Holder,
+  place: { sessionId?: string; stationId?: string }
+) {
+  const type = attendeeTypeOf(event, attendee);
+  const category = ticketCategoryOf(event, attendee);
+  const holders: [string, AccessRule][] = [[`${type.label} badges`, type.access]];
+  if (category) holders.push([`${category.label} tickets`, category.access]);
+
+  for (const [holder, rule] of holders) {
+    if (place.sessionId && !allows(rule, "sessionIds", place.sessionId)) {
+      return `${holder} don't include this session`;
+    }
+    if (place.stationId && !allows(rule, "stationIds", place.stationId)) {
+      return `${holder} don't include this area`;
+    }
+  }
+  return null;
+}
+
+// ---- Registration ----
+
+// The type and category a new registration gets. The registration page may
+// only pick a public category, and gets that category's type. Staff imports
+// may pick any category or type, named by id or by label as spreadsheets
+// spell them; a type given alongside a category wins.
+export function registrationType(
+  event: TypeSource,
+  input: { attendeeType: string; ticketCategory: string },
+  byStaff: boolean
+):
+  | { attendeeType: string; ticketCategoryId?: string; error?: undefined }
+  | { attendeeType?: undefined; ticketCategoryId?: undefined; error: string } {
+  const match = <T extends { id: string; label: string }>(list: T[], value: string) =>
+    list.find((item) => item.id === value) ||
+    list.find((item) => item.label.toLowerCase() === value.toLowerCase()) ||
+    null;
+  const categories = (event?.ticketCategories || []).filter((c) => byStaff || c.public);
+
+  let category: TicketCategory | null = null;
+  if (input.ticketCategory) {
+    category = match(categories, input.ticketCategory);
+    if (!category) return { error: `Unknown ticket category: ${input.ticketCategory}` };
+  } else if (!byStaff && categories.length) {
+    return { error: "Choose a ticket category" };
+  }
+
+  if (input.attendeeType) {
+    if (!byStaff) return { error: "Attendee types are assigned by event staff" };
+    const type = match(eventAttendeeTypes(event), input.attendeeType);
+    if (!type) return { error: `Unknown attendee type: ${input.attendeeType}` };
+    return { attendeeType: type.id, ...(category ? { ticketCategoryId: category.id } : {}) };
+  }
+  if (category) return { attendeeType: category.attendeeType, ticketCategoryId: category.id };
+  return { attendeeType: attendeeTypeOf(event, {}).id };
+}
+
+// Why one more registration of this type and category doesn't fit, given
+// who has registered so far, or null if it does. The event's capacity caps
+// registrations of every type together.
+export function registrationLimitError(
+  event: Pick<EventRecord, "attendeeTypes" | "ticketCategories" | "capacity"> | null | undefined,
+  registered: Holder[],
+  assignment: Holder
+) {
+  if (event?.capacity && registered.length >= event.capacity) {
+    return "This event is full";
+  }
+  const type = attendeeTypeOf(event, assignment);
+  if (type.limit && registered.filter((a) => attendeeTypeOf(event, a).id === type.id).length >= type.limit) {
+    return `No more ${type.label} registrations are available`;
+  }
+  const category = ticketCategoryOf(event, assignment);
+  if (category?.limit && registered.filter((a) => a.ticketCategoryId === category.id).length >= category.limit) {
+    return `${category.label} is sold out`;
+  }
+  return null;
+}
+
+// ---- Definitions ----
+
+function slug(label: string) {
+  return (
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 32) || "type"
+  );
+}
+
+// Ids sent back are kept, so attendees holding them keep their type; new
+// entries get one from their label
+function assignId(raw: unknown, label: string, taken: Set<string>) {
+  const sent = String(raw ?? "");
+  let id = ID_RE.test(sent) && !taken.has(sent) ? sent : slug(label);
+  for (let n = 2; taken.has(id); n++) id = `${slug(label)}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+function parseLimit(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === "") return null;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : undefined;
+}
+
+function parseAccess(raw: any): AccessRule {
+  const access: AccessRule = {};
+  for (const key of ["sessionIds", "stationIds"] as const) {
+    if (Array.isArray(raw?.[key])) access[key] = [...new Set<string>(raw[key].map(String))];
+  }
+  return access;
+}
+
+function parseLabel(raw: any, labels: Set<string>, what: string) {
+  const label = String(raw?.label ?? "").trim().slice(0, MAX_LABEL_LENGTH);
+  if (!label) return { error: `Every ${what} needs a name` };
+  if (labels.has(label.toLowerCase())) return { error: `Two ${what}s are called "${label}"` };
+  labels.add(label.toLowerCase());
+  return { label };
+}
+
+// Validates an event's attendee types. An empty list means the built-in
+// types.
+export function parseAttendeeTypes(
+  value: unknown
+): { types: AttendeeTypeConfig[]; error?: undefined } | { types?: undefined; error: string } {
+  if (value === undefined || value === null) return { types: [] };
+  if (!Array.isArray(value)) return { error: "Attendee types must be a list" };
+  if (value.length > MAX_TYPES) return { error: `An event can have at most ${MAX_TYPES} attendee types` };
+
+  const types: AttendeeTypeConfig[] = [];
+  const ids = new Set<string>();
+  const labels = new Set<string>();
+  for (const raw of value) {
+    const { label, error } = parseLabel(raw, labels, "attendee type");
+    if (error) return { error };
+    const color = String(raw?.color ?? "").trim();
+    if (!COLOR_RE.test(color)) return { error: `"${label}" color must be a hex value like #0ea5e9` };
+    const limit = parseLimit(raw?.limit);
+    if (limit === undefined) return { error: `"${label}" limit must be a positive whole number` };
+    types.push({ id: assignId(raw?.id, label!, ids), label: label!, color, limit, access: parseAccess(raw?.access) });
+  }
+  return { types };
+}
+
+// Validates an event's ticket categories against its attendee types
+export function parseTicketCategories(
+  value: unknown,
+  types: AttendeeTypeConfig[]
+): { categories: TicketCategory[]; error?: undefined } | { categories?: undefined; error: string } {
+  if (value === undefined || value === null) return { categories: [] };
+  if (!Array.isArray(value)) return { error: "Ticket categories must be a list" };
+  if (value.length > MAX_CATEGORIES) {
+    return { error: `An event can have at most ${MAX_CATEGORIES} ticket categories` };
+  }
+
+  const categories: TicketCategory[] = [];
+  const ids = new Set<string>();
+  const labels = new Set<string>();
+  for (const raw of value) {
+    const { label, error } = parseLabel(raw, labels, "ticket category");
+    if (error) return { error };
+    const attendeeType = String(raw?.attendeeType ?? "");
+    if (!types.some((t) => t.id === attendeeType)) return { error: `"${label}" needs an attendee type` };
+    const limit = parseLimit(raw?.limit);
+    if (limit === undefined) return { error: `"${label}" limit must be a positive whole number` };
+    categories.push({
+      id: assignId(raw?.id, label!, ids),
+      label: label!,
+      attendeeType,
+      public: raw?.public === true,
+      limit,
+      access: parseAccess(raw?.access),
+    });
+  }
+  return { categories };
+}
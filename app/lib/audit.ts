@@ -0,0 +1,119 @@
+import crypto from "crypto";
+import { auditLog } from "./repositories";
+import type { AuditEntry, StaffAccount } from "./types";
+
+// Never copied into the log, only noted as changed. Activation codes sign
+// devices in, so they count as credentials too.
+const REDACTED_FIELDS = new Set(["passwordHash", "password", "token", "code", "activationCode"]);
+const REDACTED = "[redacted]";
+
+type AuditInput = {
+  action: string;
+  targetType: string;
+  targetId: string;
+  eventId?: string;
+  before?: object | null; // omit for creates
+  after?: object | null; // omit for deletes
+  actorName?: string; // for a failed sign-in, the email that was tried
+};
+
+function clientIp(request: Request) {
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return request.headers.get("x-real-ip") || "";
+}
+
+// Field-by-field difference of two versions of a record. Nested values
+// (e.g. branding) are compared as a whole.
+export function diffRecords(before: object | null | undefined, after: object | null | undefined) {
+  const changes: AuditEntry["changes"] = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    const was = before?.[key];
+    const now = after?.[key];
+    if (JSON.stringify(was) === JSON.stringify(now)) continue;
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { before: was === undefined ? undefined : REDACTED, after: now === undefined ? undefined : REDACTED }
+      : { before: was, after: now };
+  }
+  return changes;
+}
+
+// Appends an audit entry for a change the request made. An update that
+// changed nothing is not logged. Failures are only reported: the change has
+// already been saved and the caller should still get its answer.
+export async function recordAudit(
+  request: Request,
+  actor: StaffAccount | null | undefined,
+  input: AuditInput
+) {
+  try {
+    const changes = diffRecords(input.before, input.after);
+    if (input.before && input.after && Object.keys(changes).length === 0) return null;
+
+    const entry: AuditEntry = {
+      id: `aud_${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`,
+      timestamp: new Date().toISOString(),
+      actorId: actor?.id || null,
+      actorName: input.actorName || actor?.name || "",
+      ...(actor ? { actorRole: actor.role } : {}),
+      action: input.action,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      ...(input.eventId ? { eventId: input.eventId } : {}),
+      changes,
+      ip: clientIp(request),
+      userAgent: request.headers.get("user-agent") || "",
+    };
+    await auditLog.insert(entry);
+    return entry;
+  } catch (err) {
+    console.error("Audit log error:", err);
+    return null;
+  }
+}
+
+// Filters shared by the audit view and its export:
+//   q          free text over actor, action, target, IP and changed values
+//   action     exact action, or a prefix ending in "." (e.g. "attendee.")
+//   actorId, targetType, targetId, eventId   exact match
+//   from, to   YYYY-MM-DD or ISO timestamps, both inclusive
+// Newest first.
+export async function searchAudit(params: URLSearchParams) {
+  const q = (params.get("q") || "").trim().toLowerCase();
+  const action = params.get("action") || "";
+  const from = params.get("from") || "";
+  const to = params.get("to") || "";
+  // A bare date as the upper bound means the whole of that day
+  const toBound = /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to;
+
+  const exact = ["actorId", "targetType", "targetId", "eventId"]
+    .map((field) => [field, params.get(field)] as const)
+    .filter(([, value]) => value);
+
+  return (await auditLog.list())
+    .filter((entry) => {
+      if (action && !(action.endsWith(".") ? entry.action.startsWith(action) : entry.action === action)) {
+        return false;
+      }
+      if (exact.some(([field, value]) => entry[field] !== value)) return false;
+      if (from && entry.timestamp < from) return false;
+      if (toBound && entry.timestamp > toBound) return false;
+      if (q) {
+        const haystack = [
+          entry.actorName,
+          entry.action,
+          entry.targetType,
+          entry.targetId,
+          entry.ip,
+          JSON.stringify(entry.changes),
+        ]
+          .join(" ")
+          .toLowerCase();
+        if (!haystack.includes(q)) return false;
+      }
+      return true;
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
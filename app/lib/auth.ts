@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import { NextResponse } from "next/server";
+import { staff, staffSessions } from "./repositories";
+import type { StaffAccount, StaffRole } from "./types";
+
+export const SESSION_COOKIE = "hemisphere_session";
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // one show day
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+export const STAFF_ROLES: { id: StaffRole; label: string }[] = [
+  { id: "owner", label: "Owner" },
+  { id: "registration", label: "Registration staff" },
+  { id: "scanner", label: "Scanner only" },
+  { id: "analyst", label: "Read-only analyst" },
+];
+
+// Which roles may do what. Route handlers ask for a permission, never a role.
+const PERMISSIONS = {
+  "admin:access": ["owner", "registration", "analyst"],
+  "events:write": ["owner"],
+  "attendees:read": ["owner", "registration", "scanner", "analyst"],
+  "attendees:write": ["owner", "registration"],
+  "checkin:write": ["owner", "registration", "scanner"],
+  "stations:manage": ["owner", "registration"],
+  "sessions:manage": ["owner", "registration"],
+  "scanlogs:read": ["owner", "registration", "analyst"],
+  "leads:read": ["owner", "analyst"],
+  "exhibitors:read": ["owner", "registration", "analyst"],
+  "exhibitors:write": ["owner", "registration"],
+  "exhibitors:issue-link": ["owner"],
+  "activation-codes:manage": ["owner", "registration"],
+  "devices:manage": ["owner", "registration"],
+  "badges:manage": ["owner", "registration"],
+  "badges:print": ["owner", "registration", "scanner"],
+  "staff:manage": ["owner"],
+  "audit:read": ["owner"],
+} satisfies Record<string, StaffRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function can(role: StaffRole | undefined, permission: Permission) {
+  return !!role && (PERMISSIONS[permission] as StaffRole[]).includes(role);
+}
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return STAFF_ROLES.some((r) => r.id === value);
+}
+
+// ---- Passwords ----
+
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt$${salt}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, expected] = String(stored || "").split("$");
+  if (scheme !== "scrypt" || !salt || !expected) return false;
+
+  const actual = await scrypt(password, salt, 64);
+  const expectedBuf = Buffer.from(expected, "hex");
+  return expectedBuf.length === actual.length && crypto.timingSafeEqual(expectedBuf, actual);
+}
+
+// Account as sent to the browser
+export function publicStaff(account: StaffAccount) {
+  const { passwordHash, ...rest } = account;
+  return rest;
+}
+
+// ---- Sessions ----
+
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export async function createSession(staffId: string) {
+  const now = Date.now();
+  // Drop expired sessions while we're here
+  await staffSessions.removeWhere((s) => new Date(s.expiresAt).getTime() <= now);
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(now + SESSION_TTL_MS).toISOString();
+  await staffSessions.insert({
+    id: hashToken(token),
+    staffId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt,
+  });
+  return { token, expiresAt };
+}
+
+export async function destroySession(token: string) {
+  if (!token) return;
+  await staffSessions.remove(hashToken(token));
+}
+
+// Signs the account out everywhere, except on the device holding keepToken
+export async function destroyStaffSessions(staffId: string, keepToken = "") {
+  const keep = keepToken ? hashToken(keepToken) : "";
+  await staffSessions.removeWhere((s) => s.staffId === staffId && s.id !== keep);
+}
+
+export async function getStaffForToken(token: string | undefined | null) {
+  if (!token) return null;
+
+  const session = await staffSessions.get(hashToken(token));
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null;
+
+  return staff.get(session.staffId);
+}
+
+export function readSessionToken(request: Request) {
+  const header = request.headers.get("cookie") || "";
+  const match = header
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${SESSION_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(SESSION_COOKIE.length + 1)) : "";
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(expiresAt),
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
+
+// ---- Route guard ----
+
+type AuthResult =
+  | { staff: StaffAccount; denied?: undefined }
+  | { staff?: undefined; denied: NextResponse };
+
+// Shared guard for route handlers:
+//   const { staff, denied } = await authorize(request, "checkin:write");
+//   if (denied) return denied;
+export async function authorize(request: Request, permission: Permission): Promise<AuthResult> {
+  const account = await getStaffForToken(readSessionToken(request));
+
+  if (!account) {
+    return {
+      denied: NextResponse.json({ error: "Sign in required" }, { status: 401 }),
+    };
+  }
+
+  if (!can(account.role, permission)) {
+    return {
+      denied: NextResponse.json(
+        { error: "Your role does not allow this action" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { staff: account };
+}
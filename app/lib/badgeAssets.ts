@@ -0,0 +1,94 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { storageConfig } from "./storage";
+import { writeFileAtomic } from "./storage/locking";
+import type { BadgeDesign } from "./types";
+
+// Logos and images uploaded in the badge designer arrive as data URLs. They
+// are kept as files under <data dir>/badge-assets, named by their content,
+// so templates only carry a short URL and an image used by several
+// templates is stored once. Files are never removed: the audit log's
+// earlier versions of a template may still point at them.
+const ASSET_URL = "/api/badge-assets/";
+const DATA_URL_RE = /^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,([\s\S]*)$/;
+const NAME_RE = /^[0-9a-f]{32}\.(png|jpg|gif|webp|svg)$/;
+
+const EXTENSIONS: Record<string, string> = {
+  png: "png",
+  jpeg: "jpg",
+  gif: "gif",
+  webp: "webp",
+  "svg+xml": "svg",
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+function assetDir() {
+  return path.join(storageConfig().dataDir, "badge-assets");
+}
+
+// Saves an uploaded image and returns the URL it is served from; web
+// addresses and asset URLs come back as they are
+export async function storeBadgeImage(url: string) {
+  const match = DATA_URL_RE.exec(url);
+  if (!match) return url;
+
+  const bytes = Buffer.from(match[2], "base64");
+  const hash = crypto.createHash("sha256").update(bytes).digest("hex").slice(0, 32);
+  const name = `${hash}.${EXTENSIONS[match[1]]}`;
+  const file = path.join(assetDir(), name);
+
+  const exists = await fs.stat(file).then(
+    () => true,
+    () => false
+  );
+  if (!exists) {
+    await fs.mkdir(assetDir(), { recursive: true });
+    await writeFileAtomic(file, bytes);
+  }
+  return `${ASSET_URL}${name}`;
+}
+
+// The design with every uploaded logo and image saved as an asset
+export async function storeDesignImages(design: BadgeDesign): Promise<BadgeDesign> {
+  return {
+    ...design,
+    frontLogoUrl: await storeBadgeImage(design.frontLogoUrl),
+    backLogoUrl: await storeBadgeImage(design.backLogoUrl),
+    ...(design.elements
+      ? {
+          elements: await Promise.all(
+            design.elements.map(async (e) =>
+              e.imageUrl ? { ...e, imageUrl: await storeBadgeImage(e.imageUrl) } : e
+            )
+          ),
+        }
+      : {}),
+  };
+}
+
+export async function readBadgeAsset(name: string) {
+  if (!NAME_RE.test(name)) return null;
+  try {
+    const bytes = await fs.readFile(path.join(assetDir(), name));
+    return { bytes, contentType: CONTENT_TYPES[name.split(".").pop()!] };
+  } catch (err: any) {
+    if (err.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+// The PDF writer embeds images from data URLs, so asset URLs are read back
+// into one; anything else is returned as it is
+export async function inlineBadgeImage(url: string) {
+  if (!url.startsWith(ASSET_URL)) return url;
+  const asset = await readBadgeAsset(url.slice(ASSET_URL.length));
+  return asset ? `data:${asset.contentType};base64,${asset.bytes.toString("base64")}` : "";
+}
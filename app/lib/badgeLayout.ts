@@ -0,0 +1,353 @@
+import type { BadgeDesign, BadgeElement, CustomFieldValue } from "./types";
+
+// Lays out a badge from its design's elements. The admin's designer preview
+// and print view and the server's PDFs all draw from the same layout, so
+// this module must stay free of server-only imports.
+
+export type BadgeSide = BadgeElement["side"];
+
+// What a badge shows for one attendee
+export type BadgeContext = {
+  attendee: {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+    company?: string;
+    eventId?: string;
+    customFields?: Record<string, CustomFieldValue>;
+  };
+  attendeeType: { id: string; label: string; color: string }; // as configured for the event
+  eventName: string;
+  qrValue: string;
+};
+
+// Width in millimetres of a line of text in the badge font
+export type MeasureText = (text: string, sizeMm: number, bold: boolean) => number;
+
+// Positioned drawing steps, in millimetres from the top left of the side
+export type BadgeDrawOp =
+  | { kind: "rect"; xMm: number; yMm: number; widthMm: number; heightMm: number; radiusMm: number; fill?: string; stroke?: string }
+  | {
+      kind: "text";
+      xMm: number; // left of the box the line is aligned in
+      yMm: number; // top of the line
+      widthMm: number;
+      text: string;
+      sizeMm: number;
+      lineHeightMm: number;
+      bold: boolean;
+      align: "left" | "center" | "right";
+      color: string;
+    }
+  | { kind: "image"; xMm: number; yMm: number; widthMm: number; heightMm: number; url: string }
+  | { kind: "qr"; xMm: number; yMm: number; sizeMm: number; value: string };
+
+// PDFs embed DejaVu Sans from public/fonts; globals.css loads the same files
+// so the designer wraps text where the printed badge does
+export const BADGE_FONT_FAMILY = "'DejaVu Sans', sans-serif";
+
+const LINE_HEIGHT = 1.15;
+const PADDING_MM = 6;
+
+// Attendee and event values text elements can show, as {key}
+export const BADGE_FIELDS: { key: string; label: string }[] = [
+  { key: "fullName", label: "Full name" },
+  { key: "firstName", label: "First name" },
+  { key: "lastName", label: "Last name" },
+  { key: "company", label: "Company" },
+  { key: "email", label: "Email" },
+  { key: "attendeeType", label: "Attendee type" },
+  { key: "eventName", label: "Event name" },
+  { key: "eventId", label: "Event ID" },
+  { key: "id", label: "Badge ID" },
+];
+
+function fieldValue(key: string, context: BadgeContext) {
+  const a = context.attendee;
+  switch (key) {
+    case "fullName":
+      return `${a.firstName || ""} ${a.lastName || ""}`.trim();
+    case "attendeeType":
+      return context.attendeeType.label;
+    case "eventName":
+      return context.eventName;
+    case "firstName":
+    case "lastName":
+    case "email":
+    case "company":
+    case "eventId":
+    case "id":
+      return String(a[key] || "").trim();
+    default:
+      return "";
+  }
+}
+
+function customValue(value: CustomFieldValue | undefined) {
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "";
+  return String(value ?? "").trim();
+}
+
+// Fills {field} and {custom:<id>} placeholders. Text whose placeholders all
+// come out empty is replaced by the fallback, so "Event: {eventName}" can
+// disappear rather than print a bare label.
+export function resolveText(text: string, context: BadgeContext, fallback = "") {
+  let placeholders = 0;
+  let filled = 0;
+  const resolved = text.replace(/\{(custom:)?([\w-]+)\}/g, (_, custom: string | undefined, key: string) => {
+    placeholders++;
+    const value = custom ? customValue(context.attendee.customFields?.[key]) : fieldValue(key, context);
+    if (value) filled++;
+    return value;
+  });
+  return placeholders > 0 && filled === 0 ? fallback : resolved;
+}
+
+// Same blend the screen shows for text at an opacity over the background
+export function mixHex(color: string, background: string, opacity: number) {
+  const channel = (hex: string, i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16) || 0;
+  return `#${[0, 1, 2]
+    .map((i) => Math.round(channel(color, i) * opacity + channel(background, i) * (1 - opacity)))
+    .map((v) => v.toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+// The fixed layout badges had before free-form elements, built from the
+// design's QR, font and logo settings
+export function classicElements(design: BadgeDesign): BadgeElement[] {
+  const width = design.badgeWidthMm;
+  const height = design.badgeHeightMm;
+  const meta = design.metaFontMm;
+  const muted = (opacity: number) => mixHex(design.textColor, design.backgroundColor, opacity);
+  const logo = (side: BadgeElement["side"], url: string, size: number): BadgeElement =>
+    url
+      ? { id: `${side}-logo`, kind: "image", side, xMm: width - PADDING_MM - size, yMm: PADDING_MM, widthMm: size, heightMm: size, imageUrl: url }
+      : {
+          id: `${side}-logo`,
+          kind: "shape",
+          side,
+          xMm: width - PADDING_MM - size,
+          yMm: PADDING_MM,
+          widthMm: size,
+          heightMm: size,
+          fill: design.accentColor,
+          radiusMm: 3,
+        };
+  const line = (
+    id: string,
+    side: BadgeElement["side"],
+    yMm: number,
+    text: string,
+    sizeMm: number,
+    color: string,
+    extra: Partial<BadgeElement> = {}
+  ): BadgeElement => ({
+    id,
+    kind: "text",
+    side,
+    xMm: PADDING_MM,
+    yMm,
+    widthMm: width - PADDING_MM * 2,
+    heightMm: sizeMm * LINE_HEIGHT,
+    text,
+    fontSizeMm: sizeMm,
+    color,
+    ...extra,
+  });
+
+  const footerY = height - PADDING_MM - meta * LINE_HEIGHT;
+  const nameY = PADDING_MM + Math.max(meta * 2 * LINE_HEIGHT, 12) + 6;
+  const nameHeight = design.nameFontMm * LINE_HEIGHT * 2;
+  const companyY = nameY + nameHeight + 1;
+  const front: BadgeElement[] = [
+    {
+      id: "front-qr",
+      kind: "qr",
+      side: "front",
+      xMm: design.qrOffsetXMm,
+      yMm: design.qrOffsetYMm,
+      widthMm: design.qrSizeMm,
+      heightMm: design.qrSizeMm,
+      fill: "#ffffff",
+      stroke: design.borderColor,
+      radiusMm: 2,
+    },
+    line("front-brand", "front", PADDING_MM, "HEMISPHERE", meta, design.accentColor),
+    line("front-caption", "front", PADDING_MM + meta * LINE_HEIGHT, "Event badge", meta, muted(0.7)),
+    logo("front", design.frontLogoUrl, 12),
+    line("front-name", "front", nameY, "{fullName}", design.nameFontMm, design.textColor, {
+      widthMm: (width - PADDING_MM * 2) * 0.7,
+      heightMm: nameHeight,
+      fallback: "Unknown attendee",
+      minFontSizeMm: design.nameFontMm * 0.6,
+      bold: true,
+      maxLines: 2,
+    }),
+    line("front-company", "front", companyY, "{company}", design.companyFontMm, muted(0.8), {
+      widthMm: (width - PADDING_MM * 2) * 0.7,
+      fallback: "Company TBC",
+      minFontSizeMm: design.companyFontMm * 0.7,
+    }),
+    line("front-event", "front", companyY + design.companyFontMm * LINE_HEIGHT + 1, "Event ID: {eventId}", meta, muted(0.6)),
+    line("front-badge-id", "front", footerY, "Badge ID: {id}", meta, "#475569"),
+    line("front-tag", "front", footerY, "hemisphere:{id}", meta, design.accentColor, { bold: true, align: "right" }),
+  ];
+  if (design.layoutMode !== "double") return front;
+
+  const middleY = PADDING_MM + 14;
+  const backQr = Math.max(10, Math.min(70, design.qrSizeMm + 12, footerY - middleY - 2));
+  return [
+    ...front,
+    line("back-caption", "back", PADDING_MM + 7 - (meta * LINE_HEIGHT) / 2, "Back of badge", meta, muted(0.7)),
+    logo("back", design.backLogoUrl, 14),
+    {
+      id: "back-qr",
+      kind: "qr",
+      side: "back",
+      xMm: (width - backQr) / 2,
+      yMm: middleY + (footerY - middleY - backQr) / 2,
+      widthMm: backQr,
+      heightMm: backQr,
+      fill: "#ffffff",
+      stroke: design.borderColor,
+      radiusMm: 2,
+    },
+    line("back-hint", "back", footerY, "Scan with Hemisphere Leads", meta, muted(0.7)),
+    line("back-tag", "back", footerY, "hemisphere:{id}", meta, design.accentColor, { bold: true, align: "right" }),
+  ];
+}
+
+export function badgeElements(design: BadgeDesign) {
+  return design.elements?.length ? design.elements : classicElements(design);
+}
+
+export function badgeSides(design: BadgeDesign): BadgeSide[] {
+  return design.layoutMode === "double" ? ["front", "back"] : ["front"];
+}
+
+// Breaks text into lines no wider than widthMm, at most maxLines of them
+// and no taller than heightMm together. Text that doesn't fit shrinks step
+// by step down to minSizeMm; what still doesn't fit is cut with an ellipsis.
+export function fitText(
+  measure: MeasureText,
+  text: string,
+  box: { widthMm: number; heightMm: number },
+  style: { sizeMm: number; minSizeMm: number; bold: boolean; maxLines: number }
+) {
+  const words = text.split(/\s+/).filter(Boolean);
+  const minSize = Math.min(style.sizeMm, style.minSizeMm);
+  for (let size = style.sizeMm; ; size = Math.max(minSize, size * 0.92)) {
+    const fitsWidth = (line: string) => measure(line, size, style.bold) <= box.widthMm;
+    const maxLines = Math.max(1, Math.min(style.maxLines, Math.floor(box.heightMm / (size * LINE_HEIGHT) + 0.01)));
+    const lines: string[] = [];
+    for (const word of words) {
+      const last = lines[lines.length - 1];
+      if (last !== undefined && fitsWidth(`${last} ${word}`)) {
+        lines[lines.length - 1] = `${last} ${word}`;
+      } else {
+        lines.push(word);
+      }
+    }
+    const fits = lines.length <= maxLines && lines.every(fitsWidth);
+    if (fits || size === minSize) {
+      const kept = lines.slice(0, maxLines);
+      if (!fits && kept.length) {
+        // Everything past the last line that fits goes into it, then cut
+        let last = [kept[kept.length - 1], ...lines.slice(maxLines)].join(" ");
+        if (!fitsWidth(last)) {
+          while (last && !fitsWidth(`${last}…`)) last = last.slice(0, -1);
+          last = `${last.trimEnd()}…`;
+        }
+        kept[kept.length - 1] = last;
+      }
+      return { lines: kept, sizeMm: size, lineHeightMm: size * LINE_HEIGHT };
+    }
+  }
+}
+
+function textOps(
+  measure: MeasureText,
+  text: string,
+  element: BadgeElement,
+  color: string,
+  verticalCenter: boolean
+): BadgeDrawOp[] {
+  if (!text.trim()) return [];
+  const sizeMm = element.fontSizeMm || 4;
+  const fitted = fitText(measure, text, element, {
+    sizeMm,
+    minSizeMm: element.minFontSizeMm || sizeMm,
+    bold: !!element.bold,
+    maxLines: element.maxLines || 1,
+  });
+  const blockHeight = fitted.lines.length * fitted.lineHeightMm;
+  const top = element.yMm + (verticalCenter ? (element.heightMm - blockHeight) / 2 : 0);
+  return fitted.lines.map((line, i) => ({
+    kind: "text",
+    xMm: element.xMm,
+    yMm: top + i * fitted.lineHeightMm,
+    widthMm: element.widthMm,
+    text: line,
+    sizeMm: fitted.sizeMm,
+    lineHeightMm: fitted.lineHeightMm,
+    bold: !!element.bold,
+    align: verticalCenter ? "center" : element.align || "left",
+    color,
+  }));
+}
+
+// Drawing steps for one side of an attendee's badge, in element order
+export function layoutBadge(
+  design: BadgeDesign,
+  side: BadgeSide,
+  context: BadgeContext,
+  measure: MeasureText
+): BadgeDrawOp[] {
+  const ops: BadgeDrawOp[] = [];
+  for (const element of badgeElements(design)) {
+    if (element.side !== side) continue;
+    const box = { xMm: element.xMm, yMm: element.yMm, widthMm: element.widthMm, heightMm: element.heightMm };
+
+    if (element.kind === "text") {
+      const text = resolveText(element.text || "", context, element.fallback || "");
+      ops.push(...textOps(measure, text, element, element.color || design.textColor, false));
+    } else if (element.kind === "image") {
+      if (element.imageUrl) ops.push({ kind: "image", ...box, url: element.imageUrl });
+    } else if (element.kind === "shape") {
+      if (element.fill || element.stroke) {
+        ops.push({ kind: "rect", ...box, radiusMm: element.radiusMm || 0, fill: element.fill, stroke: element.stroke });
+      }
+    } else if (element.kind === "qr") {
+      const size = Math.min(element.widthMm, element.heightMm);
+      const square = {
+        xMm: element.xMm + (element.widthMm - size) / 2,
+        yMm: element.yMm + (element.heightMm - size) / 2,
+      };
+      if (element.fill || element.stroke) {
+        ops.push({
+          kind: "rect",
+          ...square,
+          widthMm: size,
+          heightMm: size,
+          radiusMm: element.radiusMm || 0,
+          fill: element.fill,
+          stroke: element.stroke,
+        });
+      }
+      ops.push({ kind: "qr", ...square, sizeMm: size, value: context.qrValue });
+    } else if (element.kind === "ribbon") {
+      // Without rows of its own the band shows the type's name and color
+      const type = context.attendeeType;
+      const ribbon = element.ribbons
+        ? element.ribbons.find((r) => r.type === type.id)
+        : { label: type.label.toUpperCase(), color: type.color };
+      if (!ribbon) continue;
+      ops.push({ kind: "rect", ...box, radiusMm: element.radiusMm || 0, fill: ribbon.color });
+      const label = resolveText(ribbon.label, context);
+      ops.push(...textOps(measure, label, { ...element, maxLines: 1 }, element.color || "#ffffff", true));
+    }
+  }
+  return ops;
+}
@@ -0,0 +1,280 @@
+import { attendeeTypeInfo } from "./attendeeTypes";
+import { badgeSides, layoutBadge, type BadgeDrawOp, type BadgeSide } from "./badgeLayout";
+import { badgeQrValue } from "./badges";
+import { inlineBadgeImage } from "./badgeAssets";
+import { DEFAULT_BADGE_DESIGN, templateFor } from "./badgeTemplates";
+import {
+  badgeFonts,
+  buildPdf,
+  createPage,
+  hexToRgb,
+  readImageDataUrl,
+  textWidthMm,
+  type PdfFont,
+  type PdfFonts,
+  type PdfImage,
+  type PdfPage,
+} from "./pdf";
+import { encodeQr } from "./qr";
+import type { Attendee, BadgeDesign, BadgeTemplate, EventRecord } from "./types";
+
+const MM_PER_IN = 25.4;
+
+export type SheetLayout = {
+  label: string;
+  pageWidthMm: number;
+  pageHeightMm: number;
+  columns: number;
+  rows: number;
+  slotWidthMm: number;
+  slotHeightMm: number;
+  marginLeftMm: number;
+  marginTopMm: number;
+};
+
+// Avery 5392 and 74541 are 4 x 3 in badge inserts, six to a US letter sheet
+// on the same grid; a card is one 4 x 3 in badge per page for badge printers.
+export const SHEET_LAYOUTS: Record<string, SheetLayout> = {
+  "avery-5392": {
+    label: "Avery 5392 (6 per sheet)",
+    pageWidthMm: 8.5 * MM_PER_IN,
+    pageHeightMm: 11 * MM_PER_IN,
+    columns: 2,
+    rows: 3,
+    slotWidthMm: 4 * MM_PER_IN,
+    slotHeightMm: 3 * MM_PER_IN,
+    marginLeftMm: 0.25 * MM_PER_IN,
+    marginTopMm: 1 * MM_PER_IN,
+  },
+  "avery-74541": {
+    label: "Avery 74541 (6 per sheet)",
+    pageWidthMm: 8.5 * MM_PER_IN,
+    pageHeightMm: 11 * MM_PER_IN,
+    columns: 2,
+    rows: 3,
+    slotWidthMm: 4 * MM_PER_IN,
+    slotHeightMm: 3 * MM_PER_IN,
+    marginLeftMm: 0.25 * MM_PER_IN,
+    marginTopMm: 1 * MM_PER_IN,
+  },
+  "card-4x3": {
+    label: "4 x 3 in card",
+    pageWidthMm: 4 * MM_PER_IN,
+    pageHeightMm: 3 * MM_PER_IN,
+    columns: 1,
+    rows: 1,
+    slotWidthMm: 4 * MM_PER_IN,
+    slotHeightMm: 3 * MM_PER_IN,
+    marginLeftMm: 0,
+    marginTopMm: 0,
+  },
+};
+
+export const MAX_BADGES_PER_PDF = 1000;
+
+const CROP_MARK_GAP_MM = 1.5;
+const CROP_MARK_LENGTH_MM = 4;
+
+// One badge, laid out and ready to draw
+type LaidOutBadge = {
+  design: BadgeDesign;
+  sides: Partial<Record<BadgeSide, BadgeDrawOp[]>>;
+};
+
+// Baseline for a line of text whose line box starts at top
+function baseline(font: PdfFont, top: number, sizeMm: number, lineHeightMm: number) {
+  const contentHeight = ((font.ascent - font.descent) / 1000) * sizeMm;
+  return top + (lineHeightMm - contentHeight) / 2 + (font.ascent / 1000) * sizeMm;
+}
+
+// Draws layout steps with the badge's top left at (left, top)
+function drawOps(
+  page: PdfPage,
+  ops: BadgeDrawOp[],
+  left: number,
+  top: number,
+  fonts: PdfFonts,
+  images: Map<string, { key: string; image: PdfImage }>
+) {
+  for (const op of ops) {
+    if (op.kind === "rect") {
+      page.rect(left + op.xMm, top + op.yMm, op.widthMm, op.heightMm, {
+        fill: op.fill ? hexToRgb(op.fill) : undefined,
+        stroke: op.stroke ? hexToRgb(op.stroke) : undefined,
+        radius: op.radiusMm,
+      });
+    } else if (op.kind === "text") {
+      const font = op.bold ? fonts.bold : fonts.regular;
+      const slack = op.widthMm - textWidthMm(font, op.text, op.sizeMm);
+      const x = op.xMm + (op.align === "center" ? slack / 2 : op.align === "right" ? slack : 0);
+      page.text(
+        op.bold ? "F2" : "F1",
+        op.sizeMm,
+        left + x,
+        baseline(font, top + op.yMm, op.sizeMm, op.lineHeightMm),
+        op.text,
+        hexToRgb(op.color)
+      );
+    } else if (op.kind === "image") {
+      // Scaled to fit the box, keeping its proportions, like the designer
+      const embedded = images.get(op.url);
+      if (!embedded) continue;
+      const scale = Math.min(op.widthMm / embedded.image.width, op.heightMm / embedded.image.height);
+      const width = embedded.image.width * scale;
+      const height = embedded.image.height * scale;
+      page.image(
+        embedded.key,
+        left + op.xMm + (op.widthMm - width) / 2,
+        top + op.yMm + (op.heightMm - height) / 2,
+        width,
+        height
+      );
+    } else if (op.kind === "qr") {
+      // Four modules of quiet zone around the code, as on screen
+      const grid = encodeQr(op.value);
+      const cell = op.sizeMm / (grid.length + 8);
+      page.cells(left + op.xMm + cell * 4, top + op.yMm + cell * 4, cell, grid, [0, 0, 0]);
+    }
+  }
+}
+
+// Draws one side of a badge centred in a sheet slot, shrunk if the design
+// is bigger than the slot, with its background, border and clipping
+function drawInSlot(
+  page: PdfPage,
+  badge: LaidOutBadge,
+  side: BadgeSide,
+  slot: { left: number; top: number; layout: SheetLayout; cropMarks: boolean },
+  fonts: PdfFonts,
+  images: Map<string, { key: string; image: PdfImage }>
+) {
+  const { design } = badge;
+  const { layout } = slot;
+  const scale = Math.min(1, layout.slotWidthMm / design.badgeWidthMm, layout.slotHeightMm / design.badgeHeightMm);
+  const width = design.badgeWidthMm * scale;
+  const height = design.badgeHeightMm * scale;
+  const left = slot.left + (layout.slotWidthMm - width) / 2;
+  const top = slot.top + (layout.slotHeightMm - height) / 2;
+
+  if (slot.cropMarks) {
+    // Marks sit outside the badge and are clipped to the slot, so they never
+    // run onto a neighbouring badge
+    page.save();
+    page.rect(slot.left, slot.top, layout.slotWidthMm, layout.slotHeightMm, { clip: true });
+    for (const x of [left, left + width]) {
+      for (const y of [top, top + height]) {
+        const dx = x === left ? -1 : 1;
+        const dy = y === top ? -1 : 1;
+        page.line(x + dx * CROP_MARK_GAP_MM, y, x + dx * (CROP_MARK_GAP_MM + CROP_MARK_LENGTH_MM), y, [0, 0, 0], 0.1);
+        page.line(x, y + dy * CROP_MARK_GAP_MM, x, y + dy * (CROP_MARK_GAP_MM + CROP_MARK_LENGTH_MM), [0, 0, 0], 0.1);
+      }
+    }
+    page.restore();
+  }
+
+  page.save();
+  page.rect(left, top, width, height, { radius: design.borderRadiusMm * scale, clip: true });
+  page.rect(left, top, width, height, { fill: hexToRgb(design.backgroundColor) });
+  const target = scale === 1 ? page : scalePage(page, left, top, scale);
+  drawOps(target, badge.sides[side] || [], scale === 1 ? left : 0, scale === 1 ? top : 0, fonts, images);
+  page.restore();
+
+  page.rect(left, top, width, height, {
+    stroke: hexToRgb(design.borderColor),
+    lineWidthMm: 0.26,
+    radius: design.borderRadiusMm * scale,
+  });
+}
+
+// A view of a page whose coordinates are scaled about (originLeft, originTop)
+function scalePage(page: PdfPage, originLeft: number, originTop: number, scale: number): PdfPage {
+  const mapX = (x: number) => originLeft + x * scale;
+  const mapY = (y: number) => originTop + y * scale;
+  return {
+    ...page,
+    rect: (left, top, width, height, style) =>
+      page.rect(mapX(left), mapY(top), width * scale, height * scale, {
+        ...style,
+        radius: (style.radius || 0) * scale,
+        lineWidthMm: (style.lineWidthMm ?? 0.25) * scale,
+      }),
+    line: (x1, y1, x2, y2, color, widthMm) => page.line(mapX(x1), mapY(y1), mapX(x2), mapY(y2), color, widthMm * scale),
+    cells: (left, top, cellMm, grid, color) => page.cells(mapX(left), mapY(top), cellMm * scale, grid, color),
+    text: (fontKey, sizeMm, left, base, text, color) => page.text(fontKey, sizeMm * scale, mapX(left), mapY(base), text, color),
+    image: (key, left, top, width, height) => page.image(key, mapX(left), mapY(top), width * scale, height * scale),
+  };
+}
+
+// Renders badges for the attendees, in order, onto sheets of the layout.
+// When any badge is two-sided, every front sheet is followed by a back
+// sheet for duplex printing: columns are mirrored so each back lands behind
+// its front when the sheet flips on its long edge, and one-sided badges
+// leave their place on the back blank.
+export async function renderBadgesPdf(options: {
+  attendees: Attendee[];
+  templates: BadgeTemplate[];
+  layout: SheetLayout;
+  cropMarks: boolean;
+  event: EventRecord | null;
+}) {
+  const { layout, cropMarks } = options;
+  const fonts = badgeFonts();
+  const measure = (text: string, sizeMm: number, bold: boolean) =>
+    textWidthMm(bold ? fonts.bold : fonts.regular, text, sizeMm);
+  // Each image is embedded once however many badges show it; images in
+  // formats we can't embed are left out
+  const images = new Map<string, { key: string; image: PdfImage }>();
+
+  const badges: LaidOutBadge[] = await Promise.all(
+    options.attendees.map(async (attendee) => {
+      const type = attendeeTypeInfo(options.event, attendee);
+      const design = { ...DEFAULT_BADGE_DESIGN, ...templateFor(attendee, options.templates, type.id)?.design };
+      const context = {
+        attendee,
+        attendeeType: type,
+        eventName: options.event?.name || "",
+        qrValue: await badgeQrValue(attendee),
+      };
+      const sides: LaidOutBadge["sides"] = {};
+      for (const side of badgeSides(design)) {
+        sides[side] = layoutBadge(design, side, context, measure);
+        for (const op of sides[side]!) {
+          if (op.kind !== "image" || images.has(op.url)) continue;
+          const image = readImageDataUrl(await inlineBadgeImage(op.url));
+          if (image) images.set(op.url, { key: `Im${images.size + 1}`, image });
+        }
+      }
+      return { design, sides };
+    })
+  );
+
+  const perSheet = layout.columns * layout.rows;
+  const duplex = badges.some((b) => b.sides.back);
+  const pages: PdfPage[] = [];
+
+  for (let start = 0; start < badges.length; start += perSheet) {
+    const sheet = badges.slice(start, start + perSheet);
+    const front = createPage(layout.pageWidthMm, layout.pageHeightMm, fonts);
+    const back = duplex ? createPage(layout.pageWidthMm, layout.pageHeightMm, fonts) : null;
+
+    sheet.forEach((badge, index) => {
+      const column = index % layout.columns;
+      const row = Math.floor(index / layout.columns);
+      const top = layout.marginTopMm + row * layout.slotHeightMm;
+      const frontLeft = layout.marginLeftMm + column * layout.slotWidthMm;
+      drawInSlot(front, badge, "front", { left: frontLeft, top, layout, cropMarks }, fonts, images);
+
+      if (back && badge.sides.back) {
+        const backLeft = layout.pageWidthMm - frontLeft - layout.slotWidthMm;
+        drawInSlot(back, badge, "back", { left: backLeft, top, layout, cropMarks }, fonts, images);
+      }
+    });
+
+    pages.push(front);
+    if (back) pages.push(back);
+  }
+
+  const embedded = new Map([...images.values()].map(({ key, image }) => [key, image]));
+  const title = options.event ? `${options.event.name} badges` : "Badges";
+  return buildPdf(pages, fonts, embedded, title);
+}
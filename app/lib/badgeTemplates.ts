@@ -0,0 +1,243 @@
+import crypto from "crypto";
+import { badgeTemplates } from "./repositories";
+import type { Attendee, AttendeeType, BadgeDesign, BadgeElement, BadgeTemplate } from "./types";
+
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+const LOGO_RE = /^(https?:\/\/|\/|data:image\/(png|jpeg|gif|webp|svg\+xml);base64,)/;
+const MAX_LOGO_LENGTH = 700_000; // a data URL of about 500 KB of image
+const MAX_NAME_LENGTH = 80;
+const MAX_ELEMENTS = 40;
+const MAX_IMAGE_ELEMENTS = 6;
+const MAX_ELEMENT_TEXT_LENGTH = 300;
+const ELEMENT_KINDS: BadgeElement["kind"][] = ["text", "image", "shape", "qr", "ribbon"];
+
+export const DEFAULT_BADGE_DESIGN: BadgeDesign = {
+  qrSizeMm: 38, // ~1.5in
+  qrOffsetXMm: 40,
+  qrOffsetYMm: 10,
+  badgeWidthMm: 86,
+  badgeHeightMm: 54,
+  backgroundColor: "#ffffff",
+  accentColor: "#0ea5e9",
+  textColor: "#0f172a",
+  borderColor: "#e5e7eb",
+  borderRadiusMm: 4,
+  nameFontMm: 5,
+  companyFontMm: 3.2,
+  metaFontMm: 2.8,
+  frontLogoUrl: "",
+  backLogoUrl: "",
+  layoutMode: "single",
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(Math.max(min, n), max) : fallback;
+};
+
+const optionalColor = (value: unknown) => {
+  const color = String(value ?? "").trim();
+  return color || undefined;
+};
+
+// Keeps each element's box on the badge and only the settings its kind uses
+function normalizeElements(
+  raw: unknown,
+  widthMm: number,
+  heightMm: number,
+  types: AttendeeType[]
+): BadgeElement[] | { error: string } {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) return { error: "Badge elements must be a list" };
+  if (raw.length > MAX_ELEMENTS) return { error: `Badges can have at most ${MAX_ELEMENTS} elements` };
+
+  const elements: BadgeElement[] = [];
+  for (const [index, item] of raw.entries()) {
+    if (!ELEMENT_KINDS.includes(item?.kind)) return { error: "Unknown badge element" };
+    const kind: BadgeElement["kind"] = item.kind;
+    const xMm = clamp(item.xMm, 0, widthMm - 1, 0);
+    const yMm = clamp(item.yMm, 0, heightMm - 1, 0);
+    const element: BadgeElement = {
+      id: /^[\w-]{1,40}$/.test(String(item.id)) ? String(item.id) : `el-${index + 1}`,
+      kind,
+      side: item.side === "back" ? "back" : "front",
+      xMm,
+      yMm,
+      widthMm: clamp(item.widthMm, 1, widthMm - xMm, 20),
+      heightMm: clamp(item.heightMm, 1, heightMm - yMm, 10),
+    };
+
+    if (kind === "text" || kind === "ribbon") {
+      element.fontSizeMm = clamp(item.fontSizeMm, 1.5, 30, 4);
+      element.minFontSizeMm = clamp(item.minFontSizeMm, 1, element.fontSizeMm, element.fontSizeMm);
+      element.bold = item.bold === true;
+      element.color = optionalColor(item.color);
+    }
+    if (kind === "text") {
+      element.text = String(item.text ?? "").slice(0, MAX_ELEMENT_TEXT_LENGTH);
+      element.fallback = String(item.fallback ?? "").slice(0, MAX_ELEMENT_TEXT_LENGTH);
+      element.align = item.align === "center" || item.align === "right" ? item.align : "left";
+      element.maxLines = Math.round(clamp(item.maxLines, 1, 10, 1));
+    }
+    if (kind === "shape" || kind === "qr") {
+      element.fill = optionalColor(item.fill);
+      element.stroke = optionalColor(item.stroke);
+    }
+    if (kind === "shape" || kind === "qr" || kind === "ribbon") {
+      element.radiusMm = clamp(item.radiusMm, 0, 50, 0);
+    }
+    if (kind === "image") {
+      element.imageUrl = String(item.imageUrl ?? "").trim();
+      if (element.imageUrl && !LOGO_RE.test(element.imageUrl)) {
+        return { error: "Images must be an image upload or a web address" };
+      }
+      if (element.imageUrl.length > MAX_LOGO_LENGTH) return { error: "Images must be smaller than 500 KB" };
+    }
+    if (kind === "ribbon" && Array.isArray(item.ribbons)) {
+      // Without rows the band shows each type's own name and color
+      const rows: any[] = item.ribbons;
+      element.ribbons = types.flatMap((type) => {
+        const row = rows.find((r) => r?.type === type);
+        return row ? [{ type, label: String(row.label ?? "").slice(0, 60), color: String(row.color ?? "") }] : [];
+      });
+    }
+
+    const colors = [element.color, element.fill, element.stroke, ...(element.ribbons || []).map((r) => r.color)];
+    if (!colors.every((c) => c === undefined || COLOR_RE.test(c))) {
+      return { error: "Badge colors must be hex values like #0ea5e9" };
+    }
+    elements.push(element);
+  }
+
+  if (elements.filter((e) => e.kind === "image" && e.imageUrl).length > MAX_IMAGE_ELEMENTS) {
+    return { error: `Badges can have at most ${MAX_IMAGE_ELEMENTS} images` };
+  }
+  return elements;
+}
+
+// Fills gaps from the built-in design and keeps sizes within what fits on
+// the badge, with the same limits as the designer's sliders
+function normalizeDesign(raw: any, types: AttendeeType[]): BadgeDesign | { error: string } {
+  const d = DEFAULT_BADGE_DESIGN;
+  const widthMm = clamp(raw?.badgeWidthMm, 50, 120, d.badgeWidthMm);
+  const heightMm = clamp(raw?.badgeHeightMm, 40, 100, d.badgeHeightMm);
+  const qrSizeMm = clamp(raw?.qrSizeMm, 12, Math.max(12, Math.min(90, Math.min(widthMm, heightMm) - 8)), d.qrSizeMm);
+
+  const design: BadgeDesign = {
+    qrSizeMm,
+    qrOffsetXMm: clamp(raw?.qrOffsetXMm, 0, Math.max(0, widthMm - qrSizeMm), d.qrOffsetXMm),
+    qrOffsetYMm: clamp(raw?.qrOffsetYMm, 0, Math.max(0, heightMm - qrSizeMm), d.qrOffsetYMm),
+    badgeWidthMm: widthMm,
+    badgeHeightMm: heightMm,
+    backgroundColor: String(raw?.backgroundColor ?? d.backgroundColor),
+    accentColor: String(raw?.accentColor ?? d.accentColor),
+    textColor: String(raw?.textColor ?? d.textColor),
+    borderColor: String(raw?.borderColor ?? d.borderColor),
+    borderRadiusMm: clamp(raw?.borderRadiusMm, 0, 10, d.borderRadiusMm),
+    nameFontMm: clamp(raw?.nameFontMm, 3, 8, d.nameFontMm),
+    companyFontMm: clamp(raw?.companyFontMm, 2, 6, d.companyFontMm),
+    metaFontMm: clamp(raw?.metaFontMm, 2, 5, d.metaFontMm),
+    frontLogoUrl: String(raw?.frontLogoUrl ?? "").trim(),
+    backLogoUrl: String(raw?.backLogoUrl ?? "").trim(),
+    layoutMode: raw?.layoutMode === "double" ? "double" : "single",
+  };
+
+  const elements = normalizeElements(raw?.elements, widthMm, heightMm, types);
+  if ("error" in elements) return elements;
+  if (elements.length) design.elements = elements;
+
+  const colors = [design.backgroundColor, design.accentColor, design.textColor, design.borderColor];
+  if (!colors.every((c) => COLOR_RE.test(c))) {
+    return { error: "Badge colors must be hex values like #0ea5e9" };
+  }
+  for (const logo of [design.frontLogoUrl, design.backLogoUrl]) {
+    if (!logo) continue;
+    if (!LOGO_RE.test(logo)) return { error: "Logos must be an image upload or a web address" };
+    if (logo.length > MAX_LOGO_LENGTH) return { error: "Logos must be smaller than 500 KB" };
+  }
+  return design;
+}
+
+type TemplateInput = Pick<BadgeTemplate, "eventId" | "name" | "isDefault" | "attendeeTypes" | "design">;
+
+// Validates a create/update payload against the ids of the event's attendee
+// types. On update, fields that are not sent keep their current value, a
+// partial design is laid over the current one, and the event never changes.
+export function parseTemplateInput(
+  body: any,
+  types: AttendeeType[],
+  current?: BadgeTemplate
+): { data: TemplateInput; error?: undefined } | { data?: undefined; error: string } {
+  const pick = <K extends keyof TemplateInput>(key: K) =>
+    body?.[key] !== undefined ? body[key] : current?.[key];
+
+  const design = normalizeDesign({ ...current?.design, ...body?.design }, types);
+  if ("error" in design) return { error: design.error };
+
+  const rawTypes = pick("attendeeTypes");
+  const data: TemplateInput = {
+    eventId: current ? current.eventId : String(body?.eventId ?? "").trim(),
+    name: String(pick("name") ?? "").trim(),
+    isDefault: pick("isDefault") === true,
+    attendeeTypes: types.filter((t) => Array.isArray(rawTypes) && rawTypes.includes(t)),
+    design,
+  };
+
+  if (!data.name) return { error: "Template name is required" };
+  if (data.name.length > MAX_NAME_LENGTH) return { error: `Template names are at most ${MAX_NAME_LENGTH} characters` };
+  if (!data.eventId) return { error: "Event is required" };
+
+  return { data };
+}
+
+// An event has one default template and each attendee type one template, so
+// the template just saved takes them over from its siblings. Returns the
+// siblings that changed, for the audit log.
+export async function claimDefaultAndTypes(template: BadgeTemplate) {
+  const changed: { before: BadgeTemplate; after: BadgeTemplate }[] = [];
+  for (const other of await badgeTemplates.find({ eventId: template.eventId })) {
+    if (other.id === template.id) continue;
+    const loseDefault = template.isDefault && other.isDefault;
+    const keptTypes = other.attendeeTypes.filter((t) => !template.attendeeTypes.includes(t));
+    if (!loseDefault && keptTypes.length === other.attendeeTypes.length) continue;
+
+    const after = await badgeTemplates.update(other.id, (existing) => ({
+      ...existing,
+      isDefault: loseDefault ? false : existing.isDefault,
+      attendeeTypes: existing.attendeeTypes.filter((t) => !template.attendeeTypes.includes(t)),
+    }));
+    if (after) changed.push({ before: other, after });
+  }
+  return changed;
+}
+
+// The template an attendee's badge prints with, from their event's
+// templates, given the id of their type at the event
+export function templateFor(attendee: Attendee, templates: BadgeTemplate[], type: AttendeeType) {
+  const own = templates.filter((t) => t.eventId === (attendee.eventId || ""));
+  return own.find((t) => t.attendeeTypes.includes(type)) || own.find((t) => t.isDefault) || null;
+}
+
+// Template as written to the audit log: uploaded logos are replaced by a
+// fingerprint, so a changed logo still shows without copying the image
+export function auditedTemplate(template: BadgeTemplate) {
+  const fingerprint = (url: string) =>
+    url.startsWith("data:")
+      ? `[image ${crypto.createHash("sha256").update(url).digest("hex").slice(0, 12)}]`
+      : url;
+  return {
+    ...template,
+    design: {
+      ...template.design,
+      frontLogoUrl: fingerprint(template.design.frontLogoUrl),
+      backLogoUrl: fingerprint(template.design.backLogoUrl),
+      ...(template.design.elements
+        ? {
+            elements: template.design.elements.map((e) =>
+              e.imageUrl ? { ...e, imageUrl: fingerprint(e.imageUrl) } : e
+            ),
+          }
+        : {}),
+    },
+  };
+}
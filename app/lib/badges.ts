@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import { attendees } from "./repositories";
+import { hmac } from "./signing";
+import type { Attendee } from "./types";
+
+// Badge QR payloads:
+//   hemisphere:v2:<attendeeId>:<eventId>:<version>:<signature>   signed (current)
+//   hemisphere:<attendeeId>                                       legacy, unsigned
+// eventId may be empty for attendees without an event. The version is bumped
+// on reprint so older badges for the same attendee stop scanning.
+const LEGACY_PREFIX = "hemisphere:";
+const SIGNED_PREFIX = "hemisphere:v2:";
+const SIGNATURE_LENGTH = 22; // 128 bits of base64url
+
+// HEMISPHERE_LEGACY_QR=reject turns off the unsigned format once every badge
+// in circulation has been reprinted. Accepted by default during migration.
+export function legacyBadgesAccepted() {
+  return process.env.HEMISPHERE_LEGACY_QR !== "reject";
+}
+
+async function signature(attendeeId: string, eventId: string, version: number) {
+  const digest = await hmac(`v2:${attendeeId}:${eventId}:${version}`);
+  return digest.slice(0, SIGNATURE_LENGTH);
+}
+
+export async function badgeQrValue(attendee: Attendee) {
+  const eventId = attendee.eventId || "";
+  const version = attendee.badgeVersion || 1;
+  const sig = await signature(attendee.id, eventId, version);
+  return `${SIGNED_PREFIX}${attendee.id}:${eventId}:${version}:${sig}`;
+}
+
+// Attendee as sent to staff screens, with the QR their badge should carry
+export async function withQrValue(attendee: Attendee) {
+  return { ...attendee, qrValue: await badgeQrValue(attendee) };
+}
+
+// The attendee with a new badge version, for a reprint that replaces a lost
+// badge: once the print is recorded, the QR on every earlier copy is rejected
+export function reissuedBadge(attendee: Attendee): Attendee {
+  return { ...attendee, badgeVersion: (attendee.badgeVersion || 1) + 1 };
+}
+
+type PrintRefusal = { error: string; status: number };
+
+// Records a print of the badge at the version it carries, so a reissue only
+// takes effect once the new badge is printed. refuse sees the attendee as
+// stored at the moment of the write, so of two desks printing the same
+// first badge only one gets to record it; a refused print changes nothing.
+export async function recordBadgePrint(
+  printed: Attendee,
+  staffId: string,
+  printedAt = new Date().toISOString(),
+  refuse: (current: Attendee) => PrintRefusal | null = () => null
+): Promise<
+  | { before: Attendee; after: Attendee; refusal?: undefined }
+  | { before?: undefined; after?: undefined; refusal: PrintRefusal }
+  | null
+> {
+  let before: Attendee | null = null;
+  let refusal: PrintRefusal | null = null;
+  const after = await attendees.update(printed.id, (existing) => {
+    before = existing;
+    refusal = refuse(existing);
+    if (refusal) return existing;
+    return {
+      ...existing,
+      printedAt,
+      printCount: (existing.printCount || 0) + 1,
+      printedBy: staffId,
+      badgeVersion: Math.max(existing.badgeVersion || 1, printed.badgeVersion || 1),
+    };
+  });
+  if (!after || !before) return null;
+  const refused = refusal as PrintRefusal | null;
+  return refused ? { refusal: refused } : { before: before as Attendee, after };
+}
+
+type ParsedBadge =
+  | { kind: "signed"; attendeeId: string; eventId: string; version: number; signature: string }
+  | { kind: "legacy"; attendeeId: string };
+
+export function parseBadgeQr(raw: unknown): ParsedBadge | null {
+  const value = String(raw ?? "").trim();
+
+  if (value.toLowerCase().startsWith(SIGNED_PREFIX)) {
+    const [attendeeId, eventId, version, sig, extra] = value.slice(SIGNED_PREFIX.length).split(":");
+    if (!attendeeId || !version || !sig || extra !== undefined) return null;
+    return { kind: "signed", attendeeId, eventId, version: Number(version), signature: sig };
+  }
+
+  if (value.toLowerCase().startsWith(LEGACY_PREFIX)) {
+    const attendeeId = value.slice(LEGACY_PREFIX.length);
+    return attendeeId && !attendeeId.includes(":") ? { kind: "legacy", attendeeId } : null;
+  }
+
+  return null;
+}
+
+type BadgeResult =
+  | { attendee: Attendee; legacy: boolean; error?: undefined; status?: undefined }
+  | { attendee?: undefined; legacy?: undefined; error: string; status: number };
+
+// Verifies a scanned QR and loads its attendee. Used by every scanner path
+// (check-in, lead capture, attendee lookup) so none of them trust a bare id.
+export async function resolveBadge(raw: unknown): Promise<BadgeResult> {
+  const badge = parseBadgeQr(raw);
+  if (!badge) {
+    return { error: "Not a Hemisphere badge", status: 400 };
+  }
+
+  if (badge.kind === "legacy") {
+    if (!legacyBadgesAccepted()) {
+      return { error: "This badge uses an old QR format. Reprint it.", status: 403 };
+    }
+    const attendee = await attendees.get(badge.attendeeId);
+    if (!attendee) {
+      return { error: "Attendee not found", status: 404 };
+    }
+    // Legacy badges carry no version, so they stand for the first badge
+    // only; once it has been reissued, the lost copy must stop working
+    if ((attendee.badgeVersion || 1) > 1) {
+      return { error: "This badge has been replaced by a reprint", status: 403 };
+    }
+    return { attendee, legacy: true };
+  }
+
+  const expected = Buffer.from(await signature(badge.attendeeId, badge.eventId, badge.version));
+  const actual = Buffer.from(badge.signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { error: "Badge signature is invalid", status: 403 };
+  }
+
+  const attendee = await attendees.get(badge.attendeeId);
+  if (!attendee) {
+    return { error: "Attendee not found", status: 404 };
+  }
+  if ((attendee.eventId || "") !== badge.eventId) {
+    return { error: "This badge was issued for a different event", status: 403 };
+  }
+  if ((attendee.badgeVersion || 1) !== badge.version) {
+    return { error: "This badge has been replaced by a reprint", status: 403 };
+  }
+
+  return { attendee, legacy: false };
+}
@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import { checkinHistory } from "./repositories";
+import type { Attendee, CheckinChange, CheckinState } from "./types";
+
+type Stamp = {
+  stationId?: string;
+  stationName?: string;
+  operatorId: string;
+  operatorName: string;
+};
+
+export function checkinState(attendee: Attendee): CheckinState {
+  const state: CheckinState = { checkedIn: !!attendee.checkedIn };
+  if (attendee.checkedInAt) state.checkedInAt = attendee.checkedInAt;
+  if (attendee.checkedInStationId) state.checkedInStationId = attendee.checkedInStationId;
+  if (attendee.checkedInBy) state.checkedInBy = attendee.checkedInBy;
+  return state;
+}
+
+// Puts an earlier state back on the attendee, clearing fields it didn't have
+export function withCheckinState(attendee: Attendee, state: CheckinState): Attendee {
+  const next = { ...attendee, checkedIn: state.checkedIn };
+  for (const field of ["checkedInAt", "checkedInStationId", "checkedInBy"] as const) {
+    if (state[field]) next[field] = state[field];
+    else delete next[field];
+  }
+  return next;
+}
+
+function sameState(a: CheckinState, b: CheckinState) {
+  return (
+    a.checkedIn === b.checkedIn &&
+    a.checkedInAt === b.checkedInAt &&
+    a.checkedInStationId === b.checkedInStationId &&
+    a.checkedInBy === b.checkedInBy
+  );
+}
+
+// Appends a change if the state really changed; repeat scans of someone
+// already checked in leave no history here (the entry log has them).
+export async function recordCheckinChange(
+  attendee: Attendee,
+  source: CheckinChange["source"],
+  previous: CheckinState,
+  next: CheckinState,
+  stamp: Stamp,
+  undoesId?: string
+) {
+  if (sameState(previous, next)) return null;
+
+  const change: CheckinChange = {
+    id: `chg_${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`,
+    eventId: attendee.eventId || "",
+    attendeeId: attendee.id,
+    source,
+    previous,
+    next,
+    actorId: stamp.operatorId,
+    actorName: stamp.operatorName,
+    ...(stamp.stationId ? { stationId: stamp.stationId, stationName: stamp.stationName } : {}),
+    ...(undoesId ? { undoesId } : {}),
+    timestamp: new Date().toISOString(),
+  };
+  await checkinHistory.insert(change);
+  return change;
+}
+
+export async function historyFor(attendeeId: string) {
+  return (await checkinHistory.find({ attendeeId })).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+}
+
+// The newest change that hasn't been undone yet, skipping undos themselves,
+// so repeated undos walk back through the history one change at a time.
+export async function findUndoTarget(attendeeId: string) {
+  const history = await historyFor(attendeeId);
+  const undone = new Set(history.map((c) => c.undoesId).filter(Boolean));
+  for (let i = history.length - 1; i >= 0; i--) {
+    const change = history[i];
+    if (change.source !== "undo" && !undone.has(change.id)) return change;
+  }
+  return null;
+}
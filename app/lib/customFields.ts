@@ -0,0 +1,151 @@
+import crypto from "crypto";
+import type { CustomField, CustomFieldType, CustomFieldValue } from "./types";
+
+const FIELD_TYPES: CustomFieldType[] = ["text", "select", "multiselect", "checkbox", "date"];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const ID_RE = /^fld_[a-z0-9]+$/;
+const MAX_FIELDS = 30;
+const MAX_TEXT_LENGTH = 5000;
+
+// Spreadsheet cells and form posts spell a ticked box many ways
+const CHECKED_WORDS = ["true", "yes", "y", "1", "x", "on", "checked"];
+
+type FieldsResult = { fields: CustomField[]; error?: undefined } | { fields?: undefined; error: string };
+
+// Validates an event's field definitions. Fields sent back with their id
+// keep it, so answers already given stay attached; new fields get one.
+export function parseCustomFields(value: unknown): FieldsResult {
+  if (value === undefined || value === null) return { fields: [] };
+  if (!Array.isArray(value)) return { error: "Registration fields must be a list" };
+  if (value.length > MAX_FIELDS) return { error: `An event can have at most ${MAX_FIELDS} registration fields` };
+
+  const fields: CustomField[] = [];
+  const labels = new Set<string>();
+  for (const raw of value) {
+    const label = String(raw?.label ?? "").trim();
+    const type = raw?.type as CustomFieldType;
+    if (!label) return { error: "Every registration field needs a label" };
+    if (!FIELD_TYPES.includes(type)) return { error: `Unknown field type for "${label}"` };
+    if (labels.has(label.toLowerCase())) return { error: `Two registration fields are called "${label}"` };
+    labels.add(label.toLowerCase());
+
+    let id = String(raw?.id ?? "");
+    if (!ID_RE.test(id) || fields.some((f) => f.id === id)) {
+      id = `fld_${crypto.randomUUID().replace(/-/g, "").slice(0, 8)}`;
+    }
+    const field: CustomField = { id, label, type, required: !!raw?.required };
+
+    if (type === "select" || type === "multiselect") {
+      const options = Array.isArray(raw?.options) ? raw.options.map((o: unknown) => String(o ?? "").trim()) : [];
+      // Answers are matched without regard to case, so options must differ by more
+      const seen = options.map((o: string) => o.toLowerCase());
+      field.options = options.filter((o: string, i: number) => o && seen.indexOf(o.toLowerCase()) === i);
+      if (!field.options!.length) return { error: `"${label}" needs at least one option` };
+    }
+
+    if (type === "text") {
+      if (raw?.maxLength !== undefined && raw?.maxLength !== null && raw?.maxLength !== "") {
+        const maxLength = Number(raw.maxLength);
+        if (!(Number.isInteger(maxLength) && maxLength > 0 && maxLength <= MAX_TEXT_LENGTH)) {
+          return { error: `"${label}" length limit must be a whole number up to ${MAX_TEXT_LENGTH}` };
+        }
+        field.maxLength = maxLength;
+      }
+      const pattern = String(raw?.pattern ?? "").trim();
+      if (pattern) {
+        try {
+          new RegExp(pattern);
+        } catch {
+          return { error: `"${label}" has an invalid pattern` };
+        }
+        field.pattern = pattern;
+      }
+    }
+
+    if (type === "date") {
+      for (const bound of ["minDate", "maxDate"] as const) {
+        const date = String(raw?.[bound] ?? "").trim();
+        if (!date) continue;
+        if (!DATE_RE.test(date)) return { error: `"${label}" date limits must be YYYY-MM-DD` };
+        field[bound] = date;
+      }
+      if (field.minDate && field.maxDate && field.maxDate < field.minDate) {
+        return { error: `"${label}" latest date is before its earliest date` };
+      }
+    }
+
+    fields.push(field);
+  }
+  return { fields };
+}
+
+function listAnswer(value: unknown) {
+  const items = Array.isArray(value) ? value : String(value ?? "").split(/[;,]/);
+  return items.map((item) => String(item ?? "").trim()).filter(Boolean);
+}
+
+// The option as defined, matched without regard to case
+function matchOption(field: CustomField, answer: string) {
+  return field.options?.find((o) => o.toLowerCase() === answer.toLowerCase());
+}
+
+type ValuesResult =
+  | { values: Record<string, CustomFieldValue>; error?: undefined }
+  | { values?: undefined; error: string };
+
+// Checks answers against an event's fields and returns them cleaned up:
+// unknown keys are dropped, empty answers left out, options matched to
+// their defined spelling, and "a; b" or "yes" accepted from spreadsheets.
+// Staff edits pass enforceRequired: false so older registrations can be
+// fixed before every new required question is answered.
+export function parseCustomValues(
+  fields: CustomField[] | undefined,
+  answers: unknown,
+  { enforceRequired = true } = {}
+): ValuesResult {
+  const values: Record<string, CustomFieldValue> = {};
+
+  for (const field of fields || []) {
+    const raw = answers?.[field.id];
+    let value: CustomFieldValue | undefined;
+
+    if (field.type === "checkbox") {
+      const checked = raw === true || CHECKED_WORDS.includes(String(raw ?? "").trim().toLowerCase());
+      if (checked) value = true;
+    } else if (field.type === "multiselect") {
+      const chosen: string[] = [];
+      for (const answer of listAnswer(raw)) {
+        const option = matchOption(field, answer);
+        if (!option) return { error: `"${field.label}" must be chosen from: ${field.options!.join(", ")}` };
+        if (!chosen.includes(option)) chosen.push(option);
+      }
+      if (chosen.length) value = field.options!.filter((o) => chosen.includes(o));
+    } else {
+      const text = String(raw ?? "").trim();
+      if (text && field.type === "select") {
+        value = matchOption(field, text);
+        if (!value) return { error: `"${field.label}" must be one of: ${field.options!.join(", ")}` };
+      } else if (text && field.type === "date") {
+        if (!DATE_RE.test(text)) return { error: `"${field.label}" must be a date (YYYY-MM-DD)` };
+        if (field.minDate && text < field.minDate) return { error: `"${field.label}" can't be before ${field.minDate}` };
+        if (field.maxDate && text > field.maxDate) return { error: `"${field.label}" can't be after ${field.maxDate}` };
+        value = text;
+      } else if (text) {
+        if (field.maxLength && text.length > field.maxLength) {
+          return { error: `"${field.label}" must be at most ${field.maxLength} characters` };
+        }
+        if (field.pattern && !new RegExp(`^(?:${field.pattern})$`).test(text)) {
+          return { error: `"${field.label}" is not in the expected format` };
+        }
+        value = text;
+      }
+    }
+
+    if (value !== undefined) {
+      values[field.id] = value;
+    } else if (field.required && enforceRequired) {
+      return { error: field.type === "checkbox" ? `"${field.label}" must be checked` : `"${field.label}" is required` };
+    }
+  }
+  return { values };
+}
@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { deviceSessions } from "./repositories";
+import { signPayload, verifyPayload } from "./signing";
+import type { ActivationCode, DeviceSession } from "./types";
+
+type DeviceTokenPayload = {
+  sid: string; // device session id
+  ex: string; // exhibitor id
+  ev: string; // event id
+  exp: number; // ms since epoch
+};
+
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export function isDeviceActive(device: DeviceSession, now = Date.now()) {
+  return !device.revokedAt && new Date(device.expiresAt).getTime() > now;
+}
+
+// Called after the activation code has been redeemed. The session lives as
+// long as the code it was activated with.
+export async function issueDeviceSession(code: ActivationCode, label: string) {
+  const now = new Date().toISOString();
+  const device: DeviceSession = {
+    id: crypto.randomUUID(),
+    exhibitorId: code.exhibitorId,
+    eventId: code.eventId,
+    activationCode: code.code,
+    label: label.slice(0, 120) || "Unnamed device",
+    createdAt: now,
+    expiresAt: code.expiresAt,
+    lastSeenAt: now,
+  };
+  await deviceSessions.insert(device);
+
+  const token = await signPayload({
+    sid: device.id,
+    ex: device.exhibitorId,
+    ev: device.eventId,
+    exp: new Date(device.expiresAt).getTime(),
+  } satisfies DeviceTokenPayload);
+
+  return { device, token };
+}
+
+export async function revokeExhibitorDevices(exhibitorId: string) {
+  await revokeDevices(await deviceSessions.find({ exhibitorId }));
+}
+
+// Signs out every device activated with the code, so revoking a leaked code
+// locks out whoever already used it
+export async function revokeCodeDevices(code: string) {
+  await revokeDevices(await deviceSessions.find({ activationCode: code }));
+}
+
+async function revokeDevices(devices: DeviceSession[]) {
+  const revokedAt = new Date().toISOString();
+  for (const device of devices.filter((d) => !d.revokedAt)) {
+    await deviceSessions.update(device.id, { revokedAt });
+  }
+}
+
+function readBearer(request: Request) {
+  const auth = request.headers.get("authorization") || "";
+  return auth.toLowerCase().startsWith("bearer ") ? auth.slice(7).trim() : "";
+}
+
+type DeviceAuthResult =
+  | { device: DeviceSession; denied?: undefined }
+  | { device?: undefined; denied: NextResponse };
+
+// Device counterpart of authorize() for booth endpoints:
+//   const { device, denied } = await authorizeDevice(request);
+//   if (denied) return denied;
+export async function authorizeDevice(request: Request): Promise<DeviceAuthResult> {
+  const deny = (error: string) => ({
+    denied: NextResponse.json({ error }, { status: 401 }),
+  });
+
+  const token = readBearer(request);
+  if (!token) return deny("Activate this device first");
+
+  const payload = await verifyPayload<DeviceTokenPayload>(token);
+  if (!payload?.sid || !(payload.exp > Date.now())) {
+    return deny("Device session is invalid or expired. Activate again.");
+  }
+
+  const device = await deviceSessions.get(payload.sid);
+  if (
+    !device ||
+    !isDeviceActive(device) ||
+    device.exhibitorId !== payload.ex ||
+    device.eventId !== payload.ev
+  ) {
+    return deny("This device has been signed out. Activate again.");
+  }
+
+  // Don't rewrite the collection on every scan
+  if (Date.now() - new Date(device.lastSeenAt).getTime() > LAST_SEEN_INTERVAL_MS) {
+    await deviceSessions.update(device.id, { lastSeenAt: new Date().toISOString() });
+  }
+
+  return { device };
+}
@@ -0,0 +1,107 @@
+import { eventAttendeeTypes, parseAttendeeTypes, parseTicketCategories } from "./attendeeTypes";
+import { parseCustomFields } from "./customFields";
+import type { EventBranding, EventRecord } from "./types";
+
+type EventInput = Omit<EventRecord, "id" | "createdAt" | "archivedAt">;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+
+export const DEFAULT_OCCUPANCY_ALERT_PERCENT = 90;
+
+export const DEFAULT_BRANDING: EventBranding = {
+  logoUrl: "",
+  primaryColor: "#0f172a",
+  accentColor: "#0ea5e9",
+};
+
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isArchived(event: EventRecord) {
+  return !!event.archivedAt;
+}
+
+// Everyone can list events (the register page needs them); only staff who
+// manage events see activation codes.
+export function publicEvent({ activationCode, ...rest }: EventRecord) {
+  return rest;
+}
+
+// Validates a create/update payload. On update, fields that are not sent keep
+// their current value.
+export function parseEventInput(
+  body: any,
+  current?: EventRecord
+): { data: EventInput; error?: undefined } | { data?: undefined; error: string } {
+  const pick = <K extends keyof EventInput>(key: K) =>
+    body?.[key] !== undefined ? body[key] : current?.[key];
+
+  const optionalNumber = (value: unknown) =>
+    value === null || value === undefined || value === "" ? null : Number(value);
+  const capacity = optionalNumber(pick("capacity"));
+  const occupancyLimit = optionalNumber(pick("occupancyLimit"));
+  const occupancyAlertPercent =
+    optionalNumber(pick("occupancyAlertPercent")) ?? DEFAULT_OCCUPANCY_ALERT_PERCENT;
+  const branding = { ...DEFAULT_BRANDING, ...current?.branding, ...body?.branding };
+  const customFields = parseCustomFields(pick("customFields"));
+  // Categories are checked against the types being saved with them
+  const attendeeTypes = parseAttendeeTypes(pick("attendeeTypes"));
+  const ticketCategories = parseTicketCategories(
+    pick("ticketCategories"),
+    eventAttendeeTypes({ attendeeTypes: attendeeTypes.types })
+  );
+
+  const data: EventInput = {
+    name: String(pick("name") ?? "").trim(),
+    venue: String(pick("venue") ?? "").trim(),
+    timeZone: String(pick("timeZone") ?? "").trim() || "UTC",
+    startDate: String(pick("startDate") ?? "").trim(),
+    endDate: String(pick("endDate") ?? "").trim(),
+    activationCode: String(pick("activationCode") ?? "").trim(),
+    capacity,
+    occupancyLimit,
+    occupancyAlertPercent,
+    branding: {
+      logoUrl: String(branding.logoUrl ?? "").trim(),
+      primaryColor: String(branding.primaryColor ?? "").trim(),
+      accentColor: String(branding.accentColor ?? "").trim(),
+    },
+    customFields: customFields.fields || [],
+    attendeeTypes: attendeeTypes.types || [],
+    ticketCategories: ticketCategories.categories || [],
+  };
+
+  if (!data.name) return { error: "Event name is required" };
+  if (!isTimeZone(data.timeZone!)) return { error: `Unknown time zone: ${data.timeZone}` };
+  if (data.startDate && !DATE_RE.test(data.startDate)) return { error: "Start date must be YYYY-MM-DD" };
+  if (data.endDate && !DATE_RE.test(data.endDate)) return { error: "End date must be YYYY-MM-DD" };
+  if (data.startDate && data.endDate && data.endDate < data.startDate) {
+    return { error: "End date is before the start date" };
+  }
+  if (capacity !== null && !(Number.isInteger(capacity) && capacity > 0)) {
+    return { error: "Capacity must be a positive whole number" };
+  }
+  if (occupancyLimit !== null && !(Number.isInteger(occupancyLimit) && occupancyLimit > 0)) {
+    return { error: "Occupancy limit must be a positive whole number" };
+  }
+  if (
+    !(Number.isInteger(occupancyAlertPercent) && occupancyAlertPercent >= 1 && occupancyAlertPercent <= 100)
+  ) {
+    return { error: "Occupancy alert must be a whole percentage from 1 to 100" };
+  }
+  if (![data.branding!.primaryColor, data.branding!.accentColor].every((c) => COLOR_RE.test(c))) {
+    return { error: "Brand colors must be hex values like #0ea5e9" };
+  }
+  if (customFields.error) return { error: customFields.error };
+  if (attendeeTypes.error) return { error: attendeeTypes.error };
+  if (ticketCategories.error) return { error: ticketCategories.error };
+
+  return { data };
+}
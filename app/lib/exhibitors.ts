@@ -0,0 +1,76 @@
+import { exhibitors, leads } from "./repositories";
+import type { Exhibitor, ExhibitorStaffMember } from "./types";
+
+// Exhibitor names are typed by hand on every lead, so compare them loosely.
+export function normalizeExhibitorName(name: unknown) {
+  return String(name ?? "").trim().toLowerCase();
+}
+
+function cleanEmails(value: unknown) {
+  const list = Array.isArray(value) ? value : String(value ?? "").split(/[,;\s]+/);
+  const emails = list.map((e) => String(e ?? "").trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(emails));
+}
+
+function cleanStaff(value: unknown): ExhibitorStaffMember[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((member) => ({
+      name: String(member?.name ?? "").trim(),
+      email: String(member?.email ?? "").trim().toLowerCase(),
+    }))
+    .filter((member) => member.name || member.email);
+}
+
+type ExhibitorInput = Omit<Exhibitor, "id" | "createdAt">;
+
+// Validates a create/update payload. On update, fields that are not sent keep
+// their current value.
+export function parseExhibitorInput(
+  body: any,
+  current?: Exhibitor
+): { data: ExhibitorInput; error?: undefined } | { data?: undefined; error: string } {
+  const pick = <K extends keyof ExhibitorInput>(key: K) =>
+    body?.[key] !== undefined ? body[key] : current?.[key];
+
+  const data: ExhibitorInput = {
+    name: String(pick("name") ?? "").trim(),
+    boothNumber: String(pick("boothNumber") ?? "").trim(),
+    eventId: String(pick("eventId") ?? "").trim(),
+    contactEmails: cleanEmails(pick("contactEmails")),
+    logoUrl: String(pick("logoUrl") ?? "").trim(),
+    staff: cleanStaff(pick("staff")),
+  };
+
+  if (!data.name) return { error: "Company name is required" };
+  if (!data.eventId) return { error: "Event is required" };
+
+  const badEmail = [...data.contactEmails, ...data.staff.map((s) => s.email).filter(Boolean)].find(
+    (email) => !email.includes("@")
+  );
+  if (badEmail) return { error: `Invalid email: ${badEmail}` };
+
+  return { data };
+}
+
+// Another exhibitor at the same event already using this company name
+export async function findDuplicateExhibitor(name: string, eventId: string, exceptId?: string) {
+  const key = normalizeExhibitorName(name);
+  const sameEvent = await exhibitors.find({ eventId });
+  return sameEvent.find((e) => e.id !== exceptId && normalizeExhibitorName(e.name) === key) || null;
+}
+
+// Leads captured before the exhibitor was registered only carry its name.
+// Attach them to the exhibitor so its portal and exports pick them up.
+export async function linkLeadsToExhibitor(exhibitor: Exhibitor) {
+  const key = normalizeExhibitorName(exhibitor.name);
+  const eventLeads = await leads.find({ eventId: exhibitor.eventId });
+  const orphans = eventLeads.filter(
+    (l) => !l.exhibitorId && normalizeExhibitorName(l.exhibitor) === key
+  );
+
+  for (const lead of orphans) {
+    await leads.update(lead.id, { exhibitorId: exhibitor.id, exhibitor: exhibitor.name });
+  }
+  return orphans.length;
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { idempotencyKeys } from "./repositories";
+
+// Long enough to outlast any show day a scanner spends offline
+const KEY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 200;
+// How far a queued write's own clock may run ahead of ours
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+type Outcome = { status: number; body: unknown };
+
+// Writes running right now, so two replays of the same key arriving together
+// wait for the first instead of both writing.
+const inFlight = new Map<string, Promise<Outcome>>();
+
+// Clients send the key as an Idempotency-Key header; the body field is for
+// callers that can't set headers.
+export function readIdempotencyKey(request: Request, body?: any) {
+  const value = request.headers.get("idempotency-key") ?? body?.idempotencyKey;
+  const key = String(value ?? "").trim();
+  return key && key.length <= MAX_KEY_LENGTH ? key : "";
+}
+
+// Runs `write` once per (scope, key). A repeat of a key that already
+// succeeded gets the stored response back with an Idempotent-Replayed header.
+// Failed writes aren't stored, so the client can retry them. Without a key
+// the write just runs.
+export async function idempotent(
+  scope: string,
+  key: string,
+  write: () => Promise<Outcome>
+): Promise<NextResponse> {
+  if (!key) {
+    const { status, body } = await write();
+    return NextResponse.json(body, { status });
+  }
+
+  const id = `${scope}:${key}`;
+  const pending = inFlight.get(id);
+  if (pending) {
+    const { status, body } = await pending;
+    return replayed(status, body);
+  }
+
+  // Registered before the first await so concurrent repeats find it
+  const run = (async (): Promise<Outcome & { replay: boolean }> => {
+    const stored = await idempotencyKeys.get(id);
+    if (stored) {
+      return { status: stored.status, body: stored.body, replay: true };
+    }
+
+    const outcome = await write();
+    if (outcome.status < 400) {
+      const now = Date.now();
+      await idempotencyKeys.removeWhere((r) => new Date(r.createdAt).getTime() <= now - KEY_TTL_MS);
+      await idempotencyKeys.insert({ key: id, ...outcome, createdAt: new Date(now).toISOString() });
+    }
+    return { ...outcome, replay: false };
+  })();
+
+  inFlight.set(id, run);
+  try {
+    const { status, body, replay } = await run;
+    return replay ? replayed(status, body) : NextResponse.json(body, { status });
+  } finally {
+    inFlight.delete(id);
+  }
+}
+
+function replayed(status: number, body: unknown) {
+  return NextResponse.json(body, { status, headers: { "Idempotent-Replayed": "true" } });
+}
+
+// Writes queued on an offline device carry the time they really happened.
+// Use it when it's plausible, otherwise fall back to now.
+export function clientTimestamp(value: unknown) {
+  const now = Date.now();
+  const time = value ? new Date(String(value)).getTime() : NaN;
+  if (Number.isNaN(time) || time > now + MAX_CLOCK_SKEW_MS || time < now - KEY_TTL_MS) {
+    return new Date(now).toISOString();
+  }
+  return new Date(time).toISOString();
+}
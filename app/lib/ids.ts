@@ -0,0 +1,9 @@
+let lastId = 0;
+
+// Date.now()-style numeric ids that stay unique when two records are created
+// in the same millisecond (keyed backends reject duplicate ids).
+export function timestampId() {
+  const now = Date.now();
+  lastId = now > lastId ? now : lastId + 1;
+  return lastId;
+}
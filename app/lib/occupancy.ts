@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import { DEFAULT_OCCUPANCY_ALERT_PERCENT } from "./events";
+import { publish } from "./realtime";
+import { entryLogs, eventSessions } from "./repositories";
+import { createWriteQueue } from "./storage/locking";
+import type { Attendee, EntryLog, EventRecord } from "./types";
+
+type Stamp = Pick<EntryLog, "stationId" | "stationName" | "operatorId" | "operatorName">;
+
+// Every write to an event's entry log or check-in state (door and session
+// scans, un-checks, undos) runs in this one queue per event id, so two
+// stations scanning the same badge at once can't both find the attendee
+// outside and log two entries, and an undo can't reverse a change another
+// scan is still making. This serializes within one server process.
+export const enqueueCheckin = createWriteQueue();
+
+export type Presence = {
+  event: Set<string>; // attendee ids inside the venue
+  sessions: Map<string, Set<string>>; // per session id
+};
+
+// Replays the entry log in scan order. Offline scanners sync late with the
+// time the badge was scanned, so order by timestamp, not by arrival.
+export async function presenceAt(eventId: string): Promise<Presence> {
+  const log = (await entryLogs.find({ eventId })).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+
+  const presence: Presence = { event: new Set(), sessions: new Map() };
+  for (const entry of log) {
+    let inside = presence.event;
+    if (entry.sessionId) {
+      if (!presence.sessions.has(entry.sessionId)) presence.sessions.set(entry.sessionId, new Set());
+      inside = presence.sessions.get(entry.sessionId)!;
+    }
+    if (entry.direction === "in") inside.add(entry.attendeeId);
+    else inside.delete(entry.attendeeId);
+  }
+  return presence;
+}
+
+export function sessionOccupancy(presence: Presence, sessionId: string) {
+  return presence.sessions.get(sessionId)?.size || 0;
+}
+
+export async function recordEntry(
+  attendee: Attendee,
+  direction: EntryLog["direction"],
+  stamp: Stamp,
+  timestamp: string,
+  sessionId?: string
+) {
+  const entry: EntryLog = {
+    id: `ent_${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`,
+    eventId: attendee.eventId || "",
+    attendeeId: attendee.id,
+    attendeeName: `${attendee.firstName || ""} ${attendee.lastName || ""}`.trim(),
+    ...(sessionId ? { sessionId } : {}),
+    direction,
+    timestamp,
+    ...stamp,
+  };
+  await entryLogs.insert(entry);
+  publish({ type: "entry", eventId: entry.eventId, data: entry });
+  return entry;
+}
+
+// Lets the attendee into the venue, or returns null if they're already
+// inside. Call from inside enqueueCheckin for the attendee's event.
+export async function enterEvent(attendee: Attendee, stamp: Stamp, timestamp: string) {
+  const presence = await presenceAt(attendee.eventId || "");
+  if (presence.event.has(attendee.id)) return null;
+  return recordEntry(attendee, "in", stamp, timestamp);
+}
+
+// Leaving the venue also leaves whatever session the attendee was still in,
+// so room counts don't keep people who went home. Call from inside
+// enqueueCheckin, like enterEvent.
+export async function leaveEvent(attendee: Attendee, stamp: Stamp, timestamp: string) {
+  const presence = await presenceAt(attendee.eventId || "");
+  if (!presence.event.has(attendee.id)) return null;
+
+  for (const [sessionId, inside] of presence.sessions) {
+    if (inside.has(attendee.id)) await recordEntry(attendee, "out", stamp, timestamp, sessionId);
+  }
+  return recordEntry(attendee, "out", stamp, timestamp);
+}
+
+export type AlertLevel = "ok" | "warning" | "full";
+
+export function alertLevel(occupancy: number, limit: number | null | undefined, percent: number): AlertLevel {
+  if (!limit) return "ok";
+  if (occupancy >= limit) return "full";
+  return occupancy >= (limit * percent) / 100 ? "warning" : "ok";
+}
+
+// Who is inside right now, for the admin header: the venue against its
+// occupancy limit and each session against its capacity
+export async function occupancyReport(event: EventRecord) {
+  const presence = await presenceAt(event.id);
+  const percent = event.occupancyAlertPercent ?? DEFAULT_OCCUPANCY_ALERT_PERCENT;
+  const limit = event.occupancyLimit ?? null;
+
+  const sessions = (await eventSessions.find({ eventId: event.id }))
+    .filter((s) => !s.archivedAt || sessionOccupancy(presence, s.id) > 0)
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+    .map((s) => {
+      const occupancy = sessionOccupancy(presence, s.id);
+      return {
+        id: s.id,
+        title: s.title,
+        room: s.room,
+        startsAt: s.startsAt,
+        endsAt: s.endsAt,
+        capacity: s.capacity,
+        occupancy,
+        level: alertLevel(occupancy, s.capacity, percent),
+      };
+    });
+
+  return {
+    eventId: event.id,
+    occupancy: presence.event.size,
+    limit,
+    alertPercent: percent,
+    level: alertLevel(presence.event.size, limit, percent),
+    sessions,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,701 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+
+// A small PDF writer for printed badges: pages of vector shapes, text in
+// one or two fonts and images from uploaded logos. Like spreadsheet.ts it
+// covers only what we need rather than pulling in a PDF library.
+//
+// Coordinates given to the page helpers are millimetres from the top left
+// of the page; the writer converts them to PDF points from the bottom left.
+
+const PT_PER_MM = 72 / 25.4;
+
+// ---- Fonts ----
+
+// Text is written as glyph ids of an embedded TrueType font (Identity-H), so
+// any letter the font has prints, not just the Latin-1 ones. Only the glyphs
+// a document uses are embedded.
+
+export type PdfFont = {
+  baseFont: string;
+  ascent: number; // 1/1000 em
+  descent: number; // negative
+  capHeight: number;
+  bbox: number[];
+  italicAngle: number;
+  glyphFor: (codePoint: number) => number; // 0 when the font lacks it
+  advance: (glyph: number) => number; // 1/1000 em
+  subset: (glyphs: Iterable<number>) => Buffer; // TrueType program with only these outlines
+};
+
+// The font's glyphs for the text, each with the character it shows. Letters
+// the font lacks fall back to their unaccented form, then to "?".
+export function encodeText(font: PdfFont, text: string) {
+  const glyphs: { glyph: number; char: string }[] = [];
+  for (const char of text.normalize("NFC")) {
+    const codePoint = char.codePointAt(0)!;
+    let glyph = codePoint < 0x20 ? 0 : font.glyphFor(codePoint);
+    let shown = char;
+    if (!glyph && codePoint >= 0x20) {
+      shown = char.normalize("NFD")[0];
+      glyph = font.glyphFor(shown.codePointAt(0)!);
+    }
+    if (!glyph) {
+      shown = "?";
+      glyph = font.glyphFor(0x3f);
+    }
+    glyphs.push({ glyph, char: shown });
+  }
+  return glyphs;
+}
+
+// Reads a TrueType font's metrics and character map, and keeps what's
+// needed to cut it down to the glyphs a document uses
+export function readTrueType(file: Buffer): PdfFont {
+  const tables = new Map<string, { offset: number; length: number }>();
+  const numTables = file.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const entry = 12 + i * 16;
+    tables.set(file.toString("latin1", entry, entry + 4), {
+      offset: file.readUInt32BE(entry + 8),
+      length: file.readUInt32BE(entry + 12),
+    });
+  }
+  const table = (tag: string) => {
+    const found = tables.get(tag);
+    if (found === undefined) throw new Error(`Font has no ${tag} table`);
+    return found.offset;
+  };
+
+  const head = table("head");
+  const unitsPerEm = file.readUInt16BE(head + 18);
+  const scale = (value: number) => Math.round((value * 1000) / unitsPerEm);
+  const bbox = [36, 38, 40, 42].map((offset) => scale(file.readInt16BE(head + offset)));
+  const longLoca = file.readInt16BE(head + 50) === 1;
+  const numGlyphs = file.readUInt16BE(table("maxp") + 4);
+  const loca = table("loca");
+  const glyf = table("glyf");
+  const glyphRange = (glyph: number) =>
+    longLoca
+      ? [file.readUInt32BE(loca + glyph * 4), file.readUInt32BE(loca + glyph * 4 + 4)]
+      : [file.readUInt16BE(loca + glyph * 2) * 2, file.readUInt16BE(loca + glyph * 2 + 2) * 2];
+
+  const hhea = table("hhea");
+  const ascent = scale(file.readInt16BE(hhea + 4));
+  const descent = scale(file.readInt16BE(hhea + 6));
+  const numberOfHMetrics = file.readUInt16BE(hhea + 34);
+  const hmtx = table("hmtx");
+  const advance = (glyph: number) =>
+    scale(file.readUInt16BE(hmtx + 4 * Math.min(glyph, numberOfHMetrics - 1)));
+
+  // Unicode -> glyph through the Windows BMP (format 4) subtable
+  const cmap = table("cmap");
+  let subtable = -1;
+  for (let i = 0; i < file.readUInt16BE(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = file.readUInt16BE(record);
+    const encoding = file.readUInt16BE(record + 2);
+    const offset = cmap + file.readUInt32BE(record + 4);
+    if (((platform === 3 && encoding === 1) || platform === 0) && file.readUInt16BE(offset) === 4) {
+      subtable = offset;
+      break;
+    }
+  }
+  if (subtable < 0) throw new Error("Font has no Unicode character map");
+  const segCount = file.readUInt16BE(subtable + 6) / 2;
+  const endCodes = subtable + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+  const glyphFor = (codePoint: number) => {
+    if (codePoint > 0xffff) return 0;
+    for (let seg = 0; seg < segCount; seg++) {
+      if (file.readUInt16BE(endCodes + seg * 2) < codePoint) continue;
+      const start = file.readUInt16BE(startCodes + seg * 2);
+      if (start > codePoint) return 0;
+      const delta = file.readUInt16BE(idDeltas + seg * 2);
+      const rangeOffsetAt = idRangeOffsets + seg * 2;
+      const rangeOffset = file.readUInt16BE(rangeOffsetAt);
+      if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+      const glyph = file.readUInt16BE(rangeOffsetAt + rangeOffset + 2 * (codePoint - start));
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+
+  let capHeight = Math.round(ascent * 0.7);
+  const os2 = tables.get("OS/2")?.offset;
+  if (os2 !== undefined && file.readUInt16BE(os2) >= 2) capHeight = scale(file.readInt16BE(os2 + 88));
+  const post = tables.get("post")?.offset;
+  const italicAngle = post !== undefined ? file.readInt32BE(post + 4) / 65536 : 0;
+
+  // PostScript name (name id 6), which PDF uses as the font's name
+  let baseFont = "";
+  const name = tables.get("name")?.offset;
+  if (name !== undefined) {
+    const count = file.readUInt16BE(name + 2);
+    const strings = name + file.readUInt16BE(name + 4);
+    for (let i = 0; i < count && !baseFont; i++) {
+      const record = name + 6 + i * 12;
+      if (file.readUInt16BE(record + 6) !== 6) continue;
+      const length = file.readUInt16BE(record + 8);
+      const start = strings + file.readUInt16BE(record + 10);
+      const raw = file.subarray(start, start + length);
+      baseFont =
+        file.readUInt16BE(record) === 1
+          ? raw.toString("latin1")
+          : Buffer.from(raw).swap16().toString("utf16le");
+    }
+  }
+
+  // Keeps every glyph id, so text needs no re-encoding, but empties the
+  // outlines of glyphs that aren't used. Composite glyphs bring the glyphs
+  // they are built from.
+  const subset = (used: Iterable<number>) => {
+    const keep = new Set<number>([0]);
+    const pending = [...used];
+    while (pending.length) {
+      const glyph = pending.pop()!;
+      if (glyph >= numGlyphs || keep.has(glyph)) continue;
+      keep.add(glyph);
+      const [start, end] = glyphRange(glyph);
+      if (end <= start || file.readInt16BE(glyf + start) >= 0) continue;
+      let at = glyf + start + 10;
+      for (let more = true; more; ) {
+        const flags = file.readUInt16BE(at);
+        pending.push(file.readUInt16BE(at + 2));
+        at += 4 + (flags & 0x1 ? 4 : 2) + (flags & 0x8 ? 2 : flags & 0x40 ? 4 : flags & 0x80 ? 8 : 0);
+        more = (flags & 0x20) !== 0;
+      }
+    }
+
+    const outlines: Buffer[] = [];
+    const newLoca = Buffer.alloc((numGlyphs + 1) * 4);
+    let size = 0;
+    for (let glyph = 0; glyph < numGlyphs; glyph++) {
+      newLoca.writeUInt32BE(size, glyph * 4);
+      if (!keep.has(glyph)) continue;
+      const [start, end] = glyphRange(glyph);
+      const outline = file.subarray(glyf + start, glyf + end);
+      outlines.push(outline, Buffer.alloc((4 - (outline.length % 4)) % 4));
+      size += outline.length + ((4 - (outline.length % 4)) % 4);
+    }
+    newLoca.writeUInt32BE(size, numGlyphs * 4);
+
+    const newHead = Buffer.from(file.subarray(head, head + tables.get("head")!.length));
+    newHead.writeUInt32BE(0, 8); // checkSumAdjustment, set below
+    newHead.writeInt16BE(1, 50); // long loca offsets
+    const copy = (tag: string) => {
+      const found = tables.get(tag);
+      return found && file.subarray(found.offset, found.offset + found.length);
+    };
+    return writeTrueType({
+      head: newHead,
+      hhea: copy("hhea")!,
+      hmtx: copy("hmtx")!,
+      maxp: copy("maxp")!,
+      loca: newLoca,
+      glyf: Buffer.concat(outlines),
+      // Hinting programs the outlines may call
+      ...(tables.has("cvt ") ? { "cvt ": copy("cvt ")! } : {}),
+      ...(tables.has("fpgm") ? { fpgm: copy("fpgm")! } : {}),
+      ...(tables.has("prep") ? { prep: copy("prep")! } : {}),
+    });
+  };
+
+  return {
+    baseFont: baseFont.replace(/[^A-Za-z0-9+\-_.]/g, "") || "EmbeddedFont",
+    ascent,
+    descent,
+    capHeight,
+    bbox,
+    italicAngle,
+    glyphFor,
+    advance,
+    subset,
+  };
+}
+
+function tableChecksum(data: Buffer) {
+  const padded = Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) sum = (sum + padded.readUInt32BE(i)) >>> 0;
+  return sum;
+}
+
+// Assembles a TrueType file from its tables. The head table must come with
+// its checkSumAdjustment zeroed; it is filled in here.
+function writeTrueType(tables: Record<string, Buffer>) {
+  const tags = Object.keys(tables).sort();
+  const entrySelector = Math.floor(Math.log2(tags.length));
+  const searchRange = 2 ** entrySelector * 16;
+  const header = Buffer.alloc(12 + tags.length * 16);
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(tags.length, 4);
+  header.writeUInt16BE(searchRange, 6);
+  header.writeUInt16BE(entrySelector, 8);
+  header.writeUInt16BE(tags.length * 16 - searchRange, 10);
+
+  const bodies: Buffer[] = [];
+  let offset = header.length;
+  tags.forEach((tag, i) => {
+    const data = tables[tag];
+    const entry = 12 + i * 16;
+    header.write(tag, entry, "latin1");
+    header.writeUInt32BE(tableChecksum(data), entry + 4);
+    header.writeUInt32BE(offset, entry + 8);
+    header.writeUInt32BE(data.length, entry + 12);
+    const padding = Buffer.alloc((4 - (data.length % 4)) % 4);
+    bodies.push(data, padding);
+    offset += data.length + padding.length;
+  });
+
+  const font = Buffer.concat([header, ...bodies]);
+  const headOffset = header.readUInt32BE(12 + tags.indexOf("head") * 16 + 8);
+  font.writeUInt32BE((0xb1b0afba - tableChecksum(font)) >>> 0, headOffset + 8);
+  return font;
+}
+
+// Badge text is always embedded, so it prints the same on every printer
+// and viewer. DejaVu Sans ships in public/fonts; HEMISPHERE_BADGE_FONT and
+// HEMISPHERE_BADGE_FONT_BOLD name other TrueType files to use instead.
+const BUNDLED_FONTS = { regular: "DejaVuSans.ttf", bold: "DejaVuSans-Bold.ttf" };
+const fontCache = new Map<string, PdfFont>();
+
+function loadFont(file: string, setting: string) {
+  const resolved = path.resolve(file);
+  if (!fontCache.has(resolved)) {
+    let bytes: Buffer;
+    try {
+      bytes = fs.readFileSync(resolved);
+    } catch (err: any) {
+      throw new Error(`Badge font ${resolved} can't be read (${err.code || err.message}); check ${setting}`);
+    }
+    try {
+      fontCache.set(resolved, readTrueType(bytes));
+    } catch (err: any) {
+      throw new Error(`Badge font ${resolved} isn't a usable TrueType font (${err.message}); check ${setting}`);
+    }
+  }
+  return fontCache.get(resolved)!;
+}
+
+export function badgeFonts() {
+  const bundled = (name: string) => path.join(process.cwd(), "public", "fonts", name);
+  const custom = process.env.HEMISPHERE_BADGE_FONT;
+  const customBold = process.env.HEMISPHERE_BADGE_FONT_BOLD;
+  const regular = custom
+    ? loadFont(custom, "HEMISPHERE_BADGE_FONT")
+    : loadFont(bundled(BUNDLED_FONTS.regular), "that public/fonts was deployed");
+  // A custom regular face without a bold one serves for both, rather than
+  // mixing it with the bundled bold
+  const bold = customBold
+    ? loadFont(customBold, "HEMISPHERE_BADGE_FONT_BOLD")
+    : custom
+      ? regular
+      : loadFont(bundled(BUNDLED_FONTS.bold), "that public/fonts was deployed");
+  return { regular, bold };
+}
+
+// Width of a line of text in millimetres
+export function textWidthMm(font: PdfFont, text: string, sizeMm: number) {
+  return (encodeText(font, text).reduce((sum, { glyph }) => sum + font.advance(glyph), 0) * sizeMm) / 1000;
+}
+
+// ---- Images ----
+
+export type PdfImage = {
+  width: number;
+  height: number;
+  filter: "DCTDecode" | "FlateDecode";
+  colorSpace: "DeviceRGB" | "DeviceGray";
+  data: Buffer;
+  alpha?: Buffer; // deflated 8-bit alpha, drawn as a soft mask
+};
+
+function readJpeg(bytes: Buffer): PdfImage | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const length = bytes.readUInt16BE(offset + 2);
+    // Start-of-frame markers carry the size; progressive ones included
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      const components = bytes[offset + 9];
+      if (components !== 1 && components !== 3) return null; // CMYK would need its own decode
+      return {
+        height: bytes.readUInt16BE(offset + 5),
+        width: bytes.readUInt16BE(offset + 7),
+        filter: "DCTDecode",
+        colorSpace: components === 1 ? "DeviceGray" : "DeviceRGB",
+        data: bytes,
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// 8-bit, non-interlaced PNGs of any colour type, which is what logo exports
+// are. Pixels are unfiltered and split into colour and alpha.
+function readPng(bytes: Buffer): PdfImage | null {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString("latin1", offset + 4, offset + 8);
+    const body = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === "PLTE") palette = body;
+    else if (type === "tRNS") transparency = body;
+    else if (type === "IDAT") idat.push(body);
+    else if (type === "IEND") break;
+    offset += 12 + length;
+  }
+  if (!width || bitDepth !== 8 || interlace !== 0) return null;
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (!channels || (colorType === 3 && !palette)) return null;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+      const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[(y - 1) * stride + x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      pixels[y * stride + x] = (line[x] + predictor) & 0xff;
+    }
+  }
+
+  const gray = colorType === 0 || colorType === 4;
+  const colorChannels = gray ? 1 : 3;
+  const color = Buffer.alloc(width * height * colorChannels);
+  const alpha = Buffer.alloc(width * height, 0xff);
+  let hasAlpha = false;
+  for (let i = 0; i < width * height; i++) {
+    const px = pixels.subarray(i * channels, (i + 1) * channels);
+    if (colorType === 3) {
+      palette!.copy(color, i * 3, px[0] * 3, px[0] * 3 + 3);
+      if (transparency && px[0] < transparency.length) alpha[i] = transparency[px[0]];
+    } else {
+      px.copy(color, i * colorChannels, 0, colorChannels);
+      if (colorType === 4 || colorType === 6) alpha[i] = px[channels - 1];
+    }
+    if (alpha[i] !== 0xff) hasAlpha = true;
+  }
+
+  return {
+    width,
+    height,
+    filter: "FlateDecode",
+    colorSpace: gray ? "DeviceGray" : "DeviceRGB",
+    data: zlib.deflateSync(color),
+    ...(hasAlpha ? { alpha: zlib.deflateSync(alpha) } : {}),
+  };
+}
+
+// An uploaded logo (a PNG or JPEG data URL), or null for anything we can't
+// draw: other formats, and web addresses, which the server doesn't fetch
+export function readImageDataUrl(url: string): PdfImage | null {
+  const match = /^data:image\/(png|jpeg);base64,([\s\S]*)$/.exec(url);
+  if (!match) return null;
+  try {
+    const bytes = Buffer.from(match[2], "base64");
+    return match[1] === "png" ? readPng(bytes) : readJpeg(bytes);
+  } catch (err) {
+    console.error("Badge logo read error:", err);
+    return null;
+  }
+}
+
+// ---- Document ----
+
+export type Rgb = [number, number, number];
+
+export function hexToRgb(hex: string): Rgb {
+  const value = /^#([0-9a-f]{6})$/i.exec(hex)?.[1] || "000000";
+  return [0, 2, 4].map((i) => parseInt(value.slice(i, i + 2), 16) / 255) as Rgb;
+}
+
+const num = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Text outside the content stream, e.g. the title, as UTF-16 so any
+// script survives
+function pdfTextString(text: string) {
+  return `<FEFF${Buffer.from(text, "utf16le").swap16().toString("hex").toUpperCase()}>`;
+}
+
+export type PdfFonts = { regular: PdfFont; bold: PdfFont };
+
+// Drawing commands for one page, in millimetres from the top left. F1 is
+// the regular font and F2 the bold one.
+export function createPage(widthMm: number, heightMm: number, fonts: PdfFonts) {
+  const ops: string[] = [];
+  const x = (mm: number) => num(mm * PT_PER_MM);
+  const y = (mm: number) => num((heightMm - mm) * PT_PER_MM);
+  const len = (mm: number) => num(mm * PT_PER_MM);
+  const usedImages = new Set<string>();
+  // Glyphs drawn in each font, with the character each shows
+  const usedGlyphs = new Map<PdfFont, Map<number, string>>();
+
+  // Rectangle with rounded corners as a path, for fills, strokes and clips
+  const roundedRect = (left: number, top: number, width: number, height: number, radius: number) => {
+    const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+    if (!r) {
+      ops.push(`${x(left)} ${y(top + height)} ${len(width)} ${len(height)} re`);
+      return;
+    }
+    const k = r * 0.5523; // control point offset for a quarter circle
+    const right = left + width;
+    const bottom = top + height;
+    ops.push(
+      `${x(left + r)} ${y(top)} m`,
+      `${x(right - r)} ${y(top)} l`,
+      `${x(right - r + k)} ${y(top)} ${x(right)} ${y(top + r - k)} ${x(right)} ${y(top + r)} c`,
+      `${x(right)} ${y(bottom - r)} l`,
+      `${x(right)} ${y(bottom - r + k)} ${x(right - r + k)} ${y(bottom)} ${x(right - r)} ${y(bottom)} c`,
+      `${x(left + r)} ${y(bottom)} l`,
+      `${x(left + r - k)} ${y(bottom)} ${x(left)} ${y(bottom - r + k)} ${x(left)} ${y(bottom - r)} c`,
+      `${x(left)} ${y(top + r)} l`,
+      `${x(left)} ${y(top + r - k)} ${x(left + r - k)} ${y(top)} ${x(left + r)} ${y(top)} c`,
+      "h"
+    );
+  };
+
+  return {
+    widthMm,
+    heightMm,
+    usedImages,
+    usedGlyphs,
+    save: () => ops.push("q"),
+    restore: () => ops.push("Q"),
+    rect(
+      left: number,
+      top: number,
+      width: number,
+      height: number,
+      style: { fill?: Rgb; stroke?: Rgb; lineWidthMm?: number; radius?: number; clip?: boolean }
+    ) {
+      if (style.fill) ops.push(`${style.fill.map(num).join(" ")} rg`);
+      if (style.stroke) ops.push(`${style.stroke.map(num).join(" ")} RG ${len(style.lineWidthMm ?? 0.25)} w`);
+      roundedRect(left, top, width, height, style.radius || 0);
+      if (style.clip) ops.push("W n");
+      else ops.push(style.fill && style.stroke ? "B" : style.fill ? "f" : "S");
+    },
+    line(x1: number, y1: number, x2: number, y2: number, color: Rgb, widthMm: number) {
+      ops.push(`${color.map(num).join(" ")} RG ${len(widthMm)} w ${x(x1)} ${y(y1)} m ${x(x2)} ${y(y2)} l S`);
+    },
+    // Filled squares on a grid, e.g. the dark modules of a QR code
+    cells(left: number, top: number, cellMm: number, grid: boolean[][], color: Rgb) {
+      ops.push(`${color.map(num).join(" ")} rg`);
+      grid.forEach((row, r) => {
+        // One rectangle per run of dark cells keeps the page small
+        for (let c = 0; c < row.length; c++) {
+          if (!row[c]) continue;
+          let end = c;
+          while (end + 1 < row.length && row[end + 1]) end++;
+          ops.push(
+            `${x(left + c * cellMm)} ${y(top + (r + 1) * cellMm)} ${len((end - c + 1) * cellMm)} ${len(cellMm)} re`
+          );
+          c = end;
+        }
+      });
+      ops.push("f");
+    },
+    // "baseline" is the distance from the page top to the text's baseline
+    text(fontKey: "F1" | "F2", sizeMm: number, left: number, baseline: number, text: string, color: Rgb) {
+      const font = fontKey === "F2" ? fonts.bold : fonts.regular;
+      if (!usedGlyphs.has(font)) usedGlyphs.set(font, new Map());
+      const used = usedGlyphs.get(font)!;
+      let hex = "";
+      for (const { glyph, char } of encodeText(font, text)) {
+        if (!used.has(glyph)) used.set(glyph, char);
+        hex += glyph.toString(16).padStart(4, "0");
+      }
+      ops.push(
+        `BT /${fontKey} ${len(sizeMm)} Tf ${color.map(num).join(" ")} rg ${x(left)} ${y(baseline)} Td <${hex}> Tj ET`
+      );
+    },
+    image(key: string, left: number, top: number, width: number, height: number) {
+      usedImages.add(key);
+      ops.push(`q ${len(width)} 0 0 ${len(height)} ${x(left)} ${y(top + height)} cm /${key} Do Q`);
+    },
+    content: () => ops.join("\n"),
+  };
+}
+
+export type PdfPage = ReturnType<typeof createPage>;
+
+// Maps glyph ids back to text, so the PDF's text can be searched and copied
+function toUnicodeCMap(glyphs: Map<number, string>) {
+  const hex = (text: string) => Buffer.from(text, "utf16le").swap16().toString("hex");
+  const entries = [...glyphs].map(([glyph, char]) => `<${glyph.toString(16).padStart(4, "0")}> <${hex(char)}>`);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.join("\n")}\nendbfchar`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMapResource defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+}
+
+// Serializes pages into a PDF file. The two fonts are F1 (regular) and F2
+// (bold) on every page, each embedded with just the glyphs the pages use;
+// images are shared by key.
+export function buildPdf(pages: PdfPage[], fonts: PdfFonts, images: Map<string, PdfImage>, title: string) {
+  const objects: Buffer[] = [];
+  const reserve = () => objects.push(Buffer.alloc(0));
+  const set = (id: number, dict: string, stream?: Buffer) => {
+    objects[id - 1] = stream
+      ? Buffer.concat([
+          Buffer.from(`${id} 0 obj\n${dict.replace(/>>$/, ` /Length ${stream.length} >>`)}\nstream\n`, "latin1"),
+          stream,
+          Buffer.from("\nendstream\nendobj\n", "latin1"),
+        ])
+      : Buffer.from(`${id} 0 obj\n${dict}\nendobj\n`, "latin1");
+    return id;
+  };
+  const add = (dict: string, stream?: Buffer) => set(reserve(), dict, stream);
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+
+  const usedGlyphs = new Map<PdfFont, Map<number, string>>();
+  for (const page of pages) {
+    for (const [font, glyphs] of page.usedGlyphs) {
+      if (!usedGlyphs.has(font)) usedGlyphs.set(font, new Map());
+      for (const [glyph, char] of glyphs) {
+        if (!usedGlyphs.get(font)!.has(glyph)) usedGlyphs.get(font)!.set(glyph, char);
+      }
+    }
+  }
+
+  const fontIds = new Map<PdfFont, number>();
+  const fontObject = (font: PdfFont) => {
+    if (fontIds.has(font)) return fontIds.get(font)!;
+    const glyphs = new Map([...(usedGlyphs.get(font) || [])].sort(([a], [b]) => a - b));
+    // Subsets are named with a tag of six capitals, here from the glyphs kept
+    const tag = crypto
+      .createHash("sha256")
+      .update(`${font.baseFont}:${[...glyphs.keys()].join(",")}`)
+      .digest()
+      .subarray(0, 6)
+      .reduce((out, byte) => out + String.fromCharCode(65 + (byte % 26)), "");
+    const name = `${tag}+${font.baseFont}`;
+
+    const program = font.subset(glyphs.keys());
+    const fileId = add(`<< /Filter /FlateDecode /Length1 ${program.length} >>`, zlib.deflateSync(program));
+    const descriptorId = add(
+      `<< /Type /FontDescriptor /FontName /${name} /Flags 32 /FontBBox [${font.bbox.join(" ")}]` +
+        ` /ItalicAngle ${num(font.italicAngle)} /Ascent ${font.ascent} /Descent ${font.descent}` +
+        ` /CapHeight ${font.capHeight} /StemV 80 /FontFile2 ${fileId} 0 R >>`
+    );
+    const widths = [...glyphs.keys()].map((glyph) => `${glyph} [${font.advance(glyph)}]`).join(" ");
+    const cidFontId = add(
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name}` +
+        ` /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>` +
+        ` /FontDescriptor ${descriptorId} 0 R /DW 1000 /W [${widths}] /CIDToGIDMap /Identity >>`
+    );
+    const toUnicodeId = add("<< /Filter /FlateDecode >>", zlib.deflateSync(Buffer.from(toUnicodeCMap(glyphs), "latin1")));
+    const id = add(
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H` +
+        ` /DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`
+    );
+    fontIds.set(font, id);
+    return id;
+  };
+  const fontResources = `/Font << /F1 ${fontObject(fonts.regular)} 0 R /F2 ${fontObject(fonts.bold)} 0 R >>`;
+
+  const imageIds = new Map<string, number>();
+  for (const [key, image] of images) {
+    const mask = image.alpha
+      ? add(
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceGray` +
+            ` /BitsPerComponent 8 /Filter /FlateDecode >>`,
+          image.alpha
+        )
+      : 0;
+    imageIds.set(
+      key,
+      add(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace}` +
+          ` /BitsPerComponent 8 /Filter /${image.filter}${mask ? ` /SMask ${mask} 0 R` : ""} >>`,
+        image.data
+      )
+    );
+  }
+
+  const pageIds = pages.map((page) => {
+    const contentId = add("<< /Filter /FlateDecode >>", zlib.deflateSync(Buffer.from(page.content(), "latin1")));
+    const xobjects = [...page.usedImages]
+      .filter((key) => imageIds.has(key))
+      .map((key) => `/${key} ${imageIds.get(key)} 0 R`)
+      .join(" ");
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.widthMm * PT_PER_MM)} ${num(page.heightMm * PT_PER_MM)}]` +
+        ` /Resources << ${fontResources}${xobjects ? ` /XObject << ${xobjects} >>` : ""} >> /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+  set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  const infoId = add(`<< /Title ${pdfTextString(title)} /Producer (Hemisphere) >>`);
+
+  // Header, objects, then the cross-reference table of their byte offsets
+  const header = Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1");
+  const offsets: number[] = [];
+  let position = header.length;
+  for (const object of objects) {
+    offsets.push(position);
+    position += object.length;
+  }
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n` +
+    `startxref\n${position}\n%%EOF\n`;
+
+  return Buffer.concat([header, ...objects, Buffer.from(xref, "latin1")]);
+}
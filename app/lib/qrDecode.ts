@@ -0,0 +1,671 @@
+import {
+  ECC_CODEWORDS_PER_BLOCK,
+  FORMAT_BITS,
+  MASKS,
+  NUM_ERROR_CORRECTION_BLOCKS,
+  alignmentPositions,
+  rawDataModules,
+  type QrLevel,
+} from "./qr";
+
+// QR code decoder for camera frames, used by the scanner in browsers without
+// BarcodeDetector. Finds the three finder patterns, samples the grid through
+// a perspective transform and corrects errors with Reed-Solomon. Reads
+// numeric, alphanumeric and byte segments, which covers badges and the
+// codes people usually print; dark-on-light and unmirrored only.
+// Browser-safe: no Node APIs.
+
+type Point = { x: number; y: number };
+type Finder = Point & { moduleSize: number; count: number };
+
+// ---- Binarizing ----
+
+const BLOCK_SIZE = 8;
+const MIN_DYNAMIC_RANGE = 24;
+
+// Dark pixels of an RGBA frame as 1s, against a threshold taken from the
+// surrounding 5x5 blocks so shadows and glare across a badge don't matter
+function binarize(pixels: Uint8ClampedArray, width: number, height: number) {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (pixels[i * 4] * 77 + pixels[i * 4 + 1] * 150 + pixels[i * 4 + 2] * 29) >> 8;
+  }
+
+  const blocksWide = Math.ceil(width / BLOCK_SIZE);
+  const blocksHigh = Math.ceil(height / BLOCK_SIZE);
+  const blackPoints = new Float32Array(blocksWide * blocksHigh);
+  for (let by = 0; by < blocksHigh; by++) {
+    for (let bx = 0; bx < blocksWide; bx++) {
+      let min = 255;
+      let max = 0;
+      let sum = 0;
+      let count = 0;
+      const top = Math.min(by * BLOCK_SIZE, height - BLOCK_SIZE);
+      const left = Math.min(bx * BLOCK_SIZE, width - BLOCK_SIZE);
+      for (let y = Math.max(top, 0); y < Math.min(top + BLOCK_SIZE, height); y++) {
+        for (let x = Math.max(left, 0); x < Math.min(left + BLOCK_SIZE, width); x++) {
+          const value = gray[y * width + x];
+          sum += value;
+          count++;
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+      }
+      let average = sum / count;
+      // A flat block is taken as light unless its neighbours say otherwise
+      if (max - min <= MIN_DYNAMIC_RANGE) {
+        average = min / 2;
+        if (bx > 0 && by > 0) {
+          const neighbours =
+            (blackPoints[(by - 1) * blocksWide + bx] +
+              2 * blackPoints[by * blocksWide + bx - 1] +
+              blackPoints[(by - 1) * blocksWide + bx - 1]) /
+            4;
+          if (min < neighbours) average = neighbours;
+        }
+      }
+      blackPoints[by * blocksWide + bx] = average;
+    }
+  }
+
+  const dark = new Uint8Array(width * height);
+  for (let by = 0; by < blocksHigh; by++) {
+    for (let bx = 0; bx < blocksWide; bx++) {
+      let sum = 0;
+      let count = 0;
+      for (let ny = Math.max(0, by - 2); ny <= Math.min(blocksHigh - 1, by + 2); ny++) {
+        for (let nx = Math.max(0, bx - 2); nx <= Math.min(blocksWide - 1, bx + 2); nx++) {
+          sum += blackPoints[ny * blocksWide + nx];
+          count++;
+        }
+      }
+      const threshold = sum / count;
+      for (let y = by * BLOCK_SIZE; y < Math.min((by + 1) * BLOCK_SIZE, height); y++) {
+        for (let x = bx * BLOCK_SIZE; x < Math.min((bx + 1) * BLOCK_SIZE, width); x++) {
+          dark[y * width + x] = gray[y * width + x] <= threshold ? 1 : 0;
+        }
+      }
+    }
+  }
+  return dark;
+}
+
+// ---- Finding the symbol ----
+
+// Runs of dark:light:dark:light:dark in the ratio 1:1:3:1:1, a finder pattern
+function isFinderRatio(runs: number[]) {
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  if (runs.some((run) => run === 0) || total < 7) return false;
+  const moduleSize = total / 7;
+  return runs.every((run, i) => Math.abs(run - (i === 2 ? 3 : 1) * moduleSize) < ((i === 2 ? 3 : 1) * moduleSize) / 2);
+}
+
+// An alignment pattern's light ring, dark centre and light ring, one module
+// each; the dark ring outside may run into dark data modules
+function isAlignmentRatio(runs: number[], moduleSize: number) {
+  return (
+    runs[0] > 0 &&
+    runs[4] > 0 &&
+    runs.slice(1, 4).every((run) => Math.abs(run - moduleSize) < moduleSize / 2)
+  );
+}
+
+type Grid = { dark: Uint8Array; width: number; height: number };
+
+const isDark = (grid: Grid, x: number, y: number) =>
+  x >= 0 && y >= 0 && x < grid.width && y < grid.height && grid.dark[Math.floor(y) * grid.width + Math.floor(x)] === 1;
+
+// Runs of the five-run pattern through (x, y) along (dx, dy), outwards from
+// the dark module there, and where the middle run's centre falls on the line
+function crossCheck(grid: Grid, x: number, y: number, dx: number, dy: number, maxRun: number) {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const at = (i: number) => isDark(grid, x0 + dx * i, y0 + dy * i);
+  const runs = [0, 0, 0, 0, 0];
+  let i = 0;
+  for (; at(-i) && runs[2] <= maxRun; i++) runs[2]++;
+  const start = 1 - i;
+  for (; !at(-i) && runs[1] <= maxRun; i++) runs[1]++;
+  for (; at(-i) && runs[0] <= maxRun; i++) runs[0]++;
+  for (i = 1; at(i) && runs[2] <= maxRun; i++) runs[2]++;
+  const end = i;
+  for (; !at(i) && runs[3] <= maxRun; i++) runs[3]++;
+  for (; at(i) && runs[4] <= maxRun; i++) runs[4]++;
+  return { runs, centre: (dx ? x0 : y0) + (start + end) / 2 };
+}
+
+function findFinders(grid: Grid) {
+  const finders: Finder[] = [];
+
+  const confirm = (x: number, y: number, runTotal: number) => {
+    const vertical = crossCheck(grid, x, y, 0, 1, runTotal);
+    if (!isFinderRatio(vertical.runs)) return;
+    const centreY = vertical.centre;
+    const horizontal = crossCheck(grid, x, centreY, 1, 0, runTotal);
+    if (!isFinderRatio(horizontal.runs)) return;
+    const centreX = horizontal.centre;
+    const moduleSize =
+      (vertical.runs.reduce((a, b) => a + b, 0) + horizontal.runs.reduce((a, b) => a + b, 0)) / 14;
+
+    const near = finders.find(
+      (f) => Math.hypot(f.x - centreX, f.y - centreY) < f.moduleSize * 2 && Math.abs(f.moduleSize - moduleSize) < f.moduleSize
+    );
+    if (near) {
+      const n = near.count;
+      near.x = (near.x * n + centreX) / (n + 1);
+      near.y = (near.y * n + centreY) / (n + 1);
+      near.moduleSize = (near.moduleSize * n + moduleSize) / (n + 1);
+      near.count++;
+    } else {
+      finders.push({ x: centreX, y: centreY, moduleSize, count: 1 });
+    }
+  };
+
+  for (let y = 0; y < grid.height; y++) {
+    // Dark runs sit at even states, light ones at odd
+    const runs = [0, 0, 0, 0, 0];
+    let state = 0;
+    for (let x = 0; x <= grid.width; x++) {
+      const dark = x < grid.width && grid.dark[y * grid.width + x] === 1;
+      if (dark === (state % 2 === 0)) {
+        runs[state]++;
+      } else if (state < 4) {
+        runs[++state]++;
+      } else {
+        if (isFinderRatio(runs)) confirm(x - runs[4] - runs[3] - runs[2] / 2, y, runs.reduce((a, b) => a + b, 0));
+        // The last dark:light pair may start the next pattern
+        runs.splice(0, 2);
+        runs.push(1, 0);
+        state = 3;
+      }
+    }
+  }
+  return finders;
+}
+
+// The three finders as top left, top right and bottom left. The top left is
+// the corner opposite the longest side; the other two are told apart by
+// which way round the triangle turns.
+function orient([a, b, c]: Finder[]) {
+  const d = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y);
+  let [topLeft, one, two] =
+    d(b, c) >= d(a, b) && d(b, c) >= d(a, c) ? [a, b, c] : d(a, c) >= d(a, b) ? [b, a, c] : [c, a, b];
+  if ((one.x - topLeft.x) * (two.y - topLeft.y) - (one.y - topLeft.y) * (two.x - topLeft.x) < 0) {
+    [one, two] = [two, one];
+  }
+  return { topLeft, topRight: one, bottomLeft: two };
+}
+
+// Looks for the alignment pattern's dark centre near where it should be
+function findAlignment(grid: Grid, estimate: Point, moduleSize: number): Point | null {
+  const radius = Math.ceil(moduleSize * 6);
+  let best: Point | null = null;
+  let bestDistance = Infinity;
+  for (let y = Math.max(0, Math.round(estimate.y - radius)); y < Math.min(grid.height, estimate.y + radius); y++) {
+    for (let x = Math.max(0, Math.round(estimate.x - radius)); x < Math.min(grid.width, estimate.x + radius); x++) {
+      if (!isDark(grid, x, y) || isDark(grid, x - 1, y)) continue;
+      const horizontal = crossCheck(grid, x, y, 1, 0, moduleSize * 3);
+      if (!isAlignmentRatio(horizontal.runs, moduleSize)) continue;
+      const centreX = horizontal.centre;
+      const vertical = crossCheck(grid, centreX, y, 0, 1, moduleSize * 3);
+      if (!isAlignmentRatio(vertical.runs, moduleSize)) continue;
+      const point = { x: centreX, y: vertical.centre };
+      const distance = Math.hypot(point.x - estimate.x, point.y - estimate.y);
+      if (distance < bestDistance) {
+        best = point;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
+
+// ---- Perspective ----
+
+type Transform = number[]; // 3x3, row major
+
+function squareToQuad(p: Point[]): Transform {
+  const [p0, p1, p2, p3] = p;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return [p1.x - p0.x, p2.x - p1.x, p0.x, p1.y - p0.y, p2.y - p1.y, p0.y, 0, 0, 1];
+  }
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [
+    p1.x - p0.x + a13 * p1.x, p3.x - p0.x + a23 * p3.x, p0.x,
+    p1.y - p0.y + a13 * p1.y, p3.y - p0.y + a23 * p3.y, p0.y,
+    a13, a23, 1,
+  ];
+}
+
+function adjoint(m: Transform): Transform {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  return [e * i - f * h, c * h - b * i, b * f - c * e, f * g - d * i, a * i - c * g, c * d - a * f, d * h - e * g, b * g - a * h, a * e - b * d];
+}
+
+function multiply(m: Transform, n: Transform): Transform {
+  const out: number[] = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      out.push(m[row * 3] * n[col] + m[row * 3 + 1] * n[3 + col] + m[row * 3 + 2] * n[6 + col]);
+    }
+  }
+  return out;
+}
+
+// Maps the four points of one quadrilateral onto the other's
+function quadToQuad(from: Point[], to: Point[]) {
+  const m = multiply(squareToQuad(to), adjoint(squareToQuad(from)));
+  return (x: number, y: number): Point => {
+    const w = m[6] * x + m[7] * y + m[8];
+    return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+  };
+}
+
+// ---- Reed-Solomon ----
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = value;
+  LOG[value] = i;
+  value = (value << 1) ^ (value & 0x80 ? 0x11d : 0);
+}
+for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+
+const mul = (a: number, b: number) => (a && b ? EXP[LOG[a] + LOG[b]] : 0);
+const div = (a: number, b: number) => (a ? EXP[LOG[a] + 255 - LOG[b]] : 0);
+
+// Polynomial with coefficients lowest power first, evaluated at x
+const evaluate = (poly: number[], x: number) => poly.reduceRight((acc, coef) => mul(acc, x) ^ coef, 0);
+
+// Corrects a block in place (first byte is the highest power), or returns
+// false when it has more errors than its check bytes can fix. The encoder's
+// generator has roots 2^0 .. 2^(eccLength-1).
+function correctBlock(block: number[], eccLength: number) {
+  const n = block.length;
+  const syndromes = Array.from({ length: eccLength }, (_, j) =>
+    block.reduce((acc, byte) => mul(acc, EXP[j]) ^ byte, 0)
+  );
+  if (syndromes.every((s) => s === 0)) return true;
+
+  // Berlekamp-Massey for the error locator
+  let locator = [1];
+  let previous = [1];
+  let length = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let i = 0; i < eccLength; i++) {
+    let discrepancy = syndromes[i];
+    for (let j = 1; j <= length; j++) discrepancy ^= mul(locator[j] || 0, syndromes[i - j]);
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+    const scale = div(discrepancy, lastDiscrepancy);
+    const next = locator.slice();
+    previous.forEach((coef, j) => {
+      next[j + shift] = (next[j + shift] || 0) ^ mul(scale, coef);
+    });
+    if (2 * length <= i) {
+      previous = locator;
+      length = i + 1 - length;
+      lastDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (length * 2 > eccLength) return false;
+
+  // Error evaluator, and the locator's formal derivative
+  const evaluator = new Array(eccLength).fill(0);
+  for (let i = 0; i < eccLength; i++) {
+    for (let j = 0; j <= i && j < locator.length; j++) evaluator[i] ^= mul(locator[j], syndromes[i - j]);
+  }
+  const derivative = locator.map((coef, i) => (i % 2 === 1 ? coef : 0)).slice(1);
+
+  // Chien search over every position, then Forney for the error values
+  let found = 0;
+  for (let i = 0; i < n; i++) {
+    const power = n - 1 - i;
+    const inverse = EXP[(255 - power) % 255];
+    if (evaluate(locator, inverse) !== 0) continue;
+    const magnitude = mul(EXP[power], div(evaluate(evaluator, inverse), evaluate(derivative, inverse) || 1));
+    block[i] ^= magnitude;
+    found++;
+  }
+  if (found !== length) return false;
+  return syndromesClear(block, eccLength);
+}
+
+function syndromesClear(block: number[], eccLength: number) {
+  for (let j = 0; j < eccLength; j++) {
+    if (block.reduce((acc, byte) => mul(acc, EXP[j]) ^ byte, 0) !== 0) return false;
+  }
+  return true;
+}
+
+// ---- Reading the grid ----
+
+const LEVEL_FOR_BITS = Object.fromEntries(Object.entries(FORMAT_BITS).map(([level, bits]) => [bits, level])) as Record<
+  number,
+  QrLevel
+>;
+
+// All 32 format words, with the level and mask each stands for
+const FORMATS = Array.from({ length: 32 }, (_, value) => {
+  let rem = value;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return { word: ((value << 10) | rem) ^ 0x5412, level: LEVEL_FOR_BITS[value >>> 3], mask: value & 7 };
+});
+
+const bitCount = (value: number) => {
+  let count = 0;
+  for (; value; value &= value - 1) count++;
+  return count;
+};
+
+// Modules that hold patterns and format or version bits rather than data,
+// matching what the encoder marks as function modules
+function functionModules(version: number) {
+  const size = version * 4 + 17;
+  const fixed = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const mark = (x: number, y: number) => {
+    if (x >= 0 && y >= 0 && x < size && y < size) fixed[y][x] = true;
+  };
+  for (let i = 0; i < size; i++) {
+    mark(6, i);
+    mark(i, 6);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) for (let dx = -4; dx <= 4; dx++) mark(cx + dx, cy + dy);
+  }
+  const positions = alignmentPositions(version);
+  positions.forEach((cy, i) =>
+    positions.forEach((cx, j) => {
+      const last = positions.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) for (let dx = -2; dx <= 2; dx++) mark(cx + dx, cy + dy);
+    })
+  );
+  for (let i = 0; i < 9; i++) {
+    mark(8, i);
+    mark(i, 8);
+  }
+  for (let i = 0; i < 8; i++) {
+    mark(size - 1 - i, 8);
+    mark(8, size - 1 - i);
+  }
+  if (version >= 7) {
+    for (let i = 0; i < 18; i++) {
+      mark(size - 11 + (i % 3), Math.floor(i / 3));
+      mark(Math.floor(i / 3), size - 11 + (i % 3));
+    }
+  }
+  return fixed;
+}
+
+function readFormat(modules: boolean[][]) {
+  const size = modules.length;
+  let first = 0;
+  let second = 0;
+  const firstAt: [number, number][] = [
+    ...[0, 1, 2, 3, 4, 5].map((i): [number, number] => [8, i]),
+    [8, 7], [8, 8], [7, 8],
+    ...[9, 10, 11, 12, 13, 14].map((i): [number, number] => [14 - i, 8]),
+  ];
+  firstAt.forEach(([x, y], i) => {
+    if (modules[y][x]) first |= 1 << i;
+  });
+  for (let i = 0; i < 8; i++) if (modules[8][size - 1 - i]) second |= 1 << i;
+  for (let i = 8; i < 15; i++) if (modules[size - 15 + i][8]) second |= 1 << i;
+
+  let best = FORMATS[0];
+  let bestDistance = Infinity;
+  for (const format of FORMATS) {
+    const distance = Math.min(bitCount(format.word ^ first), bitCount(format.word ^ second));
+    if (distance < bestDistance) {
+      best = format;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= 3 ? best : null;
+}
+
+// Data codewords of a sampled symbol, corrected, or null if it won't read
+function readCodewords(modules: boolean[][]) {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  const format = readFormat(modules);
+  if (!format) return null;
+
+  const fixed = functionModules(version);
+  const mask = MASKS[format.mask];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const codewords: number[] = [];
+  let current = 0;
+  let bits = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (fixed[y][x] || codewords.length >= rawCodewords) continue;
+        current = (current << 1) | (modules[y][x] !== mask(x, y) ? 1 : 0);
+        if (++bits === 8) {
+          codewords.push(current);
+          current = 0;
+          bits = 0;
+        }
+      }
+    }
+  }
+
+  // Undo the interleaving the encoder does, then correct each block
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[format.level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[format.level][version];
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const blocks: number[][] = Array.from({ length: numBlocks }, () => []);
+  let k = 0;
+  for (let i = 0; i <= shortBlockLength; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks have one data byte fewer
+      if (i === shortBlockLength - eccLength && j < numShortBlocks) return;
+      block.push(codewords[k++]);
+    });
+  }
+  const data: number[] = [];
+  for (const block of blocks) {
+    if (!correctBlock(block, eccLength)) return null;
+    data.push(...block.slice(0, block.length - eccLength));
+  }
+  return { version, data };
+}
+
+const ALPHANUMERIC = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+function decodeText(bytes: number[]) {
+  const array = new Uint8Array(bytes);
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(array);
+  } catch {
+    return new TextDecoder("latin1").decode(array);
+  }
+}
+
+// The text of numeric, alphanumeric and byte segments; ECI markers are
+// skipped and UTF-8 assumed
+function parseSegments(data: number[], version: number) {
+  let position = 0;
+  const read = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++, position++) {
+      value = (value << 1) | ((data[position >> 3] >> (7 - (position & 7))) & 1);
+    }
+    return value;
+  };
+  const remaining = () => data.length * 8 - position;
+  const sizeClass = version < 10 ? 0 : version < 27 ? 1 : 2;
+
+  let text = "";
+  let bytes: number[] = [];
+  const flush = () => {
+    if (bytes.length) text += decodeText(bytes);
+    bytes = [];
+  };
+  while (remaining() >= 4) {
+    const mode = read(4);
+    if (mode === 0) break;
+    if (mode === 0x7) {
+      const first = read(8);
+      if ((first & 0xc0) === 0x80) read(8);
+      else if ((first & 0xe0) === 0xc0) read(16);
+      continue;
+    }
+    if (mode === 0x4) {
+      const count = read([8, 16, 16][sizeClass]);
+      if (remaining() < count * 8) return null;
+      for (let i = 0; i < count; i++) bytes.push(read(8));
+      continue;
+    }
+    flush();
+    if (mode === 0x1) {
+      let count = read([10, 12, 14][sizeClass]);
+      for (; count >= 3; count -= 3) text += String(read(10)).padStart(3, "0");
+      if (count === 2) text += String(read(7)).padStart(2, "0");
+      if (count === 1) text += String(read(4));
+    } else if (mode === 0x2) {
+      let count = read([9, 11, 13][sizeClass]);
+      for (; count >= 2; count -= 2) {
+        const pair = read(11);
+        text += ALPHANUMERIC[Math.floor(pair / 45)] + ALPHANUMERIC[pair % 45];
+      }
+      if (count === 1) text += ALPHANUMERIC[read(6)];
+    } else {
+      return null;
+    }
+  }
+  flush();
+  return text;
+}
+
+// ---- Putting it together ----
+
+function sample(grid: Grid, dimension: number, toImage: (x: number, y: number) => Point) {
+  const modules: boolean[][] = [];
+  for (let y = 0; y < dimension; y++) {
+    const row: boolean[] = [];
+    for (let x = 0; x < dimension; x++) {
+      const point = toImage(x + 0.5, y + 0.5);
+      row.push(isDark(grid, point.x, point.y));
+    }
+    modules.push(row);
+  }
+  return modules;
+}
+
+// Pixels from a finder's centre out past its dark ring, heading towards
+// another point: three and a half modules however the symbol is turned
+function finderReach(grid: Grid, from: Point, to: Point) {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const dx = (to.x - from.x) / length;
+  const dy = (to.y - from.y) / length;
+  let state = 0;
+  for (let i = 0; i < length; i++) {
+    if (isDark(grid, from.x + dx * i, from.y + dy * i) !== (state % 2 === 0) && ++state === 3) return i;
+  }
+  return null;
+}
+
+// Module size measured across the finders along the symbol's own axes, so
+// rotation doesn't stretch it
+function moduleSizeBetween(grid: Grid, a: Finder, b: Finder) {
+  const width = (from: Finder, to: Finder) => {
+    const ahead = finderReach(grid, from, to);
+    const behind = finderReach(grid, from, { x: 2 * from.x - to.x, y: 2 * from.y - to.y });
+    return ahead && behind ? (ahead + behind) / 7 : from.moduleSize;
+  };
+  return (width(a, b) + width(b, a)) / 2;
+}
+
+function readSymbol(grid: Grid, finders: Finder[]) {
+  const { topLeft, topRight, bottomLeft } = orient(finders);
+  const across = Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y) / moduleSizeBetween(grid, topLeft, topRight);
+  const down = Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y) / moduleSizeBetween(grid, topLeft, bottomLeft);
+  const moduleSize =
+    (Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y) / across +
+      Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y) / down) /
+    2;
+  const corner = {
+    x: topRight.x - topLeft.x + bottomLeft.x,
+    y: topRight.y - topLeft.y + bottomLeft.y,
+  };
+
+  // The estimate can be a module or two out; sizes are 4v + 17
+  const nearest = Math.round(((across + down) / 2 + 7 - 17) / 4);
+  for (const version of [nearest, nearest - 1, nearest + 1]) {
+    if (version < 1 || version > 40) continue;
+    const dimension = version * 4 + 17;
+    // Version 1 has no alignment pattern, so the fourth corner is assumed
+    let from: Point = { x: dimension - 3.5, y: dimension - 3.5 };
+    const targets: Point[] = [corner];
+    if (version > 1) {
+      // The bottom right alignment pattern sits three modules in from the
+      // finder centres' corner. If what's found there doesn't read (a
+      // smudge, or data that looks like the pattern), the estimate is tried.
+      const inset = 1 - 3 / (dimension - 7);
+      const expected = {
+        x: topLeft.x + inset * (corner.x - topLeft.x),
+        y: topLeft.y + inset * (corner.y - topLeft.y),
+      };
+      const found = findAlignment(grid, expected, moduleSize);
+      from = { x: dimension - 6.5, y: dimension - 6.5 };
+      targets.splice(0, 1, ...(found ? [found, expected] : [expected]));
+    }
+    for (const to of targets) {
+      const toImage = quadToQuad(
+        [{ x: 3.5, y: 3.5 }, { x: dimension - 3.5, y: 3.5 }, from, { x: 3.5, y: dimension - 3.5 }],
+        [topLeft, topRight, to, bottomLeft]
+      );
+      const read = readCodewords(sample(grid, dimension, toImage));
+      const text = read && parseSegments(read.data, read.version);
+      if (text) return text;
+    }
+  }
+  return null;
+}
+
+// The text of the QR code in an RGBA frame (as from getImageData), or null
+// when none can be read
+export function decodeQr(pixels: Uint8ClampedArray, width: number, height: number): string | null {
+  const grid = { dark: binarize(pixels, width, height), width, height };
+  // Finders seen on several rows first; a few spurious ones are tried in turn
+  const finders = findFinders(grid)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+
+  for (let a = 0; a < finders.length; a++) {
+    for (let b = a + 1; b < finders.length; b++) {
+      for (let c = b + 1; c < finders.length; c++) {
+        const three = [finders[a], finders[b], finders[c]];
+        const sizes = three.map((f) => f.moduleSize);
+        if (Math.max(...sizes) > Math.min(...sizes) * 2) continue;
+        const text = readSymbol(grid, three);
+        if (text !== null) return text;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,52 @@
+import { EventEmitter } from "events";
+import { withQrValue } from "./badges";
+import type { Attendee } from "./types";
+
+// Changes pushed to open /api/stream connections
+export type LiveEventType =
+  | "registration"
+  | "attendee"
+  | "checkin"
+  | "attendance"
+  | "entry"
+  | "scanlog"
+  | "lead";
+
+export type LiveEvent = {
+  type: LiveEventType;
+  eventId?: string; // lets a stream subscribe to one event
+  data: unknown;
+};
+
+// In-process only: a deployment running several server processes needs a
+// shared broker (e.g. Redis pub/sub) behind publish/subscribe.
+// Cached on globalThis so dev-mode hot reloads keep one bus.
+const globalForBus = globalThis as unknown as { hemisphereBus?: EventEmitter };
+
+function bus() {
+  if (!globalForBus.hemisphereBus) {
+    globalForBus.hemisphereBus = new EventEmitter();
+    // One listener per open stream
+    globalForBus.hemisphereBus.setMaxListeners(0);
+  }
+  return globalForBus.hemisphereBus;
+}
+
+export function publish(event: LiveEvent) {
+  bus().emit("change", event);
+}
+
+// Attendees go out the way staff screens load them, with their badge QR
+export async function publishAttendee(
+  type: "registration" | "attendee" | "checkin",
+  attendee: Attendee
+) {
+  publish({ type, eventId: attendee.eventId, data: await withQrValue(attendee) });
+}
+
+export function subscribe(listener: (event: LiveEvent) => void) {
+  bus().on("change", listener);
+  return () => {
+    bus().off("change", listener);
+  };
+}
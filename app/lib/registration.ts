@@ -0,0 +1,151 @@
+import { registrationLimitError, registrationType } from "./attendeeTypes";
+import { timestampId } from "./ids";
+import { parseCustomValues } from "./customFields";
+import { isArchived } from "./events";
+import { publishAttendee } from "./realtime";
+import { attendees, events } from "./repositories";
+import { createWriteQueue } from "./storage/locking";
+import type { Attendee, EventRecord } from "./types";
+
+export type RegistrationInput = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  company: string;
+  eventId: string;
+  ticketCategory: string; // id, or for staff also the label, of one of the event's categories
+  attendeeType: string; // staff only: id or label of one of the event's types
+  customFields: Record<string, unknown>; // raw answers, checked against the event's fields
+};
+
+// Registrations from staff, such as imports, may give any type or category;
+// the public registration page only offers public categories
+type RegistrationOptions = { byStaff?: boolean };
+
+// What a valid registration gets: the type and category it was assigned and
+// its answers to the event's questions
+export type RegistrationFields = Pick<Attendee, "attendeeType" | "ticketCategoryId" | "customFields">;
+
+// Registrations for an event are saved one at a time, so two sign-ups can't
+// both pass the duplicate and limit checks before either is saved. Imports
+// queue here too. This serializes within one server process.
+export const enqueueRegistration = createWriteQueue();
+
+// Trimmed, with the email lowercased so duplicate checks are case-insensitive
+export function normalizeRegistration(body: any): RegistrationInput {
+  const text = (value: unknown) => String(value ?? "").trim();
+  const custom = body?.customFields;
+  return {
+    firstName: text(body?.firstName),
+    lastName: text(body?.lastName),
+    email: text(body?.email).toLowerCase(),
+    company: text(body?.company),
+    eventId: text(body?.eventId),
+    ticketCategory: text(body?.ticketCategory),
+    attendeeType: text(body?.attendeeType),
+    customFields: custom && typeof custom === "object" && !Array.isArray(custom) ? custom : {},
+  };
+}
+
+// Another attendee already registered for the event with this email
+export async function findRegistration(email: string, eventId: string, exceptId?: string) {
+  const sameEmail = await attendees.find({ email });
+  return sameEmail.find((a) => a.eventId === eventId && a.id !== exceptId) || null;
+}
+
+type RegistrationResult =
+  | { attendee: Attendee; error?: undefined; status?: undefined }
+  | { attendee?: undefined; error: string; status: number };
+
+// Checks that don't need the attendee list, shared with bulk imports.
+// `event` is the looked-up input.eventId, or null if there is none.
+export function validateRegistration(
+  input: RegistrationInput,
+  event: EventRecord | null,
+  options: RegistrationOptions = {}
+):
+  | { fields: RegistrationFields; error?: undefined; status?: undefined }
+  | { fields?: undefined; error: string; status: number } {
+  if (!input.firstName || !input.lastName || !input.email) {
+    return { error: "firstName, lastName, and email are required", status: 400 };
+  }
+  if (!input.eventId) {
+    return { error: "Choose the event you are registering for", status: 400 };
+  }
+  if (!event) {
+    return { error: "Event not found", status: 404 };
+  }
+  if (isArchived(event)) {
+    return { error: "Registration for this event is closed", status: 400 };
+  }
+  const custom = parseCustomValues(event.customFields, input.customFields);
+  if (custom.error) {
+    return { error: custom.error, status: 400 };
+  }
+  const assigned = registrationType(event, input, !!options.byStaff);
+  if (assigned.error) {
+    return { error: assigned.error, status: 400 };
+  }
+  return {
+    fields: {
+      attendeeType: assigned.attendeeType,
+      ...(assigned.ticketCategoryId ? { ticketCategoryId: assigned.ticketCategoryId } : {}),
+      ...(Object.keys(custom.values).length ? { customFields: custom.values } : {}),
+    },
+  };
+}
+
+export async function registerAttendee(
+  input: RegistrationInput,
+  options: RegistrationOptions = {}
+): Promise<RegistrationResult> {
+  const event = input.eventId ? await events.get(input.eventId) : null;
+  const { fields, error, status } = validateRegistration(input, event, options);
+  if (error) return { error, status };
+
+  const [result] = await registerAll(event, [{ input, fields }]);
+  return result;
+}
+
+// Saves validated registrations for one event in a single write. Duplicates,
+// the event's capacity and type and ticket limits are checked against
+// everyone registered at that moment, including earlier entries in the list.
+export function registerAll(
+  event: EventRecord,
+  entries: { input: RegistrationInput; fields: RegistrationFields }[]
+): Promise<RegistrationResult[]> {
+  return enqueueRegistration(event.id, async () => {
+    const registered: Pick<Attendee, "email" | "attendeeType" | "ticketCategoryId">[] =
+      await attendees.find({ eventId: event.id });
+    const created: Attendee[] = [];
+
+    const results = entries.map(({ input, fields }): RegistrationResult => {
+      // One registration per email per event; the same person may attend several shows
+      if (registered.some((a) => a.email === input.email)) {
+        return { error: "This email is already registered for this event.", status: 409 };
+      }
+      const full = registrationLimitError(event, registered, fields);
+      if (full) {
+        return { error: full, status: 400 };
+      }
+
+      const attendee: Attendee = {
+        id: String(timestampId()),
+        firstName: input.firstName,
+        lastName: input.lastName,
+        email: input.email,
+        company: input.company,
+        eventId: event.id,
+        ...fields,
+        createdAt: new Date().toISOString(),
+      };
+      registered.push(attendee);
+      created.push(attendee);
+      return { attendee };
+    });
+
+    await attendees.insertMany(created);
+    for (const attendee of created) await publishAttendee("registration", attendee);
+    return results;
+  });
+}
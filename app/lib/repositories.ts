@@ -0,0 +1,101 @@
+import { getStore, type CollectionName, type Updater, type Where } from "./storage";
+import type {
+  ActivationCode,
+  Attendee,
+  AuditEntry,
+  BadgeTemplate,
+  CheckinChange,
+  DeviceSession,
+  EntryLog,
+  EventRecord,
+  EventSession,
+  Exhibitor,
+  ExhibitorToken,
+  IdempotencyRecord,
+  Lead,
+  ScanLog,
+  SessionAttendance,
+  StaffAccount,
+  StaffSession,
+  Station,
+} from "./types";
+
+// Typed access to a single collection. Routes go through these instead of
+// reading and rewriting data/*.json themselves, so the backend can change.
+export type Repository<T> = {
+  list(): Promise<T[]>;
+  find(where: Where): Promise<T[]>;
+  findOne(where: Where): Promise<T | null>;
+  get(key: string | number): Promise<T | null>;
+  insert(record: T): Promise<T>;
+  insertMany(records: T[]): Promise<T[]>;
+  insertUnless(record: T, conflicts: (existing: T) => boolean): Promise<T | null>;
+  update(key: string | number, updater: Updater<T>): Promise<T | null>;
+  remove(key: string | number): Promise<boolean>;
+  removeWhere(predicate: (record: T) => boolean): Promise<number>;
+};
+
+function createRepository<T>(collection: CollectionName): Repository<T> {
+  return {
+    async list() {
+      const store = await getStore();
+      return (await store.list(collection)) as T[];
+    },
+    async find(where) {
+      const store = await getStore();
+      return (await store.find(collection, where)) as T[];
+    },
+    async findOne(where) {
+      const store = await getStore();
+      const [first] = await store.find(collection, where);
+      return (first as T) || null;
+    },
+    async get(key) {
+      const store = await getStore();
+      return (await store.get(collection, String(key))) as T | null;
+    },
+    async insert(record) {
+      const store = await getStore();
+      return (await store.insert(collection, record as any)) as T;
+    },
+    async insertMany(records) {
+      const store = await getStore();
+      return (await store.insertMany(collection, records as any[])) as T[];
+    },
+    async insertUnless(record, conflicts) {
+      const store = await getStore();
+      return (await store.insertUnless(collection, record as any, conflicts as any)) as T | null;
+    },
+    async update(key, updater) {
+      const store = await getStore();
+      return (await store.update(collection, String(key), updater as any)) as T | null;
+    },
+    async remove(key) {
+      const store = await getStore();
+      return store.remove(collection, String(key));
+    },
+    async removeWhere(predicate) {
+      const store = await getStore();
+      return store.removeWhere(collection, predicate as any);
+    },
+  };
+}
+
+export const attendees = createRepository<Attendee>("attendees");
+export const events = createRepository<EventRecord>("events");
+export const exhibitors = createRepository<Exhibitor>("exhibitors");
+export const leads = createRepository<Lead>("leads");
+export const scanLogs = createRepository<ScanLog>("scanlogs");
+export const stations = createRepository<Station>("stations");
+export const eventSessions = createRepository<EventSession>("eventSessions");
+export const attendance = createRepository<SessionAttendance>("attendance");
+export const entryLogs = createRepository<EntryLog>("entryLogs");
+export const checkinHistory = createRepository<CheckinChange>("checkinHistory");
+export const auditLog = createRepository<AuditEntry>("auditLog");
+export const badgeTemplates = createRepository<BadgeTemplate>("badgeTemplates");
+export const idempotencyKeys = createRepository<IdempotencyRecord>("idempotencyKeys");
+export const activationCodes = createRepository<ActivationCode>("activationCodes");
+export const deviceSessions = createRepository<DeviceSession>("deviceSessions");
+export const exhibitorTokens = createRepository<ExhibitorToken>("exhibitorTokens");
+export const staff = createRepository<StaffAccount>("staff");
+export const staffSessions = createRepository<StaffSession>("staffSessions");
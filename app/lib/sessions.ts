@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import { accessDenial } from "./attendeeTypes";
+import { enqueueCheckin, presenceAt, recordEntry, sessionOccupancy, type Presence } from "./occupancy";
+import { attendance, eventSessions, events } from "./repositories";
+import type { Attendee, EventSession, SessionAttendance } from "./types";
+
+const DATETIME_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+type SessionInput = Pick<
+  EventSession,
+  "eventId" | "title" | "track" | "room" | "startsAt" | "endsAt" | "capacity"
+>;
+
+// Validates a create/update payload. On update, fields that are not sent keep
+// their current value; the event never changes.
+export function parseSessionInput(
+  body: any,
+  current?: EventSession
+): { data: SessionInput; error?: undefined } | { data?: undefined; error: string } {
+  const pick = <K extends keyof SessionInput>(key: K) =>
+    body?.[key] !== undefined ? body[key] : current?.[key];
+
+  const rawCapacity = pick("capacity");
+  const capacity =
+    rawCapacity === null || rawCapacity === undefined || rawCapacity === ""
+      ? null
+      : Number(rawCapacity);
+
+  const data: SessionInput = {
+    eventId: current ? current.eventId : String(body?.eventId ?? "").trim(),
+    title: String(pick("title") ?? "").trim(),
+    track: String(pick("track") ?? "").trim(),
+    room: String(pick("room") ?? "").trim(),
+    startsAt: String(pick("startsAt") ?? "").trim(),
+    endsAt: String(pick("endsAt") ?? "").trim(),
+    capacity,
+  };
+
+  if (!data.title) return { error: "Session title is required" };
+  if (!data.eventId) return { error: "Event is required" };
+  if (!DATETIME_RE.test(data.startsAt) || !DATETIME_RE.test(data.endsAt)) {
+    return { error: "Start and end times must be YYYY-MM-DDTHH:mm" };
+  }
+  if (data.endsAt <= data.startsAt) return { error: "Session ends before it starts" };
+  if (capacity !== null && !(Number.isInteger(capacity) && capacity > 0)) {
+    return { error: "Capacity must be a positive whole number" };
+  }
+
+  return { data };
+}
+
+// Adds how many people were ever admitted and how many are inside now, for
+// lists that show seats taken
+export async function withCounts(list: EventSession[]) {
+  const counts = new Map<string, number>();
+  for (const record of await attendance.list()) {
+    counts.set(record.sessionId, (counts.get(record.sessionId) || 0) + 1);
+  }
+  const presence = new Map<string, Presence>();
+  for (const eventId of new Set(list.map((s) => s.eventId))) {
+    presence.set(eventId, await presenceAt(eventId));
+  }
+
+  return list.map((session) => ({
+    ...session,
+    attendanceCount: counts.get(session.id) || 0,
+    occupancy: sessionOccupancy(presence.get(session.eventId)!, session.id),
+  }));
+}
+
+type Stamp = Pick<SessionAttendance, "stationId" | "stationName" | "operatorId" | "operatorName">;
+
+export type AdmitResult =
+  | {
+      attendance: SessionAttendance;
+      alreadyAttended: boolean; // was admitted before, now or earlier
+      alreadyInside: boolean; // a repeat scan; nothing was recorded
+      count: number; // distinct people ever admitted
+      occupancy: number; // inside right now
+      error?: undefined;
+    }
+  | { error: string; status: number; denied?: boolean }; // denied: their type or ticket doesn't allow it
+
+async function loadSessionFor(
+  sessionId: string,
+  attendee: Attendee
+): Promise<{ session: EventSession } | { error: string; status: number }> {
+  const session = await eventSessions.get(sessionId);
+  if (!session) return { error: "Session not found", status: 404 };
+  if (session.eventId !== attendee.eventId) {
+    return { error: "This badge is for a different event", status: 403 };
+  }
+  return { session };
+}
+
+// Lets an attendee into a session, again after they stepped out if there is
+// room and their type and ticket include the session and the station's
+// area. Capacity is checked against who is inside now, so an exit frees a
+// seat. The attendance roster keeps one record per person. Runs in the
+// event's check-in queue, so two doors scanning at once can't both take the
+// last seat.
+export async function admitToSession(
+  sessionId: string,
+  attendee: Attendee,
+  stamp: Stamp,
+  timestamp: string
+): Promise<AdmitResult> {
+  return enqueueCheckin(attendee.eventId || "", async () => {
+    const found = await loadSessionFor(sessionId, attendee);
+    if ("error" in found) return found;
+    const { session } = found;
+
+    const denial = accessDenial(await events.get(session.eventId), attendee, {
+      sessionId,
+      stationId: stamp.stationId,
+    });
+    if (denial) return { error: denial, status: 409, denied: true };
+
+    // Archived sessions are only hidden from scanners, so scans queued
+    // offline before the session was archived still sync
+    const admitted = await attendance.find({ sessionId });
+    const existing = admitted.find((a) => a.attendeeId === attendee.id);
+    const presence = await presenceAt(session.eventId);
+    const occupancy = sessionOccupancy(presence, sessionId);
+
+    if (existing && presence.sessions.get(sessionId)?.has(attendee.id)) {
+      return {
+        attendance: existing,
+        alreadyAttended: true,
+        alreadyInside: true,
+        count: admitted.length,
+        occupancy,
+      };
+    }
+    if (session.capacity !== null && occupancy >= session.capacity) {
+      return { error: `Session is full (${occupancy}/${session.capacity})`, status: 409 };
+    }
+
+    let record = existing;
+    if (!record) {
+      record = {
+        id: `att_${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`,
+        sessionId,
+        eventId: session.eventId,
+        attendeeId: attendee.id,
+        attendeeName: `${attendee.firstName || ""} ${attendee.lastName || ""}`.trim(),
+        attendeeEmail: attendee.email || "",
+        timestamp,
+        ...stamp,
+      };
+      await attendance.insert(record);
+    }
+    await recordEntry(attendee, "in", stamp, timestamp, sessionId);
+
+    return {
+      attendance: record,
+      alreadyAttended: !!existing,
+      alreadyInside: false,
+      count: admitted.length + (existing ? 0 : 1),
+      occupancy: occupancy + 1,
+    };
+  });
+}
+
+// Records an attendee stepping out of a session, freeing their seat
+export async function leaveSession(
+  sessionId: string,
+  attendee: Attendee,
+  stamp: Stamp,
+  timestamp: string
+) {
+  return enqueueCheckin(attendee.eventId || "", async () => {
+    const found = await loadSessionFor(sessionId, attendee);
+    if ("error" in found) return found;
+    const { session } = found;
+
+    const presence = await presenceAt(session.eventId);
+    if (!presence.sessions.get(sessionId)?.has(attendee.id)) {
+      return { error: "Not in this session", status: 409 };
+    }
+    const entry = await recordEntry(attendee, "out", stamp, timestamp, sessionId);
+    return { entry, occupancy: sessionOccupancy(presence, sessionId) - 1 };
+  });
+}
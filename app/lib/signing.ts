@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { storageConfig } from "./storage";
+
+let cachedSecret: Promise<Buffer> | null = null;
+
+// HMAC key for tokens we hand out. Set HEMISPHERE_SECRET in production; without
+// it a random key is created once under the data dir so tokens survive restarts.
+export function signingSecret() {
+  if (!cachedSecret) {
+    cachedSecret = loadSecret().catch((err) => {
+      cachedSecret = null;
+      throw err;
+    });
+  }
+  return cachedSecret;
+}
+
+async function loadSecret() {
+  if (process.env.HEMISPHERE_SECRET) {
+    return Buffer.from(process.env.HEMISPHERE_SECRET, "utf8");
+  }
+
+  const { dataDir } = storageConfig();
+  const file = path.join(dataDir, "signing.key");
+  await fs.mkdir(dataDir, { recursive: true });
+
+  try {
+    await fs.writeFile(file, crypto.randomBytes(32).toString("hex"), { flag: "wx", mode: 0o600 });
+  } catch (err: any) {
+    if (err?.code !== "EEXIST") throw err;
+  }
+  return Buffer.from((await fs.readFile(file, "utf8")).trim(), "utf8");
+}
+
+export async function hmac(value: string) {
+  return crypto.createHmac("sha256", await signingSecret()).update(value).digest("base64url");
+}
+
+// "<base64url json>.<base64url hmac>"
+export async function signPayload(payload: object) {
+  const body = Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+  return `${body}.${await hmac(body)}`;
+}
+
+export async function verifyPayload<T>(token: unknown): Promise<T | null> {
+  const [body, signature, extra] = String(token ?? "").split(".");
+  if (!body || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(await hmac(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
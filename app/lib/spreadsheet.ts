@@ -0,0 +1,242 @@
+import zlib from "zlib";
+
+// Reads the first sheet of an uploaded CSV or XLSX file into rows of cell
+// text. Only what attendee lists need: no formulas or styles beyond telling
+// dates from numbers, and XLSX files are unpacked with zlib rather than a
+// spreadsheet library.
+
+export type SheetResult = { rows: string[][]; error?: undefined } | { rows?: undefined; error: string };
+
+// An XLSX file is small when zipped but may claim anything once unpacked, so
+// unpacking and sparse row and column numbers are bounded
+const MAX_PART_BYTES = 50 * 1024 * 1024;
+const MAX_UNZIPPED_BYTES = 100 * 1024 * 1024;
+const MAX_ROWS = 100_000;
+const MAX_COLUMNS = 1_000;
+
+export function readSpreadsheet(fileName: string, bytes: Buffer): SheetResult {
+  const isZip = bytes.length > 4 && bytes.readUInt32LE(0) === 0x04034b50;
+  if (/\.xlsx$/i.test(fileName) || isZip) {
+    try {
+      return readXlsx(bytes);
+    } catch (err) {
+      console.error("XLSX read error:", err);
+      return { error: "Could not read this XLSX file. Save it again from your spreadsheet app or export it as CSV." };
+    }
+  }
+  if (/\.xls$/i.test(fileName)) {
+    return { error: "Old .xls files are not supported. Save the sheet as .xlsx or CSV." };
+  }
+  return { rows: parseCsv(bytes.toString("utf8")) };
+}
+
+// ---- CSV ----
+
+// RFC 4180 with the usual spreadsheet-export quirks: a byte order mark,
+// CRLF line ends, and semicolon or tab separators from some locales
+export function parseCsv(text: string) {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ---- XLSX ----
+
+// File name -> contents for the XML parts of the zip, read from the central
+// directory so sizes are known even when the local headers leave them out.
+// Other parts, such as embedded images, are skipped. Parts claiming more than
+// the limits are refused before anything is inflated, and inflating stops at
+// the claimed size.
+function unzip(bytes: Buffer) {
+  let end = bytes.length - 22;
+  while (end >= 0 && bytes.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a zip file");
+
+  const count = bytes.readUInt16LE(end + 10);
+  let offset = bytes.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let unzipped = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (bytes.readUInt32LE(offset) !== 0x02014b50) throw new Error("Bad zip directory");
+    const method = bytes.readUInt16LE(offset + 10);
+    const compressedSize = bytes.readUInt32LE(offset + 20);
+    const size = bytes.readUInt32LE(offset + 24);
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const extraLength = bytes.readUInt16LE(offset + 30);
+    const commentLength = bytes.readUInt16LE(offset + 32);
+    const localOffset = bytes.readUInt32LE(offset + 42);
+    const name = bytes.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (!/\.(xml|rels)$/i.test(name)) continue;
+
+    unzipped += size;
+    if (size > MAX_PART_BYTES || unzipped > MAX_UNZIPPED_BYTES) return null;
+    const dataStart =
+      localOffset + 30 + bytes.readUInt16LE(localOffset + 26) + bytes.readUInt16LE(localOffset + 28);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    files.set(name, method === 8 ? zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) }) : data);
+  }
+  return files;
+}
+
+function decodeXml(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const named = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[entity.toLowerCase()];
+    if (named) return named;
+    const hex = entity[1].toLowerCase() === "x";
+    return String.fromCodePoint(parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10));
+  });
+}
+
+// All the <t> runs inside an element, joined (rich text splits a cell into runs)
+function textRuns(xml: string) {
+  let text = "";
+  for (const match of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) text += match[1];
+  return decodeXml(text);
+}
+
+function columnIndex(ref: string) {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() || "A";
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// Built-in number formats that show a date or time
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// For each cell style (the s="" index), whether it shows the number as a
+// date, and whether with a time of day
+function dateStyles(files: Map<string, Buffer>) {
+  const styles = files.get("xl/styles.xml")?.toString("utf8") || "";
+  const custom = new Map<number, string>();
+  for (const match of styles.matchAll(/<numFmt\b[^>]*>/g)) {
+    const id = Number(/\bnumFmtId="(\d+)"/.exec(match[0])?.[1]);
+    custom.set(id, decodeXml(/\bformatCode="([^"]*)"/.exec(match[0])?.[1] || ""));
+  }
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(styles)?.[1] || "";
+  return [...cellXfs.matchAll(/<xf\b[^>]*>/g)].map((xf) => {
+    const id = Number(/\bnumFmtId="(\d+)"/.exec(xf[0])?.[1] || 0);
+    // Quoted text, escapes and [colour] or [$-locale] sections don't count
+    const code = (custom.get(id) || "").replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "").toLowerCase();
+    const isDate = DATE_FORMAT_IDS.has(id) || /[dy]/.test(code) || (/m/.test(code) && !/[hs]/.test(code));
+    const hasTime = [18, 19, 20, 21, 22, 45, 46, 47].includes(id) || /[hs]/.test(code);
+    return isDate ? { hasTime } : null;
+  });
+}
+
+// A date cell's serial number as YYYY-MM-DD, with HH:MM when its format
+// shows the time. Serials count days from 1899-12-30, or from 1904-01-01 in
+// workbooks saved with the Mac date system.
+function serialDate(serial: number, hasTime: boolean, from1904: boolean) {
+  const ms = Math.round((serial + (from1904 ? 1462 : 0)) * 86_400_000) + Date.UTC(1899, 11, 30);
+  const iso = new Date(ms).toISOString();
+  return hasTime ? `${iso.slice(0, 10)} ${iso.slice(11, 16)}` : iso.slice(0, 10);
+}
+
+function firstSheetPath(files: Map<string, Buffer>) {
+  const workbook = files.get("xl/workbook.xml")?.toString("utf8") || "";
+  const rels = files.get("xl/_rels/workbook.xml.rels")?.toString("utf8") || "";
+  const relId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  if (relId) {
+    for (const match of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      if (!match[0].includes(`Id="${relId}"`)) continue;
+      const target = /Target="([^"]+)"/.exec(match[0])?.[1] || "";
+      return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+function readXlsx(bytes: Buffer): SheetResult {
+  const files = unzip(bytes);
+  if (!files) return { error: "This XLSX file is too large once unpacked. Export it as CSV." };
+  const sheet = files.get(firstSheetPath(files))?.toString("utf8");
+  if (!sheet) throw new Error("Workbook has no sheets");
+  const dates = dateStyles(files);
+  const from1904 = /<workbookPr\b[^>]*\bdate1904="(1|true)"/.test(files.get("xl/workbook.xml")?.toString("utf8") || "");
+  const tooLarge = { error: `Sheets with more than ${MAX_ROWS} rows or ${MAX_COLUMNS} columns can't be imported` };
+
+  const shared: string[] = [];
+  const sharedXml = files.get("xl/sharedStrings.xml")?.toString("utf8") || "";
+  for (const match of sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)) shared.push(textRuns(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    // Empty rows are left out of the file; keep the numbering anyway so
+    // reports point at the right line
+    const rowNumber = Number(/\br="(\d+)"/.exec(rowMatch[1])?.[1] || rows.length + 1);
+    if (rowNumber > MAX_ROWS) return tooLarge;
+    while (rows.length < rowNumber - 1) rows.push([]);
+
+    const row: string[] = [];
+    for (const cell of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const body = cell[2] || "";
+      const ref = /\br="([A-Z]+\d*)"/i.exec(attrs)?.[1];
+      const index = ref ? columnIndex(ref) : row.length;
+      if (index >= MAX_COLUMNS) return tooLarge;
+      const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1] ?? "";
+
+      let value = "";
+      if (type === "s") value = shared[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = textRuns(body);
+      else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+      else if (type === "d") value = raw.slice(0, 10);
+      else {
+        value = decodeXml(raw);
+        const style = dates[Number(/\bs="(\d+)"/.exec(attrs)?.[1] || 0)];
+        if (style && (!type || type === "n") && raw !== "" && Number.isFinite(Number(raw))) {
+          value = serialDate(Number(raw), style.hasTime, from1904);
+        }
+      }
+
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return { rows };
+}
@@ -0,0 +1,131 @@
+import { attendees, scanLogs, stations } from "./repositories";
+import type { StaffAccount, Station } from "./types";
+
+// A reported line length goes stale quickly at a busy door
+const QUEUE_REPORT_TTL_MS = 15 * 60 * 1000;
+// Longer gaps between scans mean the station sat idle, not that it was slow
+const IDLE_GAP_MS = 2 * 60 * 1000;
+
+type StationInput = Pick<Station, "eventId" | "name" | "location">;
+
+// Validates a create/update payload. On update, fields that are not sent keep
+// their current value; the event never changes.
+export function parseStationInput(
+  body: any,
+  current?: Station
+): { data: StationInput; error?: undefined } | { data?: undefined; error: string } {
+  const pick = <K extends keyof StationInput>(key: K) =>
+    body?.[key] !== undefined ? body[key] : current?.[key];
+
+  const data: StationInput = {
+    eventId: current ? current.eventId : String(body?.eventId ?? "").trim(),
+    name: String(pick("name") ?? "").trim(),
+    location: String(pick("location") ?? "").trim(),
+  };
+
+  if (!data.name) return { error: "Station name is required" };
+  if (!data.eventId) return { error: "Event is required" };
+  return { data };
+}
+
+export async function findDuplicateStation(name: string, eventId: string, exceptId?: string) {
+  const key = name.trim().toLowerCase();
+  const sameEvent = await stations.find({ eventId });
+  return sameEvent.find((s) => s.id !== exceptId && s.name.trim().toLowerCase() === key) || null;
+}
+
+type CheckinStamp = {
+  stationId?: string;
+  stationName?: string;
+  operatorId: string;
+  operatorName: string;
+};
+
+// Who did a check-in or scan and where, stamped on the record. The operator
+// always comes from the session, never from the request body.
+export async function checkinStamp(
+  staff: StaffAccount,
+  stationId: unknown
+): Promise<{ stamp: CheckinStamp; error?: undefined } | { stamp?: undefined; error: string }> {
+  const operator = { operatorId: staff.id, operatorName: staff.name };
+  const id = String(stationId ?? "").trim();
+  if (!id) return { stamp: operator };
+
+  // Archived stations still count: offline scanners replay writes made
+  // before the station was retired
+  const station = await stations.get(id);
+  if (!station) return { error: "Unknown check-in station" };
+
+  return { stamp: { stationId: station.id, stationName: station.name, ...operator } };
+}
+
+function median(values: number[]) {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Per-station activity for the live dashboard over the last `windowMinutes`.
+// The wait estimate is the operator's reported line length times the
+// station's typical time per scan, so it is only shown while both are known.
+export async function stationDashboard(eventId: string, windowMinutes: number) {
+  const now = Date.now();
+  const since = now - windowMinutes * 60 * 1000;
+
+  const eventStations = await stations.find({ eventId });
+  const ids = new Set(eventStations.map((s) => s.id));
+  const logs = (await scanLogs.list())
+    .filter((l) => l.stationId && ids.has(l.stationId))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const checkedIn = (await attendees.find({ eventId })).filter(
+    (a) => a.checkedInStationId && a.checkedInAt && new Date(a.checkedInAt).getTime() >= since
+  );
+
+  const rows = eventStations.map((station) => {
+    const all = logs.filter((l) => l.stationId === station.id);
+    const recent = all.filter((l) => new Date(l.timestamp).getTime() >= since);
+    const last = all[all.length - 1];
+
+    const gaps: number[] = [];
+    for (let i = 1; i < recent.length; i++) {
+      const gap = new Date(recent[i].timestamp).getTime() - new Date(recent[i - 1].timestamp).getTime();
+      if (gap > 0 && gap <= IDLE_GAP_MS) gaps.push(gap);
+    }
+    const perScanMs = median(gaps);
+
+    const queueFresh =
+      station.queueReportedAt &&
+      now - new Date(station.queueReportedAt).getTime() <= QUEUE_REPORT_TTL_MS;
+    const queueLength = queueFresh ? station.queueLength ?? null : null;
+
+    return {
+      id: station.id,
+      name: station.name,
+      location: station.location,
+      archived: !!station.archivedAt,
+      scans: recent.length,
+      checkins: checkedIn.filter((a) => a.checkedInStationId === station.id).length,
+      scansPerHour: Math.round((recent.length * 60) / windowMinutes),
+      totalScans: all.length,
+      operators: Array.from(new Set(recent.map((l) => l.operatorName).filter(Boolean))),
+      lastActivityAt: last?.timestamp || null,
+      lastOperatorName: last?.operatorName || null,
+      secondsPerScan: perScanMs === null ? null : Math.round(perScanMs / 1000),
+      queueLength,
+      queueReportedAt: queueFresh ? station.queueReportedAt : null,
+      estimatedWaitMinutes:
+        queueLength !== null && perScanMs !== null
+          ? Math.round((queueLength * perScanMs) / 60000)
+          : null,
+    };
+  });
+
+  return {
+    eventId,
+    windowMinutes,
+    generatedAt: new Date(now).toISOString(),
+    // Retired stations only matter while they still show recent activity
+    stations: rows.filter((r) => !r.archived || r.scans > 0),
+  };
+}
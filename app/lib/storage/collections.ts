@@ -0,0 +1,28 @@
+// Every persisted collection, the JSON file it lives in under data/ and the
+// field that uniquely identifies a record.
+export const COLLECTIONS = {
+  attendees: { file: "attendees.json", key: "id" },
+  events: { file: "events.json", key: "id" },
+  exhibitors: { file: "exhibitors.json", key: "id" },
+  leads: { file: "leads.json", key: "id" },
+  scanlogs: { file: "scanlogs.json", key: "id" },
+  stations: { file: "stations.json", key: "id" },
+  eventSessions: { file: "sessions.json", key: "id" },
+  attendance: { file: "attendance.json", key: "id" },
+  entryLogs: { file: "entries.json", key: "id" },
+  checkinHistory: { file: "checkin_history.json", key: "id" },
+  auditLog: { file: "audit_log.json", key: "id" },
+  badgeTemplates: { file: "badge_templates.json", key: "id" },
+  idempotencyKeys: { file: "idempotency_keys.json", key: "key" },
+  activationCodes: { file: "activation_codes.json", key: "code" },
+  deviceSessions: { file: "device_sessions.json", key: "id" },
+  exhibitorTokens: { file: "exhibitor_tokens.json", key: "token" },
+  staff: { file: "staff.json", key: "id" },
+  staffSessions: { file: "staff_sessions.json", key: "id" },
+} as const;
+
+export type CollectionName = keyof typeof COLLECTIONS;
+
+export function recordKey(collection: CollectionName, record: any): string {
+  return String(record?.[COLLECTIONS[collection].key] ?? "");
+}
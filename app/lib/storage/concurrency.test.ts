@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, describe, test } from "node:test";
+import { attendees } from "../repositories";
+import type { Attendee } from "../types";
+import { createJsonStore } from "./jsonStore";
+import { createSqliteStore } from "./sqliteStore";
+
+// Run with: npx tsx --test app/lib/storage/*.test.ts
+//
+// Hammers one attendee with read-modify-write updates, and the collection
+// with inserts, from many requests in one process and from two processes at
+// once. Every write must survive. The writers are this file run again as a
+// child process, going through the same repositories the routes use.
+
+const WRITES = 40;
+const CLAIMED = "claimed@example.com";
+
+// Bumps attendee a1's print count `writes` times and inserts as many
+// attendees of its own, with every request in flight at once. Each request
+// also tries to claim the one email no other attendee may share.
+async function writer(name: string, writes: number) {
+  const requests = Array.from({ length: writes }, (_, i) => [
+    attendees.update("a1", (a) => ({ ...a, printCount: (a.printCount || 0) + 1 })),
+    attendees.insert(attendee(`${name}-${i}`)),
+    attendees.insertUnless({ ...attendee(`${name}-claim-${i}`), email: CLAIMED }, (a) => a.email === CLAIMED),
+  ]);
+  await Promise.all(requests.flat());
+}
+
+function attendee(id: string): Attendee {
+  const createdAt = new Date().toISOString();
+  return { id, firstName: id, lastName: "", email: "", company: "", createdAt };
+}
+
+function runWriters(env: NodeJS.ProcessEnv, names: string[]) {
+  return Promise.all(
+    names.map(
+      (name) =>
+        new Promise<void>((resolve, reject) => {
+          const child = spawn(process.execPath, [...process.execArgv, __filename], {
+            env: { ...env, HEMISPHERE_STRESS_WRITER: name, HEMISPHERE_STRESS_WRITES: String(WRITES) },
+            stdio: ["ignore", "ignore", "pipe"],
+          });
+          let stderr = "";
+          child.stderr.on("data", (chunk) => (stderr += chunk));
+          child.on("error", reject);
+          child.on("exit", (code) =>
+            code === 0 ? resolve() : reject(new Error(`writer ${name} exited with ${code}: ${stderr}`))
+          );
+        })
+    )
+  );
+}
+
+if (process.env.HEMISPHERE_STRESS_WRITER) {
+  writer(process.env.HEMISPHERE_STRESS_WRITER, Number(process.env.HEMISPHERE_STRESS_WRITES)).catch(
+    (err) => {
+      console.error(err);
+      process.exit(1);
+    }
+  );
+} else {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "hemisphere-stress-"));
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  for (const backend of ["json", "sqlite"]) {
+    describe(`${backend} store under concurrent writes`, () => {
+      // Each test gets a fresh data directory seeded with attendee a1
+      const dataDir = (name: string) => {
+        const dir = path.join(root, backend, name);
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(path.join(dir, "attendees.json"), JSON.stringify([attendee("a1")]));
+        return { ...process.env, HEMISPHERE_STORAGE: backend, HEMISPHERE_DATA_DIR: dir };
+      };
+
+      // Opened fresh for every check, so the parent never caches a store
+      const readBack = async (env: NodeJS.ProcessEnv) => {
+        const dir = env.HEMISPHERE_DATA_DIR!;
+        const store =
+          backend === "sqlite"
+            ? createSqliteStore(path.join(dir, "hemisphere.db"), dir)
+            : createJsonStore(dir);
+        return (await store.list("attendees")) as Attendee[];
+      };
+
+      test(`${WRITES} concurrent updates in one process all persist`, async () => {
+        const env = dataDir("one-process");
+        await runWriters(env, ["p1"]);
+
+        const records = await readBack(env);
+        assert.equal(records.find((a) => a.id === "a1")?.printCount, WRITES);
+        assert.equal(records.length, 1 + WRITES + 1);
+      });
+
+      test("two processes writing at once lose nothing", async () => {
+        const env = dataDir("two-processes");
+        await runWriters(env, ["p1", "p2"]);
+
+        const records = await readBack(env);
+        assert.equal(records.find((a) => a.id === "a1")?.printCount, 2 * WRITES);
+        assert.equal(records.length, 1 + 2 * WRITES + 1);
+        assert.equal(new Set(records.map((a) => a.id)).size, records.length);
+        assert.equal(records.filter((a) => a.email === CLAIMED).length, 1);
+      });
+    });
+  }
+}
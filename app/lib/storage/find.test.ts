@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, describe, test } from "node:test";
+import { createJsonStore } from "./jsonStore";
+import { createSqliteStore } from "./sqliteStore";
+import type { Store } from "./types";
+
+// Run with: npx tsx --test app/lib/storage/*.test.ts
+//
+// Routes filter with find() without knowing which backend is configured, so
+// both must agree on which records a Where matches.
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "hemisphere-find-"));
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+const RECORDS = [
+  { id: "a1", eventId: "e1", sessionId: "s1", checkedIn: true, count: 2 },
+  { id: "a2", eventId: "e1", sessionId: null, checkedIn: false, count: 1.5 },
+  { id: "a3", eventId: "e1" },
+  { id: 4, eventId: "e2", sessionId: "", checkedIn: true },
+];
+
+const stores: [string, () => Store][] = [
+  ["json", () => createJsonStore(path.join(dataDir, "json"))],
+  ["sqlite", () => createSqliteStore(path.join(dataDir, "hemisphere.db"), path.join(dataDir, "none"))],
+];
+
+for (const [name, open] of stores) {
+  describe(`${name} store find`, async () => {
+    const store = open();
+    await store.insertMany("attendees", RECORDS);
+    const ids = async (where: Record<string, string | number>) =>
+      (await store.find("attendees", where)).map((r) => String(r.id));
+
+    test("missing and null fields match an empty string", async () => {
+      assert.deepEqual(await ids({ sessionId: "" }), ["a2", "a3", "4"]);
+      assert.deepEqual(await ids({ eventId: "e1", sessionId: "" }), ["a2", "a3"]);
+    });
+
+    test("missing fields don't match anything else", async () => {
+      assert.deepEqual(await ids({ sessionId: "null" }), []);
+      assert.deepEqual(await ids({ nothing: "undefined" }), []);
+    });
+
+    test("booleans and numbers compare as their string form", async () => {
+      assert.deepEqual(await ids({ checkedIn: "true" }), ["a1", "4"]);
+      assert.deepEqual(await ids({ checkedIn: "false" }), ["a2"]);
+      assert.deepEqual(await ids({ count: 2 }), ["a1"]);
+      assert.deepEqual(await ids({ count: "1.5" }), ["a2"]);
+      assert.deepEqual(await ids({ id: "4" }), ["4"]);
+    });
+
+    test("an empty Where matches every record", async () => {
+      assert.deepEqual(await ids({}), ["a1", "a2", "a3", "4"]);
+    });
+  });
+}
@@ -0,0 +1,39 @@
+import path from "path";
+import { createJsonStore } from "./jsonStore";
+import type { Store } from "./types";
+
+export { COLLECTIONS, type CollectionName } from "./collections";
+export type { Store, StoredRecord, Updater, Where } from "./types";
+
+// Backend is picked by configuration:
+//   HEMISPHERE_STORAGE      "json" (default) or "sqlite"
+//   HEMISPHERE_DATA_DIR     defaults to <cwd>/data
+//   HEMISPHERE_SQLITE_FILE  defaults to <data dir>/hemisphere.db
+export function storageConfig() {
+  const dataDir = process.env.HEMISPHERE_DATA_DIR || path.join(process.cwd(), "data");
+  return {
+    backend: process.env.HEMISPHERE_STORAGE === "sqlite" ? "sqlite" : "json",
+    dataDir,
+    sqliteFile: process.env.HEMISPHERE_SQLITE_FILE || path.join(dataDir, "hemisphere.db"),
+  } as const;
+}
+
+// Cached on globalThis so dev-mode hot reloads don't open a second database.
+const globalForStore = globalThis as unknown as { hemisphereStore?: Promise<Store> };
+
+export function getStore(): Promise<Store> {
+  if (!globalForStore.hemisphereStore) {
+    globalForStore.hemisphereStore = openStore();
+  }
+  return globalForStore.hemisphereStore;
+}
+
+async function openStore(): Promise<Store> {
+  const config = storageConfig();
+  if (config.backend === "sqlite") {
+    // Loaded lazily so the JSON backend works without the native module installed
+    const { createSqliteStore } = await import("./sqliteStore");
+    return createSqliteStore(config.sqliteFile, config.dataDir);
+  }
+  return createJsonStore(config.dataDir);
+}
@@ -0,0 +1,121 @@
+import fs from "fs";
+import path from "path";
+import { COLLECTIONS, recordKey, type CollectionName } from "./collections";
+import { createWriteQueue, withFileLock, writeFileAtomic } from "./locking";
+import {
+  applyUpdate,
+  matchesWhere,
+  type Store,
+  type StoredRecord,
+} from "./types";
+
+// One pretty-printed JSON array per collection under the data directory,
+// matching the files the routes used to read and write directly.
+//
+// Every mutation is a read-modify-write of the whole file, so mutations are
+// queued per collection in-process, guarded by a <file>.lock across
+// processes, and written via temp file + rename.
+export function createJsonStore(dataDir: string): Store {
+  const enqueue = createWriteQueue();
+
+  function filePath(collection: CollectionName) {
+    return path.join(dataDir, COLLECTIONS[collection].file);
+  }
+
+  async function readAll(collection: CollectionName): Promise<StoredRecord[]> {
+    try {
+      const raw = await fs.promises.readFile(filePath(collection), "utf8");
+      const parsed = JSON.parse(raw || "[]");
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (err: any) {
+      // File might not exist yet – treat as empty
+      if (err.code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  async function writeAll(collection: CollectionName, records: StoredRecord[]) {
+    await writeFileAtomic(filePath(collection), JSON.stringify(records, null, 2));
+  }
+
+  // Serialized read-modify-write: `change` returns the new records, or
+  // null to leave the file untouched.
+  function mutate<T>(
+    collection: CollectionName,
+    change: (records: StoredRecord[]) => { records: StoredRecord[] | null; result: T }
+  ): Promise<T> {
+    return enqueue(collection, async () => {
+      await fs.promises.mkdir(dataDir, { recursive: true });
+      return withFileLock(`${filePath(collection)}.lock`, async () => {
+        const { records, result } = change(await readAll(collection));
+        if (records) {
+          await writeAll(collection, records);
+        }
+        return result;
+      });
+    });
+  }
+
+  return {
+    list: readAll,
+
+    async find(collection, where) {
+      const records = await readAll(collection);
+      return records.filter((r) => matchesWhere(r, where));
+    },
+
+    async get(collection, key) {
+      const records = await readAll(collection);
+      return records.find((r) => recordKey(collection, r) === String(key)) || null;
+    },
+
+    insert(collection, record) {
+      return mutate(collection, (records) => ({
+        records: [...records, record],
+        result: record,
+      }));
+    },
+
+    insertMany(collection, added) {
+      return mutate(collection, (records) => ({
+        records: added.length ? [...records, ...added] : null,
+        result: added,
+      }));
+    },
+
+    insertUnless(collection, record, conflicts) {
+      return mutate(collection, (records) =>
+        records.some(conflicts)
+          ? { records: null, result: null }
+          : { records: [...records, record], result: record }
+      );
+    },
+
+    update(collection, key, updater) {
+      return mutate(collection, (records) => {
+        const index = records.findIndex((r) => recordKey(collection, r) === String(key));
+        if (index === -1) return { records: null, result: null };
+
+        const next = [...records];
+        next[index] = applyUpdate(records[index], updater);
+        return { records: next, result: next[index] };
+      });
+    },
+
+    remove(collection, key) {
+      return mutate(collection, (records) => {
+        const remaining = records.filter((r) => recordKey(collection, r) !== String(key));
+        const removed = remaining.length !== records.length;
+        return { records: removed ? remaining : null, result: removed };
+      });
+    },
+
+    removeWhere(collection, predicate) {
+      return mutate(collection, (records) => {
+        const remaining = records.filter((r) => !predicate(r));
+        const removed = records.length - remaining.length;
+        return { records: removed > 0 ? remaining : null, result: removed };
+      });
+    },
+  };
+}
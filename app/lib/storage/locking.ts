@@ -0,0 +1,79 @@
+import crypto from "crypto";
+import fs from "fs";
+
+const LOCK_RETRY_MS = 15;
+const LOCK_TIMEOUT_MS = 10_000;
+// A lock older than this is assumed to belong to a crashed process.
+const LOCK_STALE_MS = 30_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Runs tasks one at a time per key, in the order they were queued, so two
+// requests in this process never interleave a read-modify-write.
+export function createWriteQueue() {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return function enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = tails.get(key) || Promise.resolve();
+    const run = previous.then(task, task);
+    const tail = run.catch(() => {});
+    tails.set(key, tail);
+    tail.then(() => {
+      if (tails.get(key) === tail) tails.delete(key);
+    });
+    return run;
+  };
+}
+
+// Cross-process lock: whoever creates <lockPath> exclusively owns it until
+// the task finishes. Other processes (e.g. a second server instance) retry.
+export async function withFileLock<T>(lockPath: string, task: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+
+  while (true) {
+    try {
+      const handle = await fs.promises.open(lockPath, "wx");
+      await handle.writeFile(`${process.pid} ${new Date().toISOString()}`);
+      await handle.close();
+      break;
+    } catch (err: any) {
+      if (err.code !== "EEXIST") throw err;
+
+      const stat = await fs.promises.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.promises.unlink(lockPath).catch(() => {});
+        continue;
+      }
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for lock ${lockPath}`);
+      }
+      await sleep(LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    await fs.promises.unlink(lockPath).catch(() => {});
+  }
+}
+
+// Write to a temp file next to the target, flush it, then rename over the
+// target so readers only ever see the old or the new file, never half of one.
+export async function writeFileAtomic(filePath: string, contents: string | Buffer) {
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  const handle = await fs.promises.open(tempPath, "w");
+  try {
+    await handle.writeFile(contents, "utf8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.promises.rename(tempPath, filePath);
+  } catch (err) {
+    await fs.promises.unlink(tempPath).catch(() => {});
+    throw err;
+  }
+}
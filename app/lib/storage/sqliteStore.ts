@@ -0,0 +1,173 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { COLLECTIONS, recordKey, type CollectionName } from "./collections";
+import { applyUpdate, type Store, type StoredRecord } from "./types";
+
+// Embedded SQLite backend: one table per collection holding each record as a
+// JSON document, so a write touches a single row instead of a whole file.
+export function createSqliteStore(dbFile: string, dataDir: string): Store {
+  fs.mkdirSync(path.dirname(dbFile), { recursive: true });
+  const db = new Database(dbFile);
+  db.pragma("journal_mode = WAL");
+  // Another process holding the write lock makes us wait instead of failing
+  db.pragma("busy_timeout = 5000");
+
+  const ready = new Set<CollectionName>();
+
+  function table(collection: CollectionName) {
+    if (!ready.has(collection)) {
+      db.exec(
+        `CREATE TABLE IF NOT EXISTS "${collection}" (key TEXT PRIMARY KEY, data TEXT NOT NULL)`
+      );
+      importJsonFile(collection);
+      ready.add(collection);
+    }
+    return `"${collection}"`;
+  }
+
+  // First time a collection is opened, seed it from the existing data/*.json
+  // file so switching backends doesn't lose what the JSON store collected.
+  function importJsonFile(collection: CollectionName) {
+    let records: StoredRecord[] = [];
+    try {
+      const raw = fs.readFileSync(path.join(dataDir, COLLECTIONS[collection].file), "utf8");
+      const parsed = JSON.parse(raw || "[]");
+      records = Array.isArray(parsed) ? parsed : [];
+    } catch (err: any) {
+      if (err.code === "ENOENT") return;
+      throw err;
+    }
+
+    // Counted under the write lock, so a second process opening the
+    // collection at the same time can't import over what the first wrote
+    const insert = db.prepare(
+      `INSERT OR REPLACE INTO "${collection}" (key, data) VALUES (?, ?)`
+    );
+    db.transaction(() => {
+      const { count } = db
+        .prepare(`SELECT COUNT(*) AS count FROM "${collection}"`)
+        .get() as { count: number };
+      if (count > 0) return;
+      records.forEach((r) => insert.run(recordKey(collection, r), JSON.stringify(r)));
+    }).immediate();
+  }
+
+  function parseRows(rows: unknown[]): StoredRecord[] {
+    return (rows as { data: string }[]).map((row) => JSON.parse(row.data));
+  }
+
+  return {
+    async list(collection) {
+      const rows = db.prepare(`SELECT data FROM ${table(collection)} ORDER BY rowid`).all();
+      return parseRows(rows);
+    },
+
+    async find(collection, where) {
+      const fields = Object.keys(where);
+      // Read each field the way matchesWhere stringifies it: missing and
+      // null become "", booleans "true"/"false" rather than SQLite's 1/0
+      const clause = fields.length
+        ? `WHERE ${fields
+            .map(
+              () => `(CASE json_type(data, ?)
+                WHEN 'true' THEN 'true'
+                WHEN 'false' THEN 'false'
+                ELSE COALESCE(CAST(json_extract(data, ?) AS TEXT), '')
+              END) = ?`
+            )
+            .join(" AND ")}`
+        : "";
+      const params = fields.flatMap((field) => {
+        const at = `$.${field}`;
+        return [at, at, String(where[field])];
+      });
+      const rows = db
+        .prepare(`SELECT data FROM ${table(collection)} ${clause} ORDER BY rowid`)
+        .all(...params);
+      return parseRows(rows);
+    },
+
+    async get(collection, key) {
+      const row = db
+        .prepare(`SELECT data FROM ${table(collection)} WHERE key = ?`)
+        .get(String(key)) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+
+    async insert(collection, record) {
+      db.prepare(`INSERT INTO ${table(collection)} (key, data) VALUES (?, ?)`).run(
+        recordKey(collection, record),
+        JSON.stringify(record)
+      );
+      return record;
+    },
+
+    async insertMany(collection, records) {
+      const insert = db.prepare(`INSERT INTO ${table(collection)} (key, data) VALUES (?, ?)`);
+      db.transaction(() => {
+        records.forEach((r) => insert.run(recordKey(collection, r), JSON.stringify(r)));
+      })();
+      return records;
+    },
+
+    async insertUnless(collection, record, conflicts) {
+      const name = table(collection);
+      // Locked before reading, as in update
+      return db.transaction(() => {
+        const rows = parseRows(db.prepare(`SELECT data FROM ${name}`).all());
+        if (rows.some(conflicts)) return null;
+        db.prepare(`INSERT INTO ${name} (key, data) VALUES (?, ?)`).run(
+          recordKey(collection, record),
+          JSON.stringify(record)
+        );
+        return record;
+      }).immediate();
+    },
+
+    async update(collection, key, updater) {
+      const name = table(collection);
+      // IMMEDIATE takes the write lock before reading, so another process
+      // can't commit between our read and write (that fails as SQLITE_BUSY
+      // instead of waiting out busy_timeout)
+      return db.transaction(() => {
+        const row = db.prepare(`SELECT data FROM ${name} WHERE key = ?`).get(String(key)) as
+          | { data: string }
+          | undefined;
+        if (!row) return null;
+
+        const next = applyUpdate(JSON.parse(row.data), updater);
+        db.prepare(`UPDATE ${name} SET data = ? WHERE key = ?`).run(
+          JSON.stringify(next),
+          String(key)
+        );
+        return next;
+      }).immediate();
+    },
+
+    async remove(collection, key) {
+      const result = db.prepare(`DELETE FROM ${table(collection)} WHERE key = ?`).run(String(key));
+      return result.changes > 0;
+    },
+
+    async removeWhere(collection, predicate) {
+      const name = table(collection);
+      // Locked before reading, as in update
+      return db.transaction(() => {
+        const rows = db.prepare(`SELECT key, data FROM ${name}`).all() as {
+          key: string;
+          data: string;
+        }[];
+        const del = db.prepare(`DELETE FROM ${name} WHERE key = ?`);
+        let removed = 0;
+        rows.forEach((row) => {
+          if (predicate(JSON.parse(row.data))) {
+            del.run(row.key);
+            removed += 1;
+          }
+        });
+        return removed;
+      }).immediate();
+    },
+  };
+}
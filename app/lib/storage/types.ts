@@ -0,0 +1,49 @@
+import type { CollectionName } from "./collections";
+
+export type StoredRecord = Record<string, any>;
+
+// Field/value pairs a record must match. Values are compared as strings so
+// ids written as numbers (leads, scan logs) still match ids from a URL. A
+// missing or null field reads as "", in every backend.
+export type Where = Record<string, string | number>;
+
+export type Updater<T> = Partial<T> | ((current: T) => T);
+
+export interface Store {
+  list(collection: CollectionName): Promise<StoredRecord[]>;
+  find(collection: CollectionName, where: Where): Promise<StoredRecord[]>;
+  get(collection: CollectionName, key: string): Promise<StoredRecord | null>;
+  insert(collection: CollectionName, record: StoredRecord): Promise<StoredRecord>;
+  // Several records in one write, for bulk imports
+  insertMany(collection: CollectionName, records: StoredRecord[]): Promise<StoredRecord[]>;
+  // Inserts unless an existing record conflicts with the new one, checked
+  // under the same lock as the write so no other process can insert in
+  // between. Null when a conflict kept it out.
+  insertUnless(
+    collection: CollectionName,
+    record: StoredRecord,
+    conflicts: (existing: StoredRecord) => boolean
+  ): Promise<StoredRecord | null>;
+  update(
+    collection: CollectionName,
+    key: string,
+    updater: Updater<StoredRecord>
+  ): Promise<StoredRecord | null>;
+  remove(collection: CollectionName, key: string): Promise<boolean>;
+  removeWhere(
+    collection: CollectionName,
+    predicate: (record: StoredRecord) => boolean
+  ): Promise<number>;
+}
+
+export function applyUpdate<T>(current: T, updater: Updater<T>): T {
+  return typeof updater === "function"
+    ? (updater as (current: T) => T)(current)
+    : { ...current, ...updater };
+}
+
+export function matchesWhere(record: StoredRecord, where: Where) {
+  return Object.entries(where).every(
+    ([field, value]) => String(record?.[field] ?? "") === String(value)
+  );
+}
@@ -0,0 +1,375 @@
+// Record shapes shared by the API routes and the repository layer.
+
+export type Attendee = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  company: string;
+  eventId?: string;
+  createdAt: string;
+  checkedIn?: boolean;
+  checkedInAt?: string;
+  badgeVersion?: number; // signed into the badge QR; missing means 1
+  checkedInStationId?: string; // station that checked them in, if any
+  checkedInBy?: string; // staff id
+  customFields?: Record<string, CustomFieldValue>; // keyed by CustomField.id
+  attendeeType?: AttendeeType; // picks the badge template; missing means "attendee"
+  ticketCategoryId?: string; // TicketCategory.id at their event
+  printedAt?: string; // last time their badge was printed
+  printCount?: number; // badges printed so far, reprints included
+  printedBy?: string; // staff id of the last print
+};
+
+// Id of one of the event's attendee types, e.g. "speaker" or "vip"
+export type AttendeeType = string;
+
+// Where holders of a type or ticket may go. A missing list allows them all.
+export type AccessRule = {
+  sessionIds?: string[]; // sessions they may enter
+  stationIds?: string[]; // check-in points (doors, lounges, halls) they may enter through
+};
+
+// A kind of attendee at one event, e.g. speaker, sponsor or VIP. Shown on
+// badges and to door staff.
+export type AttendeeTypeConfig = {
+  id: AttendeeType; // stored on attendees; kept when the label changes
+  label: string;
+  color: string; // badge ribbons and the scanner's banner
+  limit: number | null; // registrations of this type; null means no limit
+  access: AccessRule;
+};
+
+// What an attendee registered for, e.g. "Full pass" or "Expo only"
+export type TicketCategory = {
+  id: string; // kept when the label changes
+  label: string;
+  attendeeType: AttendeeType; // given to registrations in this category
+  public: boolean; // offered on the registration page; others are assigned by staff
+  limit: number | null;
+  access: AccessRule;
+};
+
+export type CustomFieldType = "text" | "select" | "multiselect" | "checkbox" | "date";
+
+// A question an event adds to its registration form, after the standard
+// name, email and company fields
+export type CustomField = {
+  id: string; // key of the answer on attendees; kept when the label changes
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  options?: string[]; // select and multiselect
+  maxLength?: number; // text
+  pattern?: string; // text: a regular expression the whole answer must match
+  minDate?: string; // date: YYYY-MM-DD bounds, inclusive
+  maxDate?: string;
+};
+
+export type CustomFieldValue = string | string[] | boolean;
+
+export type EventBranding = {
+  logoUrl: string;
+  primaryColor: string;
+  accentColor: string;
+};
+
+// Fields after name are optional because events created before the admin
+// Events screen only had id, name and activationCode.
+export type EventRecord = {
+  id: string;
+  name: string;
+  venue?: string;
+  timeZone?: string; // IANA name, e.g. "America/New_York"
+  startDate?: string; // YYYY-MM-DD in the event's time zone
+  endDate?: string;
+  activationCode?: string;
+  capacity?: number | null; // registrations
+  // Most people allowed inside at once, and the share of it that raises an
+  // alert on the admin header. Session alerts use the same share of each
+  // session's capacity.
+  occupancyLimit?: number | null;
+  occupancyAlertPercent?: number;
+  branding?: EventBranding;
+  customFields?: CustomField[]; // extra registration questions, in form order
+  attendeeTypes?: AttendeeTypeConfig[]; // empty or missing means the built-in types
+  ticketCategories?: TicketCategory[];
+  createdAt?: string;
+  archivedAt?: string; // events are archived, never deleted
+};
+
+export type ExhibitorStaffMember = {
+  name: string;
+  email: string;
+};
+
+export type Exhibitor = {
+  id: string;
+  name: string; // company name as shown to attendees
+  boothNumber: string;
+  eventId: string;
+  contactEmails: string[];
+  logoUrl: string;
+  staff: ExhibitorStaffMember[];
+  createdAt: string;
+};
+
+export type ActivationCode = {
+  code: string; // random, shown to the exhibitor and typed into booth devices
+  exhibitorId: string;
+  eventId: string;
+  createdAt: string;
+  expiresAt: string;
+  usageCount: number; // successful activations so far
+  maxDevices: number;
+  revokedAt?: string;
+};
+
+// A booth device that activated with an exhibitor's code. The device holds a
+// signed token naming this record; revoking the record locks the device out.
+export type DeviceSession = {
+  id: string;
+  exhibitorId: string;
+  eventId: string;
+  activationCode: string;
+  label: string; // device name typed at activation, or its user agent
+  createdAt: string;
+  expiresAt: string;
+  lastSeenAt: string;
+  revokedAt?: string;
+};
+
+export type Lead = {
+  id: number;
+  eventId: string;
+  attendeeId: string | number;
+  attendeeName: string;
+  attendeeEmail: string;
+  exhibitorId?: string; // missing on leads captured for an unregistered exhibitor
+  exhibitor: string; // company name at capture time, kept for exports
+  notes: string;
+  timestamp: string;
+};
+
+export type ScanLog = {
+  id: number;
+  attendeeId: string | number;
+  attendeeName: string;
+  attendeeEmail: string;
+  method: string;
+  timestamp: string;
+  eventId?: string; // the attendee's event; missing on older logs
+  // Missing on logs written before stations existed. Names are copied so
+  // exports still read well after a rename.
+  stationId?: string;
+  stationName?: string;
+  operatorId?: string;
+  operatorName?: string;
+};
+
+// A named check-in point (a door, a desk) at one event. Scanners pick one so
+// their scans can be told apart on the station dashboard.
+export type Station = {
+  id: string;
+  eventId: string;
+  name: string;
+  location: string;
+  createdAt: string;
+  archivedAt?: string;
+  // People waiting, as last reported by the station's operator
+  queueLength?: number;
+  queueReportedAt?: string;
+};
+
+// A talk, workshop or breakout within an event. Times are local to the
+// event's time zone, like the event dates.
+export type EventSession = {
+  id: string;
+  eventId: string;
+  title: string;
+  track: string; // free text, e.g. "Engineering"; empty when not tracked
+  room: string;
+  startsAt: string; // YYYY-MM-DDTHH:mm
+  endsAt: string;
+  capacity: number | null; // seats; null means unlimited
+  createdAt: string;
+  archivedAt?: string;
+};
+
+// One attendee admitted to one session. Kept apart from the event check-in,
+// which only records getting through the door.
+export type SessionAttendance = {
+  id: string;
+  sessionId: string;
+  eventId: string;
+  attendeeId: string;
+  attendeeName: string;
+  attendeeEmail: string;
+  timestamp: string;
+  stationId?: string;
+  stationName?: string;
+  operatorId?: string;
+  operatorName?: string;
+};
+
+// One pass through a door: into or out of the event, or into or out of one
+// of its sessions. Append-only; whoever's latest entry is "in" is inside.
+export type EntryLog = {
+  id: string;
+  eventId: string;
+  attendeeId: string;
+  attendeeName: string;
+  sessionId?: string; // missing for the event's own doors
+  direction: "in" | "out";
+  timestamp: string;
+  stationId?: string;
+  stationName?: string;
+  operatorId?: string;
+  operatorName?: string;
+};
+
+// The check-in fields of an attendee at one moment
+export type CheckinState = {
+  checkedIn: boolean;
+  checkedInAt?: string;
+  checkedInStationId?: string;
+  checkedInBy?: string;
+};
+
+// One change to an attendee's check-in state. Append-only: an undo is a new
+// record that restores the state before the change it names.
+export type CheckinChange = {
+  id: string;
+  eventId: string;
+  attendeeId: string;
+  source: "scanner" | "admin" | "undo";
+  previous: CheckinState;
+  next: CheckinState;
+  actorId: string; // staff account
+  actorName: string;
+  stationId?: string;
+  stationName?: string;
+  undoesId?: string; // the change an undo reverses
+  timestamp: string;
+};
+
+// Response to a client write that carried an Idempotency-Key, kept so a
+// replay of the same write (e.g. an offline scanner syncing) gets the
+// original answer instead of writing twice.
+export type IdempotencyRecord = {
+  key: string; // "<scope>:<client key>"
+  status: number;
+  body: unknown;
+  createdAt: string;
+};
+
+export type ExhibitorToken = {
+  email: string;
+  token: string;
+  expiresAt: string; // ISO string
+  // The exhibitor (and its event) this login link grants access to
+  exhibitorId: string;
+  eventId: string;
+};
+
+export type StaffRole = "owner" | "registration" | "scanner" | "analyst";
+
+export type StaffAccount = {
+  id: string;
+  email: string;
+  name: string;
+  role: StaffRole;
+  passwordHash: string;
+  createdAt: string;
+};
+
+export type StaffSession = {
+  id: string; // sha256 of the cookie token, so the raw token is never stored
+  staffId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+// One administrative change, kept for compliance review after a show.
+// Append-only; "changes" holds only the fields that differ, with secrets
+// redacted.
+export type AuditEntry = {
+  id: string;
+  timestamp: string;
+  actorId: string | null; // staff account; null for a failed sign-in
+  actorName: string;
+  actorRole?: StaffRole;
+  action: string; // "<target>.<verb>", e.g. "attendee.update"
+  targetType: string;
+  targetId: string;
+  eventId?: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  ip: string;
+  userAgent: string;
+};
+
+// Look of a printed badge. Sizes are millimetres; logos are image URLs or
+// data URLs uploaded in the designer.
+export type BadgeDesign = {
+  qrSizeMm: number;
+  qrOffsetXMm: number;
+  qrOffsetYMm: number;
+  badgeWidthMm: number;
+  badgeHeightMm: number;
+  backgroundColor: string;
+  accentColor: string;
+  textColor: string;
+  borderColor: string;
+  borderRadiusMm: number;
+  nameFontMm: number;
+  companyFontMm: number;
+  metaFontMm: number;
+  frontLogoUrl: string;
+  backLogoUrl: string;
+  layoutMode: "single" | "double";
+  // Free-form layout. Without elements the badge uses the classic layout
+  // built from the fields above.
+  elements?: BadgeElement[];
+};
+
+export type BadgeElementKind = "text" | "image" | "shape" | "qr" | "ribbon";
+
+// One positioned item on a badge, in millimetres from the top left of its
+// side. Fields beyond the box apply to the kinds noted.
+export type BadgeElement = {
+  id: string;
+  kind: BadgeElementKind;
+  side: "front" | "back";
+  xMm: number;
+  yMm: number;
+  widthMm: number;
+  heightMm: number;
+  text?: string; // text: static text with {field} or {custom:<id>} placeholders
+  fallback?: string; // text: shown when every placeholder comes out empty
+  fontSizeMm?: number; // text, ribbon
+  minFontSizeMm?: number; // text, ribbon: text that doesn't fit shrinks down to this
+  bold?: boolean; // text, ribbon
+  align?: "left" | "center" | "right"; // text
+  maxLines?: number; // text
+  color?: string; // text, ribbon: text color
+  fill?: string; // shape, qr: background
+  stroke?: string; // shape, qr: border
+  radiusMm?: number; // shape, qr, ribbon
+  imageUrl?: string; // image
+  ribbons?: { type: AttendeeType; label: string; color: string }[]; // ribbon: band per attendee type
+};
+
+// A named badge design for one event. An attendee's badge uses the template
+// listing their type, else the event's default, else the built-in design.
+export type BadgeTemplate = {
+  id: string;
+  eventId: string;
+  name: string;
+  version: number; // bumped on every save, so two desks can't overwrite each other
+  isDefault: boolean; // at most one per event
+  attendeeTypes: AttendeeType[]; // each type is on at most one template per event
+  design: BadgeDesign;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: string; // staff id
+};
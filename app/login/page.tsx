@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export default function LoginPage() {
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  function nextPath() {
+    const next = new URLSearchParams(window.location.search).get("next") || "/admin";
+    // Only follow same-site paths
+    return next.startsWith("/") && !next.startsWith("//") ? next : "/admin";
+  }
+
+  useEffect(() => {
+    async function loadSession() {
+      try {
+        const res = await fetch("/api/auth/me", { cache: "no-store" });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (data.staff) {
+          window.location.href = nextPath();
+          return;
+        }
+        setSetupRequired(!!data.setupRequired);
+      } catch (err) {
+        console.error("Session check error:", err);
+      }
+    }
+    loadSession();
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = setupRequired
+        ? await fetch("/api/staff", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name, email, password }),
+          })
+        : await fetch("/api/auth/login", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ email, password }),
+          });
+
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Unable to sign in.");
+        return;
+      }
+
+      window.location.href = nextPath();
+    } catch (err) {
+      console.error("Login error:", err);
+      setError("Network error.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <main
+      style={{
+        minHeight: "100vh",
+        backgroundColor: "#020617",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: "1.5rem",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: 400,
+          backgroundColor: "#020617",
+          borderRadius: 16,
+          border: "1px solid #1f2937",
+          padding: 20,
+        }}
+      >
+        <h1 style={{ fontSize: 24, color: "#e5e7eb", fontWeight: 700, marginBottom: 8 }}>
+          {setupRequired ? "Create owner account" : "Staff sign in"}
+        </h1>
+        <p style={{ fontSize: 13, color: "#9ca3af", marginBottom: 20 }}>
+          {setupRequired
+            ? "No staff accounts exist yet. The first account is the owner and can add everyone else."
+            : "Sign in with your Hemisphere staff account."}
+        </p>
+
+        <form onSubmit={handleSubmit} style={{ display: "grid", gap: 10 }}>
+          {setupRequired && (
+            <label style={labelStyle}>
+              Name
+              <input value={name} onChange={(e) => setName(e.target.value)} style={inputStyle} />
+            </label>
+          )}
+          <label style={labelStyle}>
+            Email
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              style={inputStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Password
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+
+          {error && <p style={{ color: "#f87171", fontSize: 12, margin: 0 }}>{error}</p>}
+
+          <button
+            type="submit"
+            disabled={loading}
+            style={{
+              marginTop: 6,
+              width: "100%",
+              borderRadius: 999,
+              padding: "10px 12px",
+              border: "none",
+              backgroundColor: "#22c55e",
+              color: "#020617",
+              fontSize: 14,
+              fontWeight: 700,
+              cursor: "pointer",
+            }}
+          >
+            {loading ? "Signing in..." : setupRequired ? "Create account" : "Sign in"}
+          </button>
+        </form>
+      </div>
+    </main>
+  );
+}
+
+const labelStyle: React.CSSProperties = {
+  color: "#e5e7eb",
+  fontSize: 13,
+  display: "grid",
+  gap: 4,
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  backgroundColor: "#020617",
+  borderRadius: 12,
+  border: "1px solid #374151",
+  padding: "8px 10px",
+  color: "#e5e7eb",
+  fontSize: 14,
+  outline: "none",
+};
@@ -0,0 +1,2 @@
+// /register/<eventId> - same form with the event fixed by the URL
+export { default } from "../page";
@@ -1,19 +1,60 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useEffect, useState, useRef } from "react";
 import { QRCodeCanvas } from "qrcode.react";
 
-export default function RegisterPage() {
+// Serves both /register (pick an event) and /register/[eventId] (event fixed by the URL)
+export default function RegisterPage({ params }) {
+  const fixedEventId = params?.eventId || "";
+  const [events, setEvents] = useState([]);
+  const [eventsLoaded, setEventsLoaded] = useState(false);
+  const [eventId, setEventId] = useState(fixedEventId);
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [email, setEmail] = useState("");
   const [company, setCompany] = useState("");
+  const [customValues, setCustomValues] = useState({}); // field id -> answer
+  const [ticketCategory, setTicketCategory] = useState(""); // ticket category id
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [result, setResult] = useState(null); // { attendee, qrValue }
 
   const qrRef = useRef(null);
 
+  useEffect(() => {
+    async function loadEvents() {
+      try {
+        const res = await fetch("/api/events", { cache: "no-store" });
+        const data = await res.json();
+        const list = Array.isArray(data) ? data : [];
+        setEvents(list);
+        // Nothing to choose when only one event is open
+        if (!fixedEventId && list.length === 1) setEventId(list[0].id);
+      } catch (err) {
+        console.error("Load events error:", err);
+      } finally {
+        setEventsLoaded(true);
+      }
+    }
+    loadEvents();
+  }, [fixedEventId]);
+
+  const selectedEvent = events.find((evt) => evt.id === eventId) || null;
+  const fixedEventMissing = !!fixedEventId && eventsLoaded && !selectedEvent;
+  const customFields = selectedEvent?.customFields || [];
+  const ticketCategories = (selectedEvent?.ticketCategories || []).filter((c) => c.public);
+
+  function setCustomValue(fieldId, value) {
+    setCustomValues((prev) => ({ ...prev, [fieldId]: value }));
+  }
+
+  function chooseEvent(id) {
+    setEventId(id);
+    // Answers and tickets belong to one event
+    setCustomValues({});
+    setTicketCategory("");
+  }
+
   async function handleSubmit(e) {
     e.preventDefault();
     setError("");
@@ -24,12 +65,30 @@ export default function RegisterPage() {
       return;
     }
 
+    if (!eventId) {
+      setError("Choose the event you are registering for.");
+      return;
+    }
+
+    if (ticketCategories.length && !ticketCategory) {
+      setError("Choose a ticket category.");
+      return;
+    }
+
     setLoading(true);
     try {
       const res = await fetch("/api/register", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ firstName, lastName, email, company }),
+        body: JSON.stringify({
+          firstName,
+          lastName,
+          email,
+          company,
+          eventId,
+          ticketCategory,
+          customFields: customValues,
+        }),
       });
 
       if (!res.ok) {
@@ -46,6 +105,8 @@ export default function RegisterPage() {
       setLastName("");
       setEmail("");
       setCompany("");
+      setCustomValues({});
+      setTicketCategory("");
     } catch (err) {
       console.error("Register error:", err);
       setError("Network error.");
@@ -99,7 +160,9 @@ export default function RegisterPage() {
             marginBottom: 8,
           }}
         >
-          Hemisphere Registration
+          {fixedEventId && selectedEvent
+            ? `Register for ${selectedEvent.name}`
+            : "Hemisphere Registration"}
         </h1>
         <p
           style={{
@@ -112,109 +175,251 @@ export default function RegisterPage() {
           code for your badge that your lead retrieval app can scan.
         </p>
 
-        <form onSubmit={handleSubmit}>
-          <label
-            style={{
-              fontSize: 13,
-              color: "#e5e7eb",
-              marginBottom: 4,
-              display: "block",
-            }}
-          >
-            First Name
-          </label>
-          <input
-            value={firstName}
-            onChange={(e) => setFirstName(e.target.value)}
-            placeholder="First name"
-            style={inputStyle}
-          />
-
-          <label
-            style={{
-              fontSize: 13,
-              color: "#e5e7eb",
-              marginBottom: 4,
-              marginTop: 8,
-              display: "block",
-            }}
-          >
-            Last Name
-          </label>
-          <input
-            value={lastName}
-            onChange={(e) => setLastName(e.target.value)}
-            placeholder="Last name"
-            style={inputStyle}
-          />
-
-          <label
-            style={{
-              fontSize: 13,
-              color: "#e5e7eb",
-              marginBottom: 4,
-              marginTop: 8,
-              display: "block",
-            }}
-          >
-            Email
-          </label>
-          <input
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            placeholder="you@example.com"
-            style={inputStyle}
-          />
-
-          <label
-            style={{
-              fontSize: 13,
-              color: "#e5e7eb",
-              marginBottom: 4,
-              marginTop: 8,
-              display: "block",
-            }}
-          >
-            Company (optional)
-          </label>
-          <input
-            value={company}
-            onChange={(e) => setCompany(e.target.value)}
-            placeholder="Company name"
-            style={inputStyle}
-          />
-
-          {error && (
-            <p
+        {fixedEventMissing ? (
+          <p style={{ color: "#f87171", fontSize: 13 }}>
+            This event isn&apos;t open for registration.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            {!fixedEventId && (
+              <div style={{ marginBottom: 8 }}>
+                <label
+                  style={{
+                    fontSize: 13,
+                    color: "#e5e7eb",
+                    marginBottom: 4,
+                    display: "block",
+                  }}
+                >
+                  Event
+                </label>
+                <select
+                  value={eventId}
+                  onChange={(e) => chooseEvent(e.target.value)}
+                  style={inputStyle}
+                >
+                  <option value="">Select an event</option>
+                  {events.map((evt) => (
+                    <option key={evt.id} value={evt.id}>
+                      {evt.name}
+                      {evt.startDate ? ` · ${evt.startDate}` : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <label
               style={{
-                color: "#f87171",
-                fontSize: 12,
+                fontSize: 13,
+                color: "#e5e7eb",
+                marginBottom: 4,
+                display: "block",
+              }}
+            >
+              First Name
+            </label>
+            <input
+              value={firstName}
+              onChange={(e) => setFirstName(e.target.value)}
+              placeholder="First name"
+              style={inputStyle}
+            />
+
+            <label
+              style={{
+                fontSize: 13,
+                color: "#e5e7eb",
+                marginBottom: 4,
                 marginTop: 8,
+                display: "block",
               }}
             >
-              {error}
-            </p>
-          )}
+              Last Name
+            </label>
+            <input
+              value={lastName}
+              onChange={(e) => setLastName(e.target.value)}
+              placeholder="Last name"
+              style={inputStyle}
+            />
 
-          <button
-            type="submit"
-            disabled={loading}
-            style={{
-              marginTop: 16,
-              width: "100%",
-              borderRadius: 999,
-              padding: "10px 12px",
-              border: "none",
-              backgroundColor: "#22c55e",
-              color: "#020617",
-              fontSize: 14,
-              fontWeight: 700,
-              cursor: "pointer",
-            }}
-          >
-            {loading ? "Registering..." : "Register"}
-          </button>
-        </form>
+            <label
+              style={{
+                fontSize: 13,
+                color: "#e5e7eb",
+                marginBottom: 4,
+                marginTop: 8,
+                display: "block",
+              }}
+            >
+              Email
+            </label>
+            <input
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              style={inputStyle}
+            />
+
+            <label
+              style={{
+                fontSize: 13,
+                color: "#e5e7eb",
+                marginBottom: 4,
+                marginTop: 8,
+                display: "block",
+              }}
+            >
+              Company (optional)
+            </label>
+            <input
+              value={company}
+              onChange={(e) => setCompany(e.target.value)}
+              placeholder="Company name"
+              style={inputStyle}
+            />
+
+            {ticketCategories.length > 0 && (
+              <div style={{ marginTop: 8 }}>
+                <label style={labelStyle}>Ticket</label>
+                <select
+                  value={ticketCategory}
+                  onChange={(e) => setTicketCategory(e.target.value)}
+                  style={inputStyle}
+                >
+                  <option value="">Select a ticket…</option>
+                  {ticketCategories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {customFields.map((field) => (
+              <div key={field.id} style={{ marginTop: 8 }}>
+                {field.type === "checkbox" ? (
+                  <label
+                    style={{
+                      fontSize: 13,
+                      color: "#e5e7eb",
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 8,
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!!customValues[field.id]}
+                      onChange={(e) => setCustomValue(field.id, e.target.checked)}
+                    />
+                    {field.label}
+                    {field.required ? "" : " (optional)"}
+                  </label>
+                ) : (
+                  <>
+                    <label style={labelStyle}>
+                      {field.label}
+                      {field.required ? "" : " (optional)"}
+                    </label>
+                    {field.type === "select" && (
+                      <select
+                        value={customValues[field.id] || ""}
+                        onChange={(e) => setCustomValue(field.id, e.target.value)}
+                        style={inputStyle}
+                      >
+                        <option value="">Select…</option>
+                        {field.options.map((option) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {field.type === "multiselect" && (
+                      <div style={{ display: "grid", gap: 4 }}>
+                        {field.options.map((option) => {
+                          const chosen = customValues[field.id] || [];
+                          return (
+                            <label
+                              key={option}
+                              style={{ fontSize: 13, color: "#e5e7eb", display: "flex", alignItems: "center", gap: 8 }}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={chosen.includes(option)}
+                                onChange={(e) =>
+                                  setCustomValue(
+                                    field.id,
+                                    e.target.checked
+                                      ? [...chosen, option]
+                                      : chosen.filter((o) => o !== option)
+                                  )
+                                }
+                              />
+                              {option}
+                            </label>
+                          );
+                        })}
+                      </div>
+                    )}
+                    {field.type === "date" && (
+                      <input
+                        type="date"
+                        value={customValues[field.id] || ""}
+                        min={field.minDate}
+                        max={field.maxDate}
+                        onChange={(e) => setCustomValue(field.id, e.target.value)}
+                        style={inputStyle}
+                      />
+                    )}
+                    {field.type === "text" && (
+                      <input
+                        value={customValues[field.id] || ""}
+                        maxLength={field.maxLength}
+                        onChange={(e) => setCustomValue(field.id, e.target.value)}
+                        style={inputStyle}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+
+            {error && (
+              <p
+                style={{
+                  color: "#f87171",
+                  fontSize: 12,
+                  marginTop: 8,
+                }}
+              >
+                {error}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              style={{
+                marginTop: 16,
+                width: "100%",
+                borderRadius: 999,
+                padding: "10px 12px",
+                border: "none",
+                backgroundColor: "#22c55e",
+                color: "#020617",
+                fontSize: 14,
+                fontWeight: 700,
+                cursor: "pointer",
+              }}
+            >
+              {loading ? "Registering..." : "Register"}
+            </button>
+          </form>
+        )}
 
         {result && (
           <div
@@ -246,6 +451,13 @@ export default function RegisterPage() {
               <span style={{ color: "#e5e7eb" }}>
                 {result.attendee.email}
               </span>
+              {selectedEvent && (
+                <>
+                  <br />
+                  Event:{" "}
+                  <span style={{ color: "#e5e7eb" }}>{selectedEvent.name}</span>
+                </>
+              )}
             </p>
 
             <p
@@ -333,6 +545,13 @@ export default function RegisterPage() {
   );
 }
 
+const labelStyle = {
+  fontSize: 13,
+  color: "#e5e7eb",
+  marginBottom: 4,
+  display: "block",
+};
+
 const inputStyle = {
   width: "100%",
   backgroundColor: "#020617",
@@ -0,0 +1,18 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { SESSION_COOKIE, can, getStaffForToken } from "../lib/auth";
+
+export default async function ScannerLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const cookieStore = await cookies();
+  const staff = await getStaffForToken(cookieStore.get(SESSION_COOKIE)?.value);
+
+  if (!staff) redirect("/login?next=/scanner");
+  // Read-only analysts can't check people in
+  if (!can(staff.role, "checkin:write")) redirect("/admin");
+
+  return <>{children}</>;
+}
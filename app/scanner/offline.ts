@@ -0,0 +1,239 @@
+// Offline support for the check-in scanner: the event roster and a queue of
+// writes that couldn't reach the server, both kept in IndexedDB so they
+// survive a reload while the venue network is down.
+
+import type { AttendeeTypeConfig, TicketCategory } from "../lib/types";
+
+export type RosterAttendee = {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  company?: string;
+  checkedIn?: boolean;
+  checkedInAt?: string;
+  attendeeType?: string;
+  ticketCategoryId?: string;
+  qrValue: string;
+};
+
+export type Roster = {
+  eventId: string;
+  eventName: string;
+  legacyQrAccepted: boolean;
+  generatedAt: string;
+  // The event's types and tickets, for access checks offline; rosters
+  // cached before they were added have none
+  attendeeTypes?: AttendeeTypeConfig[];
+  ticketCategories?: TicketCategory[];
+  attendees: RosterAttendee[];
+};
+
+type QueuedWrite = {
+  key: string; // sent as Idempotency-Key, so replays never double-count
+  url: string;
+  body: Record<string, unknown>;
+  createdAt: string;
+};
+
+export type WriteResult =
+  | { status: "sent"; data: any }
+  | { status: "queued" }
+  | { status: "rejected"; error: string; data: any };
+
+const DB_NAME = "hemisphere-scanner";
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore("rosters", { keyPath: "eventId" });
+        db.createObjectStore("queue", { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: "rosters" | "queue",
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// ---- Roster ----
+
+export function saveRoster(roster: Roster) {
+  return run<IDBValidKey>("rosters", "readwrite", (store) => store.put(roster));
+}
+
+export async function loadRoster(eventId: string) {
+  return (await run<Roster | undefined>("rosters", "readonly", (store) => store.get(eventId))) || null;
+}
+
+// Reflect a check-in made on this device before the server has seen it
+export async function markCheckedIn(eventId: string, attendeeId: string, checkedInAt: string) {
+  const roster = await loadRoster(eventId);
+  if (!roster) return;
+  roster.attendees = roster.attendees.map((a) =>
+    a.id === attendeeId && !a.checkedIn ? { ...a, checkedIn: true, checkedInAt } : a
+  );
+  await saveRoster(roster);
+}
+
+// Keeps the cached roster in step with registrations, edits and check-ins
+// made elsewhere, as they arrive on the live stream
+export async function applyRosterChange(eventId: string, change: RosterAttendee & { eventId?: string }) {
+  const roster = await loadRoster(eventId);
+  if (!roster) return null;
+
+  const others = roster.attendees.filter((a) => a.id !== change.id);
+  roster.attendees =
+    change.eventId === eventId
+      ? [
+          ...others,
+          {
+            id: change.id,
+            firstName: change.firstName,
+            lastName: change.lastName,
+            email: change.email,
+            company: change.company,
+            checkedIn: !!change.checkedIn,
+            checkedInAt: change.checkedInAt,
+            attendeeType: change.attendeeType,
+            ticketCategoryId: change.ticketCategoryId,
+            qrValue: change.qrValue,
+          },
+        ]
+      : others;
+  await saveRoster(roster);
+  return roster;
+}
+
+// A scanned QR only counts offline if it is exactly the value on the
+// attendee's current badge; unsigned legacy badges match by id while the
+// server still accepts them, and only until the badge is first reissued.
+export function findInRoster(roster: Roster, qr: string) {
+  const value = qr.trim();
+  const signed = roster.attendees.find((a) => a.qrValue === value);
+  if (signed) return signed;
+
+  const legacy = /^hemisphere:([^:]+)$/i.exec(value);
+  if (legacy && roster.legacyQrAccepted) {
+    const attendee = roster.attendees.find((a) => a.id === legacy[1]);
+    return attendee && signedVersion(attendee.qrValue) === 1 ? attendee : null;
+  }
+  return null;
+}
+
+// The version in a signed badge value, hemisphere:v2:<id>:<event>:<version>:<sig>
+function signedVersion(qrValue: string) {
+  return Number(qrValue.split(":")[4]) || 1;
+}
+
+// ---- Write queue ----
+
+export async function unsyncedCount() {
+  return run<number>("queue", "readonly", (store) => store.count());
+}
+
+async function post(write: QueuedWrite) {
+  return fetch(write.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Idempotency-Key": write.key },
+    body: JSON.stringify(write.body),
+  });
+}
+
+// Sends a write now if possible and queues it if the network is unavailable
+// or the server is failing. 4xx answers are final and not queued.
+export async function sendOrQueue(url: string, body: Record<string, unknown>): Promise<WriteResult> {
+  const write: QueuedWrite = {
+    key: crypto.randomUUID(),
+    url,
+    body,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (navigator.onLine) {
+    try {
+      const res = await post(write);
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) return { status: "sent", data };
+      if (res.status < 500) return { status: "rejected", error: data.error || "Request rejected", data };
+    } catch (err) {
+      console.warn("Write failed, queuing for later:", err);
+    }
+  }
+
+  await run("queue", "readwrite", (store) => store.put(write));
+  return { status: "queued" };
+}
+
+export type Rejection = { url: string; body: Record<string, unknown>; status: number; error: string };
+export type FlushResult = { sent: number; rejected: Rejection[]; remaining: number };
+
+// What authorize() answers when the signed-in role may not make the write:
+// like a sign-out, it holds for every queued item, not just this one
+const ROLE_DENIED = "Your role does not allow this action";
+
+let flushing: Promise<FlushResult> | null = null;
+
+// Replays queued writes oldest first. Stops at the first network or server
+// failure so order is kept; a signed-out session or a role that may not
+// check people in also stops the replay until someone signs back in. Other
+// 4xx answers (a deleted attendee, a badge for another event, a session the
+// holder can't enter) are about that one scan: they are returned with the
+// server's reason and dropped, since retrying can't fix them.
+export function flushQueue(): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = (async () => {
+      const queued = await run<QueuedWrite[]>("queue", "readonly", (store) => store.getAll());
+      queued.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      let sent = 0;
+      const rejected: Rejection[] = [];
+      for (const write of queued) {
+        let res: Response;
+        let data: any;
+        try {
+          res = await post(write);
+          data = await res.json().catch(() => ({}));
+        } catch {
+          break;
+        }
+        if (res.status >= 500 || res.status === 401) break;
+        if (res.status === 403 && data.error === ROLE_DENIED) break;
+
+        if (res.ok) {
+          sent += 1;
+        } else {
+          const error = data.error || "Request rejected";
+          rejected.push({ url: write.url, body: write.body, status: res.status, error });
+          console.warn("Dropping queued write the server rejected:", write.url, res.status, error);
+        }
+        await run("queue", "readwrite", (store) => store.delete(write.key));
+      }
+
+      return { sent, rejected, remaining: await unsyncedCount() };
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
@@ -1,6 +1,20 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import QrScanner from "../components/QrScanner";
+import { useLiveUpdates } from "../components/useLiveUpdates";
+import { accessDenial, attendeeTypeInfo } from "../lib/attendeeTypes";
+import {
+  applyRosterChange,
+  findInRoster,
+  flushQueue,
+  loadRoster,
+  markCheckedIn,
+  saveRoster,
+  sendOrQueue,
+  unsyncedCount,
+  type Roster,
+} from "./offline";
 
 type Attendee = {
   id: string;
@@ -9,246 +23,673 @@ type Attendee = {
   name?: string;
   email?: string;
   company?: string;
+  eventId?: string;
   checkedIn?: boolean;
+  printedAt?: string; // badge already printed, e.g. in a batch before the show
+  attendeeType?: string;
+  ticketCategoryId?: string;
+  type?: TypeInfo; // from the server; offline it comes from the cached roster
 };
 
+type TypeInfo = { id: string; label: string; color: string; ticket: string };
+
+type EventOption = { id: string; name: string };
+
+type StationOption = { id: string; name: string; eventId: string; location?: string };
+
+type SessionOption = {
+  id: string;
+  eventId: string;
+  title: string;
+  room?: string;
+  startsAt: string;
+  endsAt: string;
+  capacity: number | null;
+  occupancy?: number; // inside right now
+};
+
+const SCANNER_EVENT_KEY = "hemisphere-scanner-event";
+const SCANNER_STATION_KEY = "hemisphere-scanner-station";
+const SCANNER_SESSION_KEY = "hemisphere-scanner-session";
+const SCANNER_DIRECTION_KEY = "hemisphere-scanner-direction";
+const SCANNER_PRINT_KEY = "hemisphere-scanner-print-badges";
+const FIRST_BADGE_LAYOUT = "card-4x3"; // one badge per page, for a badge printer at the door
+const SYNC_INTERVAL_MS = 30 * 1000;
+const ROSTER_REFRESH_MS = 5 * 60 * 1000;
+
 type ScanState = "idle" | "scanning" | "found" | "error";
 
 const successSound =
   typeof Audio !== "undefined" ? new Audio("/success.mp3") : null;
 
 export default function ScannerPage() {
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-
-  const [scanState, setScanState] = useState<ScanState>("idle");
-  const [message, setMessage] = useState<string>("");
+  const [scanState, setScanState] = useState<ScanState>("scanning");
+  const [message, setMessage] = useState<string>(
+    "Point a Hemisphere badge QR code at the camera."
+  );
   const [lastValue, setLastValue] = useState<string>("");
   const [lastMethod, setLastMethod] = useState<"" | "scan" | "manual">("");
   const [attendee, setAttendee] = useState<Attendee | null>(null);
-  const [browserSupported, setBrowserSupported] = useState<boolean>(true);
+  // Type of the last person scanned, allowed in or not
+  const [scanType, setScanType] = useState<TypeInfo | null>(null);
   const [isScanningEnabled, setIsScanningEnabled] = useState<boolean>(true);
   const [manualName, setManualName] = useState<string>("");
 
+  // Offline support: the selected event's roster lives in IndexedDB and
+  // writes that can't reach the server wait in a queue there
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [eventId, setEventId] = useState<string>("");
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [online, setOnline] = useState<boolean>(true);
+  const [unsynced, setUnsynced] = useState<number>(0);
+  const [syncNote, setSyncNote] = useState<string>("");
+  // Async handlers read these instead of state so a scan that is mid-flight
+  // sees the current event and roster
+  const eventIdRef = useRef<string>("");
+  const rosterRef = useRef<Roster | null>(null);
+
+  // Which door this device is and who is running it, stamped on every write
+  const [stations, setStations] = useState<StationOption[]>([]);
+  const [station, setStation] = useState<StationOption | null>(null);
+  const [operatorName, setOperatorName] = useState<string>("");
+  const [queueLength, setQueueLength] = useState<number>(0);
+  const stationRef = useRef<StationOption | null>(null);
+
+  // Session attendance mode: with a session picked, scans admit people to
+  // that session instead of checking them in at the event door
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [session, setSession] = useState<SessionOption | null>(null);
+  const sessionRef = useRef<SessionOption | null>(null);
+
+  // Exit mode records people leaving instead of arriving
+  const [direction, setDirection] = useState<"in" | "out">("in");
+  const directionRef = useRef<"in" | "out">("in");
+
+  // Print mode sends a badge to this device's printer the first time
+  // someone without one checks in
+  const [printOnCheckin, setPrintOnCheckin] = useState<boolean>(false);
+  const printOnCheckinRef = useRef<boolean>(false);
+
+  function selectPrintOnCheckin(next: boolean) {
+    printOnCheckinRef.current = next;
+    setPrintOnCheckin(next);
+    localStorage.setItem(SCANNER_PRINT_KEY, next ? "1" : "0");
+  }
+
+  function selectDirection(next: "in" | "out") {
+    directionRef.current = next;
+    setDirection(next);
+    localStorage.setItem(SCANNER_DIRECTION_KEY, next);
+  }
+
+  function selectSession(next: SessionOption | null) {
+    sessionRef.current = next;
+    setSession(next);
+    if (next) {
+      localStorage.setItem(SCANNER_SESSION_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(SCANNER_SESSION_KEY);
+    }
+  }
+
+  async function loadSessions(id: string) {
+    if (!id || !navigator.onLine) return;
+    try {
+      const res = await fetch(`/api/sessions?eventId=${encodeURIComponent(id)}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) return;
+      const list: SessionOption[] = await res.json();
+      setSessions(list);
+      const current = sessionRef.current;
+      if (current) {
+        // Keep the seat count fresh; drop the choice if it was archived
+        const match = list.find((s) => s.id === current.id);
+        selectSession(match || null);
+      }
+    } catch (err) {
+      console.warn("Could not load sessions (offline?):", err);
+    }
+  }
+
+  function selectStation(next: StationOption | null) {
+    stationRef.current = next;
+    setStation(next);
+    setQueueLength(0);
+    if (next) {
+      localStorage.setItem(SCANNER_STATION_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(SCANNER_STATION_KEY);
+    }
+  }
+
+  async function loadStations(id: string) {
+    if (!id || !navigator.onLine) return;
+    try {
+      const res = await fetch(`/api/stations?eventId=${encodeURIComponent(id)}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) return;
+      const list: StationOption[] = await res.json();
+      setStations(list);
+      // The saved station may have been archived since
+      if (stationRef.current && !list.some((s) => s.id === stationRef.current!.id)) {
+        selectStation(null);
+      }
+    } catch (err) {
+      console.warn("Could not load stations (offline?):", err);
+    }
+  }
+
+  // Operator's count of people in line, for the dashboard's wait estimate
+  async function reportQueue(next: number) {
+    const current = stationRef.current;
+    if (!current || next < 0) return;
+    setQueueLength(next);
+    try {
+      await fetch(`/api/stations/${current.id}/queue`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ queueLength: next }),
+      });
+    } catch (err) {
+      console.warn("Queue report failed:", err);
+    }
+  }
+
+  function applyRoster(next: Roster | null) {
+    rosterRef.current = next;
+    setRoster(next);
+  }
+
+  async function refreshUnsynced() {
+    try {
+      setUnsynced(await unsyncedCount());
+    } catch (err) {
+      console.error("Queue read error:", err);
+    }
+  }
+
+  async function syncNow() {
+    if (!navigator.onLine) return;
+    try {
+      const result = await flushQueue();
+      setUnsynced(result.remaining);
+      if (result.sent || result.rejected.length) {
+        const [first] = result.rejected;
+        setSyncNote(
+          `Synced ${result.sent} item${result.sent === 1 ? "" : "s"}` +
+            (first
+              ? `, ${result.rejected.length} rejected by the server (${first.error}` +
+                (result.rejected.length > 1 ? ", …)" : ")")
+              : "")
+        );
+      }
+    } catch (err) {
+      console.error("Sync error:", err);
+    }
+  }
+
+  async function refreshRoster(id: string) {
+    if (!id || !navigator.onLine) return;
+    try {
+      const res = await fetch(`/api/checkin/roster?eventId=${encodeURIComponent(id)}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) return;
+      const fresh: Roster = await res.json();
+
+      // Check-ins still in the queue haven't reached the server yet
+      const pending = rosterRef.current?.eventId === id && (await unsyncedCount()) > 0;
+      if (pending) {
+        const local = new Map(rosterRef.current!.attendees.map((a) => [a.id, a]));
+        fresh.attendees = fresh.attendees.map((a) =>
+          !a.checkedIn && local.get(a.id)?.checkedIn
+            ? { ...a, checkedIn: true, checkedInAt: local.get(a.id)!.checkedInAt }
+            : a
+        );
+      }
+
+      await saveRoster(fresh);
+      if (eventIdRef.current === id) applyRoster(fresh);
+    } catch (err) {
+      console.warn("Roster refresh failed, keeping cached copy:", err);
+    }
+  }
+
+  function selectEvent(id: string) {
+    eventIdRef.current = id;
+    setEventId(id);
+    localStorage.setItem(SCANNER_EVENT_KEY, id);
+    if (stationRef.current && stationRef.current.eventId !== id) {
+      selectStation(null);
+    }
+    if (sessionRef.current && sessionRef.current.eventId !== id) {
+      selectSession(null);
+    }
+  }
+
   useEffect(() => {
-    let stream: MediaStream | null = null;
-    let animationFrameId: number;
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker
+        .register("/scanner-sw.js", { scope: "/scanner" })
+        .catch((err) => console.error("Service worker registration failed:", err));
+    }
 
-    async function startCameraAndScan() {
-      try {
-        if (!("BarcodeDetector" in window)) {
-          setBrowserSupported(false);
-          setScanState("error");
-          setMessage(
-            "This browser does not support camera QR scanning. Try Chrome on desktop."
-          );
-          return;
-        }
-
-        setBrowserSupported(true);
-        setScanState("scanning");
-        setMessage("Point a Hemisphere badge QR code at the camera.");
-
-        // Start camera
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: "environment" },
-        });
+    setOnline(navigator.onLine);
+    refreshUnsynced();
 
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          await videoRef.current.play();
-        }
+    try {
+      const savedStation = localStorage.getItem(SCANNER_STATION_KEY);
+      if (savedStation) selectStation(JSON.parse(savedStation));
+    } catch {
+      localStorage.removeItem(SCANNER_STATION_KEY);
+    }
+    if (localStorage.getItem(SCANNER_DIRECTION_KEY) === "out") selectDirection("out");
+    if (localStorage.getItem(SCANNER_PRINT_KEY) === "1") selectPrintOnCheckin(true);
+    try {
+      const savedSession = localStorage.getItem(SCANNER_SESSION_KEY);
+      if (savedSession) selectSession(JSON.parse(savedSession));
+    } catch {
+      localStorage.removeItem(SCANNER_SESSION_KEY);
+    }
 
-        const AnyWindow = window as any;
-        const detector = new AnyWindow.BarcodeDetector({
-          formats: ["qr_code"],
-        });
+    const saved = localStorage.getItem(SCANNER_EVENT_KEY) || "";
+    if (saved) selectEvent(saved);
 
-        async function scanFrame() {
-          if (!isScanningEnabled) {
-            return;
-          }
-
-          if (!videoRef.current || !canvasRef.current) {
-            animationFrameId = requestAnimationFrame(scanFrame);
-            return;
-          }
-
-          const video = videoRef.current;
-          const canvas = canvasRef.current;
-          const ctx = canvas.getContext("2d");
-          if (!ctx) {
-            animationFrameId = requestAnimationFrame(scanFrame);
-            return;
-          }
-
-          if (video.readyState !== 4) {
-            animationFrameId = requestAnimationFrame(scanFrame);
-            return;
-          }
-
-          canvas.width = video.videoWidth;
-          canvas.height = video.videoHeight;
-
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-          try {
-            const barcodes = await detector.detect(canvas);
-            if (barcodes.length > 0) {
-              const raw = barcodes[0].rawValue || "";
-              await handleScanResult(raw);
-              return; // stop until "Scan Again"
-            }
-          } catch (err) {
-            console.error("Error detecting barcode:", err);
-          }
-
-          animationFrameId = requestAnimationFrame(scanFrame);
-        }
-
-        animationFrameId = requestAnimationFrame(scanFrame);
+    async function loadOperator() {
+      try {
+        const res = await fetch("/api/auth/me", { cache: "no-store" });
+        if (!res.ok) return;
+        const data = await res.json();
+        setOperatorName(data.staff?.name || "");
       } catch (err) {
-        console.error("Error starting camera:", err);
-        setScanState("error");
-        setMessage(
-          "Unable to access camera. Check permissions or try a different browser."
-        );
+        console.warn("Could not load session (offline?):", err);
       }
+    }
+    loadOperator();
 
-      return () => {
-        if (animationFrameId) cancelAnimationFrame(animationFrameId);
-        if (stream) {
-          stream.getTracks().forEach((t) => t.stop());
-        }
-      };
+    async function loadEvents() {
+      try {
+        const res = await fetch("/api/events", { cache: "no-store" });
+        if (!res.ok) return;
+        const list: EventOption[] = await res.json();
+        setEvents(list);
+        if (!saved && list.length === 1) selectEvent(list[0].id);
+      } catch (err) {
+        console.warn("Could not load events (offline?):", err);
+      }
     }
+    loadEvents();
 
-    if (isScanningEnabled) {
-      const cleanupPromise = startCameraAndScan();
-      return () => {
-        cleanupPromise.then((cleanup) => {
-          if (typeof cleanup === "function") cleanup();
-        });
-      };
+    function handleOnline() {
+      setOnline(true);
+      syncNow().then(() => refreshRoster(eventIdRef.current));
+      loadStations(eventIdRef.current);
+      loadSessions(eventIdRef.current);
+    }
+    function handleOffline() {
+      setOnline(false);
     }
-  }, [isScanningEnabled]);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
 
-  async function handleScanResult(raw: string) {
-    setIsScanningEnabled(false); // pause scanning
-    setLastValue(raw);
-    setLastMethod("scan");
+    // Retry the queue in case "online" fired before the network really worked
+    const syncTimer = setInterval(() => {
+      refreshUnsynced().then(syncNow);
+    }, SYNC_INTERVAL_MS);
+    const rosterTimer = setInterval(() => refreshRoster(eventIdRef.current), ROSTER_REFRESH_MS);
 
-    const trimmed = raw.trim();
-    const normalized = trimmed.toLowerCase().startsWith("hemisphere:")
-      ? trimmed
-      : `hemisphere:${trimmed}`;
-    const id = normalized.split(":").pop() || "";
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      clearInterval(syncTimer);
+      clearInterval(rosterTimer);
+    };
+  }, []);
 
-    if (!id) {
-      setScanState("error");
-      setMessage(`Could not read attendee ID from code: "${raw}"`);
-      setAttendee(null);
+  useEffect(() => {
+    if (!eventId) {
+      applyRoster(null);
+      setStations([]);
+      setSessions([]);
       return;
     }
+    loadStations(eventId);
+    loadSessions(eventId);
+    // Show the cached copy straight away, then replace it from the server
+    loadRoster(eventId)
+      .then((cached) => {
+        if (eventIdRef.current === eventId) applyRoster(cached);
+      })
+      .catch((err) => console.error("Roster cache error:", err))
+      .finally(() => refreshRoster(eventId));
+  }, [eventId]);
 
+  // Other stations' check-ins and new registrations reach the cached roster
+  // right away, so "Already checked in" holds even if the network drops next
+  async function handleLiveAttendee(change: any) {
+    const currentEvent = eventIdRef.current;
+    if (!currentEvent) return;
     try {
-      // Look up attendee by ID (API accepts either "id" or "hemisphere:id")
-      let found: Attendee | null = null;
+      const next = await applyRosterChange(currentEvent, change);
+      if (next && eventIdRef.current === currentEvent) applyRoster(next);
+    } catch (err) {
+      console.error("Live roster update error:", err);
+    }
+  }
+
+  // Other doors into the same sessions move the seat counts; refetch them
+  // at most once a second
+  const sessionReload = useRef<ReturnType<typeof setTimeout> | null>(null);
+  function handleLiveEntry(entry: any) {
+    if (!entry.sessionId || sessionReload.current) return;
+    sessionReload.current = setTimeout(() => {
+      sessionReload.current = null;
+      loadSessions(eventIdRef.current);
+    }, 1000);
+  }
+
+  useLiveUpdates(
+    {
+      registration: handleLiveAttendee,
+      attendee: handleLiveAttendee,
+      checkin: handleLiveAttendee,
+      entry: handleLiveEntry,
+    },
+    eventId || null
+  );
+
+  function handleCameraError(text: string) {
+    setIsScanningEnabled(false); // "Scan Again" retries the camera
+    setScanState("error");
+    setMessage(text);
+  }
+
+  function nameOf(a: Attendee) {
+    return a.name || `${a.firstName || ""} ${a.lastName || ""}`.trim() || "Attendee";
+  }
+
+  // Verifies a scanned badge with the server, or against the cached roster
+  // when the server can't be reached
+  async function lookupBadge(
+    qr: string
+  ): Promise<{ attendee: Attendee; offline: boolean } | { error: string }> {
+    if (navigator.onLine) {
       try {
-        const res = await fetch(`/api/attendees/${encodeURIComponent(id)}`, {
+        // The API verifies the badge signature before returning the attendee,
+        // so a forged or superseded badge never reaches check-in
+        const res = await fetch(`/api/attendees/${encodeURIComponent(qr)}`, {
           cache: "no-store",
         });
-        if (res.ok) {
-          found = await res.json();
-        }
-      } catch (singleErr) {
-        console.error("Single attendee lookup failed:", singleErr);
+        const data = await res.json().catch(() => ({}));
+        if (res.ok) return { attendee: data, offline: false };
+        if (res.status < 500) return { error: data.error || "Badge not recognized." };
+      } catch (err) {
+        console.warn("Lookup failed, using cached roster:", err);
       }
+    }
 
-      // Fallback: load full list from attendees API if direct lookup fails
-      if (!found) {
-        try {
-          const listRes = await fetch("/api/attendees", { cache: "no-store" });
-          if (listRes.ok) {
-            const all: Attendee[] = await listRes.json();
-            found = all.find((a) => String(a.id) === String(id)) || null;
-          }
-        } catch (listErr) {
-          console.error("Fallback attendees lookup failed:", listErr);
-        }
-      }
+    const cached = rosterRef.current;
+    if (!cached) {
+      return { error: "Offline, and no roster is cached for this event yet." };
+    }
+    const match = findInRoster(cached, qr);
+    return match
+      ? { attendee: { ...match, eventId: cached.eventId }, offline: true }
+      : { error: "Badge not recognized (checked offline against the cached roster)." };
+  }
 
-      if (!found) {
-        setScanState("error");
-        setMessage(`No attendee found for ID ${id}.`);
-        setAttendee(null);
-        return;
-      }
-      const displayName =
-        found.name ||
-        `${found.firstName || ""} ${found.lastName || ""}`.trim() ||
-        "Attendee";
+  // The attendee's type as the server reported it, or as the cached roster
+  // has it
+  function typeOf(found: Attendee, reported?: TypeInfo) {
+    if (reported || found.type) return reported || found.type!;
+    const cached = rosterRef.current;
+    return cached && cached.eventId === (found.eventId || cached.eventId) ? attendeeTypeInfo(cached, found) : null;
+  }
 
-      if (!found) {
-        setScanState("error");
-        setMessage(`No attendee found for ID ${idNum}.`);
-        setAttendee(null);
-        return;
-      }
+  function showRejected(found: Attendee, error: string, data?: any) {
+    setScanState("error");
+    setMessage(`${data?.denied ? "Entry denied — " : ""}${nameOf(found)}: ${error}`);
+    setScanType(typeOf(found, data?.type));
+    setAttendee(null);
+  }
 
-      // 🔁 DUPLICATE CHECK: already checked in?
-      if (found.checkedIn) {
-        setAttendee({ ...found, name: displayName });
-        setScanState("found");
-        setMessage(`Already checked in: ${displayName}`);
-
-        if (successSound) {
-          successSound.currentTime = 0;
-          successSound.play().catch(() => {});
-        }
-
-        // Still log the scan (optional)
-        await fetch("/api/scanlog", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            attendeeId: found.id,
-            attendeeName: displayName,
-            attendeeEmail: found.email,
-            method: "scan",
-          }),
-        });
+  // Admits the attendee to the selected session. Offline the seat can't be
+  // checked, so the server decides when the queued write syncs.
+  async function recordAttendance(found: Attendee, current: SessionOption, now: string) {
+    const displayName = nameOf(found);
+    const result = await sendOrQueue("/api/checkin", {
+      id: found.id,
+      sessionId: current.id,
+      stationId: stationRef.current?.id,
+      checkedInAt: now,
+    });
+    if (result.status === "rejected") {
+      showRejected(found, result.error, result.data);
+      return false;
+    }
 
-        return;
+    const seats = (occupancy?: number) =>
+      current.capacity !== null && occupancy !== undefined ? ` (${occupancy}/${current.capacity})` : "";
+
+    if (result.status === "queued") {
+      setMessage(`Admitted to ${current.title}: ${displayName} — saved offline, seat confirmed on sync`);
+    } else if (result.data.alreadyInside) {
+      setMessage(`Already in ${current.title}: ${displayName}`);
+    } else {
+      setMessage(
+        `${result.data.alreadyAttended ? "Back in" : "Admitted to"} ${current.title}${seats(
+          result.data.occupancy
+        )}: ${displayName}`
+      );
+      if (sessionRef.current?.id === current.id) {
+        selectSession({ ...sessionRef.current, occupancy: result.data.occupancy });
       }
+    }
+    setAttendee({ ...found, name: displayName });
+    setScanType(typeOf(found, result.status === "sent" ? result.data.type : undefined));
+    setScanState("found");
+    return true;
+  }
+
+  // Opens the print dialog for a PDF from a hidden frame, so the scanner
+  // page stays on screen
+  function printPdf(blob: Blob) {
+    const url = URL.createObjectURL(blob);
+    const frame = document.createElement("iframe");
+    frame.style.position = "fixed";
+    frame.style.width = "0";
+    frame.style.height = "0";
+    frame.style.border = "0";
+    frame.src = url;
+    frame.onload = () => frame.contentWindow?.print();
+    document.body.appendChild(frame);
+    // Long enough for the print dialog to take the document
+    setTimeout(() => {
+      frame.remove();
+      URL.revokeObjectURL(url);
+    }, 60 * 1000);
+  }
 
-      // ✅ FIRST-TIME CHECK-IN
-      await fetch("/api/checkin", {
+  // Prints the attendee's first badge. The server refuses if another door
+  // printed it meanwhile, so nobody gets two. Returns a note for the status
+  // line.
+  async function printFirstBadge(found: Attendee) {
+    try {
+      const res = await fetch(`/api/attendees/${encodeURIComponent(found.id)}/print`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id, checkedIn: true }),
+        body: JSON.stringify({ onlyIfUnprinted: true, layout: FIRST_BADGE_LAYOUT }),
       });
+      if (res.status === 409) return "badge was already printed";
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        return `badge not printed: ${data.error || "printing failed"}`;
+      }
+      printPdf(await res.blob());
+      return "printing badge";
+    } catch (err) {
+      console.error("Badge print error:", err);
+      return "badge not printed: network error";
+    }
+  }
 
-      setAttendee({ ...found, name: displayName });
-      setScanState("found");
-      setMessage(`Checked in: ${displayName}`);
+  // Lets the attendee in at the event door. Someone who left earlier comes
+  // back as a re-entry; a repeat scan of someone inside records nothing.
+  async function recordEntry(found: Attendee, method: "scan" | "manual", now: string) {
+    const displayName = nameOf(found);
+    const currentEvent = eventIdRef.current;
+    // The server may not know yet about a check-in made here while offline
+    const local = rosterRef.current?.attendees.find((a) => a.id === found.id);
+    const checkedInBefore = !!(found.checkedIn || local?.checkedIn);
 
-      if (successSound) {
-        successSound.currentTime = 0;
-        successSound.play().catch(() => {});
-      }
+    const result = await sendOrQueue("/api/checkin", {
+      id: found.id,
+      stationId: stationRef.current?.id,
+      checkedIn: true,
+      checkedInAt: now,
+    });
+    if (result.status === "rejected") {
+      showRejected(found, result.error, result.data);
+      return false;
+    }
+    if (currentEvent && !checkedInBefore) {
+      await markCheckedIn(currentEvent, found.id, now);
+      applyRoster(await loadRoster(currentEvent));
+    }
 
-      // Save scan log
-      await fetch("/api/scanlog", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          attendeeId: found.id,
-          attendeeName: displayName,
-          attendeeEmail: found.email,
-          method: "scan",
-        }),
+    const manual = method === "manual" ? " (manual)" : "";
+    setAttendee({ ...found, name: displayName, checkedIn: checkedInBefore });
+    setScanType(typeOf(found, result.status === "sent" ? result.data.type : undefined));
+    setScanState("found");
+    if (result.status === "queued") {
+      setMessage(
+        `${checkedInBefore ? "Re-entry" : "Checked in"}${manual}: ${displayName} — saved offline, will sync`
+      );
+    } else if (result.data.alreadyInside) {
+      setMessage(`Already checked in: ${displayName}`);
+    } else if (!result.data.reentry && printOnCheckinRef.current && !found.printedAt) {
+      setMessage(`Checked in${manual}: ${displayName} — printing badge…`);
+      setMessage(`Checked in${manual}: ${displayName} — ${await printFirstBadge(found)}`);
+    } else {
+      setMessage(`${result.data.reentry ? "Re-entry" : "Checked in"}${manual}: ${displayName}`);
+    }
+    return true;
+  }
+
+  // Records the attendee leaving the venue, or the selected session
+  async function recordExit(found: Attendee, current: SessionOption | null, now: string) {
+    const displayName = nameOf(found);
+    const result = await sendOrQueue("/api/checkin", {
+      id: found.id,
+      direction: "out",
+      sessionId: current?.id,
+      stationId: stationRef.current?.id,
+      checkedInAt: now,
+    });
+    if (result.status === "rejected") {
+      showRejected(found, result.error, result.data);
+      return false;
+    }
+
+    const place = current ? current.title : "the venue";
+    setAttendee({ ...found, name: displayName });
+    setScanType(typeOf(found, result.status === "sent" ? result.data.type : undefined));
+    setScanState("found");
+    setMessage(
+      `Left ${place}: ${displayName}` + (result.status === "queued" ? " — saved offline, will sync" : "")
+    );
+    if (current && result.status === "sent" && sessionRef.current?.id === current.id) {
+      selectSession({ ...sessionRef.current, occupancy: result.data.occupancy });
+    }
+    return true;
+  }
+
+  // Records the scan as an entry or exit at the event door or the selected
+  // session, then logs it. Every write queues when the network is down.
+  async function recordCheckin(found: Attendee, method: "scan" | "manual") {
+    const displayName = nameOf(found);
+    const currentEvent = eventIdRef.current;
+
+    if (currentEvent && found.eventId && found.eventId !== currentEvent) {
+      setScanState("error");
+      setMessage(`${displayName} is registered for a different event.`);
+      setAttendee(null);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const currentSession = sessionRef.current;
+
+    // The server checks access when it answers; an attendee found offline
+    // is checked against the cached roster's rules, or the queued write
+    // would only be refused on sync
+    const cached = rosterRef.current;
+    if (directionRef.current !== "out" && !found.type && cached) {
+      const local = cached.attendees.find((a) => a.id === found.id) || found;
+      const denial = accessDenial(cached, local, {
+        sessionId: currentSession?.id,
+        stationId: stationRef.current?.id,
       });
+      if (denial) {
+        showRejected(found, denial, { denied: true });
+        return;
+      }
+    }
+
+    const recorded =
+      directionRef.current === "out"
+        ? await recordExit(found, currentSession, now)
+        : currentSession
+        ? await recordAttendance(found, currentSession, now)
+        : await recordEntry(found, method, now);
+    if (!recorded) return;
+
+    if (method === "scan" && successSound) {
+      successSound.currentTime = 0;
+      successSound.play().catch(() => {});
+    }
+
+    await sendOrQueue("/api/scanlog", {
+      stationId: stationRef.current?.id,
+      attendeeId: found.id,
+      attendeeName: displayName,
+      attendeeEmail: found.email,
+      method,
+      timestamp: now,
+    });
+    await refreshUnsynced();
+  }
+
+  async function handleScanResult(raw: string) {
+    setIsScanningEnabled(false); // pause scanning
+    setLastValue(raw);
+    setLastMethod("scan");
+    setScanType(null);
+
+    const trimmed = raw.trim();
+    const normalized = trimmed.toLowerCase().startsWith("hemisphere:")
+      ? trimmed
+      : `hemisphere:${trimmed}`;
+
+    if (!trimmed) {
+      setScanState("error");
+      setMessage(`Could not read attendee ID from code: "${raw}"`);
+      setAttendee(null);
+      return;
+    }
+
+    try {
+      const result = await lookupBadge(normalized);
+      if ("error" in result) {
+        setScanState("error");
+        setMessage(result.error);
+        setAttendee(null);
+        return;
+      }
+
+      await recordCheckin(result.attendee, "scan");
     } catch (err) {
       console.error("Error during scan lookup/check-in:", err);
       setScanState("error");
@@ -257,6 +698,21 @@ export default function ScannerPage() {
     }
   }
 
+  // Searches the server when reachable, otherwise the cached roster
+  async function searchAttendees(): Promise<Attendee[] | null> {
+    const currentEvent = eventIdRef.current;
+    if (navigator.onLine) {
+      try {
+        const query = currentEvent ? `?eventId=${encodeURIComponent(currentEvent)}` : "";
+        const res = await fetch(`/api/attendees${query}`, { cache: "no-store" });
+        if (res.ok) return await res.json();
+      } catch (err) {
+        console.warn("Attendee search failed, using cached roster:", err);
+      }
+    }
+    return rosterRef.current ? rosterRef.current.attendees : null;
+  }
+
   async function handleManualCheckin() {
     const term = manualName.trim();
     if (!term) {
@@ -269,16 +725,16 @@ export default function ScannerPage() {
     setLastMethod("manual");
     setScanState("scanning");
     setAttendee(null);
+    setScanType(null);
     setMessage(`Searching for "${term}"...`);
 
     try {
-      const res = await fetch("/api/attendees", { cache: "no-store" });
-      if (!res.ok) {
+      const list = await searchAttendees();
+      if (!list) {
         setScanState("error");
         setMessage("Could not load attendees. Try again.");
         return;
       }
-      const list: Attendee[] = await res.json();
       const lower = term.toLowerCase();
       const found =
         list.find((a) => {
@@ -292,50 +748,7 @@ export default function ScannerPage() {
         return;
       }
 
-      const displayName =
-        found.name ||
-        `${found.firstName || ""} ${found.lastName || ""}`.trim() ||
-        "Attendee";
-
-      // If already checked in, just show info
-      if (found.checkedIn) {
-        setAttendee({ ...found, name: displayName });
-        setScanState("found");
-        setMessage(`Already checked in: ${displayName}`);
-
-        await fetch("/api/scanlog", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            attendeeId: found.id,
-            attendeeName: displayName,
-            attendeeEmail: found.email,
-            method: "manual",
-          }),
-        });
-        return;
-      }
-
-      await fetch("/api/checkin", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id: found.id, checkedIn: true }),
-      });
-
-      setAttendee({ ...found, name: displayName });
-      setScanState("found");
-      setMessage(`Checked in (manual): ${displayName}`);
-
-      await fetch("/api/scanlog", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          attendeeId: found.id,
-          attendeeName: displayName,
-          attendeeEmail: found.email,
-          method: "manual",
-        }),
-      });
+      await recordCheckin(found, "manual");
     } catch (err) {
       console.error("Error during manual lookup/check-in:", err);
       setScanState("error");
@@ -347,6 +760,7 @@ export default function ScannerPage() {
     setScanState("scanning");
     setMessage("Point a Hemisphere badge QR code at the camera.");
     setAttendee(null);
+    setScanType(null);
     setIsScanningEnabled(true);
   }
 
@@ -370,6 +784,183 @@ export default function ScannerPage() {
           </a>
         </header>
 
+        {/* Event + offline sync */}
+        <section className="bg-slate-900 border border-slate-700 rounded-xl p-4 text-sm space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2 justify-between">
+            <label className="flex items-center gap-2">
+              <span className="text-slate-400">Event</span>
+              <select
+                value={eventId}
+                onChange={(e) => selectEvent(e.target.value)}
+                className="rounded bg-slate-800 border border-slate-700 px-2 py-1 text-sm text-slate-50"
+              >
+                <option value="">Select an event</option>
+                {/* Offline the event list can't load, but the saved choice still applies */}
+                {eventId && !events.some((ev) => ev.id === eventId) && (
+                  <option value={eventId}>{roster?.eventName || eventId}</option>
+                )}
+                {events.map((ev) => (
+                  <option key={ev.id} value={ev.id}>
+                    {ev.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                online ? "bg-emerald-500/20 text-emerald-300" : "bg-amber-500/20 text-amber-300"
+              }`}
+            >
+              {online ? "Online" : "Offline — check-ins are saved on this device"}
+            </span>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2 justify-between text-xs text-slate-400">
+            <p>
+              {roster
+                ? `Roster cached: ${roster.attendees.length} attendees · updated ${new Date(
+                    roster.generatedAt
+                  ).toLocaleTimeString()}`
+                : eventId
+                ? "No roster cached yet. Connect once to download it."
+                : "Select an event to cache its roster for offline check-in."}
+            </p>
+            <div className="flex items-center gap-2">
+              <span className={unsynced > 0 ? "text-amber-300 font-semibold" : ""}>
+                {unsynced} unsynced
+              </span>
+              <button
+                onClick={() => syncNow().then(() => refreshRoster(eventIdRef.current))}
+                disabled={!online}
+                className="px-3 py-1 rounded bg-slate-100 text-slate-900 text-xs font-semibold disabled:opacity-40"
+              >
+                Sync now
+              </button>
+            </div>
+          </div>
+          {syncNote && <p className="text-[11px] text-slate-500">{syncNote}</p>}
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2 justify-between border-t border-slate-800 pt-3">
+            <label className="flex items-center gap-2">
+              <span className="text-slate-400">Station</span>
+              <select
+                value={station?.id || ""}
+                onChange={(e) =>
+                  selectStation(stations.find((s) => s.id === e.target.value) || null)
+                }
+                disabled={!eventId}
+                className="rounded bg-slate-800 border border-slate-700 px-2 py-1 text-sm text-slate-50"
+              >
+                <option value="">No station</option>
+                {station && !stations.some((s) => s.id === station.id) && (
+                  <option value={station.id}>{station.name}</option>
+                )}
+                {stations.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                    {s.location ? ` — ${s.location}` : ""}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {station && (
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-slate-400">People in line</span>
+                <button
+                  onClick={() => reportQueue(queueLength - 5)}
+                  disabled={!online || queueLength < 5}
+                  className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 disabled:opacity-40"
+                >
+                  −5
+                </button>
+                <span className="w-8 text-center font-semibold">{queueLength}</span>
+                <button
+                  onClick={() => reportQueue(queueLength + 5)}
+                  disabled={!online}
+                  className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 disabled:opacity-40"
+                >
+                  +5
+                </button>
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2 justify-between border-t border-slate-800 pt-3">
+            <label className="flex items-center gap-2">
+              <span className="text-slate-400">Mode</span>
+              <select
+                value={session?.id || ""}
+                onChange={(e) =>
+                  selectSession(sessions.find((s) => s.id === e.target.value) || null)
+                }
+                disabled={!eventId}
+                className="rounded bg-slate-800 border border-slate-700 px-2 py-1 text-sm text-slate-50"
+              >
+                <option value="">Event entry</option>
+                {session && !sessions.some((s) => s.id === session.id) && (
+                  <option value={session.id}>Session: {session.title}</option>
+                )}
+                {sessions.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    Session: {s.title} · {s.startsAt.slice(11)}
+                    {s.room ? ` · ${s.room}` : ""}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex rounded overflow-hidden border border-slate-700 text-xs font-semibold">
+              {(
+                [
+                  ["in", "Entry"],
+                  ["out", "Exit"],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => selectDirection(value)}
+                  className={`px-3 py-1 ${
+                    direction === value
+                      ? value === "out"
+                        ? "bg-amber-500 text-slate-900"
+                        : "bg-emerald-500 text-slate-900"
+                      : "bg-slate-800 text-slate-300"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={printOnCheckin}
+                onChange={(e) => selectPrintOnCheckin(e.target.checked)}
+              />
+              Print badge on first check-in
+            </label>
+            {session && (
+              <span
+                className={`text-xs font-semibold ${
+                  session.capacity !== null && (session.occupancy || 0) >= session.capacity
+                    ? "text-red-400"
+                    : "text-slate-300"
+                }`}
+              >
+                {session.capacity !== null
+                  ? `${session.occupancy || 0}/${session.capacity} seats taken`
+                  : `${session.occupancy || 0} inside`}
+              </span>
+            )}
+          </div>
+          <p className="text-[11px] text-slate-500">
+            {operatorName ? `Operator: ${operatorName}` : "Operator: not signed in"}
+            {station ? ` · scans are logged to ${station.name}` : ""}
+            {session
+              ? ` · ${direction === "out" ? "letting people out of" : "admitting to"} ${session.title}`
+              : direction === "out"
+              ? " · recording exits from the venue"
+              : ""}
+            {printOnCheckin ? " · printing badges for people who don't have one yet" : ""}
+          </p>
+        </section>
+
         {/* Status */}
         <section className="bg-slate-900 border border-slate-700 rounded-xl p-4 text-sm flex justify-between items-center">
           <div>
@@ -392,8 +983,24 @@ export default function ScannerPage() {
                   ? "Attendee found"
                   : "Error"}
               </span>
+              {direction === "out" && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-[11px] bg-amber-500/20 text-amber-300">
+                  Exit mode
+                </span>
+              )}
             </p>
             <p className="text-slate-400 mt-1">{message}</p>
+            {scanType && (
+              <p className="mt-2">
+                <span
+                  className="inline-block px-3 py-1 rounded-full text-sm font-semibold text-white"
+                  style={{ backgroundColor: scanType.color }}
+                >
+                  {scanType.label}
+                  {scanType.ticket ? ` · ${scanType.ticket}` : ""}
+                </span>
+              </p>
+            )}
             {lastValue && (
               <p className="text-[11px] text-slate-500 mt-1">
                 Last entry: {lastValue} {lastMethod ? `(${lastMethod})` : ""}
@@ -413,23 +1020,11 @@ export default function ScannerPage() {
 
         {/* Video + overlay */}
         <section className="bg-slate-900 border border-slate-700 rounded-xl p-4 flex flex-col items-center">
-          {!browserSupported && (
-            <p className="text-sm text-red-400 mb-3">
-              Browser does not support BarcodeDetector. Try Chrome or Edge.
-            </p>
-          )}
-          <div className="relative w-full max-w-md aspect-[3/4] bg-black rounded-xl overflow-hidden">
-            <video
-              ref={videoRef}
-              className="w-full h-full object-cover"
-              autoPlay
-              muted
-              playsInline
-            />
-            {/* Scan frame */}
-            <div className="absolute inset-10 border-2 border-green-400 rounded-xl pointer-events-none" />
-          </div>
-          <canvas ref={canvasRef} className="hidden" />
+          <QrScanner
+            active={isScanningEnabled}
+            onScan={handleScanResult}
+            onError={handleCameraError}
+          />
           <p className="text-xs text-slate-500 mt-3">
             Tip: Hold the badge steady so the QR is inside the green frame.
           </p>
@@ -491,7 +1086,11 @@ export default function ScannerPage() {
                 <span className="text-slate-400">ID:</span> {attendee.id}
               </p>
               <p className="text-green-400 text-xs mt-1">
-                {attendee.checkedIn
+                {direction === "out"
+                  ? `Recorded leaving ${session ? session.title : "the venue"}.`
+                  : session
+                  ? `Admitted to ${session.title}.`
+                  : attendee.checkedIn
                   ? "This attendee has already been checked in."
                   : "This attendee has been marked as checked in."}
               </p>